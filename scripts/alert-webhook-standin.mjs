@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+// Local stand-in for an alert webhook: logs every POST from alert-dispatcher.
+// Usage: node scripts/alert-webhook-standin.mjs [port]
+// Set STANDIN_FAIL=1 to answer 500 and exercise the "failed" delivery path.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 8787);
+const fail = process.env.STANDIN_FAIL === '1';
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let payload = body;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      // Log non-JSON bodies as-is
+    }
+    console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
+    console.log(JSON.stringify(payload, null, 2));
+
+    res.writeHead(fail ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: !fail }));
+  });
+}).listen(port, () => {
+  console.log(`Alert webhook stand-in listening on http://localhost:${port}${fail ? ' (failing every request)' : ''}`);
+});
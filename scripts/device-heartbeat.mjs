@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+// Device heartbeat: reports disk space, CPU temperature and uptime of a camera host or
+// Raspberry Pi to the device-status function, which also pings the cameras it serves.
+// Usage: SUPABASE_URL=... DEVICE_API_KEY=... node scripts/device-heartbeat.mjs [--interval <seconds>] [--dry-run]
+// Optional: CAMERA_IDS=<uuid,uuid> for keys not bound to one camera, DISK_PATH (default /).
+import { readFile, statfs } from 'node:fs/promises';
+import { hostname, uptime } from 'node:os';
+
+const THERMAL_ZONE = '/sys/class/thermal/thermal_zone0/temp';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const intervalIndex = args.indexOf('--interval');
+const intervalSeconds = intervalIndex >= 0 ? Number(args[intervalIndex + 1]) : 0;
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const deviceKey = process.env.DEVICE_API_KEY;
+const diskPath = process.env.DISK_PATH || '/';
+const cameraIds = (process.env.CAMERA_IDS || '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+if (!dryRun && (!supabaseUrl || !deviceKey)) {
+  console.error('SUPABASE_URL and DEVICE_API_KEY are required (or use --dry-run)');
+  process.exit(1);
+}
+
+const log = (message) => console.log(`[${new Date().toISOString()}] ${message}`);
+
+async function readDisk() {
+  try {
+    const stats = await statfs(diskPath);
+    return { total: stats.blocks * stats.bsize, free: stats.bavail * stats.bsize };
+  } catch {
+    return { total: null, free: null };
+  }
+}
+
+// Millidegrees Celsius on Raspberry Pi OS and most Linux boards; absent elsewhere
+async function readTemperature() {
+  try {
+    const value = Number((await readFile(THERMAL_ZONE, 'utf8')).trim());
+    return Number.isFinite(value) ? Math.round(value / 100) / 10 : null;
+  } catch {
+    return null;
+  }
+}
+
+async function report() {
+  const disk = await readDisk();
+  const payload = {
+    hostname: hostname(),
+    disk_total_bytes: disk.total,
+    disk_free_bytes: disk.free,
+    temperature_c: await readTemperature(),
+    uptime_seconds: Math.round(uptime()),
+    camera_ids: cameraIds,
+  };
+
+  if (dryRun) {
+    console.log(JSON.stringify(payload, null, 2));
+    return;
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/device-status`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Device-Key': deviceKey },
+    body: JSON.stringify(payload),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+  log(`Status reported, ${result.pinged} camera(s) pinged`);
+  if (result.probed?.length > 0) {
+    log(`Server-side probing sets the status of ${result.probed.join(', ')}; this heartbeat does not`);
+  }
+}
+
+async function run() {
+  try {
+    await report();
+  } catch (error) {
+    log(`Report failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!intervalSeconds) process.exitCode = 1;
+  }
+}
+
+await run();
+if (intervalSeconds > 0) {
+  log(`Repeating every ${intervalSeconds} second(s)`);
+  setInterval(run, intervalSeconds * 1000);
+}
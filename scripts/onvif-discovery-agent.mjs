@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// ONVIF discovery agent: finds cameras on the local network with WS-Discovery, reads their
+// media profiles (GetProfiles / GetStreamUri) and reports them to the onvif-discovery function,
+// where admins can add them from Camera Management -> Discovered cameras.
+// Usage: SUPABASE_URL=... DEVICE_API_KEY=... node scripts/onvif-discovery-agent.mjs [--interval <minutes>] [--dry-run]
+// Optional: ONVIF_USERNAME / ONVIF_PASSWORD for cameras that require a login to list profiles.
+import { createSocket } from 'node:dgram';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+
+const WS_DISCOVERY_ADDRESS = '239.255.255.250';
+const WS_DISCOVERY_PORT = 3702;
+const PROBE_WAIT_MS = 3000;
+const SOAP_TIMEOUT_MS = 5000;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const intervalIndex = args.indexOf('--interval');
+const intervalMinutes = intervalIndex >= 0 ? Number(args[intervalIndex + 1]) : 0;
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+// Organisation-wide device key (Camera Management -> Device Keys); it decides the organisation
+const deviceApiKey = process.env.DEVICE_API_KEY;
+const onvifUsername = process.env.ONVIF_USERNAME;
+const onvifPassword = process.env.ONVIF_PASSWORD || '';
+
+if (!dryRun && (!supabaseUrl || !deviceApiKey)) {
+  console.error('SUPABASE_URL and DEVICE_API_KEY are required (or use --dry-run)');
+  process.exit(1);
+}
+
+const log = (message) => console.log(`[${new Date().toISOString()}] ${message}`);
+
+// --- Minimal XML helpers (ONVIF responses are small and regular) ---
+
+function decodeXml(text) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function allTags(xml, name) {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, 'g');
+  return [...xml.matchAll(pattern)].map((match) => ({ attributes: match[1] || '', inner: match[2] || '' }));
+}
+
+function tagText(xml, name) {
+  const [first] = allTags(xml, name);
+  return first ? decodeXml(first.inner) : null;
+}
+
+function attribute(attributes, name) {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// --- WS-Discovery ---
+
+function probe() {
+  const message = `<?xml version="1.0" encoding="UTF-8"?>
+<e:Envelope xmlns:e="http://www.w3.org/2003/05/soap-envelope" xmlns:w="http://schemas.xmlsoap.org/ws/2004/08/addressing" xmlns:d="http://schemas.xmlsoap.org/ws/2005/04/discovery" xmlns:dn="http://www.onvif.org/ver10/network/wsdl">
+  <e:Header>
+    <w:MessageID>uuid:${randomUUID()}</w:MessageID>
+    <w:To e:mustUnderstand="true">urn:schemas-xmlsoap-org:ws:2005:04:discovery</w:To>
+    <w:Action e:mustUnderstand="true">http://schemas.xmlsoap.org/ws/2005/04/discovery/Probe</w:Action>
+  </e:Header>
+  <e:Body><d:Probe><d:Types>dn:NetworkVideoTransmitter</d:Types></d:Probe></e:Body>
+</e:Envelope>`;
+
+  return new Promise((resolve, reject) => {
+    const devices = new Map();
+    const socket = createSocket({ type: 'udp4', reuseAddr: true });
+
+    socket.on('error', (error) => {
+      socket.close();
+      reject(error);
+    });
+
+    socket.on('message', (buffer, remote) => {
+      const xml = buffer.toString();
+      const endpointReference = tagText(allTags(xml, 'EndpointReference')[0]?.inner || '', 'Address');
+      const xaddrs = (tagText(xml, 'XAddrs') || '').split(/\s+/).filter(Boolean);
+      if (!endpointReference || xaddrs.length === 0) return;
+
+      // Devices with several interfaces list one XAddr per address; prefer the one that answered
+      const xaddr = xaddrs.find((x) => x.includes(`//${remote.address}`)) || xaddrs[0];
+      const scopes = (tagText(xml, 'Scopes') || '').split(/\s+/).filter(Boolean);
+      devices.set(endpointReference, { endpointReference, address: remote.address, xaddr, scopes });
+    });
+
+    socket.bind(() => {
+      socket.send(message, WS_DISCOVERY_PORT, WS_DISCOVERY_ADDRESS);
+      setTimeout(() => {
+        socket.close();
+        resolve([...devices.values()]);
+      }, PROBE_WAIT_MS);
+    });
+  });
+}
+
+function scopeValue(scopes, key) {
+  const prefix = `onvif://www.onvif.org/${key}/`;
+  const scope = scopes.find((s) => s.startsWith(prefix));
+  if (!scope) return null;
+  try {
+    return decodeURIComponent(scope.slice(prefix.length)).replace(/_/g, ' ');
+  } catch {
+    return scope.slice(prefix.length);
+  }
+}
+
+// --- ONVIF SOAP ---
+
+function securityHeader() {
+  if (!onvifUsername) return '';
+  const nonce = randomBytes(16);
+  const created = new Date().toISOString();
+  const digest = createHash('sha1')
+    .update(Buffer.concat([nonce, Buffer.from(created), Buffer.from(onvifPassword)]))
+    .digest('base64');
+
+  return `<s:Header><Security s:mustUnderstand="1" xmlns="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd"><UsernameToken><Username>${onvifUsername}</Username><Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">${digest}</Password><Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">${nonce.toString('base64')}</Nonce><Created xmlns="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">${created}</Created></UsernameToken></Security></s:Header>`;
+}
+
+async function soap(url, body) {
+  const envelope = `<?xml version="1.0" encoding="UTF-8"?><s:Envelope xmlns:s="http://www.w3.org/2003/05/soap-envelope">${securityHeader()}<s:Body>${body}</s:Body></s:Envelope>`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+    body: envelope,
+    signal: AbortSignal.timeout(SOAP_TIMEOUT_MS),
+  });
+  const xml = await response.text();
+  if (!response.ok) {
+    const reason = tagText(xml, 'Text') || tagText(xml, 'faultstring');
+    throw new Error(`HTTP ${response.status}${reason ? `: ${reason}` : ''}`);
+  }
+  return xml;
+}
+
+async function readProfiles(xaddr) {
+  const deviceInfo = await soap(xaddr, '<GetDeviceInformation xmlns="http://www.onvif.org/ver10/device/wsdl"/>');
+  const capabilities = await soap(
+    xaddr,
+    '<GetCapabilities xmlns="http://www.onvif.org/ver10/device/wsdl"><Category>Media</Category></GetCapabilities>'
+  );
+  const mediaXaddr = tagText(allTags(capabilities, 'Media')[0]?.inner || '', 'XAddr') || xaddr;
+
+  const profilesXml = await soap(mediaXaddr, '<GetProfiles xmlns="http://www.onvif.org/ver10/media/wsdl"/>');
+  const profiles = [];
+
+  for (const { attributes, inner } of allTags(profilesXml, 'Profiles')) {
+    const token = attribute(attributes, 'token');
+    if (!token) continue;
+
+    const encoder = allTags(inner, 'VideoEncoderConfiguration')[0]?.inner || '';
+    const resolution = allTags(encoder, 'Resolution')[0]?.inner || '';
+    const streamXml = await soap(
+      mediaXaddr,
+      `<GetStreamUri xmlns="http://www.onvif.org/ver10/media/wsdl"><StreamSetup><Stream xmlns="http://www.onvif.org/ver10/schema">RTP-Unicast</Stream><Transport xmlns="http://www.onvif.org/ver10/schema"><Protocol>RTSP</Protocol></Transport></StreamSetup><ProfileToken>${token}</ProfileToken></GetStreamUri>`
+    ).catch(() => null);
+
+    profiles.push({
+      token,
+      name: tagText(inner, 'Name'),
+      encoding: tagText(encoder, 'Encoding'),
+      stream_uri: streamXml ? tagText(streamXml, 'Uri') : null,
+      width: Number(tagText(resolution, 'Width')) || null,
+      height: Number(tagText(resolution, 'Height')) || null,
+      fps: Number(tagText(encoder, 'FrameRateLimit')) || null,
+    });
+  }
+
+  return {
+    manufacturer: tagText(deviceInfo, 'Manufacturer'),
+    model: tagText(deviceInfo, 'Model'),
+    profiles,
+  };
+}
+
+// --- Main ---
+
+async function discover() {
+  const devices = await probe();
+  log(`WS-Discovery found ${devices.length} device(s)`);
+
+  const cameras = [];
+  for (const device of devices) {
+    const camera = {
+      endpoint_reference: device.endpointReference,
+      address: device.address,
+      xaddr: device.xaddr,
+      name: scopeValue(device.scopes, 'name'),
+      location: scopeValue(device.scopes, 'location'),
+      manufacturer: null,
+      model: scopeValue(device.scopes, 'hardware'),
+      profiles: [],
+      error: null,
+    };
+
+    try {
+      Object.assign(camera, await readProfiles(device.xaddr));
+      log(`${device.address}: ${camera.manufacturer || '?'} ${camera.model || ''} with ${camera.profiles.length} profile(s)`);
+    } catch (error) {
+      // Still report it so admins know the device exists (usually a missing or wrong login)
+      camera.error = error instanceof Error ? error.message : 'Unknown error';
+      log(`${device.address}: could not read profiles (${camera.error})`);
+    }
+
+    cameras.push(camera);
+  }
+
+  const payload = { agent: hostname(), cameras };
+
+  if (dryRun) {
+    console.log(JSON.stringify(payload, null, 2));
+    return;
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/onvif-discovery`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Device-Key': deviceApiKey },
+    body: JSON.stringify(payload),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+  log(`Reported ${result.reported} camera(s)`);
+}
+
+async function run() {
+  try {
+    await discover();
+  } catch (error) {
+    log(`Discovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!intervalMinutes) process.exitCode = 1;
+  }
+}
+
+await run();
+if (intervalMinutes > 0) {
+  log(`Repeating every ${intervalMinutes} minute(s)`);
+  setInterval(run, intervalMinutes * 60 * 1000);
+}
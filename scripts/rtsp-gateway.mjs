@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+// RTSP -> HLS gateway for cameras with stream type "rtsp".
+// Pulls camera URLs (with their stored logins) from the rtsp-gateway-sources function,
+// starts ffmpeg for a camera when its playlist is first requested and stops it when idle.
+// Only hls-proxy talks to it: every request must carry the shared X-Gateway-Secret.
+// Usage: SUPABASE_URL=... RTSP_GATEWAY_SECRET=... node scripts/rtsp-gateway.mjs [port]
+// Requires ffmpeg on PATH (or FFMPEG_PATH). See RTSP_SETUP.md.
+import { createServer } from 'node:http';
+import { spawn } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const port = Number(process.argv[2] || process.env.PORT || 8788);
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const secret = process.env.RTSP_GATEWAY_SECRET;
+const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+const hlsRoot = process.env.HLS_DIR || join(tmpdir(), 'rtsp-gateway');
+const idleTimeoutMs = Number(process.env.IDLE_TIMEOUT_SECONDS || 60) * 1000;
+const refreshIntervalMs = Number(process.env.SOURCES_REFRESH_SECONDS || 60) * 1000;
+const PLAYLIST_WAIT_MS = 15000;
+
+if (!supabaseUrl || !secret) {
+  console.error('SUPABASE_URL and RTSP_GATEWAY_SECRET are required');
+  process.exit(1);
+}
+
+const STREAM_PATH = /^\/streams\/([0-9a-f-]{36})\/([\w.-]+\.(ts|m4s|mp4|m3u8))$/i;
+const CONTENT_TYPES = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t',
+  m4s: 'video/iso.segment',
+  mp4: 'video/mp4',
+};
+
+/** camera id -> RTSP URL including credentials; never logged */
+let sources = new Map();
+/** camera id -> { process, url, lastAccess } */
+const transcoders = new Map();
+
+const log = (message) => console.log(`[${new Date().toISOString()}] ${message}`);
+
+async function refreshSources() {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/rtsp-gateway-sources`, {
+      headers: { 'X-Gateway-Secret': secret },
+    });
+    const body = await response.json();
+    if (!response.ok || !body.success) throw new Error(body.error || `HTTP ${response.status}`);
+
+    sources = new Map(body.sources.map((source) => [source.camera_id, source.url]));
+
+    // Restart on the next request if a camera was removed or its URL/login changed
+    for (const [cameraId, transcoder] of transcoders) {
+      if (sources.get(cameraId) !== transcoder.url) stopTranscoder(cameraId, 'source changed');
+    }
+  } catch (error) {
+    log(`Failed to refresh sources: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function startTranscoder(cameraId, url) {
+  const outputDir = join(hlsRoot, cameraId);
+  const ffmpeg = spawn(
+    ffmpegPath,
+    [
+      '-hide_banner', '-loglevel', 'error',
+      '-rtsp_transport', 'tcp',
+      '-i', url,
+      '-c:v', 'copy', '-an',
+      '-f', 'hls',
+      '-hls_time', '2',
+      '-hls_list_size', '6',
+      '-hls_flags', 'delete_segments',
+      join(outputDir, 'index.m3u8'),
+    ],
+    { stdio: ['ignore', 'ignore', 'pipe'] }
+  );
+
+  const transcoder = { process: ffmpeg, url, lastAccess: Date.now() };
+  transcoders.set(cameraId, transcoder);
+  log(`Started transcoder for ${cameraId}`);
+
+  ffmpeg.stderr.on('data', (chunk) => log(`[${cameraId}] ${chunk.toString().trim()}`));
+  ffmpeg.on('exit', (code) => {
+    if (transcoders.get(cameraId) === transcoder) transcoders.delete(cameraId);
+    log(`Transcoder for ${cameraId} exited (${code ?? 'signal'})`);
+  });
+  ffmpeg.on('error', (error) => log(`Could not run ffmpeg for ${cameraId}: ${error.message}`));
+}
+
+function stopTranscoder(cameraId, reason) {
+  const transcoder = transcoders.get(cameraId);
+  if (!transcoder) return;
+  transcoders.delete(cameraId);
+  transcoder.process.kill('SIGTERM');
+  log(`Stopping transcoder for ${cameraId}: ${reason}`);
+}
+
+async function ensureTranscoder(cameraId) {
+  const running = transcoders.get(cameraId);
+  if (running) {
+    running.lastAccess = Date.now();
+    return true;
+  }
+
+  let url = sources.get(cameraId);
+  if (!url) {
+    // A camera added since the last refresh
+    await refreshSources();
+    url = sources.get(cameraId);
+  }
+  if (!url) return false;
+
+  const outputDir = join(hlsRoot, cameraId);
+  await rm(outputDir, { recursive: true, force: true });
+  await mkdir(outputDir, { recursive: true });
+  startTranscoder(cameraId, url);
+  return true;
+}
+
+async function waitForFile(path, timeoutMs) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      return await stat(path);
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const send = (status, message) => {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(message);
+  };
+
+  try {
+    const { pathname } = new URL(req.url, 'http://localhost');
+
+    if (pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, sources: sources.size, running: transcoders.size }));
+      return;
+    }
+
+    if (req.headers['x-gateway-secret'] !== secret) return send(401, 'Unauthorized');
+    if (req.method !== 'GET') return send(405, 'Method not allowed');
+
+    const match = pathname.match(STREAM_PATH);
+    if (!match) return send(404, 'Not found');
+
+    const [, cameraId, file, extension] = match;
+    if (!(await ensureTranscoder(cameraId))) return send(404, 'Unknown camera');
+
+    const filePath = join(hlsRoot, cameraId, file);
+    // ffmpeg needs a few seconds to write the first playlist after starting
+    const fileStat = await waitForFile(filePath, extension === 'm3u8' ? PLAYLIST_WAIT_MS : 0);
+    if (!fileStat) return send(404, 'Not ready');
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extension.toLowerCase()],
+      'Content-Length': fileStat.size,
+      'Cache-Control': extension === 'm3u8' ? 'no-cache' : 'max-age=60',
+    });
+    createReadStream(filePath).pipe(res);
+  } catch (error) {
+    log(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!res.headersSent) send(500, 'Gateway error');
+  }
+});
+
+// Stop transcoders nobody has watched for a while
+const idleSweep = setInterval(() => {
+  const now = Date.now();
+  for (const [cameraId, transcoder] of transcoders) {
+    if (now - transcoder.lastAccess > idleTimeoutMs) stopTranscoder(cameraId, 'idle');
+  }
+}, 10000);
+const sourceRefresh = setInterval(refreshSources, refreshIntervalMs);
+
+function shutdown() {
+  clearInterval(idleSweep);
+  clearInterval(sourceRefresh);
+  for (const cameraId of [...transcoders.keys()]) stopTranscoder(cameraId, 'shutdown');
+  server.close(() => process.exit(0));
+}
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+await mkdir(hlsRoot, { recursive: true });
+await refreshSources();
+server.listen(port, () => {
+  log(`RTSP gateway listening on http://localhost:${port} (${sources.size} RTSP camera(s), HLS in ${hlsRoot})`);
+});
@@ -7,6 +7,13 @@ import { Layout } from "@/components/Layout";
 import { Dashboard } from "@/pages/Dashboard";
 import { CameraManagement } from "@/pages/CameraManagement";
 import { MonitoringRecords } from "@/pages/MonitoringRecords";
+import { Schedules } from "@/pages/Schedules";
+import { Users } from "@/pages/Users";
+import { Audit } from "@/pages/Audit";
+import { Recorders } from "@/pages/Recorders";
+import { Reports } from "@/pages/Reports";
+import { Alerts } from "@/pages/Alerts";
+import { Notifications } from "@/pages/Notifications";
 import Settings from "@/pages/Settings";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -26,6 +33,13 @@ const App = () => (
           <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
           <Route path="/cameras" element={<ProtectedRoute><Layout><CameraManagement /></Layout></ProtectedRoute>} />
           <Route path="/records" element={<ProtectedRoute><Layout><MonitoringRecords /></Layout></ProtectedRoute>} />
+          <Route path="/schedules" element={<ProtectedRoute><Layout><Schedules /></Layout></ProtectedRoute>} />
+          <Route path="/recorders" element={<ProtectedRoute><Layout><Recorders /></Layout></ProtectedRoute>} />
+          <Route path="/reports" element={<ProtectedRoute><Layout><Reports /></Layout></ProtectedRoute>} />
+          <Route path="/notifications" element={<ProtectedRoute><Layout><Notifications /></Layout></ProtectedRoute>} />
+          <Route path="/alerts" element={<ProtectedRoute><Layout><Alerts /></Layout></ProtectedRoute>} />
+          <Route path="/users" element={<ProtectedRoute><Layout><Users /></Layout></ProtectedRoute>} />
+          <Route path="/audit" element={<ProtectedRoute><Layout><Audit /></Layout></ProtectedRoute>} />
           <Route path="/settings" element={<ProtectedRoute><Layout><Settings /></Layout></ProtectedRoute>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -2,8 +2,15 @@ import {
   Monitor, 
   Video, 
   FileText, 
+  CalendarClock,
+  HardDrive,
+  BarChart3,
+  BellRing,
+  Users,
+  ScrollText,
   Settings, 
-  LogOut
+  LogOut,
+  MapPin
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 
@@ -25,12 +32,22 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useCameraGroups } from "@/hooks/useCameraGroups";
+import { hasRole, useRole } from "@/hooks/useRole";
+import { OrgRole } from "@/types";
 
-const mainNavItems = [
-  { title: "Dashboard", url: "/", icon: Monitor },
-  { title: "Camera Management", url: "/cameras", icon: Video },
-  { title: "Monitoring Records", url: "/records", icon: FileText },
-  { title: "Settings", url: "/settings", icon: Settings },
+// minRole hides pages whose data the user's role can't read anyway
+const mainNavItems: { title: string; url: string; icon: typeof Monitor; minRole: OrgRole }[] = [
+  { title: "Dashboard", url: "/", icon: Monitor, minRole: "viewer" },
+  { title: "Camera Management", url: "/cameras", icon: Video, minRole: "viewer" },
+  { title: "Monitoring Records", url: "/records", icon: FileText, minRole: "operator" },
+  { title: "Schedules", url: "/schedules", icon: CalendarClock, minRole: "operator" },
+  { title: "Recorders", url: "/recorders", icon: HardDrive, minRole: "operator" },
+  { title: "Reports", url: "/reports", icon: BarChart3, minRole: "viewer" },
+  { title: "Alerts", url: "/alerts", icon: BellRing, minRole: "admin" },
+  { title: "Users", url: "/users", icon: Users, minRole: "admin" },
+  { title: "Audit Log", url: "/audit", icon: ScrollText, minRole: "admin" },
+  { title: "Settings", url: "/settings", icon: Settings, minRole: "viewer" },
 ];
 
 export function AppSidebar() {
@@ -41,6 +58,9 @@ export function AppSidebar() {
   
   const { user, signOut } = useAuth();
   const { appSettings } = useAppSettings();
+  const { groups } = useCameraGroups();
+  const { role } = useRole();
+  const activeGroup = currentPath === "/" ? new URLSearchParams(location.search).get("group") : null;
 
   // Generate initials from email
   const getInitials = (email: string | undefined) => {
@@ -55,7 +75,7 @@ export function AppSidebar() {
     return email.split('@')[0];
   };
 
-  const isActive = (path: string) => currentPath === path;
+  const isActive = (path: string) => currentPath === path && !(path === "/" && activeGroup);
   const getNavClass = (path: string) =>
     isActive(path) 
       ? "bg-sidebar-accent text-sidebar-primary font-medium" 
@@ -114,7 +134,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Main Menu</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainNavItems.map((item) => (
+              {mainNavItems.filter((item) => hasRole(role, item.minRole)).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} className={getNavClass(item.url)}>
@@ -127,6 +147,33 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {groups.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Groups</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {groups.map((group) => (
+                  <SidebarMenuItem key={group.id}>
+                    <SidebarMenuButton asChild tooltip={group.name}>
+                      <NavLink
+                        to={`/?group=${group.id}`}
+                        className={
+                          activeGroup === group.id
+                            ? "bg-sidebar-accent text-sidebar-primary font-medium"
+                            : "hover:bg-sidebar-accent/50"
+                        }
+                      >
+                        <MapPin className="h-4 w-4" />
+                        {!collapsed && <span className="truncate">{group.name}</span>}
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter className="border-t border-sidebar-border p-4">
@@ -144,6 +191,9 @@ export function AppSidebar() {
               <p className="text-xs text-sidebar-foreground/60 truncate">
                 {user?.email || 'Tidak ada email'}
               </p>
+              {role && (
+                <p className="text-xs text-sidebar-foreground/60 capitalize">{role}</p>
+              )}
             </div>
             <Button 
               size="sm" 
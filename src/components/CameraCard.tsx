@@ -1,17 +1,20 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera } from '@/types';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Camera, StreamMetrics } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { PlayCircle, Circle, Square, Radio } from 'lucide-react';
+import { PlayCircle, Circle, Square, Radio, Activity, AlertTriangle } from 'lucide-react';
 import { useRecording } from '@/hooks/useRecording';
 import { useMjpegRecording } from '@/hooks/useMjpegRecording';
-import { useAuth } from '@/contexts/AuthContext';
+import { useMotionDetection } from '@/hooks/useMotionDetection';
+import { useRole } from '@/hooks/useRole';
 import { cn } from '@/lib/utils';
 import { sendCameraHeartbeat, startCameraHeartbeat, setCameraOffline } from '@/lib/cameraHeartbeat';
 import { toast } from 'sonner';
 import { StreamWrapper } from '@/components/streams/StreamWrapper';
 import { detectStreamType, isRecordingSupported } from '@/lib/streamUtils';
+import { assessStreamHealth } from '@/lib/streamMetrics';
+import { isProbedServerSide } from '@/lib/probe';
 
 const AUTO_PING_INTERVAL_MS = 5000; // 5 seconds
 
@@ -45,9 +48,12 @@ function getStatusBadge(status: string) {
 }
 
 export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true }: CameraCardProps) {
-  const { user } = useAuth();
+  const { canRecord: isOperator } = useRole();
   const [isAutoPingActive, setIsAutoPingActive] = useState(false);
   const stopHeartbeatRef = useRef<(() => void) | null>(null);
+  const [metrics, setMetrics] = useState<StreamMetrics | null>(null);
+  // Read by the heartbeat, which attaches it to a ping once a minute
+  const metricsRef = useRef<StreamMetrics | null>(null);
   
   const streamType = (camera as any).streamType || detectStreamType(camera.streamUrl);
   const isMjpeg = streamType === 'mjpeg';
@@ -63,7 +69,7 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
     stopRecording: stopHlsRecording,
     setImgRef,
     setVideoRef,
-  } = useRecording(camera.id, camera.status, camera.name, camera.fps);
+  } = useRecording(camera.id, camera.status, camera.name, camera.fps, camera.privacyMasks);
 
   // MJPEG recording (server-side via Raspberry Pi API)
   const {
@@ -76,10 +82,19 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
     stopRecording: stopMjpegRecording,
   } = useMjpegRecording({ 
     cameraId: camera.id, 
-    streamUrl: camera.streamUrl,
+    recorderNodeId: camera.recorderNodeId,
+    recorderCameraId: camera.recorderCameraId,
     enabled: isMjpeg 
   });
 
+  // Motion-triggered auto recording (browser-side, same element as HLS recording)
+  const {
+    isEnabled: isMotionEnabled,
+    isArmed: isMotionArmed,
+    motionActive,
+    arm: armMotion,
+  } = useMotionDetection(camera);
+
   // Determine which recording state to use based on stream type
   const isRecording = isMjpeg ? isMjpegRecording : isHlsRecording;
   const isStarting = isMjpeg ? isMjpegStarting : isHlsStarting;
@@ -91,19 +106,31 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
 
   // Handle element ref from StreamWrapper - only register for HLS (browser recording)
   const handleElementRef = useCallback((el: HTMLImageElement | HTMLVideoElement | null, type: 'img' | 'video') => {
-    // Only register refs for HLS recording (browser-side)
-    if (!isMjpeg && canRecord && el) {
+    // Only register refs for HLS recording (browser-side); viewers never record
+    if (!isMjpeg && canRecord && isOperator && el) {
       if (type === 'img') {
         setImgRef(el as HTMLImageElement);
       } else if (type === 'video') {
         setVideoRef(el as HTMLVideoElement);
       }
+      armMotion();
     }
-  }, [isMjpeg, canRecord, setImgRef, setVideoRef]);
+  }, [isMjpeg, canRecord, isOperator, setImgRef, setVideoRef, armMotion]);
   
-  const isAdmin = !!user;
   const isOffline = camera.status === 'offline';
 
+  const handleMetrics = useCallback((next: StreamMetrics) => {
+    metricsRef.current = next;
+    setMetrics(next);
+  }, []);
+
+  const getMetrics = useCallback(() => metricsRef.current, []);
+
+  const health = useMemo(
+    () => assessStreamHealth(camera, isOffline ? null : metrics),
+    [camera, isOffline, metrics]
+  );
+
   // Cleanup heartbeat on unmount
   useEffect(() => {
     return () => {
@@ -120,11 +147,11 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
     
     // Start auto-ping if not already active
     if (!stopHeartbeatRef.current) {
-      stopHeartbeatRef.current = startCameraHeartbeat(camera.id, AUTO_PING_INTERVAL_MS);
+      stopHeartbeatRef.current = startCameraHeartbeat(camera.id, AUTO_PING_INTERVAL_MS, getMetrics);
       setIsAutoPingActive(true);
       console.log(`Auto-started ping for ${camera.name} after stream load`);
     }
-  }, [camera.id, camera.name]);
+  }, [camera.id, camera.name, getMetrics]);
 
   // Handle stream error - stop heartbeat and mark offline
   const handleStreamError = useCallback(async () => {
@@ -136,10 +163,15 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
       stopHeartbeatRef.current = null;
     }
     setIsAutoPingActive(false);
+    metricsRef.current = null;
+    setMetrics(null);
     
+    // camera-prober decides for probed cameras; this viewer's network may be the problem
+    if (isProbedServerSide(camera)) return;
+
     // Mark camera as offline in database
     await setCameraOffline(camera.id);
-  }, [camera.id, camera.name]);
+  }, [camera]);
 
   const handleRecordClick = async () => {
     if (isRecording) {
@@ -171,7 +203,7 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
       toast.info(`Auto Ping stopped for ${camera.name}`);
     } else {
       // Start heartbeat with 5 second interval
-      stopHeartbeatRef.current = startCameraHeartbeat(camera.id, AUTO_PING_INTERVAL_MS);
+      stopHeartbeatRef.current = startCameraHeartbeat(camera.id, AUTO_PING_INTERVAL_MS, getMetrics);
       setIsAutoPingActive(true);
       toast.success(`Auto Ping started for ${camera.name}`, {
         description: 'Sending ping every 5 seconds'
@@ -221,6 +253,32 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
                 MJPEG
               </Badge>
             )}
+            {/* Motion Detection Badge */}
+            {isMotionEnabled && !isMjpeg && canRecord && isOperator && (
+              <Badge
+                variant="outline"
+                className={cn(
+                  "text-[10px] px-1.5 py-0.5 gap-1",
+                  motionActive && "border-destructive text-destructive",
+                  !isMotionArmed && "opacity-50"
+                )}
+                title={isMotionArmed ? "Motion detection armed" : "Motion detection waiting for stream"}
+              >
+                <Activity className={cn("h-3 w-3", motionActive && "animate-pulse")} />
+                Motion
+              </Badge>
+            )}
+            {/* Degraded stream warning (measured by the player) */}
+            {health.status === 'degraded' && (
+              <Badge
+                variant="outline"
+                className="text-[10px] px-1.5 py-0.5 gap-1 border-warning text-warning"
+                title={health.issues.join('\n')}
+              >
+                <AlertTriangle className="h-3 w-3" />
+                Degraded
+              </Badge>
+            )}
             {/* Status Badge */}
             <Badge className={getStatusBadge(camera.status)} variant="secondary">
               {camera.status}
@@ -265,6 +323,8 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
             onLoad={handleStreamLoad}
             onError={handleStreamError}
             onElementRef={handleElementRef}
+            onMetrics={handleMetrics}
+            privacyMasks={camera.privacyMasks}
           />
         </div>
 
@@ -277,7 +337,7 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
           )}
           
           {/* Recording Button - Only show if stream type supports recording */}
-          {isAdmin && onRecord && canRecord && (!isMjpeg || mjpegRecordingAvailable) && (
+          {isOperator && onRecord && canRecord && (!isMjpeg || mjpegRecordingAvailable) && (
             <Button
               size="sm"
               variant={isRecording ? 'destructive' : 'secondary'}
@@ -300,14 +360,14 @@ export default function CameraCard({ camera, onRecord, onOpen, isPlaying = true
           )}
           
           {/* MJPEG but not valid for recording */}
-          {isAdmin && onRecord && isMjpeg && !isMjpegValidStream && (
+          {isOperator && onRecord && isMjpeg && !isMjpegValidStream && (
             <div className="text-xs text-muted-foreground text-center py-1">
-              Recording tidak tersedia (bukan cctvgreen.site)
+              Kamera belum terhubung ke recorder
             </div>
           )}
           
           {/* MJPEG server offline */}
-          {isAdmin && onRecord && isMjpeg && isMjpegValidStream && !isMjpegServerAvailable && (
+          {isOperator && onRecord && isMjpeg && isMjpegValidStream && !isMjpegServerAvailable && (
             <div className="text-xs text-destructive text-center py-1">
               Server recording offline
             </div>
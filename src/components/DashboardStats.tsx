@@ -1,12 +1,19 @@
 import { Camera, Monitor, AlertTriangle, Wifi } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { DashboardStats as StatsType } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { DashboardStats as StatsType, GroupStats } from '@/types';
+import { cn } from '@/lib/utils';
+import { ALL_GROUPS, UNGROUPED } from '@/lib/cameraGroups';
 
 interface DashboardStatsProps {
   stats: StatsType;
+  groupStats?: GroupStats[];
+  selectedGroup?: string;
+  // Receives a group filter value (group id, UNGROUPED or ALL_GROUPS)
+  onSelectGroup?: (filter: string) => void;
 }
 
-export const DashboardStats = ({ stats }: DashboardStatsProps) => {
+export const DashboardStats = ({ stats, groupStats, selectedGroup, onSelectGroup }: DashboardStatsProps) => {
   const statCards = [
     {
       title: 'Total Cameras',
@@ -39,22 +46,68 @@ export const DashboardStats = ({ stats }: DashboardStatsProps) => {
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-      {statCards.map((stat, index) => (
-        <Card key={index} className="transition-[var(--transition-smooth)] hover:shadow-[var(--shadow-lg)]">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">
-              {stat.title}
-            </CardTitle>
-            <div className={`p-2 rounded-full ${stat.bgColor}`}>
-              <stat.icon className={`h-4 w-4 ${stat.color}`} />
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-card-foreground">{stat.value}</div>
-          </CardContent>
-        </Card>
-      ))}
+    <div className="mb-6 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map((stat, index) => (
+          <Card key={index} className="transition-[var(--transition-smooth)] hover:shadow-[var(--shadow-lg)]">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {stat.title}
+              </CardTitle>
+              <div className={`p-2 rounded-full ${stat.bgColor}`}>
+                <stat.icon className={`h-4 w-4 ${stat.color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-card-foreground">{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Per-group breakdown so a site that is down stands out */}
+      {groupStats && groupStats.length > 1 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {groupStats.map((group) => {
+            const filterValue = group.groupId ?? UNGROUPED;
+            const isSelected = selectedGroup === filterValue;
+            const isDown = group.offlineCameras > 0;
+            return (
+              <button
+                key={filterValue}
+                type="button"
+                onClick={() => onSelectGroup?.(isSelected ? ALL_GROUPS : filterValue)}
+                className={cn(
+                  "rounded-lg border bg-card p-3 text-left transition-colors hover:bg-accent/50",
+                  isDown && "border-status-offline/50",
+                  isSelected && "ring-2 ring-primary"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{group.name}</span>
+                  <span className="text-xs text-muted-foreground">{group.totalCameras} cameras</span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  <Badge variant="outline" className="text-[10px] text-status-online border-status-online/50">
+                    {group.onlineCameras} online
+                  </Badge>
+                  <Badge
+                    variant="outline"
+                    className={cn("text-[10px]", isDown ? "bg-status-offline text-white border-transparent" : "text-muted-foreground")}
+                  >
+                    {group.offlineCameras} offline
+                  </Badge>
+                  {group.recordingCameras > 0 && (
+                    <Badge variant="outline" className="text-[10px] text-destructive border-destructive/50">
+                      {group.recordingCameras} recording
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Calendar, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+
+export type DateRangeValue = { from: Date | undefined; to: Date | undefined };
+
+interface DateRangeFilterProps {
+  value: DateRangeValue;
+  onChange: (range: DateRangeValue) => void;
+}
+
+const getDateRangeLabel = (dateRange: DateRangeValue) => {
+  if (dateRange.from && dateRange.to) {
+    return `${format(dateRange.from, 'MMM d')} – ${format(dateRange.to, 'MMM d, yyyy')}`;
+  } else if (dateRange.from) {
+    return `From ${format(dateRange.from, 'MMM d, yyyy')}`;
+  } else if (dateRange.to) {
+    return `Until ${format(dateRange.to, 'MMM d, yyyy')}`;
+  }
+  return 'Date Range';
+};
+
+export const DateRangeFilter = ({ value: dateRange, onChange }: DateRangeFilterProps) => {
+  const [tempDateRange, setTempDateRange] = useState<DateRangeValue>(dateRange);
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    // Start from the applied range every time the picker opens
+    if (open) setTempDateRange(dateRange);
+    setIsDatePickerOpen(open);
+  };
+
+  const handleApplyDateRange = () => {
+    onChange(tempDateRange);
+    setIsDatePickerOpen(false);
+  };
+
+  const handleClearDateRange = () => {
+    onChange({ from: undefined, to: undefined });
+    setTempDateRange({ from: undefined, to: undefined });
+    setIsDatePickerOpen(false);
+  };
+
+  return (
+    <Popover open={isDatePickerOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            "justify-start text-left font-normal",
+            (dateRange.from || dateRange.to) && "border-primary"
+          )}
+        >
+          <Calendar className="h-4 w-4 mr-2" />
+          {getDateRangeLabel(dateRange)}
+          {(dateRange.from || dateRange.to) && (
+            <X
+              className="h-4 w-4 ml-2 hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClearDateRange();
+              }}
+            />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <div className="p-3 space-y-3">
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Select Date Range</div>
+            <CalendarComponent
+              mode="range"
+              selected={{ from: tempDateRange.from, to: tempDateRange.to }}
+              onSelect={(range) => setTempDateRange({ from: range?.from, to: range?.to })}
+              numberOfMonths={2}
+              className="pointer-events-auto"
+            />
+          </div>
+          <div className="flex gap-2 pt-2 border-t">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleClearDateRange}
+              className="flex-1"
+            >
+              Clear
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleApplyDateRange}
+              className="flex-1"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
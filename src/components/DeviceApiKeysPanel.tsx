@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, Copy, KeyRound, Plus, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useDeviceApiKeys } from '@/hooks/useDeviceApiKeys';
+import { Camera, DeviceApiKey, DeviceStatus } from '@/types';
+
+// Select value for keys that may ping any camera (Radix Select has no empty value)
+const ANY_CAMERA = '__any__';
+
+// Raspberry Pi throttles at 80 °C
+const HOT_TEMPERATURE_C = 75;
+const LOW_DISK_RATIO = 0.1;
+
+interface DeviceApiKeysPanelProps {
+  cameras: Camera[];
+}
+
+function formatBytes(bytes: number) {
+  const gb = bytes / 1024 ** 3;
+  return gb >= 1 ? `${gb.toFixed(1)} GB` : `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+function DeviceStatusSummary({ status }: { status: DeviceStatus | null }) {
+  if (!status) return <span className="text-sm text-muted-foreground">No report yet</span>;
+
+  const lowDisk =
+    status.diskFreeBytes !== null && status.diskTotalBytes ? status.diskFreeBytes / status.diskTotalBytes < LOW_DISK_RATIO : false;
+  const hot = status.temperatureC !== null && status.temperatureC >= HOT_TEMPERATURE_C;
+
+  return (
+    <div className="text-sm space-y-0.5">
+      {status.hostname && <div className="font-mono text-xs">{status.hostname}</div>}
+      <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+        {status.diskFreeBytes !== null && (
+          <span className={lowDisk ? 'text-warning font-medium' : undefined}>
+            Disk {formatBytes(status.diskFreeBytes)} free
+            {status.diskTotalBytes ? ` of ${formatBytes(status.diskTotalBytes)}` : ''}
+          </span>
+        )}
+        {status.temperatureC !== null && (
+          <span className={hot ? 'text-warning font-medium' : undefined}>{status.temperatureC} °C</span>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Reported {formatDistanceToNow(new Date(status.reportedAt), { addSuffix: true })}
+      </div>
+    </div>
+  );
+}
+
+export function DeviceApiKeysPanel({ cameras }: DeviceApiKeysPanelProps) {
+  const { keys, loading, createKey, rotateKey, revokeKey } = useDeviceApiKeys();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [cameraId, setCameraId] = useState(ANY_CAMERA);
+  const [saving, setSaving] = useState(false);
+  // Plain key to show once after creating or rotating
+  const [revealed, setRevealed] = useState<{ name: string; key: string } | null>(null);
+
+  const getCameraName = (id: string | null) =>
+    id ? cameras.find((camera) => camera.id === id)?.name ?? 'Deleted camera' : 'Any camera';
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setSaving(true);
+    try {
+      const key = await createKey(trimmed, cameraId === ANY_CAMERA ? null : cameraId);
+      setIsCreateOpen(false);
+      setName('');
+      setCameraId(ANY_CAMERA);
+      setRevealed({ name: trimmed, key });
+    } catch (error) {
+      showError('Could not create device key', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async (deviceKey: DeviceApiKey) => {
+    if (!confirm(`Rotate "${deviceKey.name}"? The current key stops working immediately.`)) return;
+    try {
+      setRevealed({ name: deviceKey.name, key: await rotateKey(deviceKey.id) });
+    } catch (error) {
+      showError('Could not rotate device key', error);
+    }
+  };
+
+  const handleRevoke = async (deviceKey: DeviceApiKey) => {
+    if (!confirm(`Revoke "${deviceKey.name}"? Devices using it can no longer send heartbeats.`)) return;
+    try {
+      await revokeKey(deviceKey.id);
+      toast({ title: 'Device key revoked', description: `"${deviceKey.name}" no longer works.` });
+    } catch (error) {
+      showError('Could not revoke device key', error);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!revealed) return;
+    try {
+      await navigator.clipboard.writeText(revealed.key);
+      toast({ title: 'Copied', description: 'Device key copied to clipboard.' });
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the key and copy it manually.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Device Keys ({keys.filter((k) => !k.revokedAt).length})
+          </CardTitle>
+          <CardDescription>
+            Let cameras and Raspberry Pi agents send heartbeats and status reports without a user login.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Key
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <p className="text-muted-foreground">Loading device keys...</p>
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <p className="text-muted-foreground">No device keys yet.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Camera</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((deviceKey) => (
+                <TableRow key={deviceKey.id} className={deviceKey.revokedAt ? 'opacity-60' : undefined}>
+                  <TableCell>
+                    <div className="font-medium">{deviceKey.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{deviceKey.keyPrefix}…</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{getCameraName(deviceKey.cameraId)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {deviceKey.lastUsedAt
+                      ? formatDistanceToNow(new Date(deviceKey.lastUsedAt), { addSuffix: true })
+                      : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    <DeviceStatusSummary status={deviceKey.status} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {deviceKey.revokedAt ? (
+                      <Badge variant="outline" className="text-destructive border-destructive">
+                        Revoked
+                      </Badge>
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleRotate(deviceKey)} title="Rotate">
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleRevoke(deviceKey)}
+                          title="Revoke"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create Key */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>New Device Key</DialogTitle>
+            <DialogDescription>
+              Bind the key to one camera, or leave it open to any camera of your organisation for a recorder such as a Raspberry Pi.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="device-key-name">Name</Label>
+              <Input
+                id="device-key-name"
+                placeholder="e.g. Gate Raspberry Pi"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Camera</Label>
+              <Select value={cameraId} onValueChange={setCameraId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_CAMERA}>Any camera</SelectItem>
+                  {cameras.map((camera) => (
+                    <SelectItem key={camera.id} value={camera.id}>
+                      {camera.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                Create Key
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Show the new key once */}
+      <Dialog open={revealed !== null} onOpenChange={(open) => !open && setRevealed(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Key for "{revealed?.name}"</DialogTitle>
+            <DialogDescription>
+              Copy it to the device now (X-Device-Key header). It is stored hashed and cannot be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealed?.key ?? ''} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={handleCopy} title="Copy">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealed(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
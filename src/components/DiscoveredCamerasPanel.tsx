@@ -0,0 +1,85 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Plus, Radar, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DiscoveredCamera } from '@/types';
+
+interface DiscoveredCamerasPanelProps {
+  discovered: DiscoveredCamera[];
+  onAdd: (camera: DiscoveredCamera) => void;
+  onDismiss: (camera: DiscoveredCamera) => void;
+}
+
+function describeStream(camera: DiscoveredCamera) {
+  const preferred = camera.profiles.find((profile) => profile.streamUri === camera.streamUri);
+  return [camera.resolution, camera.fps ? `${camera.fps} fps` : null, preferred?.encoding]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export function DiscoveredCamerasPanel({ discovered, onAdd, onDismiss }: DiscoveredCamerasPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radar className="h-5 w-5" />
+          Discovered Cameras ({discovered.length})
+        </CardTitle>
+        <CardDescription>
+          ONVIF cameras found on your network by the discovery agent. Add one to start monitoring it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>Stream</TableHead>
+              <TableHead>Last Seen</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {discovered.map((camera) => (
+              <TableRow key={camera.id}>
+                <TableCell>
+                  <div className="font-medium">{camera.name || camera.model || 'ONVIF camera'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[camera.manufacturer, camera.model].filter(Boolean).join(' ') || '—'}
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{camera.address}</TableCell>
+                <TableCell>
+                  {camera.streamUri ? (
+                    <span className="text-sm">{describeStream(camera) || 'RTSP'}</span>
+                  ) : (
+                    <Badge variant="outline" className="text-destructive border-destructive" title={camera.error ?? undefined}>
+                      {camera.error ? 'Profiles unavailable' : 'No stream found'}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDistanceToNow(new Date(camera.lastSeenAt), { addSuffix: true })}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" onClick={() => onAdd(camera)} disabled={!camera.streamUri}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDismiss(camera)} title="Dismiss">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
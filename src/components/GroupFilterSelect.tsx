@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CameraGroup } from '@/types';
+import { ALL_GROUPS, UNGROUPED } from '@/lib/cameraGroups';
+import { cn } from '@/lib/utils';
+
+interface GroupFilterSelectProps {
+  groups: CameraGroup[];
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export const GroupFilterSelect = ({ groups, value, onChange, className }: GroupFilterSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={cn("w-48", className)}>
+      <SelectValue placeholder="All Groups" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={ALL_GROUPS}>All Groups</SelectItem>
+      {groups.map((group) => (
+        <SelectItem key={group.id} value={group.id}>
+          {group.name}
+        </SelectItem>
+      ))}
+      <SelectItem value={UNGROUPED}>Ungrouped</SelectItem>
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,14 @@
+import { Video, VideoOff, Wifi, WifiOff } from 'lucide-react';
+import { NotificationType } from '@/types';
+
+const NOTIFICATION_ICONS: Record<NotificationType, { icon: typeof Video; className: string }> = {
+  camera_offline: { icon: WifiOff, className: 'text-destructive' },
+  camera_online: { icon: Wifi, className: 'text-success' },
+  recording_started: { icon: Video, className: 'text-primary' },
+  recording_stopped: { icon: VideoOff, className: 'text-muted-foreground' },
+};
+
+export const NotificationIcon = ({ type, className = '' }: { type: NotificationType; className?: string }) => {
+  const { icon: Icon, className: colorClass } = NOTIFICATION_ICONS[type];
+  return <Icon className={`h-4 w-4 shrink-0 ${colorClass} ${className}`} />;
+};
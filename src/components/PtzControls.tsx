@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Bookmark, Loader2, Navigation, Trash2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { getPtzPresets, gotoPtzPreset, movePtz, removePtzPreset, savePtzPreset, stopPtz } from '@/lib/ptz';
+import { PtzPreset } from '@/types';
+
+const JOYSTICK_SIZE = 112;
+const KNOB_SIZE = 40;
+// Re-send the current move before the camera's 5 s safety timeout stops it
+const KEEPALIVE_MS = 2000;
+
+interface Velocity {
+  pan: number;
+  tilt: number;
+  zoom: number;
+}
+
+const ZERO: Velocity = { pan: 0, tilt: 0, zoom: 0 };
+
+// Coarse steps keep the number of requests down while dragging
+const quantize = (value: number) => Math.round(Math.max(-1, Math.min(1, value)) * 10) / 10;
+
+const isZero = (v: Velocity) => v.pan === 0 && v.tilt === 0 && v.zoom === 0;
+
+interface PtzControlsProps {
+  cameraId: string;
+  disabled?: boolean;
+}
+
+export function PtzControls({ cameraId, disabled = false }: PtzControlsProps) {
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(0);
+  const [presets, setPresets] = useState<PtzPreset[]>([]);
+  const [presetsLoading, setPresetsLoading] = useState(true);
+  const [presetName, setPresetName] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
+
+  const padRef = useRef<HTMLDivElement>(null);
+  const desiredRef = useRef<Velocity>(ZERO);
+  const sendingRef = useRef(false);
+  const pendingRef = useRef(false);
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  }, []);
+
+  // One request at a time; whatever was requested meanwhile is sent next
+  const flush = useCallback(async () => {
+    if (sendingRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+    sendingRef.current = true;
+    try {
+      do {
+        pendingRef.current = false;
+        const velocity = desiredRef.current;
+        if (isZero(velocity)) {
+          await stopPtz(cameraId);
+        } else {
+          await movePtz(cameraId, velocity.pan, velocity.tilt, velocity.zoom);
+        }
+      } while (pendingRef.current);
+    } catch (error) {
+      desiredRef.current = ZERO;
+      setKnob({ x: 0, y: 0 });
+      setZoom(0);
+      showError('PTZ command failed', error);
+    } finally {
+      sendingRef.current = false;
+    }
+  }, [cameraId, showError]);
+
+  const setVelocity = useCallback((partial: Partial<Velocity>) => {
+    const next = { ...desiredRef.current, ...partial };
+    const current = desiredRef.current;
+    if (next.pan === current.pan && next.tilt === current.tilt && next.zoom === current.zoom) return;
+    desiredRef.current = next;
+    flush();
+  }, [flush]);
+
+  // Keep a held joystick moving and stop the camera when the panel goes away
+  useEffect(() => {
+    const keepalive = setInterval(() => {
+      if (!isZero(desiredRef.current)) flush();
+    }, KEEPALIVE_MS);
+
+    return () => {
+      clearInterval(keepalive);
+      if (!isZero(desiredRef.current)) {
+        desiredRef.current = ZERO;
+        stopPtz(cameraId).catch(() => undefined);
+      }
+    };
+  }, [cameraId, flush]);
+
+  const loadPresets = useCallback(async () => {
+    setPresetsLoading(true);
+    try {
+      setPresets(await getPtzPresets(cameraId));
+    } catch (error) {
+      console.error('Error loading PTZ presets:', error);
+      setPresets([]);
+    } finally {
+      setPresetsLoading(false);
+    }
+  }, [cameraId]);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const handlePointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pad = padRef.current;
+    if (!pad) return;
+    const rect = pad.getBoundingClientRect();
+    const radius = (JOYSTICK_SIZE - KNOB_SIZE) / 2;
+    let x = event.clientX - (rect.left + rect.width / 2);
+    let y = event.clientY - (rect.top + rect.height / 2);
+    const distance = Math.hypot(x, y);
+    if (distance > radius) {
+      x = (x / distance) * radius;
+      y = (y / distance) * radius;
+    }
+    setKnob({ x, y });
+    // Screen y grows downwards, ONVIF tilt is positive upwards
+    setVelocity({ pan: quantize(x / radius), tilt: quantize(-y / radius) });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    handlePointer(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    handlePointer(event);
+  };
+
+  const handlePointerUp = () => {
+    setKnob({ x: 0, y: 0 });
+    setVelocity({ pan: 0, tilt: 0 });
+  };
+
+  const handleGotoPreset = async (preset: PtzPreset) => {
+    try {
+      await gotoPtzPreset(cameraId, preset.token);
+    } catch (error) {
+      showError('Could not move to preset', error);
+    }
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setSavingPreset(true);
+    try {
+      await savePtzPreset(cameraId, name);
+      setPresetName('');
+      toast({ title: 'Preset saved', description: `Current position saved as "${name}".` });
+      await loadPresets();
+    } catch (error) {
+      showError('Could not save preset', error);
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleRemovePreset = async (preset: PtzPreset) => {
+    if (!confirm(`Remove preset "${preset.name}"?`)) return;
+    try {
+      await removePtzPreset(cameraId, preset.token);
+      setPresets((prev) => prev.filter((p) => p.token !== preset.token));
+    } catch (error) {
+      showError('Could not remove preset', error);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-4', disabled && 'opacity-50 pointer-events-none')}>
+      <div className="flex items-center gap-4">
+        {/* Joystick: drag to pan/tilt, speed grows with distance from the centre */}
+        <div
+          ref={padRef}
+          className="relative shrink-0 rounded-full border bg-background touch-none select-none cursor-grab active:cursor-grabbing"
+          style={{ width: JOYSTICK_SIZE, height: JOYSTICK_SIZE }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="Pan and tilt"
+        >
+          <Navigation className="absolute top-1 left-1/2 -translate-x-1/2 h-3 w-3 text-muted-foreground" />
+          <div
+            className="absolute rounded-full bg-primary shadow"
+            style={{
+              width: KNOB_SIZE,
+              height: KNOB_SIZE,
+              left: (JOYSTICK_SIZE - KNOB_SIZE) / 2 + knob.x,
+              top: (JOYSTICK_SIZE - KNOB_SIZE) / 2 + knob.y,
+            }}
+          />
+        </div>
+
+        {/* Zoom springs back to 0 (stop) when released */}
+        <div className="flex-1 space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <ZoomOut className="h-4 w-4" />
+            <span>Zoom</span>
+            <ZoomIn className="h-4 w-4" />
+          </div>
+          <Slider
+            min={-1}
+            max={1}
+            step={0.1}
+            value={[zoom]}
+            onValueChange={([value]) => {
+              setZoom(value);
+              setVelocity({ zoom: quantize(value) });
+            }}
+            onValueCommit={() => {
+              setZoom(0);
+              setVelocity({ zoom: 0 });
+            }}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {/* Presets */}
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Presets</p>
+        {presetsLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : presets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No presets saved on this camera.</p>
+        ) : (
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {presets.map((preset) => (
+              <div key={preset.token} className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1 justify-start h-8"
+                  onClick={() => handleGotoPreset(preset)}
+                >
+                  <Bookmark className="h-3 w-3 mr-2" />
+                  <span className="truncate">{preset.name}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  onClick={() => handleRemovePreset(preset)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSavePreset();
+          }}
+        >
+          <Input
+            placeholder="Save position as..."
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            maxLength={64}
+            className="h-8"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={savingPreset || !presetName.trim()}>
+            Save
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { BellRing, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useRole } from '@/hooks/useRole';
+import { PUSH_EVENT_TYPES } from '@/lib/push';
+import { PushEventType } from '@/types';
+
+const PUSH_EVENT_LABELS: Record<PushEventType, { title: string; description: string }> = {
+  camera_offline: { title: 'Kamera offline', description: 'Kamera berhenti mengirim heartbeat' },
+  motion_detected: { title: 'Gerakan terdeteksi', description: 'Kamera atau Raspberry Pi melaporkan gerakan' },
+  recording_failed: { title: 'Rekaman gagal', description: 'Rekaman manual atau terjadwal gagal dimulai' },
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export const PushNotificationSettings = () => {
+  const { canRecord } = useRole();
+  const { supported, permission, subscribed, events, loading, enable, disable, setEventEnabled, sendTest } =
+    usePushNotifications();
+  const [saving, setSaving] = useState(false);
+
+  const handleToggle = async (enabled: boolean) => {
+    setSaving(true);
+    try {
+      if (enabled) {
+        await enable();
+        toast.success('Notifikasi push diaktifkan');
+      } else {
+        await disable();
+        toast.success('Notifikasi push dinonaktifkan');
+      }
+    } catch (error) {
+      toast.error('Gagal mengubah notifikasi push', { description: errorMessage(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEventToggle = async (eventType: PushEventType, enabled: boolean) => {
+    try {
+      await setEventEnabled(eventType, enabled);
+    } catch (error) {
+      toast.error('Gagal menyimpan preferensi', { description: errorMessage(error) });
+    }
+  };
+
+  const handleTest = async () => {
+    try {
+      await sendTest();
+      toast.success('Notifikasi uji coba dikirim');
+    } catch (error) {
+      toast.error('Gagal mengirim notifikasi uji coba', { description: errorMessage(error) });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Notifikasi Push
+        </CardTitle>
+        <CardDescription>
+          Terima notifikasi sistem di perangkat ini meskipun tab aplikasi ditutup
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">Browser ini tidak mendukung notifikasi push.</p>
+        ) : !canRecord ? (
+          <p className="text-sm text-muted-foreground">Notifikasi push hanya tersedia untuk operator dan admin.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="push-enabled">Aktifkan di perangkat ini</Label>
+                {permission === 'denied' && (
+                  <p className="text-xs text-destructive">
+                    Izin notifikasi diblokir. Izinkan notifikasi untuk situs ini di pengaturan browser.
+                  </p>
+                )}
+              </div>
+              <Switch
+                id="push-enabled"
+                checked={subscribed}
+                onCheckedChange={handleToggle}
+                disabled={loading || saving}
+              />
+            </div>
+
+            <div className="space-y-3">
+              {PUSH_EVENT_TYPES.map((eventType) => (
+                <div key={eventType} className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`push-${eventType}`}>{PUSH_EVENT_LABELS[eventType].title}</Label>
+                    <p className="text-xs text-muted-foreground">{PUSH_EVENT_LABELS[eventType].description}</p>
+                  </div>
+                  <Switch
+                    id={`push-${eventType}`}
+                    checked={events.includes(eventType)}
+                    onCheckedChange={(checked) => handleEventToggle(eventType, checked)}
+                    disabled={loading}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Button variant="outline" className="w-full" onClick={handleTest} disabled={!subscribed}>
+              <Send className="h-4 w-4 mr-2" />
+              Kirim Notifikasi Uji Coba
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Camera, CameraMetricsSample, StreamMetrics } from '@/types';
+import { assessStreamHealth, formatBitrate } from '@/lib/streamMetrics';
+import { cn } from '@/lib/utils';
+
+interface StreamHealthPanelProps {
+  camera: Camera;
+  // Live measurement from the player in this view
+  metrics: StreamMetrics | null;
+  // Stored measurements (camera_metrics) from the last day
+  samples: CameraMetricsSample[];
+}
+
+function formatSeconds(ms: number | null) {
+  return ms === null ? '—' : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function Row({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="flex items-baseline justify-between gap-2 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-foreground text-right">
+        {value}
+        {hint && <span className="ml-1 font-normal text-muted-foreground">{hint}</span>}
+      </span>
+    </div>
+  );
+}
+
+export function StreamHealthPanel({ camera, metrics, samples }: StreamHealthPanelProps) {
+  const health = useMemo(() => assessStreamHealth(camera, metrics), [camera, metrics]);
+
+  const daily = useMemo(() => {
+    const fpsValues = samples.map((s) => s.fps).filter((fps): fps is number => fps !== null);
+    if (fpsValues.length === 0) return null;
+    return {
+      average: Math.round((fpsValues.reduce((sum, fps) => sum + fps, 0) / fpsValues.length) * 10) / 10,
+      minimum: Math.min(...fpsValues),
+      count: samples.length,
+    };
+  }, [samples]);
+
+  return (
+    <div className="space-y-3">
+      {health.status === 'unknown' ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Measuring stream...
+        </div>
+      ) : (
+        <div
+          className={cn(
+            'flex items-start gap-2 text-xs font-medium',
+            health.status === 'degraded' ? 'text-warning' : 'text-status-online'
+          )}
+        >
+          {health.status === 'degraded' ? (
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          ) : (
+            <CheckCircle2 className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          )}
+          <div>
+            <p>{health.status === 'degraded' ? 'Degraded' : 'Healthy'}</p>
+            {health.issues.map((issue) => (
+              <p key={issue} className="font-normal">{issue}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Row
+          label="Frame rate"
+          value={metrics?.fps != null ? `${metrics.fps} fps` : '—'}
+          hint={`/ ${camera.fps}`}
+        />
+        <Row
+          label="Resolution"
+          value={metrics?.width && metrics?.height ? `${metrics.width}x${metrics.height}` : '—'}
+          hint={camera.resolution ? `/ ${camera.resolution}` : undefined}
+        />
+        <Row label="Bitrate" value={formatBitrate(metrics?.bitrateKbps ?? null)} />
+        <Row label="Live latency" value={formatSeconds(metrics?.latencyMs ?? null)} />
+        <Row label="First frame" value={formatSeconds(metrics?.timeToFirstFrameMs ?? null)} />
+      </div>
+
+      {daily && (
+        <p className="text-[11px] text-muted-foreground">
+          Last 24 h: avg {daily.average} fps, min {daily.minimum} fps ({daily.count} samples)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bell, Search, Sun, Moon, LogOut, User, Video, WifiOff } from 'lucide-react';
+import { Bell, Search, Sun, Moon, LogOut, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -15,7 +15,9 @@ import { useNavigate } from 'react-router-dom';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { useNotifications, Notification } from '@/hooks/useNotifications';
+import { NotificationIcon } from '@/components/NotificationIcon';
+import { useNotifications } from '@/hooks/useNotifications';
+import { AppNotification } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 
 const formatRelativeTime = (date: Date) => {
@@ -26,36 +28,37 @@ const formatRelativeTime = (date: Date) => {
   }
 };
 
-const NotificationItem = ({ notification }: { notification: Notification }) => {
+const NotificationItem = ({ notification, onClick }: { notification: AppNotification; onClick: () => void }) => {
   const isOffline = notification.type === 'camera_offline';
-  
+  const isUnread = !notification.readAt;
+
   return (
-    <div
-      className={`p-2 rounded-md border ${
-        isOffline
+    <DropdownMenuItem
+      onClick={onClick}
+      className={`p-2 rounded-md border items-start cursor-pointer ${
+        isOffline && !notification.resolvedAt
           ? 'bg-destructive/10 border-destructive/20'
-          : 'bg-primary/10 border-primary/20'
+          : isUnread
+            ? 'bg-primary/10 border-primary/20'
+            : 'border-transparent'
       }`}
     >
-      <div className="flex items-start gap-2">
-        {isOffline ? (
-          <WifiOff className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
-        ) : (
-          <Video className="h-4 w-4 text-primary mt-0.5 shrink-0" />
-        )}
+      <div className="flex items-start gap-2 w-full">
+        <NotificationIcon type={notification.type} className="mt-0.5" />
         <div className="flex-1 min-w-0">
-          <p className={`text-sm font-medium ${isOffline ? 'text-destructive' : 'text-primary'}`}>
+          <p className={`text-sm ${isUnread ? 'font-medium' : ''}`}>
             {notification.title}
           </p>
           <p className="text-xs text-muted-foreground truncate">
             {notification.description}
           </p>
           <p className="text-xs text-muted-foreground/70 mt-0.5">
-            {formatRelativeTime(notification.timestamp)}
+            {formatRelativeTime(new Date(notification.createdAt))}
           </p>
         </div>
+        {isUnread && <span className="h-2 w-2 rounded-full bg-primary mt-1.5 shrink-0" />}
       </div>
-    </div>
+    </DropdownMenuItem>
   );
 };
 
@@ -63,7 +66,14 @@ export const TopNavigation = () => {
   const navigate = useNavigate();
   const { theme, toggleTheme } = useTheme();
   const { user, signOut } = useAuth();
-  const { notifications, loading } = useNotifications();
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications(10);
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markRead(notification.id).catch((error) => console.error('Error marking notification read:', error));
+    }
+    navigate('/notifications');
+  };
 
   const handleLogout = async () => {
     await signOut();
@@ -104,35 +114,55 @@ export const TopNavigation = () => {
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="relative">
                 <Bell className="h-4 w-4" />
-                {notifications.length > 0 && (
+                {unreadCount > 0 && (
                   <Badge 
                     variant="destructive" 
                     className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs"
                   >
-                    {notifications.length > 9 ? '9+' : notifications.length}
+                    {unreadCount > 9 ? '9+' : unreadCount}
                   </Badge>
                 )}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-80">
               <div className="p-2">
-                <h4 className="text-sm font-medium mb-2">Notifications</h4>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium">Notifications</h4>
+                  {unreadCount > 0 && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => markAllRead().catch((error) => console.error('Error marking notifications read:', error))}
+                    >
+                      Mark all as read
+                    </Button>
+                  )}
+                </div>
                 {loading ? (
                   <p className="text-xs text-muted-foreground py-4 text-center">Loading...</p>
                 ) : notifications.length === 0 ? (
                   <div className="py-6 text-center">
                     <Bell className="h-8 w-8 text-muted-foreground/50 mx-auto mb-2" />
                     <p className="text-sm text-muted-foreground">No notifications</p>
-                    <p className="text-xs text-muted-foreground/70">All cameras are online</p>
+                    <p className="text-xs text-muted-foreground/70">Camera outages and recordings will show up here</p>
                   </div>
                 ) : (
                   <div className="space-y-2 max-h-[300px] overflow-y-auto">
                     {notifications.map((notification) => (
-                      <NotificationItem key={notification.id} notification={notification} />
+                      <NotificationItem
+                        key={notification.id}
+                        notification={notification}
+                        onClick={() => handleOpenNotification(notification)}
+                      />
                     ))}
                   </div>
                 )}
               </div>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => navigate('/notifications')} className="justify-center text-sm">
+                View all notifications
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
 
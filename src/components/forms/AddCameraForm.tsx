@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -13,6 +13,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -28,32 +29,65 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { Camera, StreamType } from "@/types";
-import { detectStreamType, getStreamTypeLabel } from "@/lib/streamUtils";
+import { Camera, StreamCredentials, StreamType } from "@/types";
+import {
+  detectStreamType,
+  getStreamTypeLabel,
+  isSupportedStreamUrl,
+  splitStreamUrlCredentials,
+} from "@/lib/streamUtils";
+import { useCameraGroups } from "@/hooks/useCameraGroups";
+
+// Radix Select items cannot use an empty value
+const NO_GROUP = "none";
 
-const cameraFormSchema = z.object({
-  name: z.string().min(1, "Camera name is required").max(100),
-  location: z.string().min(1, "Location is required").max(200),
-  streamUrl: z.string().url("Please enter a valid URL"),
-  streamType: z.enum(["mjpeg", "hls", "youtube"]),
-});
+const cameraFormSchema = z
+  .object({
+    name: z.string().min(1, "Camera name is required").max(100),
+    location: z.string().min(1, "Location is required").max(200),
+    streamUrl: z
+      .string()
+      .url("Please enter a valid URL")
+      .refine(isSupportedStreamUrl, "Use an http(s):// or rtsp:// URL"),
+    streamType: z.enum(["mjpeg", "hls", "youtube", "rtsp", "webrtc"]),
+    groupId: z.string(),
+    rtspUsername: z.string().max(200),
+    rtspPassword: z.string().max(200),
+  })
+  .refine((values) => (values.streamType === "rtsp") === /^rtsps?:\/\//i.test(values.streamUrl), {
+    message: "RTSP cameras need an rtsp:// URL, and rtsp:// URLs need the RTSP stream type",
+    path: ["streamUrl"],
+  });
 
 type CameraFormValues = z.infer<typeof cameraFormSchema>;
 
+// Values detected for a camera (e.g. by ONVIF discovery) to start the form with
+export interface CameraPrefill {
+  name: string;
+  location: string;
+  streamUrl: string;
+  fps: number | null;
+  resolution: string | null;
+}
+
 interface AddCameraFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   mode?: "quick" | "full";
-  onSubmit: (camera: Omit<Camera, "id" | "lastSeen">) => void;
+  prefill?: CameraPrefill | null;
+  // Credentials are only passed for RTSP cameras that need a login
+  onSubmit: (camera: Omit<Camera, "id" | "lastSeen">, credentials?: StreamCredentials) => void;
 }
 
 export function AddCameraForm({
   open,
   onOpenChange,
   mode = "full",
+  prefill,
   onSubmit,
 }: AddCameraFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { groups } = useCameraGroups();
 
   const form = useForm<CameraFormValues>({
     resolver: zodResolver(cameraFormSchema),
@@ -62,8 +96,31 @@ export function AddCameraForm({
       location: "",
       streamUrl: "",
       streamType: "mjpeg",
+      groupId: NO_GROUP,
+      rtspUsername: "",
+      rtspPassword: "",
     },
   });
+  const streamType = form.watch("streamType");
+
+  // Start from the detected values each time the form is opened for a discovered camera,
+  // and don't carry them over into a later manual add
+  const wasPrefilledRef = useRef(false);
+  useEffect(() => {
+    if (!open) return;
+    if (prefill) {
+      form.reset({
+        ...form.formState.defaultValues,
+        name: prefill.name,
+        location: prefill.location,
+        streamUrl: prefill.streamUrl,
+      });
+      wasPrefilledRef.current = true;
+    } else if (wasPrefilledRef.current) {
+      form.reset();
+      wasPrefilledRef.current = false;
+    }
+  }, [open, prefill, form]);
 
   // Auto-detect stream type when URL changes
   const streamUrl = form.watch("streamUrl");
@@ -77,16 +134,26 @@ export function AddCameraForm({
   const handleSubmit = async (values: CameraFormValues) => {
     setIsSubmitting(true);
     try {
+      // Never store user:password@ in stream_url, it is readable by every viewer
+      const split = splitStreamUrlCredentials(values.streamUrl);
+      const username = values.rtspUsername.trim() || split.username;
+      const credentials: StreamCredentials | undefined =
+        values.streamType === "rtsp" && username
+          ? { username, password: values.rtspPassword || split.password || "" }
+          : undefined;
+
       const newCamera: Omit<Camera, "id" | "lastSeen"> = {
         name: values.name,
         location: values.location,
-        streamUrl: values.streamUrl,
+        streamUrl: split.url,
         streamType: values.streamType as StreamType,
-        fps: 30,
+        groupId: values.groupId === NO_GROUP ? null : values.groupId,
+        fps: prefill?.fps ?? 30,
+        resolution: prefill?.resolution ?? null,
         status: "online",
       };
 
-      await onSubmit(newCamera);
+      await onSubmit(newCamera, credentials);
       toast.success("Camera added successfully");
       form.reset();
       onOpenChange(false);
@@ -106,6 +173,13 @@ export function AddCameraForm({
             {mode === "quick"
               ? "Quickly add a new CCTV camera to your monitoring system."
               : "Add a new CCTV camera with complete configuration."}
+            {prefill && (
+              <span className="block mt-1">
+                Detected on the network
+                {prefill.resolution ? ` · ${prefill.resolution}` : null}
+                {prefill.fps ? ` @ ${prefill.fps} fps` : null}
+              </span>
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -139,6 +213,32 @@ export function AddCameraForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="groupId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select group" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_GROUP}>No group</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="streamUrl"
@@ -147,7 +247,7 @@ export function AddCameraForm({
                   <FormLabel>Stream URL</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="https://example.com/stream.m3u8"
+                      placeholder="https://example.com/stream.m3u8 or rtsp://192.168.1.100:554/stream"
                       {...field}
                     />
                   </FormControl>
@@ -175,6 +275,8 @@ export function AddCameraForm({
                       <SelectItem value="mjpeg">{getStreamTypeLabel('mjpeg')}</SelectItem>
                       <SelectItem value="hls">{getStreamTypeLabel('hls')}</SelectItem>
                       <SelectItem value="youtube">{getStreamTypeLabel('youtube')}</SelectItem>
+                      <SelectItem value="rtsp">{getStreamTypeLabel('rtsp')}</SelectItem>
+                      <SelectItem value="webrtc">{getStreamTypeLabel('webrtc')}</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -182,6 +284,40 @@ export function AddCameraForm({
               )}
             />
 
+            {streamType === "rtsp" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="rtspUsername"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>RTSP Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rtspPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>RTSP Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormDescription className="col-span-2 -mt-2">
+                  Stored server-side for the RTSP gateway and never sent back to the browser
+                </FormDescription>
+              </div>
+            )}
+
 
             <DialogFooter>
               <Button
@@ -0,0 +1,425 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ALERT_CHANNELS,
+  ALERT_CHANNEL_LABELS,
+  ALERT_EVENT_LABELS,
+  ALERT_EVENT_TYPES,
+  ALERT_TARGET_HINTS,
+} from "@/lib/alerts";
+import { AlertRule, Camera } from "@/types";
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const alertRuleFormSchema = z
+  .object({
+    name: z.string().min(1, "Rule name is required").max(100),
+    eventType: z.enum(["camera_offline", "camera_online", "recording_started", "recording_stopped"]),
+    allCameras: z.boolean(),
+    cameraIds: z.array(z.string()),
+    channel: z.enum(["webhook", "email", "telegram"]),
+    target: z.string().trim().min(1, "Target is required").max(500),
+    quietHours: z.boolean(),
+    quietStart: z.string(),
+    quietEnd: z.string(),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+    throttleMinutes: z.coerce.number().int().min(0, "Cannot be negative").max(1440, "At most 24 hours"),
+    enabled: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (!values.allCameras && values.cameraIds.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Select at least one camera", path: ["cameraIds"] });
+    }
+    if (values.channel === "webhook" && !/^https?:\/\/\S+$/.test(values.target)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter an http(s) URL", path: ["target"] });
+    }
+    if (values.channel === "email" && !z.string().email().safeParse(values.target).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a valid email address", path: ["target"] });
+    }
+    if (values.channel === "telegram" && !/^(-?\d+|@\w+)$/.test(values.target)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a numeric chat ID or @channel", path: ["target"] });
+    }
+    if (values.quietHours && values.quietStart === values.quietEnd) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End time must differ from start time", path: ["quietEnd"] });
+    }
+  });
+
+type AlertRuleFormValues = z.infer<typeof alertRuleFormSchema>;
+
+interface AlertRuleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cameras: Camera[];
+  // Null to create a new rule
+  rule: AlertRule | null;
+  onSubmit: (data: Omit<AlertRule, "id">) => Promise<void>;
+}
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const emptyValues: AlertRuleFormValues = {
+  name: "",
+  eventType: "camera_offline",
+  allCameras: true,
+  cameraIds: [],
+  channel: "webhook",
+  target: "",
+  quietHours: false,
+  quietStart: "22:00",
+  quietEnd: "06:00",
+  timezone: browserTimezone,
+  throttleMinutes: 15,
+  enabled: true,
+};
+
+export function AlertRuleForm({ open, onOpenChange, cameras, rule, onSubmit }: AlertRuleFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<AlertRuleFormValues>({
+    resolver: zodResolver(alertRuleFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  // Load the rule being edited, or reset for a new one, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (rule) {
+      form.reset({
+        name: rule.name,
+        eventType: rule.eventType,
+        allCameras: rule.cameraIds.length === 0,
+        cameraIds: rule.cameraIds,
+        channel: rule.channel,
+        target: rule.target,
+        quietHours: !!rule.quietStart && !!rule.quietEnd,
+        quietStart: rule.quietStart ?? "22:00",
+        quietEnd: rule.quietEnd ?? "06:00",
+        timezone: rule.timezone,
+        throttleMinutes: rule.throttleMinutes,
+        enabled: rule.enabled,
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [open, rule, form]);
+
+  const channel = form.watch("channel");
+  const allCameras = form.watch("allCameras");
+  const quietHours = form.watch("quietHours");
+  const quietStart = form.watch("quietStart");
+  const quietEnd = form.watch("quietEnd");
+
+  const handleSubmit = async (values: AlertRuleFormValues) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        name: values.name,
+        eventType: values.eventType,
+        cameraIds: values.allCameras ? [] : values.cameraIds,
+        channel: values.channel,
+        target: values.target,
+        quietStart: values.quietHours ? values.quietStart : null,
+        quietEnd: values.quietHours ? values.quietEnd : null,
+        timezone: values.timezone,
+        throttleMinutes: values.throttleMinutes,
+        enabled: values.enabled,
+      });
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the caller
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Alert Rule" : "Add Alert Rule"}</DialogTitle>
+          <DialogDescription>
+            Notify a webhook, email address or Telegram chat when cameras change state.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Night guard offline alerts" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="eventType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Event</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ALERT_EVENT_TYPES.map((eventType) => (
+                        <SelectItem key={eventType} value={eventType}>
+                          {ALERT_EVENT_LABELS[eventType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="allCameras"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>All cameras</FormLabel>
+                    <FormDescription>Includes cameras added later</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!allCameras && (
+              <FormField
+                control={form.control}
+                name="cameraIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cameras</FormLabel>
+                    <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                      {cameras.map((camera) => (
+                        <label key={camera.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(camera.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, camera.id]
+                                  : field.value.filter((id) => id !== camera.id)
+                              )
+                            }
+                          />
+                          <span className="truncate">{camera.name}</span>
+                          <span className="text-xs text-muted-foreground truncate">{camera.location}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="channel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Channel</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ALERT_CHANNELS.map((c) => (
+                          <SelectItem key={c} value={c}>
+                            {ALERT_CHANNEL_LABELS[c]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="target"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>{ALERT_TARGET_HINTS[channel].label}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={ALERT_TARGET_HINTS[channel].placeholder} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="quietHours"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Quiet hours</FormLabel>
+                    <FormDescription>Alerts in this window are logged but not sent</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {quietHours && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="quietStart"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="quietEnd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Until</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {quietEnd < quietStart && (
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    Overnight window: ends at {quietEnd} on the following day.
+                  </p>
+                )}
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Asia/Jakarta" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="throttleMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Throttle (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={1440} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              At most one alert per camera within the throttle window; 0 sends every event.
+            </p>
+
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Disabled rules are ignored by the dispatcher</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Rule"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
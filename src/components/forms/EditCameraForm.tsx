@@ -13,6 +13,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -27,15 +28,85 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { toast } from "sonner";
-import { Camera, StreamType } from "@/types";
-import { detectStreamType, getStreamTypeLabel } from "@/lib/streamUtils";
+import { formatDistanceToNow } from "date-fns";
+import { Camera, PrivacyMask, StreamCredentials, StreamType } from "@/types";
+import {
+  detectStreamType,
+  getStreamTypeLabel,
+  isSupportedStreamUrl,
+  splitStreamUrlCredentials,
+} from "@/lib/streamUtils";
+import { hasStreamCredentials } from "@/lib/supabaseHelpers";
+import { useCameraGroups } from "@/hooks/useCameraGroups";
+import { useRecorderNodes } from "@/hooks/useRecorderNodes";
+import { useDeviceApiKeys } from "@/hooks/useDeviceApiKeys";
+import { resolveMotionSettings } from "@/lib/motionDetection";
+import { resolveRetentionPolicy } from "@/lib/retention";
+import { isPtzEndpointOnStreamHost, resolvePtzConfig } from "@/lib/ptz";
+import { resolveProbeConfig } from "@/lib/probe";
+import { PrivacyMaskEditor } from "./PrivacyMaskEditor";
+
+// Radix Select items cannot use an empty value
+const NO_GROUP = "none";
+const NO_RECORDER = "none";
 
 const cameraFormSchema = z.object({
   name: z.string().min(1, "Camera name is required").max(100),
   location: z.string().min(1, "Location is required").max(200),
-  streamUrl: z.string().url("Please enter a valid URL"),
-  streamType: z.enum(["mjpeg", "hls", "youtube"]),
+  streamUrl: z
+    .string()
+    .url("Please enter a valid URL")
+    .refine(isSupportedStreamUrl, "Use an http(s):// or rtsp:// URL"),
+  streamType: z.enum(["mjpeg", "hls", "youtube", "rtsp", "webrtc"]),
+  groupId: z.string(),
+  recorderNodeId: z.string(),
+  // Same rule as the recorder_camera_id check in the database
+  recorderCameraId: z.string().trim().regex(/^[A-Za-z0-9_-]{0,64}$/, "Letters, digits, - and _ only (max 64)"),
+  rtspUsername: z.string().max(200),
+  rtspPassword: z.string().max(200),
+  rtspClearCredentials: z.boolean(),
+  motionEnabled: z.boolean(),
+  motionSensitivity: z.number().min(1).max(100),
+  motionMinAreaPercent: z.coerce.number().min(0.1, "Minimum 0.1%").max(100, "Maximum 100%"),
+  motionPrePaddingSeconds: z.coerce.number().int().min(0).max(30, "Maximum 30 seconds"),
+  motionPostPaddingSeconds: z.coerce.number().int().min(0).max(120, "Maximum 120 seconds"),
+  probeEnabled: z.boolean(),
+  probeIntervalSeconds: z.coerce.number().int().min(30, "Minimum 30 seconds").max(3600, "Maximum 3600 seconds"),
+  probeFailureThreshold: z.coerce.number().int().min(1).max(20),
+  probeTimeoutSeconds: z.coerce.number().int().min(2).max(30),
+  retentionEnabled: z.boolean(),
+  retentionDays: z.coerce.number().int().min(0).max(3650, "Maximum 3650 days"),
+  retentionMaxTotalGb: z.coerce.number().min(0).max(10000),
+  retentionKeepIfBackedUp: z.boolean(),
+  ptzEnabled: z.boolean(),
+  ptzEndpoint: z.string().trim().max(500),
+  ptzProfileToken: z.string().trim().max(64),
+  ptzUseStreamLogin: z.boolean(),
+  privacyMasks: z.array(z.object({
+    id: z.string(),
+    points: z.array(z.object({
+      x: z.number().min(0).max(1),
+      y: z.number().min(0).max(1),
+    })).min(3),
+  })),
+}).refine((values) => (values.streamType === "rtsp") === /^rtsps?:\/\//i.test(values.streamUrl), {
+  message: "RTSP cameras need an rtsp:// URL, and rtsp:// URLs need the RTSP stream type",
+  path: ["streamUrl"],
+}).refine((values) => values.recorderNodeId === NO_RECORDER || values.recorderCameraId.length > 0, {
+  message: "Camera ID on the recorder is required",
+  path: ["recorderCameraId"],
+}).refine((values) => !values.ptzEnabled || /^https?:\/\/\S+$/i.test(values.ptzEndpoint), {
+  message: "Enter the camera's ONVIF PTZ service URL",
+  path: ["ptzEndpoint"],
+}).refine((values) => !values.ptzEnabled || isPtzEndpointOnStreamHost(values.ptzEndpoint, values.streamUrl), {
+  message: "The PTZ service must be on the same host as the stream URL",
+  path: ["ptzEndpoint"],
+}).refine((values) => !values.ptzEnabled || values.ptzProfileToken.length > 0, {
+  message: "Profile token is required",
+  path: ["ptzProfileToken"],
 });
 
 type CameraFormValues = z.infer<typeof cameraFormSchema>;
@@ -44,7 +115,12 @@ interface EditCameraFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   camera: Camera | null;
-  onSubmit: (cameraId: string, updatedData: Omit<Camera, "id" | "lastSeen">) => void;
+  // credentials: undefined keeps the stored login, null removes it
+  onSubmit: (
+    cameraId: string,
+    updatedData: Omit<Camera, "id" | "lastSeen">,
+    credentials?: StreamCredentials | null
+  ) => void;
 }
 
 export function EditCameraForm({
@@ -54,6 +130,10 @@ export function EditCameraForm({
   onSubmit,
 }: EditCameraFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { groups } = useCameraGroups();
+  const { nodes: recorderNodes } = useRecorderNodes();
+  const { keys: deviceKeys } = useDeviceApiKeys();
+  const [hasSavedCredentials, setHasSavedCredentials] = useState(false);
 
   const form = useForm<CameraFormValues>({
     resolver: zodResolver(cameraFormSchema),
@@ -62,23 +142,95 @@ export function EditCameraForm({
       location: "",
       streamUrl: "",
       streamType: "mjpeg",
+      groupId: NO_GROUP,
+      recorderNodeId: NO_RECORDER,
+      recorderCameraId: "",
+      rtspUsername: "",
+      rtspPassword: "",
+      rtspClearCredentials: false,
+      motionEnabled: false,
+      motionSensitivity: 50,
+      motionMinAreaPercent: 1,
+      motionPrePaddingSeconds: 5,
+      motionPostPaddingSeconds: 10,
+      probeEnabled: false,
+      probeIntervalSeconds: 60,
+      probeFailureThreshold: 3,
+      probeTimeoutSeconds: 10,
+      retentionEnabled: false,
+      retentionDays: 30,
+      retentionMaxTotalGb: 0,
+      retentionKeepIfBackedUp: false,
+      ptzEnabled: false,
+      ptzEndpoint: "",
+      ptzProfileToken: "",
+      ptzUseStreamLogin: true,
+      privacyMasks: [],
     },
   });
+  const [isEditingMasks, setIsEditingMasks] = useState(false);
 
   // Update form values when camera changes
   useEffect(() => {
     if (camera) {
+      const motion = resolveMotionSettings(camera.motionDetection);
+      const retention = resolveRetentionPolicy(camera.retention);
+      const ptz = resolvePtzConfig(camera.ptz);
+      const probe = resolveProbeConfig(camera.probe);
       form.reset({
         name: camera.name,
         location: camera.location,
         streamUrl: camera.streamUrl,
         streamType: camera.streamType || 'mjpeg',
+        groupId: camera.groupId ?? NO_GROUP,
+        recorderNodeId: camera.recorderNodeId ?? NO_RECORDER,
+        recorderCameraId: camera.recorderCameraId ?? "",
+        rtspUsername: "",
+        rtspPassword: "",
+        rtspClearCredentials: false,
+        motionEnabled: motion.enabled,
+        motionSensitivity: motion.sensitivity,
+        motionMinAreaPercent: motion.minAreaPercent,
+        motionPrePaddingSeconds: motion.prePaddingSeconds,
+        motionPostPaddingSeconds: motion.postPaddingSeconds,
+        probeEnabled: probe.enabled,
+        probeIntervalSeconds: probe.intervalSeconds,
+        probeFailureThreshold: probe.failureThreshold,
+        probeTimeoutSeconds: probe.timeoutSeconds,
+        retentionEnabled: retention.enabled,
+        retentionDays: retention.days ?? 0,
+        retentionMaxTotalGb: retention.maxTotalGb ?? 0,
+        retentionKeepIfBackedUp: retention.keepIfBackedUp,
+        ptzEnabled: ptz.enabled,
+        ptzEndpoint: ptz.endpoint,
+        ptzProfileToken: ptz.profileToken,
+        ptzUseStreamLogin: ptz.credentials === "stream",
+        privacyMasks: camera.privacyMasks ?? [],
       });
+      setIsEditingMasks(false);
     }
   }, [camera, form]);
 
+  useEffect(() => {
+    setHasSavedCredentials(false);
+    if (!camera || !open || camera.streamType !== "rtsp") return;
+
+    hasStreamCredentials(camera.id)
+      .then(setHasSavedCredentials)
+      .catch((error) => console.error("Error checking stream credentials:", error));
+  }, [camera, open]);
+
   // Auto-detect stream type when URL changes
   const streamUrl = form.watch("streamUrl");
+  const motionEnabled = form.watch("motionEnabled");
+  const retentionEnabled = form.watch("retentionEnabled");
+  const probeEnabled = form.watch("probeEnabled");
+  // Devices pinging with a key bound to this camera stop setting its status once it is probed
+  const cameraDeviceKeys = deviceKeys.filter((key) => key.cameraId === camera?.id && !key.revokedAt);
+  const ptzEnabled = form.watch("ptzEnabled");
+  const streamType = form.watch("streamType");
+  const recorderNodeId = form.watch("recorderNodeId");
+  const rtspClearCredentials = form.watch("rtspClearCredentials");
   useEffect(() => {
     if (streamUrl && open) {
       const detected = detectStreamType(streamUrl);
@@ -91,16 +243,59 @@ export function EditCameraForm({
 
     setIsSubmitting(true);
     try {
+      // Never store user:password@ in stream_url, it is readable by every viewer
+      const split = splitStreamUrlCredentials(values.streamUrl);
+      const username = values.rtspUsername.trim() || split.username;
+      let credentials: StreamCredentials | null | undefined;
+      if (values.streamType !== "rtsp" || values.rtspClearCredentials) {
+        credentials = hasSavedCredentials ? null : undefined;
+      } else if (username) {
+        // A blank password keeps the stored one
+        credentials = { username, password: values.rtspPassword || split.password || null };
+      }
+
       const updatedCamera: Omit<Camera, "id" | "lastSeen"> = {
         name: values.name,
         location: values.location,
-        streamUrl: values.streamUrl,
+        streamUrl: split.url,
         streamType: values.streamType as StreamType,
+        groupId: values.groupId === NO_GROUP ? null : values.groupId,
+        recorderNodeId: values.recorderNodeId === NO_RECORDER ? null : values.recorderNodeId,
+        recorderCameraId: values.recorderNodeId === NO_RECORDER ? null : values.recorderCameraId,
         fps: camera.fps,
+        resolution: camera.resolution,
         status: camera.status,
+        motionDetection: {
+          enabled: values.motionEnabled,
+          sensitivity: values.motionSensitivity,
+          minAreaPercent: values.motionMinAreaPercent,
+          prePaddingSeconds: values.motionPrePaddingSeconds,
+          postPaddingSeconds: values.motionPostPaddingSeconds,
+        },
+        privacyMasks: values.privacyMasks as PrivacyMask[],
+        probe: {
+          enabled: values.probeEnabled,
+          intervalSeconds: values.probeIntervalSeconds,
+          failureThreshold: values.probeFailureThreshold,
+          timeoutSeconds: values.probeTimeoutSeconds,
+        },
+        retention: {
+          enabled: values.retentionEnabled,
+          // 0 means no limit
+          days: values.retentionDays || null,
+          maxTotalGb: values.retentionMaxTotalGb || null,
+          keepIfBackedUp: values.retentionKeepIfBackedUp,
+        },
+        ptz: {
+          enabled: values.ptzEnabled,
+          protocol: "onvif",
+          endpoint: values.ptzEndpoint,
+          profileToken: values.ptzProfileToken,
+          credentials: values.ptzUseStreamLogin ? "stream" : "none",
+        },
       };
 
-      await onSubmit(camera.id, updatedCamera);
+      await onSubmit(camera.id, updatedCamera, credentials);
       toast.success("Camera updated successfully");
       onOpenChange(false);
     } catch (error) {
@@ -112,7 +307,7 @@ export function EditCameraForm({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Camera Configuration</DialogTitle>
           <DialogDescription>
@@ -150,6 +345,32 @@ export function EditCameraForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="groupId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select group" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_GROUP}>No group</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="streamUrl"
@@ -186,6 +407,8 @@ export function EditCameraForm({
                       <SelectItem value="mjpeg">{getStreamTypeLabel('mjpeg')}</SelectItem>
                       <SelectItem value="hls">{getStreamTypeLabel('hls')}</SelectItem>
                       <SelectItem value="youtube">{getStreamTypeLabel('youtube')}</SelectItem>
+                      <SelectItem value="rtsp">{getStreamTypeLabel('rtsp')}</SelectItem>
+                      <SelectItem value="webrtc">{getStreamTypeLabel('webrtc')}</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -193,6 +416,479 @@ export function EditCameraForm({
               )}
             />
 
+            {streamType === "rtsp" && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="rtspUsername"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>RTSP Username</FormLabel>
+                        <FormControl>
+                          <Input
+                            autoComplete="off"
+                            placeholder={hasSavedCredentials ? "Unchanged" : ""}
+                            disabled={rtspClearCredentials}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="rtspPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>RTSP Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder={hasSavedCredentials ? "Unchanged" : ""}
+                            disabled={rtspClearCredentials}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormDescription>
+                  {hasSavedCredentials
+                    ? "A login is saved for this camera. Enter a username to replace it; leave the password blank to keep the current one."
+                    : "Stored server-side for the RTSP gateway and never sent back to the browser"}
+                </FormDescription>
+                {hasSavedCredentials && (
+                  <FormField
+                    control={form.control}
+                    name="rtspClearCredentials"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between">
+                        <FormLabel>Remove saved login</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="motionEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Motion Detection</FormLabel>
+                    <FormDescription>
+                      Auto-record when motion is detected (browser-recorded streams)
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {motionEnabled && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <FormField
+                  control={form.control}
+                  name="motionSensitivity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sensitivity ({field.value})</FormLabel>
+                      <FormControl>
+                        <Slider
+                          min={1}
+                          max={100}
+                          step={1}
+                          value={[field.value]}
+                          onValueChange={(value) => field.onChange(value[0])}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="motionMinAreaPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Area (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.1" min="0.1" max="100" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Share of the frame that must change to count as motion
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="motionPrePaddingSeconds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pre Padding (s)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" max="30" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="motionPostPaddingSeconds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Post Padding (s)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" max="120" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+            )}
+
+            {streamType !== "youtube" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="probeEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Server-side Probing</FormLabel>
+                        <FormDescription>
+                          Check the stream from the server and set online/offline, whoever has the dashboard open
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {probeEnabled && (
+                  <div className="space-y-4 rounded-lg border p-3">
+                    <div className="grid grid-cols-3 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="probeIntervalSeconds"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Every (s)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="30" max="3600" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="probeFailureThreshold"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Failures</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" max="20" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="probeTimeoutSeconds"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Timeout (s)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="2" max="30" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The camera goes offline after this many failed probes in a row, and browser and device
+                      heartbeats no longer set its status. The stream URL must be reachable from the internet.
+                    </p>
+                    {cameraDeviceKeys.length > 0 && (
+                      <p className="text-xs text-warning">
+                        {cameraDeviceKeys.map((key) => key.name).join(", ")} already pings this camera; with probing on,
+                        those heartbeats only keep the device status and the prober decides online/offline.
+                      </p>
+                    )}
+                    {camera?.lastProbeAt && (
+                      <p className={camera.lastProbeError ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                        Last probe {formatDistanceToNow(new Date(camera.lastProbeAt), { addSuffix: true })}:{" "}
+                        {camera.lastProbeError
+                          ? `${camera.lastProbeError} (${camera.probeFailures ?? 0} in a row)`
+                          : "stream reachable"}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {streamType === "mjpeg" && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">Server Recording</p>
+                  <p className="text-sm text-muted-foreground">
+                    Recorder node that records this camera and the camera's ID on it
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="recorderNodeId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Recorder</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select recorder" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_RECORDER}>Not recorded</SelectItem>
+                            {recorderNodes.map((node) => (
+                              <SelectItem key={node.id} value={node.id}>
+                                {node.name}
+                                {!node.enabled && " (disabled)"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="recorderCameraId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Camera ID on Recorder</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="cam1"
+                            disabled={recorderNodeId === NO_RECORDER}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="retentionEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Retention Policy</FormLabel>
+                    <FormDescription>
+                      Automatically purge old cloud recordings of this camera
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {retentionEnabled && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="retentionDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Keep (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" max="3650" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="retentionMaxTotalGb"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Total (GB)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Use 0 for no limit. Protected recordings are never purged.
+                </p>
+                <FormField
+                  control={form.control}
+                  name="retentionKeepIfBackedUp"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <FormLabel>Keep if backed up</FormLabel>
+                        <FormDescription>
+                          Never purge recordings backed up to Google Drive
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="ptzEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>PTZ Control</FormLabel>
+                    <FormDescription>
+                      Pan, tilt, zoom and presets from the live view (ONVIF)
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {ptzEnabled && (
+              <div className="space-y-4 rounded-lg border p-3">
+                <FormField
+                  control={form.control}
+                  name="ptzEndpoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ONVIF PTZ Service URL</FormLabel>
+                      <FormControl>
+                        <Input placeholder="http://192.168.1.64/onvif/ptz_service" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="ptzProfileToken"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Media Profile Token</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Profile_1" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        The ONVIF media profile the PTZ commands apply to
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="ptzUseStreamLogin"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <FormLabel>Use saved camera login</FormLabel>
+                        <FormDescription>
+                          Authenticate with the stored RTSP username and password
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="privacyMasks"
+              render={({ field }) => (
+                <FormItem className="rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>Privacy Masks</FormLabel>
+                      <FormDescription>
+                        {field.value.length > 0
+                          ? `${field.value.length} mask(s) blacked out in live view, snapshots and recordings`
+                          : "Black out areas such as neighbouring windows"}
+                      </FormDescription>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setIsEditingMasks((prev) => !prev)}
+                    >
+                      {isEditingMasks ? "Done" : "Edit Masks"}
+                    </Button>
+                  </div>
+                  {isEditingMasks && camera && (
+                    <FormControl>
+                      <PrivacyMaskEditor
+                        cameraId={camera.id}
+                        cameraName={camera.name}
+                        streamUrl={form.getValues("streamUrl")}
+                        streamType={form.getValues("streamType") as StreamType}
+                        value={field.value as PrivacyMask[]}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <DialogFooter>
               <Button
@@ -0,0 +1,162 @@
+import { useState, useRef, useCallback } from "react";
+import { Trash2, Undo2, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { StreamWrapper } from "@/components/streams/StreamWrapper";
+import { PrivacyMaskOverlay } from "@/components/streams/PrivacyMaskOverlay";
+import { getElementFrameSize, toSvgPoints } from "@/lib/privacyMasks";
+import { PrivacyMask, StreamType } from "@/types";
+
+interface PrivacyMaskEditorProps {
+  cameraId: string;
+  cameraName: string;
+  streamUrl: string;
+  streamType: StreamType;
+  value: PrivacyMask[];
+  onChange: (masks: PrivacyMask[]) => void;
+}
+
+type Point = PrivacyMask["points"][number];
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Click on the live frame to add polygon points; finish to store the mask
+export function PrivacyMaskEditor({
+  cameraId,
+  cameraName,
+  streamUrl,
+  streamType,
+  value,
+  onChange,
+}: PrivacyMaskEditorProps) {
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const elementRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const width = frameSize?.width ?? 1;
+  const height = frameSize?.height ?? 1;
+
+  const handleElementRef = useCallback((el: HTMLImageElement | HTMLVideoElement | null) => {
+    if (el && el !== elementRef.current && el instanceof HTMLVideoElement) {
+      el.addEventListener('loadedmetadata', () => setFrameSize(getElementFrameSize(el)));
+    }
+    elementRef.current = el;
+  }, []);
+
+  const handleLoad = useCallback(() => {
+    setFrameSize(getElementFrameSize(elementRef.current));
+  }, []);
+
+  // Map the click through the SVG transform so points land on the (cropped) frame
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+    setDraft((prev) => [...prev, { x: clamp01(local.x / width), y: clamp01(local.y / height) }]);
+  };
+
+  const handleFinish = () => {
+    if (draft.length < 3) return;
+    onChange([...value, { id: crypto.randomUUID(), points: draft }]);
+    setDraft([]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter((mask) => mask.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative aspect-video bg-black rounded-md overflow-hidden">
+        <StreamWrapper
+          streamUrl={streamUrl}
+          cameraName={cameraName}
+          cameraId={cameraId}
+          streamType={streamType}
+          onLoad={handleLoad}
+          onElementRef={handleElementRef}
+          className="w-full h-full rounded-none"
+        />
+        <PrivacyMaskOverlay masks={value} frameSize={frameSize} className="opacity-70" />
+        <svg
+          ref={svgRef}
+          className="absolute inset-0 w-full h-full cursor-crosshair z-20"
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio={frameSize ? "xMidYMid slice" : "none"}
+          onClick={handleClick}
+        >
+          {draft.length > 1 && (
+            <polygon
+              points={toSvgPoints(draft, width, height)}
+              fill="rgba(239, 68, 68, 0.35)"
+              stroke="rgb(239, 68, 68)"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {draft.map((p, i) => (
+            <circle
+              key={i}
+              cx={p.x * width}
+              cy={p.y * height}
+              r={Math.max(width, height) * 0.006}
+              fill="rgb(239, 68, 68)"
+            />
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" size="sm" onClick={handleFinish} disabled={draft.length < 3}>
+          <Check className="h-3.5 w-3.5 mr-1" />
+          Finish Mask
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setDraft((prev) => prev.slice(0, -1))}
+          disabled={draft.length === 0}
+        >
+          <Undo2 className="h-3.5 w-3.5 mr-1" />
+          Undo Point
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setDraft([])} disabled={draft.length === 0}>
+          <X className="h-3.5 w-3.5 mr-1" />
+          Cancel
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {draft.length > 0 ? `${draft.length} point(s)` : "Click on the frame to start a mask"}
+        </span>
+      </div>
+
+      {value.length > 0 && (
+        <div className="space-y-1">
+          {value.map((mask, index) => (
+            <div key={mask.id} className="flex items-center justify-between rounded border px-2 py-1 text-sm">
+              <span>
+                Mask {index + 1}{" "}
+                <span className="text-xs text-muted-foreground">({mask.points.length} points)</span>
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 text-destructive"
+                onClick={() => handleRemove(mask.id)}
+                title="Remove mask"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
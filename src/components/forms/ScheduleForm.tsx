@@ -0,0 +1,325 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Camera, RecordingSchedule, ScheduleMode } from "@/types";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const scheduleFormSchema = z
+  .object({
+    name: z.string().min(1, "Schedule name is required").max(100),
+    cameraId: z.string().min(1, "Camera is required"),
+    weekdays: z.array(z.string()).min(1, "Select at least one day"),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, "Start time is required"),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/, "End time is required"),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+    mode: z.enum(["continuous", "motion"]),
+    enabled: z.boolean(),
+  })
+  .refine((values) => values.startTime !== values.endTime, {
+    message: "End time must differ from start time",
+    path: ["endTime"],
+  });
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+interface ScheduleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cameras: Camera[];
+  // Null to create a new schedule
+  schedule: RecordingSchedule | null;
+  onSubmit: (data: Omit<RecordingSchedule, "id" | "activeSince" | "lastError">) => Promise<void>;
+}
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function ScheduleForm({ open, onOpenChange, cameras, schedule, onSubmit }: ScheduleFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: {
+      name: "",
+      cameraId: "",
+      weekdays: ["1", "2", "3", "4", "5"],
+      startTime: "18:00",
+      endTime: "06:00",
+      timezone: browserTimezone,
+      mode: "continuous",
+      enabled: true,
+    },
+  });
+
+  // Load the schedule being edited, or reset for a new one, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (schedule) {
+      form.reset({
+        name: schedule.name,
+        cameraId: schedule.cameraId,
+        weekdays: schedule.weekdays.map(String),
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        timezone: schedule.timezone,
+        mode: schedule.mode,
+        enabled: schedule.enabled,
+      });
+    } else {
+      form.reset({
+        name: "",
+        cameraId: cameras[0]?.id ?? "",
+        weekdays: ["1", "2", "3", "4", "5"],
+        startTime: "18:00",
+        endTime: "06:00",
+        timezone: browserTimezone,
+        mode: "continuous",
+        enabled: true,
+      });
+    }
+  }, [open, schedule, cameras, form]);
+
+  const startTime = form.watch("startTime");
+  const endTime = form.watch("endTime");
+
+  const handleSubmit = async (values: ScheduleFormValues) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit({
+        name: values.name,
+        cameraId: values.cameraId,
+        weekdays: values.weekdays.map(Number).sort(),
+        startTime: values.startTime,
+        endTime: values.endTime,
+        timezone: values.timezone,
+        mode: values.mode as ScheduleMode,
+        enabled: values.enabled,
+      });
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the caller
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? "Edit Schedule" : "Add Schedule"}</DialogTitle>
+          <DialogDescription>
+            Record a Raspberry Pi camera automatically during a weekly time window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Night shift" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cameraId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Camera</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select camera" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {cameras.map((camera) => (
+                        <SelectItem key={camera.id} value={camera.id}>
+                          {camera.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Only MJPEG cameras recorded by the Raspberry Pi can be scheduled</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="weekdays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Days</FormLabel>
+                  <FormControl>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start flex-wrap"
+                      value={field.value}
+                      onValueChange={field.onChange}
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <ToggleGroupItem key={day} value={String(index)} className="w-11">
+                          {day}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {endTime < startTime && (
+              <p className="text-xs text-muted-foreground -mt-2">
+                Overnight window: ends at {endTime} on the following day.
+              </p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timezone</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Asia/Jakarta" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mode</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="continuous">Continuous</SelectItem>
+                      <SelectItem value="motion">Motion only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Motion only records while the camera reports motion events inside the window
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Disabled schedules are ignored by the scheduler</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Schedule"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AppNotification } from '@/types';
+
+interface AcknowledgeIncidentDialogProps {
+  notification: AppNotification | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (notification: AppNotification, comment: string) => Promise<void>;
+}
+
+export const AcknowledgeIncidentDialog = ({ notification, onOpenChange, onConfirm }: AcknowledgeIncidentDialogProps) => {
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (notification) setComment('');
+  }, [notification]);
+
+  const handleConfirm = async () => {
+    if (!notification) return;
+    setSaving(true);
+    try {
+      await onConfirm(notification, comment.trim());
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the caller
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!notification} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Acknowledge Incident</DialogTitle>
+          <DialogDescription>
+            {notification?.description}. Everyone in your organisation will see the acknowledgement.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="ack-comment">Comment (optional)</Label>
+          <Textarea
+            id="ack-comment"
+            placeholder="e.g., Power cut at the greenhouse, electrician on the way"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            rows={4}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving}>
+            {saving ? 'Saving...' : 'Acknowledge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
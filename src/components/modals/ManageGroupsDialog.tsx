@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Plus, Trash2, Pencil, Check, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Camera, CameraGroup } from '@/types';
+
+interface ManageGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: CameraGroup[];
+  cameras: Camera[];
+}
+
+export const ManageGroupsDialog = ({ open, onOpenChange, groups, cameras }: ManageGroupsDialogProps) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const getCameraCount = (groupId: string) => cameras.filter((c) => c.groupId === groupId).length;
+
+  const handleError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('camera_groups').insert([{ name }]);
+      if (error) throw error;
+      setNewName('');
+    } catch (error) {
+      handleError('Error creating group', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (groupId: string) => {
+    const name = editingName.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('camera_groups').update({ name }).eq('id', groupId);
+      if (error) throw error;
+      setEditingId(null);
+    } catch (error) {
+      handleError('Error renaming group', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: CameraGroup) => {
+    const count = getCameraCount(group.id);
+    if (count > 0 && !confirm(`Delete "${group.name}"? Its ${count} camera(s) will become ungrouped.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('camera_groups').delete().eq('id', group.id);
+      if (error) throw error;
+    } catch (error) {
+      handleError('Error deleting group', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Camera Groups</DialogTitle>
+          <DialogDescription>
+            Group cameras by site, e.g. "Greenhouse A" or "Rooftop".
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <Input
+            placeholder="New group name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={100}
+          />
+          <Button type="submit" disabled={saving || !newName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No groups yet.</p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                {editingId === group.id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      maxLength={100}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => handleRename(group.id)} disabled={saving}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 font-medium truncate">{group.name}</span>
+                    <Badge variant="secondary">{getCameraCount(group.id)} cameras</Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-8 p-0"
+                      onClick={() => {
+                        setEditingId(group.id);
+                        setEditingName(group.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(group)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Plus, Trash2, Pencil, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { useRecorderNodes, RecorderNodeInput } from '@/hooks/useRecorderNodes';
+import { Camera, RecorderNode } from '@/types';
+
+// Same rules as the checks on recorder_nodes
+const BASE_URL_PATTERN = /^https?:\/\/\S+$/;
+const SECRET_NAME_PATTERN = /^RPI_API_KEY(_[A-Z0-9_]+)?$/;
+
+const EMPTY_NODE: RecorderNodeInput = {
+  name: '',
+  baseUrl: '',
+  apiKeySecret: 'RPI_API_KEY',
+  enabled: true,
+};
+
+const STATUS_CLASSES: Record<RecorderNode['status'], string> = {
+  online: 'text-success border-success',
+  offline: 'text-destructive border-destructive',
+  unknown: 'text-muted-foreground',
+};
+
+interface ManageRecorderNodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cameras: Camera[];
+}
+
+export const ManageRecorderNodesDialog = ({ open, onOpenChange, cameras }: ManageRecorderNodesDialogProps) => {
+  const { nodes, saveNode, deleteNode } = useRecorderNodes();
+  const [form, setForm] = useState<RecorderNodeInput>(EMPTY_NODE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const getCameraCount = (nodeId: string) => cameras.filter((c) => c.recorderNodeId === nodeId).length;
+
+  const formError = !form.name.trim()
+    ? 'Name is required'
+    : !BASE_URL_PATTERN.test(form.baseUrl.trim())
+      ? 'Base URL must start with http:// or https://'
+      : !SECRET_NAME_PATTERN.test(form.apiKeySecret.trim())
+        ? 'Secret name must be RPI_API_KEY or start with RPI_API_KEY_'
+        : null;
+
+  const handleError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_NODE);
+  };
+
+  const handleSave = async () => {
+    if (formError) return;
+
+    setSaving(true);
+    try {
+      await saveNode(editingId, form);
+      resetForm();
+    } catch (error) {
+      handleError(editingId ? 'Error updating recorder' : 'Error adding recorder', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (node: RecorderNode) => {
+    setEditingId(node.id);
+    setForm({
+      name: node.name,
+      baseUrl: node.baseUrl,
+      apiKeySecret: node.apiKeySecret,
+      enabled: node.enabled,
+    });
+  };
+
+  const handleDelete = async (node: RecorderNode) => {
+    const count = getCameraCount(node.id);
+    if (count > 0 && !confirm(`Delete "${node.name}"? Its ${count} camera(s) will no longer be recorded server-side.`)) {
+      return;
+    }
+
+    try {
+      await deleteNode(node.id);
+      if (editingId === node.id) resetForm();
+    } catch (error) {
+      handleError('Error deleting recorder', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Recorder Nodes</DialogTitle>
+          <DialogDescription>
+            Servers that record MJPEG cameras, e.g. a Raspberry Pi. Their API key is stored as an edge function secret and is only used for the base URL the deployment owner bound it to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-3 rounded-lg border p-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="recorder-name">Name</Label>
+              <Input
+                id="recorder-name"
+                placeholder="Gate Raspberry Pi"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="recorder-secret">API Key Secret</Label>
+              <Input
+                id="recorder-secret"
+                placeholder="RPI_API_KEY_GATE"
+                value={form.apiKeySecret}
+                onChange={(e) => setForm({ ...form, apiKeySecret: e.target.value.toUpperCase() })}
+                className="font-mono"
+                maxLength={100}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="recorder-url">Base URL</Label>
+            <Input
+              id="recorder-url"
+              placeholder="https://api.example.com"
+              value={form.baseUrl}
+              onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+              maxLength={500}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="recorder-enabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+              />
+              <Label htmlFor="recorder-enabled">Enabled</Label>
+            </div>
+            <div className="flex gap-2">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={saving || !!formError} title={formError ?? undefined}>
+                {editingId ? (
+                  'Save'
+                ) : (
+                  <>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </form>
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+          {nodes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No recorder nodes yet.</p>
+          ) : (
+            nodes.map((node) => (
+              <div key={node.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{node.name}</span>
+                    {node.enabled ? (
+                      <Badge variant="outline" className={STATUS_CLASSES[node.status]}>
+                        {node.status}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">disabled</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {node.baseUrl} · <span className="font-mono">{node.apiKeySecret}</span>
+                  </div>
+                </div>
+                <Badge variant="secondary">{getCameraCount(node.id)} cameras</Badge>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => handleEdit(node)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(node)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -240,6 +240,7 @@ const CameraCell = memo(function CameraCell({ camera, onExpand, statusColor, sta
             isPlaying={true}
             onLoad={handleLoad}
             onError={handleError}
+            privacyMasks={camera.privacyMasks}
             className="absolute inset-0 w-full h-full rounded-none"
           />
         </div>
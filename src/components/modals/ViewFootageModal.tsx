@@ -34,6 +34,7 @@ interface ViewFootageModalProps {
   onOpenChange: (open: boolean) => void;
   footage: MonitoringRecord | null;
   onDelete?: (id: string) => void;
+  initialOffsetSeconds?: number; // Seek here once the video is loaded (e.g. a motion event)
 }
 
 const formatTime = (seconds: number): string => {
@@ -60,7 +61,7 @@ const formatFileSize = (bytes: number | null | undefined): string => {
   }
 };
 
-export const ViewFootageModal = ({ open, onOpenChange, footage, onDelete }: ViewFootageModalProps) => {
+export const ViewFootageModal = ({ open, onOpenChange, footage, onDelete, initialOffsetSeconds }: ViewFootageModalProps) => {
   const [signedUrl, setSignedUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   
@@ -76,6 +77,12 @@ export const ViewFootageModal = ({ open, onOpenChange, footage, onDelete }: View
   const [isBuffering, setIsBuffering] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+
+  // Remember the requested offset for the footage being opened
+  useEffect(() => {
+    pendingSeekRef.current = open && initialOffsetSeconds && initialOffsetSeconds > 0 ? initialOffsetSeconds : null;
+  }, [open, footage?.id, initialOffsetSeconds]);
   
   useEffect(() => {
     if (open && footage?.fileUrl) {
@@ -138,8 +145,20 @@ export const ViewFootageModal = ({ open, onOpenChange, footage, onDelete }: View
         updateDuration();
       }
     };
+    const applyPendingSeek = () => {
+      const offset = pendingSeekRef.current;
+      if (offset === null) return;
+      pendingSeekRef.current = null;
+      try {
+        video.currentTime = offset;
+      } catch {
+        // ignore - not seekable yet
+      }
+    };
+
     const handleLoadedMetadata = () => {
       updateDuration();
+      applyPendingSeek();
       // Keep UI in sync with the real media element (don't force reset here)
       setCurrentTime(video.currentTime || 0);
     };
@@ -589,14 +608,16 @@ export const ViewFootageModal = ({ open, onOpenChange, footage, onDelete }: View
             <Download className="h-4 w-4" />
             Download
           </Button>
-          <Button 
-            variant="destructive" 
-            onClick={handleDelete}
-            className="gap-2"
-          >
-            <Trash2 className="h-4 w-4" />
-            Delete
-          </Button>
+          {onDelete && (
+            <Button 
+              variant="destructive" 
+              onClick={handleDelete}
+              className="gap-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera } from '@/types';
+import { Camera, StreamMetrics } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -22,12 +22,19 @@ import {
   Monitor,
   Film,
   Youtube,
+  Cctv,
+  Zap,
 } from 'lucide-react';
 import { useRecording } from '@/hooks/useRecording';
+import { useRole } from '@/hooks/useRole';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
 import { StreamWrapper } from '@/components/streams/StreamWrapper';
 import { detectStreamType, isRecordingSupported, getStreamTypeLabel, StreamType } from '@/lib/streamUtils';
+import { drawPrivacyMasks } from '@/lib/privacyMasks';
+import { PtzControls } from '@/components/PtzControls';
+import { StreamHealthPanel } from '@/components/StreamHealthPanel';
+import { useCameraMetrics } from '@/hooks/useCameraMetrics';
 
 interface ViewStreamModalProps {
   open: boolean;
@@ -50,6 +57,10 @@ function getStreamTypeIcon(type: StreamType) {
       return <Film className="w-3 h-3" />;
     case 'youtube':
       return <Youtube className="w-3 h-3" />;
+    case 'rtsp':
+      return <Cctv className="w-3 h-3" />;
+    case 'webrtc':
+      return <Zap className="w-3 h-3" />;
     default:
       return <CameraIcon className="w-3 h-3" />;
   }
@@ -60,6 +71,7 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [streamLoaded, setStreamLoaded] = useState(false);
   const [retryKey, setRetryKey] = useState(0);
+  const [metrics, setMetrics] = useState<StreamMetrics | null>(null);
   
   const elementRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -67,8 +79,13 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
 
   // Detect stream type
   const streamType = camera ? (camera as any).streamType || detectStreamType(camera.streamUrl) : 'mjpeg';
-  const canRecord = isRecordingSupported(streamType);
-  const canSnapshot = streamType !== 'youtube'; // YouTube doesn't allow canvas capture
+  // Recording and snapshots need the operator role
+  const { canRecord: isOperator } = useRole();
+  const canRecord = isOperator && isRecordingSupported(streamType);
+  const canSnapshot = isOperator && streamType !== 'youtube'; // YouTube doesn't allow canvas capture
+  // Only the MJPEG and HLS players measure their stream
+  const hasHealthMetrics = streamType === 'mjpeg' || streamType === 'hls' || streamType === 'rtsp';
+  const { samples: metricsSamples } = useCameraMetrics(open && hasHealthMetrics ? camera?.id ?? null : null);
 
   const {
     isRecording,
@@ -82,7 +99,8 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
     camera?.id || '',
     camera?.status || 'offline',
     camera?.name,
-    camera?.fps
+    camera?.fps,
+    camera?.privacyMasks
   );
 
   const isOffline = camera?.status === 'offline';
@@ -92,6 +110,7 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
     if (open && camera) {
       setIsPlaying(true);
       setStreamLoaded(false);
+      setMetrics(null);
       setRetryKey(prev => prev + 1);
     }
   }, [open, camera?.id]);
@@ -121,6 +140,7 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
 
   const handleManualRetry = () => {
     setStreamLoaded(false);
+    setMetrics(null);
     setRetryKey(prev => prev + 1);
   };
 
@@ -162,6 +182,7 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
 
     try {
       ctx.drawImage(el, 0, 0);
+      drawPrivacyMasks(ctx, camera.privacyMasks, canvas.width, canvas.height);
       canvas.toBlob((blob) => {
         if (!blob) {
           toast({
@@ -258,6 +279,8 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
                 isPlaying={isPlaying}
                 onLoad={handleStreamLoad}
                 onElementRef={handleElementRef}
+                onMetrics={setMetrics}
+                privacyMasks={camera.privacyMasks}
                 className="w-full h-full"
               />
 
@@ -372,6 +395,22 @@ export function ViewStreamModal({ open, onOpenChange, camera }: ViewStreamModalP
               </div>
             </div>
 
+            {/* Stream Health - measured by this player, compared with the configured values */}
+            {hasHealthMetrics && !isOffline && (
+              <div className="mt-6 pt-4 border-t border-border">
+                <h4 className="text-xs text-muted-foreground mb-3">Stream Health</h4>
+                <StreamHealthPanel camera={camera} metrics={metrics} samples={metricsSamples} />
+              </div>
+            )}
+
+            {/* PTZ - operators only, moving the camera affects every viewer */}
+            {isOperator && camera.ptz?.enabled && (
+              <div className="mt-6 pt-4 border-t border-border">
+                <h4 className="text-xs text-muted-foreground mb-3">PTZ Control</h4>
+                <PtzControls cameraId={camera.id} disabled={isOffline} />
+              </div>
+            )}
+
             {/* Quick Actions */}
             <div className="mt-6 pt-4 border-t border-border">
               <h4 className="text-xs text-muted-foreground mb-3">Quick Actions</h4>
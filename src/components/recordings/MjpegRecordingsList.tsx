@@ -13,10 +13,11 @@ import { toast } from '@/hooks/use-toast';
 interface MjpegRecordingsListProps {
   cameraId: string;
   cameraName: string;
-  streamUrl?: string;
+  recorderNodeId?: string | null;
+  recorderCameraId?: string | null;
 }
 
-export function MjpegRecordingsList({ cameraId, cameraName, streamUrl }: MjpegRecordingsListProps) {
+export function MjpegRecordingsList({ cameraId, cameraName, recorderNodeId, recorderCameraId }: MjpegRecordingsListProps) {
   const { 
     recordings, 
     isLoadingRecordings, 
@@ -24,7 +25,7 @@ export function MjpegRecordingsList({ cameraId, cameraName, streamUrl }: MjpegRe
     isRecording,
     isValidStream,
     isServerAvailable,
-  } = useMjpegRecording({ cameraId, streamUrl, enabled: true });
+  } = useMjpegRecording({ cameraId, recorderNodeId, recorderCameraId, enabled: true });
   
   const [playingVideo, setPlayingVideo] = useState<MjpegRecordingFile | null>(null);
   const [videoError, setVideoError] = useState<string | null>(null);
@@ -80,7 +81,7 @@ export function MjpegRecordingsList({ cameraId, cameraName, streamUrl }: MjpegRe
       await navigator.clipboard.writeText(url);
       toast({
         title: 'Link disalin',
-        description: 'URL video berhasil disalin ke clipboard',
+        description: 'URL video berhasil disalin ke clipboard (berlaku 1 jam, hanya untuk akun Anda)',
       });
     } catch {
       toast({
@@ -98,14 +99,14 @@ export function MjpegRecordingsList({ cameraId, cameraName, streamUrl }: MjpegRe
     return `${mb.toFixed(1)} MB`;
   };
 
-  // Show message if stream URL is not valid for MJPEG recording
+  // Show message if the camera is not mapped to a recorder node
   if (!isValidStream) {
     return (
       <Card>
         <CardContent className="text-center py-8 text-muted-foreground">
           <Video className="h-12 w-12 mx-auto mb-3 opacity-50" />
           <p className="font-medium">Recording tidak tersedia</p>
-          <p className="text-sm mt-1">Kamera ini tidak terhubung ke server recording (cctvgreen.site)</p>
+          <p className="text-sm mt-1">Kamera belum terhubung ke recorder. Atur recorder di pengaturan kamera.</p>
         </CardContent>
       </Card>
     );
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Activity, Play, RefreshCw, ImageOff, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { dbMotionEventToMotionEvent, dbRecordingToMonitoringRecord, getSignedRecordingUrl } from '@/lib/supabaseHelpers';
+import { MonitoringRecord, MotionEventRecord } from '@/types';
+import { DateRangeValue } from '@/components/DateRangeFilter';
+
+interface MotionEventsListProps {
+  cameraFilter: string;
+  // Restrict to these cameras (group filter); undefined for all cameras
+  cameraIds?: string[];
+  dateRange: DateRangeValue;
+  onOpenRecording: (record: MonitoringRecord, offsetSeconds: number) => void;
+}
+
+// Recording durations are stored as "1m 5s" (stop-recording) or "HH:MM:SS"
+const parseDurationSeconds = (duration: string | null | undefined): number | null => {
+  if (!duration) return null;
+  if (duration.includes(':')) {
+    const parts = duration.split(':').map(Number);
+    if (parts.some(isNaN)) return null;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+  const match = duration.match(/(?:(\d+)h)?\s*(?:(\d+)m)?\s*(?:(\d+)s)?/);
+  if (!match || !match[0].trim()) return null;
+  return Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+};
+
+const formatEventDuration = (event: MotionEventRecord): string => {
+  if (!event.endedAt) return 'Ongoing';
+  const seconds = Math.max(0, Math.round((new Date(event.endedAt).getTime() - new Date(event.startedAt).getTime()) / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+function EventSnapshot({ path }: { path: string | null }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    getSignedRecordingUrl(path).then((signed) => {
+      if (!cancelled) setUrl(signed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return (
+    <div className="w-20 h-14 rounded overflow-hidden bg-muted">
+      {url ? (
+        <img src={url} alt="Motion snapshot" className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <ImageOff className="h-5 w-5 text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MotionEventsList({ cameraFilter, cameraIds, dateRange, onOpenRecording }: MotionEventsListProps) {
+  const [events, setEvents] = useState<MotionEventRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  // Stable dependency for the id list, which is rebuilt on every parent render
+  const cameraIdsKey = cameraIds?.join(',');
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('motion_events')
+        .select('*, cameras(name)')
+        .order('started_at', { ascending: false })
+        .limit(500);
+
+      if (cameraFilter !== 'all') {
+        query = query.eq('camera_id', cameraFilter);
+      } else if (cameraIdsKey !== undefined) {
+        query = query.in('camera_id', cameraIdsKey.split(',').filter(Boolean));
+      }
+      if (dateRange.from) {
+        query = query.gte('started_at', startOfDay(dateRange.from).toISOString());
+      }
+      if (dateRange.to) {
+        query = query.lte('started_at', endOfDay(dateRange.to).toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEvents((data || []).map((row) => dbMotionEventToMotionEvent(row, row.cameras?.name || 'Unknown Camera')));
+    } catch (error) {
+      toast({
+        title: 'Error loading motion events',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [cameraFilter, cameraIdsKey, dateRange.from, dateRange.to]);
+
+  useEffect(() => {
+    fetchEvents();
+
+    // Setup realtime subscription for motion events
+    const channel = supabase
+      .channel('motion-events-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'motion_events'
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchEvents]);
+
+  // Find the recording covering the event and the offset of the event within it
+  const handleOpenEvent = async (event: MotionEventRecord) => {
+    setOpeningId(event.id);
+    try {
+      const { data, error } = event.recordingId
+        ? await supabase
+            .from('recordings')
+            .select('*, cameras(name)')
+            .eq('id', event.recordingId)
+            .maybeSingle()
+        : await supabase
+            .from('recordings')
+            .select('*, cameras(name)')
+            .eq('camera_id', event.cameraId)
+            .lte('recorded_at', event.startedAt)
+            .order('recorded_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+      if (error) throw error;
+
+      const eventStart = new Date(event.startedAt).getTime();
+      const offsetSeconds = data ? Math.max(0, (eventStart - new Date(data.recorded_at).getTime()) / 1000) : 0;
+      const durationSeconds = parseDurationSeconds(data?.duration);
+      const coversEvent = !!data && (!!event.recordingId || durationSeconds === null || offsetSeconds <= durationSeconds);
+
+      if (!data || !coversEvent || !data.file_url) {
+        toast({
+          title: 'No recording',
+          description: 'No saved recording covers this motion event.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      onOpenRecording(dbRecordingToMonitoringRecord(data, data.cameras?.name || event.cameraName), offsetSeconds);
+    } catch (error) {
+      toast({
+        title: 'Error opening recording',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Motion Events ({events.length})</CardTitle>
+        <Button variant="outline" size="sm" onClick={fetchEvents} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading && events.length === 0 ? (
+          <div className="p-4 space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="py-12 text-center">
+            <Activity className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <p className="text-muted-foreground">No motion events found.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Snapshot</TableHead>
+                <TableHead>Date & Time</TableHead>
+                <TableHead>Camera</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Peak</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow
+                  key={event.id}
+                  className="cursor-pointer"
+                  onClick={() => handleOpenEvent(event)}
+                >
+                  <TableCell>
+                    <EventSnapshot path={event.snapshotPath} />
+                  </TableCell>
+                  <TableCell>
+                    <div>
+                      <div className="font-medium">{format(new Date(event.startedAt), 'MMM d, yyyy')}</div>
+                      <div className="text-sm text-muted-foreground">{format(new Date(event.startedAt), 'HH:mm:ss')}</div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-medium">{event.cameraName}</TableCell>
+                  <TableCell>
+                    <span className="text-sm">{formatEventDuration(event)}</span>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm">{event.peakScore !== null ? `${event.peakScore.toFixed(1)}%` : 'N/A'}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-[10px]">
+                      {event.source === 'rpi' ? 'Server' : 'Browser'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={openingId === event.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleOpenEvent(event);
+                      }}
+                    >
+                      {openingId === event.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Play className="h-4 w-4 mr-1" />
+                      )}
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
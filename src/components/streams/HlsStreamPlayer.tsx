@@ -1,23 +1,21 @@
-import { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
+import { useState, useRef, useEffect, useCallback, memo } from 'react';
 import Hls from 'hls.js';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { StreamPlayerProps } from './types';
+import { getStreamGrant, STREAM_TOKEN_REFRESH_MS, withStreamToken } from '@/lib/hlsProxy';
+import {
+  addFragmentSample,
+  createVideoFrameRateMeter,
+  FragmentSample,
+  getBitrateKbps,
+  METRICS_INTERVAL_MS,
+} from '@/lib/streamMetrics';
+import { HlsStreamPlayerProps } from './types';
 
 const RETRY_INTERVAL_MS = 10000;
 const MAX_RETRIES = 5;
 
-// Build the proxy URL for HLS streams
-function getProxiedHlsUrl(originalUrl: string): string {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-  if (!supabaseUrl) {
-    console.warn('[HLS] SUPABASE_URL not configured, using direct URL');
-    return originalUrl;
-  }
-  return `${supabaseUrl}/functions/v1/hls-proxy?url=${encodeURIComponent(originalUrl)}`;
-}
-
 export const HlsStreamPlayer = memo(function HlsStreamPlayer({
   streamUrl,
   cameraName,
@@ -27,11 +25,17 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
   onLoad,
   onError,
   onElementRef,
-}: StreamPlayerProps) {
+  onMetrics,
+}: HlsStreamPlayerProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
   const [countdown, setCountdown] = useState(0);
+  // Bumped by every retry so a fresh token (and playlist) is requested
+  const [reloadKey, setReloadKey] = useState(0);
+  // Playlist through hls-proxy; every request carries the latest token from tokenRef
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const tokenRef = useRef<string | null>(null);
   
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const hlsRef = useRef<Hls | null>(null);
@@ -39,9 +43,46 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
   const playAttemptRef = useRef(0);
+  // Measurement state for onMetrics
+  const loadStartedAtRef = useRef<number | null>(null);
+  const timeToFirstFrameRef = useRef<number | null>(null);
+  const fragmentsRef = useRef<FragmentSample[]>([]);
+
+  // Streams are only reachable through hls-proxy with a short-lived token for this camera.
+  // The token is renewed in the background without restarting playback.
+  useEffect(() => {
+    if (isOffline || !isPlaying) return;
+
+    let cancelled = false;
+    tokenRef.current = null;
+    setPlaylistUrl(null);
 
-  // Get proxied URL for the stream
-  const proxiedStreamUrl = useMemo(() => getProxiedHlsUrl(streamUrl), [streamUrl]);
+    const refresh = async () => {
+      try {
+        const grant = await getStreamGrant(cameraId);
+        if (cancelled) return;
+        tokenRef.current = grant.token;
+        setPlaylistUrl((current) => current ?? grant.url);
+      } catch (error) {
+        if (cancelled) return;
+        console.error(`[HLS] Could not get stream token for ${cameraName}:`, error);
+        // Keep playing on the current token; without one there is nothing to load
+        if (!tokenRef.current && mountedRef.current) {
+          setHasError(true);
+          setIsLoading(false);
+          onError?.();
+        }
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, STREAM_TOKEN_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [cameraId, cameraName, streamUrl, isOffline, isPlaying, reloadKey, onError]);
 
   // Callback ref to track video element and notify parent
   const setVideoRef = useCallback((el: HTMLVideoElement | null) => {
@@ -76,13 +117,16 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
       return;
     }
 
-    if (!mountedRef.current) return;
+    if (!mountedRef.current || !playlistUrl) return;
 
     setIsLoading(true);
     setHasError(false);
     playAttemptRef.current = 0;
+    loadStartedAtRef.current = performance.now();
+    timeToFirstFrameRef.current = null;
+    fragmentsRef.current = [];
 
-    console.log(`[HLS] Loading stream via proxy: ${proxiedStreamUrl}`);
+    console.log(`[HLS] Loading stream via proxy for ${cameraName}`);
 
     // Safe play function with retry logic
     const safePlay = async () => {
@@ -122,9 +166,13 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
         startLevel: -1, // Auto quality selection
         liveSyncDuration: 5,
         liveMaxLatencyDuration: 10,
+        // Playlists reload for as long as the stream plays; send the current token, not the one they were issued with
+        xhrSetup: (xhr, url) => {
+          if (tokenRef.current) xhr.open('GET', withStreamToken(url, tokenRef.current), true);
+        },
       });
 
-      hls.loadSource(proxiedStreamUrl);
+      hls.loadSource(playlistUrl);
       hls.attachMedia(video);
 
       hls.on(Hls.Events.MANIFEST_PARSED, () => {
@@ -133,6 +181,13 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
         safePlay();
       });
 
+      hls.on(Hls.Events.FRAG_LOADED, (_event, data) => {
+        fragmentsRef.current = addFragmentSample(fragmentsRef.current, {
+          bytes: data.frag.stats.loaded,
+          duration: data.frag.duration,
+        });
+      });
+
       hls.on(Hls.Events.ERROR, (event, data) => {
         if (!mountedRef.current) return;
         
@@ -172,20 +227,30 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
         hlsRef.current = null;
       };
     } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-      // Native HLS support (Safari)
-      video.src = proxiedStreamUrl;
+      // Native HLS support (Safari). Its playlist reloads keep the original token, so once that
+      // expires the error below goes through the retry path, which fetches a new one.
+      video.src = playlistUrl;
       
       const handleLoadedMetadata = () => {
         if (mountedRef.current) {
           safePlay();
         }
       };
+
+      const handleNativeError = () => {
+        if (!mountedRef.current) return;
+        setHasError(true);
+        setIsLoading(false);
+        onError?.();
+      };
       
       video.addEventListener('loadedmetadata', handleLoadedMetadata);
+      video.addEventListener('error', handleNativeError);
       
       return () => {
         playAttemptRef.current++;
         video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+        video.removeEventListener('error', handleNativeError);
         video.removeAttribute('src');
         video.load();
       };
@@ -196,7 +261,7 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
       }
       console.error('[HLS] HLS is not supported in this browser');
     }
-  }, [proxiedStreamUrl, cameraName, isOffline, isPlaying, onError]);
+  }, [playlistUrl, cameraName, isOffline, isPlaying, onError]);
 
   // Cleanup timers on unmount
   useEffect(() => {
@@ -232,6 +297,7 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
         setIsLoading(true);
         setHasError(false);
         setRetryCount(prev => prev + 1);
+        setReloadKey(key => key + 1);
       }, RETRY_INTERVAL_MS);
 
       return () => {
@@ -241,8 +307,38 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
     }
   }, [hasError, retryCount, cameraName, isOffline]);
 
+  // Publish measured quality while the stream is playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!onMetrics || !video || isOffline || !isPlaying || isLoading || hasError) return;
+
+    const measureFps = createVideoFrameRateMeter(video);
+    measureFps();
+
+    const interval = setInterval(() => {
+      // Hidden tabs decode few or no frames; just move the baseline on
+      const fps = measureFps();
+      if (document.hidden || !mountedRef.current) return;
+
+      const latency = hlsRef.current?.latency;
+      onMetrics({
+        fps,
+        width: video.videoWidth || null,
+        height: video.videoHeight || null,
+        bitrateKbps: getBitrateKbps(fragmentsRef.current),
+        latencyMs: latency ? Math.round(latency * 1000) : null,
+        timeToFirstFrameMs: timeToFirstFrameRef.current,
+      });
+    }, METRICS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [onMetrics, isOffline, isPlaying, isLoading, hasError]);
+
   const handleCanPlay = useCallback(() => {
     if (!mountedRef.current) return;
+    if (loadStartedAtRef.current !== null && timeToFirstFrameRef.current === null) {
+      timeToFirstFrameRef.current = Math.round(performance.now() - loadStartedAtRef.current);
+    }
     setIsLoading(false);
     setHasError(false);
     setRetryCount(0);
@@ -276,6 +372,7 @@ export const HlsStreamPlayer = memo(function HlsStreamPlayer({
     setHasError(false);
     setRetryCount(0);
     setCountdown(0);
+    setReloadKey((key) => key + 1);
   }, []);
 
   const isAutoRetrying = hasError && retryCount < MAX_RETRIES && countdown > 0;
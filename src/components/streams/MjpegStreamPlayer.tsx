@@ -2,6 +2,7 @@ import { useState, useRef, useEffect, useCallback, memo } from 'react';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { METRICS_INTERVAL_MS, sampleImageFrameRate } from '@/lib/streamMetrics';
 import { StreamPlayerProps } from './types';
 
 const RETRY_INTERVAL_MS = 10000;
@@ -16,6 +17,7 @@ export const MjpegStreamPlayer = memo(function MjpegStreamPlayer({
   onLoad,
   onError,
   onElementRef,
+  onMetrics,
 }: StreamPlayerProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
@@ -27,6 +29,8 @@ export const MjpegStreamPlayer = memo(function MjpegStreamPlayer({
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
+  const loadStartedAtRef = useRef<number | null>(null);
+  const timeToFirstFrameRef = useRef<number | null>(null);
 
   // Callback ref to track img element and notify parent
   const setImgRef = useCallback((el: HTMLImageElement | null) => {
@@ -45,6 +49,13 @@ export const MjpegStreamPlayer = memo(function MjpegStreamPlayer({
     }
   }, [streamUrl, isOffline, isPlaying]);
 
+  // Every new src (initial load, retry) restarts the time-to-first-frame measurement
+  useEffect(() => {
+    if (!imageSrc) return;
+    loadStartedAtRef.current = performance.now();
+    timeToFirstFrameRef.current = null;
+  }, [imageSrc]);
+
   // Track mounted state
   useEffect(() => {
     mountedRef.current = true;
@@ -94,8 +105,39 @@ export const MjpegStreamPlayer = memo(function MjpegStreamPlayer({
     }
   }, [hasError, retryCount, cameraName, isOffline, streamUrl]);
 
+  // Publish measured quality while the stream is showing
+  useEffect(() => {
+    if (!onMetrics || isOffline || !isPlaying || isLoading || hasError) return;
+    let cancelled = false;
+
+    const interval = setInterval(async () => {
+      const img = imgRef.current;
+      if (!img || document.hidden) return;
+
+      const fps = await sampleImageFrameRate(img);
+      if (cancelled || !mountedRef.current) return;
+
+      onMetrics({
+        fps,
+        width: img.naturalWidth || null,
+        height: img.naturalHeight || null,
+        bitrateKbps: null,
+        latencyMs: null,
+        timeToFirstFrameMs: timeToFirstFrameRef.current,
+      });
+    }, METRICS_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [onMetrics, isOffline, isPlaying, isLoading, hasError]);
+
   const handleLoad = useCallback(() => {
     if (!mountedRef.current) return;
+    if (loadStartedAtRef.current !== null && timeToFirstFrameRef.current === null) {
+      timeToFirstFrameRef.current = Math.round(performance.now() - loadStartedAtRef.current);
+    }
     setIsLoading(false);
     setHasError(false);
     setRetryCount(0);
@@ -0,0 +1,35 @@
+import { memo } from 'react';
+import { PrivacyMask } from '@/types';
+import { toSvgPoints } from '@/lib/privacyMasks';
+import { cn } from '@/lib/utils';
+
+interface PrivacyMaskOverlayProps {
+  masks: PrivacyMask[];
+  // Intrinsic frame size; when known the overlay crops exactly like `object-cover`
+  frameSize?: { width: number; height: number } | null;
+  className?: string;
+}
+
+export const PrivacyMaskOverlay = memo(function PrivacyMaskOverlay({
+  masks,
+  frameSize,
+  className,
+}: PrivacyMaskOverlayProps) {
+  if (masks.length === 0) return null;
+
+  const width = frameSize?.width ?? 1;
+  const height = frameSize?.height ?? 1;
+
+  return (
+    <svg
+      className={cn("absolute inset-0 w-full h-full pointer-events-none z-[5]", className)}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={frameSize ? "xMidYMid slice" : "none"}
+      aria-hidden="true"
+    >
+      {masks.map((mask) => (
+        <polygon key={mask.id} points={toSvgPoints(mask.points, width, height)} fill="black" />
+      ))}
+    </svg>
+  );
+});
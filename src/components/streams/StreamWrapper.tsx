@@ -1,10 +1,13 @@
-import { useCallback } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { detectStreamType, StreamType } from '@/lib/streamUtils';
 import { MjpegStreamPlayer } from './MjpegStreamPlayer';
 import { HlsStreamPlayer } from './HlsStreamPlayer';
+import { WebRtcStreamPlayer } from './WebRtcStreamPlayer';
 import { YouTubeStreamPlayer } from './YouTubeStreamPlayer';
+import { PrivacyMaskOverlay } from './PrivacyMaskOverlay';
 import { StreamWrapperProps } from './types';
 import { cn } from '@/lib/utils';
+import { getElementFrameSize } from '@/lib/privacyMasks';
 
 export function StreamWrapper({
   streamUrl,
@@ -16,21 +19,38 @@ export function StreamWrapper({
   onLoad,
   onError,
   onElementRef,
+  onMetrics,
   onStreamStatusChange,
+  privacyMasks,
   className,
 }: StreamWrapperProps) {
   // Auto-detect stream type if not explicitly provided
   const streamType: StreamType = explicitStreamType || detectStreamType(streamUrl);
+  const elementRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Track intrinsic frame size so privacy masks line up with the cropped stream
+  const updateFrameSize = useCallback(() => {
+    const size = getElementFrameSize(elementRef.current);
+    if (!size) return;
+    setFrameSize((prev) => (prev && prev.width === size.width && prev.height === size.height ? prev : size));
+  }, []);
 
   const handleElementRef = useCallback((el: HTMLImageElement | HTMLVideoElement | null) => {
     const elementType = streamType === 'mjpeg' ? 'img' : 'video';
+    if (el && el !== elementRef.current && el instanceof HTMLVideoElement) {
+      el.addEventListener('loadedmetadata', updateFrameSize);
+    }
+    elementRef.current = el;
+    updateFrameSize();
     onElementRef?.(el, elementType);
-  }, [streamType, onElementRef]);
+  }, [streamType, onElementRef, updateFrameSize]);
 
   const handleLoad = useCallback(() => {
+    updateFrameSize();
     onLoad?.();
     onStreamStatusChange?.(true);
-  }, [onLoad, onStreamStatusChange]);
+  }, [onLoad, onStreamStatusChange, updateFrameSize]);
 
   const handleError = useCallback(() => {
     onError?.();
@@ -46,13 +66,19 @@ export function StreamWrapper({
     onLoad: handleLoad,
     onError: handleError,
     onElementRef: handleElementRef,
+    onMetrics,
   };
 
   return (
     <div className={cn("relative aspect-video bg-muted rounded-md overflow-hidden", className)}>
       {streamType === 'hls' && <HlsStreamPlayer {...commonProps} />}
+      {streamType === 'rtsp' && <HlsStreamPlayer {...commonProps} />}
+      {streamType === 'webrtc' && <WebRtcStreamPlayer {...commonProps} />}
       {streamType === 'youtube' && <YouTubeStreamPlayer {...commonProps} />}
       {streamType === 'mjpeg' && <MjpegStreamPlayer {...commonProps} />}
+      {privacyMasks && privacyMasks.length > 0 && (
+        <PrivacyMaskOverlay masks={privacyMasks} frameSize={frameSize} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,248 @@
+import { useState, useRef, useEffect, useCallback, memo } from 'react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { startWhepSession, WhepSession } from '@/lib/whep';
+import { StreamPlayerProps } from './types';
+
+const RETRY_INTERVAL_MS = 10000;
+const MAX_RETRIES = 5;
+
+export const WebRtcStreamPlayer = memo(function WebRtcStreamPlayer({
+  streamUrl,
+  cameraName,
+  isOffline = false,
+  isPlaying = true,
+  onLoad,
+  onError,
+  onElementRef,
+}: StreamPlayerProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const [retryCount, setRetryCount] = useState(0);
+  const [countdown, setCountdown] = useState(0);
+  // Bumped to open a new WHEP session (auto or manual retry)
+  const [connectAttempt, setConnectAttempt] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const sessionRef = useRef<WhepSession | null>(null);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const mountedRef = useRef(true);
+
+  // Callback ref to track video element and notify parent
+  const setVideoRef = useCallback((el: HTMLVideoElement | null) => {
+    videoRef.current = el;
+    if (el) {
+      onElementRef?.(el);
+    }
+  }, [onElementRef]);
+
+  // Track mounted state
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const fail = useCallback((reason: unknown) => {
+    if (!mountedRef.current) return;
+    console.error(`[WebRTC] Stream failed for ${cameraName}:`, reason);
+    setHasError(true);
+    setIsLoading(false);
+    onError?.();
+  }, [cameraName, onError]);
+
+  // WHEP session setup and teardown
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || isOffline || !isPlaying) return;
+
+    const abortController = new AbortController();
+    let session: WhepSession | null = null;
+    let closed = false;
+
+    setIsLoading(true);
+    setHasError(false);
+
+    console.log(`[WebRTC] Connecting to ${streamUrl}`);
+
+    startWhepSession(streamUrl, abortController.signal)
+      .then((newSession) => {
+        if (closed) {
+          newSession.close();
+          return;
+        }
+        session = newSession;
+        sessionRef.current = newSession;
+        video.srcObject = newSession.stream;
+
+        newSession.peerConnection.addEventListener('connectionstatechange', () => {
+          // 'disconnected' can recover by itself; 'failed' cannot
+          if (!closed && newSession.peerConnection.connectionState === 'failed') {
+            fail('connection failed');
+          }
+        });
+
+        video.play().catch((e: Error) => {
+          if (e.name !== 'NotAllowedError' && e.name !== 'AbortError') {
+            console.error('[WebRTC] Play error:', e);
+          }
+        });
+      })
+      .catch((error) => {
+        if (!closed) fail(error);
+      });
+
+    return () => {
+      closed = true;
+      abortController.abort();
+      session?.close();
+      sessionRef.current = null;
+      video.srcObject = null;
+    };
+  }, [streamUrl, isOffline, isPlaying, connectAttempt, fail]);
+
+  // Cleanup timers and session on unmount
+  useEffect(() => {
+    return () => {
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+      if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
+      sessionRef.current?.close();
+      sessionRef.current = null;
+    };
+  }, []);
+
+  // Auto-retry logic
+  useEffect(() => {
+    if (hasError && retryCount < MAX_RETRIES && !isOffline) {
+      setCountdown(RETRY_INTERVAL_MS / 1000);
+
+      countdownIntervalRef.current = setInterval(() => {
+        if (!mountedRef.current) return;
+        setCountdown(prev => {
+          if (prev <= 1) {
+            if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
+            return 0;
+          }
+          return prev - 1;
+        });
+      }, 1000);
+
+      retryTimeoutRef.current = setTimeout(() => {
+        if (!mountedRef.current) return;
+        console.log(`Auto-retry ${retryCount + 1}/${MAX_RETRIES} for ${cameraName}`);
+        setIsLoading(true);
+        setHasError(false);
+        setRetryCount(prev => prev + 1);
+        setConnectAttempt(prev => prev + 1);
+      }, RETRY_INTERVAL_MS);
+
+      return () => {
+        if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+        if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
+      };
+    }
+  }, [hasError, retryCount, cameraName, isOffline]);
+
+  const handleCanPlay = useCallback(() => {
+    if (!mountedRef.current) return;
+    setIsLoading(false);
+    setHasError(false);
+    setRetryCount(0);
+    setCountdown(0);
+
+    // Ensure element ref is registered when stream is ready
+    if (videoRef.current) {
+      onElementRef?.(videoRef.current);
+    }
+
+    onLoad?.();
+  }, [onLoad, onElementRef]);
+
+  const handleManualRetry = useCallback(() => {
+    if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    if (countdownIntervalRef.current) clearInterval(countdownIntervalRef.current);
+
+    setIsLoading(true);
+    setHasError(false);
+    setRetryCount(0);
+    setCountdown(0);
+    setConnectAttempt(prev => prev + 1);
+  }, []);
+
+  const isAutoRetrying = hasError && retryCount < MAX_RETRIES && countdown > 0;
+  const hasExhaustedRetries = hasError && retryCount >= MAX_RETRIES;
+
+  return (
+    <div className="relative w-full h-full">
+      {/* Loading Indicator */}
+      {!isOffline && isPlaying && isLoading && !hasError && (
+        <div className="absolute inset-0 flex items-center justify-center z-10 bg-muted">
+          <div className="flex flex-col items-center gap-2">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+            <span className="text-xs text-muted-foreground">
+              {retryCount > 0 ? `Reconnecting... (${retryCount}/${MAX_RETRIES})` : 'Connecting WebRTC stream...'}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Offline State */}
+      {isOffline && (
+        <div className="absolute inset-0 bg-background/80 flex items-center justify-center z-10">
+          <span className="text-xs font-semibold text-muted-foreground">Camera Offline</span>
+        </div>
+      )}
+
+      {/* Auto-Retry State */}
+      {!isOffline && isAutoRetrying && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-muted">
+          <RefreshCw className="w-5 h-5 text-primary animate-spin mb-2" />
+          <span className="text-xs text-muted-foreground mb-1">Reconnecting in {countdown}s...</span>
+          <span className="text-[10px] text-muted-foreground">Attempt {retryCount + 1}/{MAX_RETRIES}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleManualRetry}
+            className="h-6 text-[10px] mt-2"
+          >
+            Retry Now
+          </Button>
+        </div>
+      )}
+
+      {/* Error State */}
+      {!isOffline && hasExhaustedRetries && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-muted">
+          <span className="text-xs text-muted-foreground mb-2">WebRTC stream unavailable</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleManualRetry}
+            className="h-7 text-xs"
+          >
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {/* WebRTC Video - srcObject is set from the WHEP session */}
+      {!isOffline && isPlaying && (
+        <video
+          ref={setVideoRef}
+          className={cn(
+            "w-full h-full object-cover transition-opacity duration-300",
+            (isLoading || hasError) ? "opacity-0" : "opacity-100"
+          )}
+          muted
+          autoPlay
+          playsInline
+          onCanPlay={handleCanPlay}
+        />
+      )}
+    </div>
+  );
+});
@@ -1,6 +1,8 @@
 export { StreamWrapper } from './StreamWrapper';
 export { MjpegStreamPlayer } from './MjpegStreamPlayer';
 export { HlsStreamPlayer } from './HlsStreamPlayer';
+export { WebRtcStreamPlayer } from './WebRtcStreamPlayer';
 export { YouTubeStreamPlayer } from './YouTubeStreamPlayer';
+export { PrivacyMaskOverlay } from './PrivacyMaskOverlay';
 export { detectStreamType, type StreamType } from '@/lib/streamUtils';
-export type { StreamPlayerProps, StreamWrapperProps } from './types';
+export type { StreamPlayerProps, HlsStreamPlayerProps, StreamWrapperProps } from './types';
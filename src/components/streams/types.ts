@@ -1,4 +1,5 @@
 import { StreamType } from '@/lib/streamUtils';
+import { PrivacyMask, StreamMetrics } from '@/types';
 
 export interface StreamPlayerProps {
   streamUrl: string;
@@ -9,11 +10,17 @@ export interface StreamPlayerProps {
   onLoad?: () => void;
   onError?: () => void;
   onElementRef?: (el: HTMLImageElement | HTMLVideoElement | null) => void;
+  // Measured stream quality, published every few seconds while playing (MJPEG and HLS players)
+  onMetrics?: (metrics: StreamMetrics) => void;
 }
 
+// hls-proxy resolves the stream from the camera (HLS URL or RTSP gateway), so streamUrl is not fetched directly
+export type HlsStreamPlayerProps = StreamPlayerProps;
+
 export interface StreamWrapperProps extends Omit<StreamPlayerProps, 'onElementRef'> {
   streamType?: StreamType;
   onElementRef?: (el: HTMLImageElement | HTMLVideoElement | null, type: 'img' | 'video') => void;
   onStreamStatusChange?: (isAvailable: boolean) => void;
+  privacyMasks?: PrivacyMask[];
   className?: string;
 }
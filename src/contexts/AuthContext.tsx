@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getPushSubscription, unsubscribeFromPush } from '@/lib/push';
 
 interface AuthContextType {
   user: User | null;
@@ -109,6 +110,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const signOut = async () => {
     try {
+      // Stop this browser receiving the signed-out user's pushes
+      const pushSubscription = await getPushSubscription().catch(() => null);
+      if (pushSubscription) {
+        await unsubscribeFromPush(pushSubscription).catch((error) =>
+          console.error('Error removing push subscription:', error)
+        );
+      }
+
       await supabase.auth.signOut();
       toast({
         title: 'Logged out',
@@ -0,0 +1,89 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Organization, OrgRole } from '@/types';
+
+interface OrganizationContextType {
+  organization: Organization | null;
+  role: OrgRole | null;
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export const OrganizationProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [role, setRole] = useState<OrgRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMembership = useCallback(async () => {
+    if (!user) {
+      setOrganization(null);
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organizations(id, name)')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setRole(data?.role ?? null);
+      setOrganization(
+        data?.organizations
+          ? { id: data.organizations.id, name: data.organizations.name }
+          : null
+      );
+    } catch (error) {
+      console.error('Error fetching organization membership:', error);
+      setRole(null);
+      setOrganization(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchMembership();
+
+    if (!user) return;
+
+    // Pick up role changes made by an admin without a reload
+    const channel = supabase
+      .channel(`realtime:organization_members:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'organization_members', filter: `user_id=eq.${user.id}` },
+        () => {
+          fetchMembership();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchMembership]);
+
+  return (
+    <OrganizationContext.Provider value={{ organization, role, loading, refetch: fetchMembership }}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
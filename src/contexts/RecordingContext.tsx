@@ -7,8 +7,16 @@ import {
   uploadToStorage, 
   generateFilename,
   startFrameCapture,
-  startVideoFrameCapture
+  startVideoFrameCapture,
+  createPreRollBuffer,
+  releasePreRollSegment,
+  PreRollBuffer,
+  PreRollSegment,
+  canvasToJpeg,
+  uploadSnapshotToStorage
 } from "@/lib/mediaRecorder";
+import { createMotionDetector, MotionDetector, MotionEvent } from "@/lib/motionDetection";
+import { MotionBoundingBox, MotionDetectionSettings, PrivacyMask } from "@/types";
 import { SaveRecordingDialog, SaveRecordingOptions } from "@/components/modals/SaveRecordingDialog";
 
 export type CameraRecordingState = {
@@ -36,6 +44,46 @@ type MediaRecordingState = {
 
 type MediaRecordingMap = Record<string, MediaRecordingState>;
 
+export type CameraMotionState = {
+  isArmed: boolean;
+  motionActive: boolean;
+};
+
+type MotionStateMap = Record<string, CameraMotionState>;
+
+// Internal state for motion-armed cameras: a standby recorder keeps a rolling
+// pre-roll buffer, and a clip is opened when the detector reports motion
+type MotionArmState = {
+  element: HTMLImageElement | HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  streamUrl: string;
+  cameraName: string;
+  settings: MotionDetectionSettings;
+  masksKey: string;
+  detector: MotionDetector | null;
+  stopFrameCapture: (() => void) | null;
+  preRoll: PreRollBuffer | null;
+  // Pre-roll segment handed over when motion starts; it keeps recording until the clip ends
+  clip: PreRollSegment | null;
+  clipRecordingId: string | null;
+  isClipStarting: boolean;
+  stopTimer: number | null;
+  // Current motion event, persisted via the motion-events function when it ends
+  eventStartedAt: number | null;
+  eventSnapshot: Promise<Blob | null> | null;
+};
+
+type MotionArmMap = Record<string, MotionArmState>;
+
+type ArmMotionArgs = {
+  cameraId: string;
+  streamUrl: string;
+  settings: MotionDetectionSettings;
+  privacyMasks?: PrivacyMask[];
+  cameraName?: string;
+  fps?: number;
+};
+
 // State for save dialog
 type SaveDialogState = {
   open: boolean;
@@ -56,10 +104,14 @@ type RecordingContextValue = {
     videoElement?: HTMLVideoElement | null;
     cameraName?: string;
     fps?: number;
+    privacyMasks?: PrivacyMask[];
   }) => Promise<void>;
   stopRecording: (args: { cameraId: string }) => Promise<void>;
   registerImgRef: (cameraId: string, imgElement: HTMLImageElement | null, cameraName: string, fps: number) => void;
   registerVideoRef: (cameraId: string, videoElement: HTMLVideoElement | null, cameraName: string, fps: number) => void;
+  motionState: MotionStateMap;
+  armMotionDetection: (args: ArmMotionArgs) => void;
+  disarmMotionDetection: (cameraId: string) => void;
 };
 
 const RecordingContext = createContext<RecordingContextValue | null>(null);
@@ -93,6 +145,14 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
   const mediaRecordingRef = useRef<MediaRecordingMap>({});
   const imgRefsRef = useRef<Record<string, { element: HTMLImageElement | null; cameraName: string; fps: number }>>({});
   const videoRefsRef = useRef<Record<string, { element: HTMLVideoElement | null; cameraName: string; fps: number }>>({});
+  const [motionState, setMotionState] = useState<MotionStateMap>({});
+  const motionArmRef = useRef<MotionArmMap>({});
+  // Motion callbacks fire outside React renders and need the latest recording state
+  const recordingStateRef = useRef<RecordingStateMap>({});
+
+  useEffect(() => {
+    recordingStateRef.current = recordingState;
+  }, [recordingState]);
   
   const [saveDialog, setSaveDialog] = useState<SaveDialogState>({
     open: false,
@@ -133,7 +193,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     imgRefsRef.current[cameraId] = { element: imgElement, cameraName, fps };
   }, []);
 
-  // Register video ref for a camera - for HLS streams
+  // Register video ref for a camera - for HLS, RTSP (via gateway) and WebRTC streams
   const registerVideoRef = useCallback((
     cameraId: string, 
     videoElement: HTMLVideoElement | null,
@@ -149,7 +209,8 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     cameraStatus,
     imgElement,
     cameraName = 'Camera',
-    fps = 15
+    fps = 15,
+    privacyMasks
   }: { 
     cameraId: string; 
     streamUrl: string; 
@@ -157,6 +218,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     imgElement?: HTMLImageElement | null;
     cameraName?: string;
     fps?: number;
+    privacyMasks?: PrivacyMask[];
   }) => {
     if (cameraStatus === "offline") {
       toast({ title: "Cannot Start Recording", description: "Camera is offline", variant: "destructive" });
@@ -239,7 +301,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
               onError: () => {
                 mediaState.hadCaptureError = true;
               },
-            });
+            }, { privacyMasks });
           } else if (img) {
             console.log("[recording:usingImgElement]", { cameraId });
             stopCapture = startFrameCapture(img, canvas, actualFps, {
@@ -250,7 +312,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
               onError: () => {
                 mediaState.hadCaptureError = true;
               },
-            });
+            }, { privacyMasks });
           } else if (video) {
             // Video exists but not ready yet - try anyway
             console.log("[recording:usingVideoElement:notReady]", { cameraId, readyState: video.readyState });
@@ -262,7 +324,7 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
               onError: () => {
                 mediaState.hadCaptureError = true;
               },
-            });
+            }, { privacyMasks });
           } else {
             throw new Error("No valid element for recording");
           }
@@ -338,6 +400,13 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
 
     if (cur.isStopping) return;
 
+    // Motion clips are uploaded automatically instead of going through the save dialog
+    const arm = motionArmRef.current[cameraId];
+    if (arm && arm.clipRecordingId === cur.recordingId) {
+      await finalizeMotionClip(cameraId, arm);
+      return;
+    }
+
     setRecordingState((prev) => {
       const s = ensureCameraState(prev, cameraId);
       return { ...prev, [cameraId]: { ...s, isStopping: true } };
@@ -495,6 +564,345 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const setCameraMotionState = (cameraId: string, next: CameraMotionState | null) => {
+    setMotionState((prev) => {
+      if (!next) {
+        if (!prev[cameraId]) return prev;
+        const rest = { ...prev };
+        delete rest[cameraId];
+        return rest;
+      }
+      const cur = prev[cameraId];
+      if (cur && cur.isArmed === next.isArmed && cur.motionActive === next.motionActive) return prev;
+      return { ...prev, [cameraId]: next };
+    });
+  };
+
+  // Upload the buffered motion clip (pre-roll + motion + post padding) and close the recording
+  const finalizeMotionClip = async (cameraId: string, arm: MotionArmState) => {
+    const recordingId = arm.clipRecordingId;
+    if (!recordingId) return;
+
+    if (arm.stopTimer) {
+      window.clearTimeout(arm.stopTimer);
+      arm.stopTimer = null;
+    }
+    arm.clipRecordingId = null;
+
+    setRecordingState((prev) => {
+      const s = ensureCameraState(prev, cameraId);
+      return { ...prev, [cameraId]: { ...s, isStopping: true } };
+    });
+    clearCameraInterval(cameraId);
+
+    const clip = arm.clip;
+    arm.clip = null;
+    if (clip && clip.recorder.state === 'recording') {
+      clip.recorder.requestData();
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const videoBlob = new Blob(clip ? [...clip.chunks] : [], { type: 'video/webm' });
+    if (clip) releasePreRollSegment(clip);
+    // Start buffering the pre-roll for the next clip, unless disarmed meanwhile
+    if (motionArmRef.current[cameraId] === arm) {
+      arm.preRoll?.resume();
+    }
+
+    console.log("[motion:clip:stop]", { cameraId, recordingId, blobSize: videoBlob.size });
+
+    let uploadedPath: string | null = null;
+    if (videoBlob.size > 0) {
+      try {
+        const result = await uploadToStorage(videoBlob, cameraId, recordingId, generateFilename(arm.cameraName));
+        uploadedPath = result?.path ?? null;
+      } catch (uploadError) {
+        console.error("[motion:clip:upload:error]", uploadError);
+        toast({
+          title: "Upload Failed",
+          description: uploadError instanceof Error ? uploadError.message : 'Unknown error',
+          variant: "destructive",
+        });
+      }
+    }
+
+    await finalizeRecording(cameraId, recordingId, uploadedPath, videoBlob.size || null);
+  };
+
+  // Store a finished motion event (with snapshot) on the timeline
+  const persistMotionEvent = async (
+    cameraId: string,
+    arm: MotionArmState,
+    endedAt: number,
+    peakScore: number | null,
+    boundingBox: MotionBoundingBox | null
+  ) => {
+    const startedAt = arm.eventStartedAt ?? endedAt;
+    const snapshotPromise = arm.eventSnapshot;
+    arm.eventStartedAt = null;
+    arm.eventSnapshot = null;
+
+    const recordingId = arm.clipRecordingId ?? ensureCameraState(recordingStateRef.current, cameraId).recordingId;
+
+    try {
+      let snapshotPath: string | null = null;
+      const snapshot = await snapshotPromise;
+      if (snapshot) {
+        snapshotPath = await uploadSnapshotToStorage(snapshot, cameraId, `motion_${startedAt}.jpg`);
+      }
+
+      const response = await supabase.functions.invoke("motion-events", {
+        body: {
+          events: [{
+            camera_id: cameraId,
+            recording_id: recordingId,
+            started_at: startedAt,
+            ended_at: endedAt,
+            peak_score: peakScore === null ? null : Math.round(peakScore * 100) / 100,
+            bounding_box: boundingBox,
+            snapshot_path: snapshotPath,
+          }],
+        },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+      console.log("[motion:event:stored]", { cameraId, recordingId, startedAt, endedAt });
+    } catch (error) {
+      console.error("[motion:event:error]", { cameraId, error });
+    }
+  };
+
+  const handleMotionStart = async (cameraId: string, event: MotionEvent) => {
+    const arm = motionArmRef.current[cameraId];
+    if (!arm) return;
+
+    setCameraMotionState(cameraId, { isArmed: true, motionActive: true });
+
+    if (arm.eventStartedAt === null) {
+      arm.eventStartedAt = event.at;
+      arm.eventSnapshot = canvasToJpeg(arm.canvas);
+    }
+
+    // Motion resumed during post padding - keep the current clip open
+    if (arm.stopTimer) {
+      window.clearTimeout(arm.stopTimer);
+      arm.stopTimer = null;
+      return;
+    }
+    if (arm.clipRecordingId || arm.isClipStarting) return;
+
+    // Never interrupt a manual recording
+    const cur = ensureCameraState(recordingStateRef.current, cameraId);
+    if (cur.isRecording || cur.isStarting) return;
+
+    arm.isClipStarting = true;
+    arm.clip = arm.preRoll?.takeClip() ?? null;
+    const startedAt = arm.clip?.startedAt ?? event.at;
+
+    try {
+      console.log("[motion:clip:start]", { cameraId, score: event.score, startedAt });
+
+      const response = await supabase.functions.invoke("start-recording", {
+        body: {
+          camera_id: cameraId,
+          stream_url: arm.streamUrl,
+          started_at: startedAt,
+          trigger: 'motion',
+        },
+      });
+
+      if (response.error) throw new Error(response.error.message);
+
+      const recordingId = response.data?.recording_id as string | undefined;
+      if (!recordingId) throw new Error("recording_id tidak ditemukan dari backend");
+
+      arm.clipRecordingId = recordingId;
+
+      setRecordingState((prev) => {
+        const s = ensureCameraState(prev, cameraId);
+        return {
+          ...prev,
+          [cameraId]: {
+            ...s,
+            isRecording: true,
+            recordingId,
+            startedAt,
+            timerSeconds: 0,
+            isStarting: false,
+            isStopping: false,
+          },
+        };
+      });
+      startTimer(cameraId);
+
+      toast({ title: "Motion Detected", description: `Auto recording ${arm.cameraName}` });
+
+      // Disarmed while the backend call was in flight - close the clip right away
+      if (motionArmRef.current[cameraId] !== arm) {
+        await finalizeMotionClip(cameraId, arm);
+      }
+    } catch (error) {
+      console.error("[motion:clip:start:error]", { cameraId, error });
+      if (arm.clip) {
+        releasePreRollSegment(arm.clip);
+        arm.clip = null;
+      }
+      if (motionArmRef.current[cameraId] === arm) {
+        arm.preRoll?.resume();
+      }
+      toast({
+        title: "Auto Recording Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      arm.isClipStarting = false;
+    }
+  };
+
+  const handleMotionEnd = (cameraId: string, event: MotionEvent) => {
+    const arm = motionArmRef.current[cameraId];
+    if (!arm) return;
+
+    setCameraMotionState(cameraId, { isArmed: true, motionActive: false });
+    void persistMotionEvent(cameraId, arm, event.at, event.score, event.boundingBox);
+
+    if (!arm.clipRecordingId || arm.stopTimer) return;
+    arm.stopTimer = window.setTimeout(() => {
+      arm.stopTimer = null;
+      void finalizeMotionClip(cameraId, arm);
+    }, arm.settings.postPaddingSeconds * 1000);
+  };
+
+  const shutdownMotionArm = (arm: MotionArmState) => {
+    arm.detector?.reset();
+    arm.stopFrameCapture?.();
+    arm.preRoll?.stop();
+    if (arm.clip) releasePreRollSegment(arm.clip);
+  };
+
+  const disarmMotionDetectionImpl = (cameraId: string) => {
+    const arm = motionArmRef.current[cameraId];
+    if (!arm) return;
+
+    delete motionArmRef.current[cameraId];
+    setCameraMotionState(cameraId, null);
+    console.log("[motion:disarm]", { cameraId, hasClip: !!arm.clipRecordingId });
+
+    // Close an event that was still in progress
+    if (arm.eventStartedAt !== null) {
+      void persistMotionEvent(cameraId, arm, Date.now(), null, null);
+    }
+
+    if (arm.clipRecordingId) {
+      void finalizeMotionClip(cameraId, arm).finally(() => shutdownMotionArm(arm));
+    } else {
+      shutdownMotionArm(arm);
+    }
+  };
+
+  const armMotionDetectionImpl = ({
+    cameraId,
+    streamUrl,
+    settings,
+    privacyMasks = [],
+    cameraName = 'Camera',
+    fps = 15,
+  }: ArmMotionArgs) => {
+    const element = videoRefsRef.current[cameraId]?.element || imgRefsRef.current[cameraId]?.element;
+    if (!element) {
+      console.warn("[motion:arm:noElementRef]", { cameraId });
+      return;
+    }
+
+    const masksKey = JSON.stringify(privacyMasks);
+    const existing = motionArmRef.current[cameraId];
+    if (existing && existing.element === element && existing.masksKey === masksKey) {
+      // Same stream element - just apply new thresholds/padding
+      existing.settings = settings;
+      existing.streamUrl = streamUrl;
+      existing.cameraName = cameraName;
+      existing.detector?.updateSettings(settings);
+      existing.preRoll?.setPrePadding(settings.prePaddingSeconds);
+      return;
+    }
+    if (existing) {
+      disarmMotionDetectionImpl(cameraId);
+    }
+
+    const canvas = document.createElement('canvas');
+    const arm: MotionArmState = {
+      element,
+      canvas,
+      streamUrl,
+      cameraName,
+      settings,
+      masksKey,
+      detector: null,
+      stopFrameCapture: null,
+      preRoll: null,
+      clip: null,
+      clipRecordingId: null,
+      isClipStarting: false,
+      stopTimer: null,
+      eventStartedAt: null,
+      eventSnapshot: null,
+    };
+
+    try {
+      arm.detector = createMotionDetector(cameraId, settings, {
+        onMotionStart: (event) => {
+          void handleMotionStart(cameraId, event);
+        },
+        onMotionEnd: (event) => handleMotionEnd(cameraId, event),
+        onError: () => {
+          toast({
+            title: "Motion detection unavailable",
+            description: "Stream tidak mengizinkan capture (CORS), sehingga frame tidak bisa dianalisis.",
+            variant: "destructive",
+          });
+          disarmMotionDetectionImpl(cameraId);
+        },
+      });
+
+      const callbacks = {
+        // Standby recorder starts once frames are flowing (same order as manual recording)
+        onFirstFrame: () => {
+          arm.preRoll = createPreRollBuffer(canvas, fps, arm.settings.prePaddingSeconds);
+        },
+        onFrame: (frame: HTMLCanvasElement) => {
+          arm.detector?.processFrame(frame);
+        },
+      };
+
+      arm.stopFrameCapture = element instanceof HTMLVideoElement
+        ? startVideoFrameCapture(element, canvas, fps, callbacks, { privacyMasks })
+        : startFrameCapture(element, canvas, fps, callbacks, { privacyMasks });
+    } catch (error) {
+      console.error("[motion:arm:error]", { cameraId, error });
+      shutdownMotionArm(arm);
+      return;
+    }
+
+    motionArmRef.current[cameraId] = arm;
+    setCameraMotionState(cameraId, { isArmed: true, motionActive: false });
+    console.log("[motion:arm]", { cameraId, settings });
+  };
+
+  // Stable entry points for consumers; the implementations only touch refs and setters
+  const motionImplRef = useRef({ arm: armMotionDetectionImpl, disarm: disarmMotionDetectionImpl });
+  useEffect(() => {
+    motionImplRef.current = { arm: armMotionDetectionImpl, disarm: disarmMotionDetectionImpl };
+  });
+
+  const armMotionDetection = useCallback((args: ArmMotionArgs) => {
+    motionImplRef.current.arm(args);
+  }, []);
+
+  const disarmMotionDetection = useCallback((cameraId: string) => {
+    motionImplRef.current.disarm(cameraId);
+  }, []);
+
   const handleSaveDialogSave = async (options: SaveRecordingOptions) => {
     const { cameraId, cameraName, recordingId, videoBlob } = saveDialog;
     
@@ -575,12 +983,29 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
           state.recorder?.stop();
         }
       });
+
+      Object.values(motionArmRef.current).forEach((arm) => {
+        if (arm.stopTimer) window.clearTimeout(arm.stopTimer);
+        arm.stopFrameCapture?.();
+        arm.preRoll?.stop();
+        if (arm.clip) releasePreRollSegment(arm.clip);
+      });
+      motionArmRef.current = {};
     };
   }, []);
 
   const value = useMemo<RecordingContextValue>(
-    () => ({ recordingState, startRecording, stopRecording, registerImgRef, registerVideoRef }),
-    [recordingState, registerImgRef, registerVideoRef]
+    () => ({
+      recordingState,
+      startRecording,
+      stopRecording,
+      registerImgRef,
+      registerVideoRef,
+      motionState,
+      armMotionDetection,
+      disarmMotionDetection,
+    }),
+    [recordingState, registerImgRef, registerVideoRef, motionState, armMotionDetection, disarmMotionDetection]
   );
 
   return (
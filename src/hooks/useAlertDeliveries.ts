@@ -0,0 +1,51 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbAlertDeliveryToAlertDelivery } from '@/lib/supabaseHelpers';
+import { AlertDelivery } from '@/types';
+
+const DELIVERY_LOG_SIZE = 100;
+
+export function useAlertDeliveries() {
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('alert_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(DELIVERY_LOG_SIZE);
+
+      if (error) throw error;
+
+      setDeliveries((data || []).map(dbAlertDeliveryToAlertDelivery));
+    } catch (error) {
+      console.error('Error fetching alert deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+
+    // The dispatcher appends a row per attempt, including test sends from this page
+    const channel = supabase
+      .channel('realtime:alert_deliveries')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'alert_deliveries' },
+        () => {
+          fetchDeliveries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchDeliveries]);
+
+  return { deliveries, loading, refetch: fetchDeliveries };
+}
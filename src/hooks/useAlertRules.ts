@@ -0,0 +1,47 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbAlertRuleToAlertRule } from '@/lib/supabaseHelpers';
+import { AlertRule } from '@/types';
+
+export function useAlertRules() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setRules((data || []).map(dbAlertRuleToAlertRule));
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+
+    const channel = supabase
+      .channel('realtime:alert_rules')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'alert_rules' },
+        () => {
+          fetchRules();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchRules]);
+
+  return { rules, loading, refetch: fetchRules };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbAuditLogToAuditEntry } from '@/lib/supabaseHelpers';
+import { AuditEntry } from '@/types';
+
+const AUDIT_PAGE_SIZE = 500;
+
+export interface AuditLogFilters {
+  actorId?: string;
+  cameraId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export function useAuditLog(filters: AuditLogFilters) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { actorId, cameraId, action, from, to } = filters;
+  const fromIso = from?.toISOString();
+  const toIso = to?.toISOString();
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_PAGE_SIZE);
+
+      if (actorId) query = query.eq('actor_id', actorId);
+      if (cameraId) query = query.eq('camera_id', cameraId);
+      if (action) query = query.eq('action', action);
+      if (fromIso) query = query.gte('created_at', fromIso);
+      if (toIso) query = query.lte('created_at', toIso);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries((data || []).map(dbAuditLogToAuditEntry));
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [actorId, cameraId, action, fromIso, toIso]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, loading, limit: AUDIT_PAGE_SIZE, refetch: fetchEntries };
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState, useCallback, useId } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbCameraGroupToCameraGroup } from '@/lib/supabaseHelpers';
+import { CameraGroup } from '@/types';
+
+export function useCameraGroups() {
+  const [groups, setGroups] = useState<CameraGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The sidebar and the current page both use this hook; channels are keyed by name
+  const instanceId = useId();
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('camera_groups')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setGroups((data || []).map(dbCameraGroupToCameraGroup));
+    } catch (error) {
+      console.error('Error fetching camera groups:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+
+    const channel = supabase
+      .channel(`realtime:camera_groups:${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'camera_groups' },
+        () => {
+          fetchGroups();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchGroups, instanceId]);
+
+  return { groups, loading, refetch: fetchGroups };
+}
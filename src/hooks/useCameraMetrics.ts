@@ -0,0 +1,61 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbCameraMetricsToSample } from '@/lib/supabaseHelpers';
+import { CameraMetricsSample } from '@/types';
+
+const HISTORY_HOURS = 24;
+
+// Stored player measurements for one camera over the last day, newest first
+export function useCameraMetrics(cameraId: string | null) {
+  const [samples, setSamples] = useState<CameraMetricsSample[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMetrics = useCallback(async () => {
+    if (!cameraId) {
+      setSamples([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const since = new Date(Date.now() - HISTORY_HOURS * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('camera_metrics')
+        .select('*')
+        .eq('camera_id', cameraId)
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+
+      setSamples((data || []).map(dbCameraMetricsToSample));
+    } catch (error) {
+      console.error('Error fetching camera metrics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [cameraId]);
+
+  useEffect(() => {
+    fetchMetrics();
+    if (!cameraId) return;
+
+    const channel = supabase
+      .channel(`realtime:camera_metrics:${cameraId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'camera_metrics', filter: `camera_id=eq.${cameraId}` },
+        () => {
+          fetchMetrics();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [cameraId, fetchMetrics]);
+
+  return { samples, loading, refetch: fetchMetrics };
+}
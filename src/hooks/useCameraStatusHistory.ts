@@ -0,0 +1,52 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Camera, CameraStatusChange } from '@/types';
+
+const toStatusChange = (row: { camera_id: string; status: string; changed_at: string }): CameraStatusChange => ({
+  cameraId: row.camera_id,
+  status: row.status as Camera['status'],
+  changedAt: row.changed_at,
+});
+
+/**
+ * Status changes within [from, to] plus each camera's status at `from`,
+ * which is what getStatusSegments needs to cover the whole range.
+ */
+export function useCameraStatusHistory(from: Date, to: Date) {
+  const [initial, setInitial] = useState<Record<string, CameraStatusChange>>({});
+  const [changes, setChanges] = useState<CameraStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data: startRows, error: startError }, { data: rows, error: rowsError }] = await Promise.all([
+        supabase.rpc('camera_status_at', { _at: fromIso }),
+        supabase
+          .from('camera_status_history')
+          .select('camera_id, status, changed_at')
+          .gt('changed_at', fromIso)
+          .lte('changed_at', toIso)
+          .order('changed_at', { ascending: true }),
+      ]);
+
+      if (startError) throw startError;
+      if (rowsError) throw rowsError;
+
+      setInitial(Object.fromEntries((startRows || []).map((row) => [row.camera_id, toStatusChange(row)])));
+      setChanges((rows || []).map(toStatusChange));
+    } catch (error) {
+      console.error('Error fetching camera status history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [fromIso, toIso]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { initial, changes, loading, refetch: fetchHistory };
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbDeviceApiKeyToDeviceApiKey } from '@/lib/supabaseHelpers';
+import { DeviceApiKey } from '@/types';
+
+// Device keys of the organisation (admins only) with each device's latest status report
+export function useDeviceApiKeys() {
+  const [keys, setKeys] = useState<DeviceApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('device_api_keys')
+        .select('*, device_status(*)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setKeys((data || []).map(dbDeviceApiKeyToDeviceApiKey));
+    } catch (error) {
+      console.error('Error fetching device keys:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+
+    const channel = supabase
+      .channel('realtime:device_api_keys')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'device_api_keys' }, () => {
+        fetchKeys();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'device_status' }, () => {
+        fetchKeys();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchKeys]);
+
+  // The plain key is returned once; only its hash is stored
+  const createKey = useCallback(async (name: string, cameraId: string | null) => {
+    const { data, error } = await supabase.rpc('create_device_api_key', { _name: name, _camera_id: cameraId });
+    if (error) throw error;
+    await fetchKeys();
+    return data[0].api_key;
+  }, [fetchKeys]);
+
+  const rotateKey = useCallback(async (id: string) => {
+    const { data, error } = await supabase.rpc('rotate_device_api_key', { _key_id: id });
+    if (error) throw error;
+    await fetchKeys();
+    return data;
+  }, [fetchKeys]);
+
+  const revokeKey = useCallback(async (id: string) => {
+    const { error } = await supabase.rpc('revoke_device_api_key', { _key_id: id });
+    if (error) throw error;
+    await fetchKeys();
+  }, [fetchKeys]);
+
+  return { keys, loading, createKey, rotateKey, revokeKey, refetch: fetchKeys };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbDiscoveredCameraToDiscoveredCamera } from '@/lib/supabaseHelpers';
+import { DiscoveredCamera } from '@/types';
+
+// Cameras reported by the ONVIF discovery agent that are neither added nor dismissed
+export function useDiscoveredCameras() {
+  const [discovered, setDiscovered] = useState<DiscoveredCamera[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDiscovered = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('discovered_cameras')
+        .select('*')
+        .is('camera_id', null)
+        .is('dismissed_at', null)
+        .order('last_seen_at', { ascending: false });
+
+      if (error) throw error;
+
+      setDiscovered((data || []).map(dbDiscoveredCameraToDiscoveredCamera));
+    } catch (error) {
+      console.error('Error fetching discovered cameras:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDiscovered();
+
+    const channel = supabase
+      .channel('realtime:discovered_cameras')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'discovered_cameras' },
+        () => {
+          fetchDiscovered();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchDiscovered]);
+
+  const dismiss = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('discovered_cameras')
+      .update({ dismissed_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) throw error;
+  }, []);
+
+  // Link the discovery to the camera created from it so it leaves the list
+  const markAdded = useCallback(async (id: string, cameraId: string) => {
+    const { error } = await supabase
+      .from('discovered_cameras')
+      .update({ camera_id: cameraId })
+      .eq('id', id);
+    if (error) throw error;
+  }, []);
+
+  return { discovered, loading, dismiss, markAdded, refetch: fetchDiscovered };
+}
@@ -6,8 +6,10 @@ export interface MjpegRecordingFile {
   filename: string;
   size: number;
   date: string;
+  // Signed rpi-file-proxy links for the current user; they stop working at linkExpiresAt
   playUrl: string;
   downloadUrl: string;
+  linkExpiresAt: string;
 }
 
 export interface MjpegRecordingState {
@@ -22,33 +24,25 @@ export interface MjpegRecordingState {
 
 interface UseMjpegRecordingOptions {
   cameraId: string;
-  streamUrl?: string;
+  // Camera's recorder mapping; without both, the camera is not recorded server-side
+  recorderNodeId?: string | null;
+  recorderCameraId?: string | null;
   enabled?: boolean;
   pollingInterval?: number; // ms, default 3000
 }
 
-// Check if stream URL is a valid cctvgreen.site MJPEG stream
-function isValidCctvGreenStream(streamUrl: string | undefined): boolean {
-  if (!streamUrl) return false;
-  try {
-    const url = new URL(streamUrl);
-    return /^cam\d+\.cctvgreen\.site$/.test(url.hostname);
-  } catch {
-    return false;
-  }
-}
-
 // Retry configuration
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 2000; // 2 seconds
 
 export function useMjpegRecording({ 
   cameraId, 
-  streamUrl,
+  recorderNodeId,
+  recorderCameraId,
   enabled = true,
   pollingInterval = 3000 
 }: UseMjpegRecordingOptions) {
-  const isValidStream = isValidCctvGreenStream(streamUrl);
+  const isValidStream = !!recorderNodeId && !!recorderCameraId;
   const [state, setState] = useState<MjpegRecordingState>({
     isRecording: false,
     isStarting: false,
@@ -85,9 +79,9 @@ export function useMjpegRecording({
 
   // Call edge function with retry logic
   const callApi = useCallback(async (action: string, retryCount = 0): Promise<any> => {
-    // Skip API call if stream is not valid cctvgreen.site URL
+    // Skip API call if the camera is not mapped to a recorder node
     if (!isValidStream) {
-      throw new Error('Camera tidak terhubung ke server recording (cctvgreen.site)');
+      throw new Error('Kamera belum terhubung ke recorder');
     }
     
     try {
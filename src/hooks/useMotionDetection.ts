@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useRecordingContext } from '@/contexts/RecordingContext';
+import { resolveMotionSettings } from '@/lib/motionDetection';
+import { useRole } from '@/hooks/useRole';
+import { Camera } from '@/types';
+
+// Per-camera motion detection: arms the detector on the registered stream element
+// and disarms when the setting is turned off or the card unmounts.
+export const useMotionDetection = (camera: Camera) => {
+  const { motionState, armMotionDetection, disarmMotionDetection } = useRecordingContext();
+  const { canRecord } = useRole();
+
+  // Realtime updates recreate the camera object, so key on the serialized settings/masks
+  const settingsKey = JSON.stringify(camera.motionDetection ?? null);
+  const settings = useMemo(() => resolveMotionSettings(JSON.parse(settingsKey)), [settingsKey]);
+  // Motion-triggered recording is an operator action
+  const enabled = settings.enabled && camera.status !== 'offline' && canRecord;
+  const masksKey = JSON.stringify(camera.privacyMasks ?? []);
+  const privacyMasks = useMemo(() => JSON.parse(masksKey), [masksKey]);
+
+  const state = motionState[camera.id] ?? { isArmed: false, motionActive: false };
+
+  // Call after the stream element has been registered with RecordingContext
+  const arm = useCallback(() => {
+    if (!enabled) return;
+    armMotionDetection({
+      cameraId: camera.id,
+      streamUrl: camera.streamUrl,
+      cameraName: camera.name,
+      fps: camera.fps,
+      settings,
+      privacyMasks,
+    });
+  }, [enabled, camera.id, camera.streamUrl, camera.name, camera.fps, settings, privacyMasks, armMotionDetection]);
+
+  // Arm / re-apply settings when they change (no-op until an element is registered)
+  useEffect(() => {
+    arm();
+  }, [arm]);
+
+  useEffect(() => {
+    if (!enabled) disarmMotionDetection(camera.id);
+  }, [enabled, camera.id, disarmMotionDetection]);
+
+  useEffect(() => {
+    return () => disarmMotionDetection(camera.id);
+  }, [camera.id, disarmMotionDetection]);
+
+  return {
+    isEnabled: enabled,
+    isArmed: state.isArmed,
+    motionActive: state.motionActive,
+    arm,
+  };
+};
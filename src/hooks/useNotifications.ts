@@ -1,140 +1,136 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useId } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useRecordingContext, CameraRecordingState } from '@/contexts/RecordingContext';
-
-export type NotificationType = 'camera_offline' | 'recording_active';
-
-export type Notification = {
-  id: string;
-  type: NotificationType;
-  title: string;
-  description: string;
-  timestamp: Date;
-  cameraId: string;
-};
-
-type OfflineCamera = {
-  id: string;
-  name: string;
-  location: string;
-  updated_at: string;
-};
-
-type RecordingStateMap = Record<string, CameraRecordingState>;
-
-export function useNotifications() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+import { useAuth } from '@/contexts/AuthContext';
+import { dbNotificationToAppNotification } from '@/lib/supabaseHelpers';
+import { AppNotification } from '@/types';
+import type { Tables } from '@/integrations/supabase/types';
+
+export function useNotifications(limit = 20) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const { recordingState } = useRecordingContext();
+  // The bell and the inbox page both use this hook; channels are keyed by name
+  const instanceId = useId();
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!userId) return;
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('[useNotifications] Error counting unread notifications:', error);
+      return;
+    }
+    setUnreadCount(count ?? 0);
+  }, [userId]);
 
-  const fetchOfflineCameras = useCallback(async () => {
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
     try {
       const { data, error } = await supabase
-        .from('cameras')
-        .select('id, name, location, updated_at')
-        .eq('status', 'offline');
-
-      if (error) {
-        console.error('[useNotifications] Error fetching offline cameras:', error);
-        return [];
-      }
-
-      return (data || []) as OfflineCamera[];
-    } catch (err) {
-      console.error('[useNotifications] Error:', err);
-      return [];
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      setNotifications((data || []).map(dbNotificationToAppNotification));
+    } catch (error) {
+      console.error('[useNotifications] Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
     }
-  }, []);
-
-  const buildNotifications = useCallback((offlineCameras: OfflineCamera[], currentRecordingState: RecordingStateMap) => {
-    const notifs: Notification[] = [];
-
-    // Add offline camera notifications
-    offlineCameras.forEach((camera) => {
-      notifs.push({
-        id: `offline-${camera.id}`,
-        type: 'camera_offline',
-        title: 'Camera Offline',
-        description: `${camera.name} at ${camera.location} is disconnected`,
-        timestamp: new Date(camera.updated_at),
-        cameraId: camera.id,
-      });
-    });
-
-    // Add active recording notifications
-    Object.entries(currentRecordingState).forEach(([cameraId, state]) => {
-      if (state.isRecording && state.startedAt) {
-        notifs.push({
-          id: `recording-${cameraId}`,
-          type: 'recording_active',
-          title: 'Recording Active',
-          description: `Camera is currently recording`,
-          timestamp: new Date(state.startedAt),
-          cameraId,
-        });
-      }
-    });
-
-    // Sort by timestamp (newest first)
-    notifs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    return notifs;
-  }, []);
+  }, [userId, limit]);
 
   useEffect(() => {
-    let isMounted = true;
-
-    const loadNotifications = async () => {
-      setLoading(true);
-      const offlineCameras = await fetchOfflineCameras();
-      if (isMounted) {
-        setNotifications(buildNotifications(offlineCameras, recordingState));
-        setLoading(false);
-      }
-    };
+    if (!userId) return;
 
-    loadNotifications();
+    fetchNotifications();
+    fetchUnreadCount();
 
-    // Subscribe to realtime camera updates
+    // Apply row changes from the payload instead of refetching the list
     const channel = supabase
-      .channel('notifications-camera-changes')
+      .channel(`realtime:notifications:${instanceId}`)
       .on(
         'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'cameras',
-        },
-        async () => {
-          // Refetch offline cameras when any camera changes
-          const offlineCameras = await fetchOfflineCameras();
-          if (isMounted) {
-            setNotifications(buildNotifications(offlineCameras, recordingState));
-          }
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = dbNotificationToAppNotification(payload.new as Tables<'notifications'>);
+          setNotifications((prev) => [notification, ...prev].slice(0, limit));
+          if (!notification.readAt) setUnreadCount((count) => count + 1);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = dbNotificationToAppNotification(payload.new as Tables<'notifications'>);
+          setNotifications((prev) => prev.map((n) => (n.id === notification.id ? notification : n)));
+          // The old row isn't in the payload, so recount rather than guess
+          fetchUnreadCount();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const id = (payload.old as { id?: string }).id;
+          setNotifications((prev) => prev.filter((n) => n.id !== id));
+          fetchUnreadCount();
         }
       )
       .subscribe();
 
     return () => {
-      isMounted = false;
       supabase.removeChannel(channel);
     };
-  }, [fetchOfflineCameras, buildNotifications]);
+  }, [userId, limit, instanceId, fetchNotifications, fetchUnreadCount]);
 
-  // Update notifications when recording state changes
-  useEffect(() => {
-    const updateRecordingNotifications = async () => {
-      const offlineCameras = await fetchOfflineCameras();
-      setNotifications(buildNotifications(offlineCameras, recordingState));
-    };
+  const markRead = useCallback(async (notificationId: string) => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  }, []);
 
-    updateRecordingNotifications();
-  }, [recordingState, fetchOfflineCameras, buildNotifications]);
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  }, [userId]);
+
+  // Acknowledges the offline incident for everyone who received it
+  const acknowledge = useCallback(async (notificationId: string, comment: string) => {
+    const { error } = await supabase.rpc('acknowledge_notification', {
+      _notification_id: notificationId,
+      _comment: comment,
+    });
+
+    if (error) throw error;
+  }, []);
 
   return {
     notifications,
+    unreadCount,
     loading,
-    offlineCount: notifications.filter((n) => n.type === 'camera_offline').length,
-    recordingCount: notifications.filter((n) => n.type === 'recording_active').length,
+    markRead,
+    markAllRead,
+    acknowledge,
+    refetch: fetchNotifications,
   };
 }
@@ -0,0 +1,80 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { OrganizationUser, OrgRole } from '@/types';
+
+interface ManageUsersUser {
+  id: string;
+  email: string | null;
+  role: OrgRole;
+  joined_at: string;
+  invited_at: string | null;
+  last_sign_in_at: string | null;
+  deactivated: boolean;
+}
+
+// All user administration goes through the service-role manage-users function
+async function callManageUsers<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body });
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (data && !data.success) {
+    throw new Error(data.error || 'Unknown error');
+  }
+  return data as T;
+}
+
+export function useOrganizationUsers(enabled = true) {
+  const [users, setUsers] = useState<OrganizationUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsers = useCallback(async () => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await callManageUsers<{ users: ManageUsersUser[] }>({ action: 'list' });
+      setUsers(
+        data.users.map((u) => ({
+          id: u.id,
+          email: u.email,
+          role: u.role,
+          joinedAt: u.joined_at,
+          invitedAt: u.invited_at,
+          lastSignInAt: u.last_sign_in_at,
+          deactivated: u.deactivated,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching organization users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const inviteUser = useCallback(async (email: string, role: OrgRole) => {
+    await callManageUsers({ action: 'invite', email, role, redirect_to: `${window.location.origin}/` });
+    await fetchUsers();
+  }, [fetchUsers]);
+
+  const setUserRole = useCallback(async (userId: string, role: OrgRole) => {
+    await callManageUsers({ action: 'set_role', user_id: userId, role });
+    await fetchUsers();
+  }, [fetchUsers]);
+
+  const setUserActive = useCallback(async (userId: string, active: boolean) => {
+    await callManageUsers({ action: active ? 'reactivate' : 'deactivate', user_id: userId });
+    await fetchUsers();
+  }, [fetchUsers]);
+
+  return { users, loading, refetch: fetchUsers, inviteUser, setUserRole, setUserActive };
+}
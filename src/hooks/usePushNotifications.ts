@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  PUSH_EVENT_TYPES,
+  getPushSubscription,
+  isPushSupported,
+  sendTestPush,
+  subscribeToPush,
+  unsubscribeFromPush,
+  updatePushEvents,
+} from '@/lib/push';
+import { PushEventType } from '@/types';
+
+export function usePushNotifications() {
+  const supported = isPushSupported();
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const [events, setEvents] = useState<PushEventType[]>(PUSH_EVENT_TYPES);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    supported ? Notification.permission : 'denied'
+  );
+  const [loading, setLoading] = useState(true);
+
+  // Load this browser's subscription and its stored event preferences
+  const load = useCallback(async () => {
+    if (!supported) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const current = await getPushSubscription();
+      setSubscription(current);
+
+      if (current) {
+        const { data } = await supabase
+          .from('push_subscriptions')
+          .select('events')
+          .eq('endpoint', current.endpoint)
+          .maybeSingle();
+
+        if (data) {
+          setEvents(data.events as PushEventType[]);
+        } else {
+          // Subscribed in the browser but unknown to the server (e.g. another account signed in here)
+          setSubscription(null);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading push subscription:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [supported]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const enable = useCallback(async () => {
+    try {
+      const created = await subscribeToPush(events);
+      setSubscription(created);
+    } finally {
+      setPermission(Notification.permission);
+    }
+  }, [events]);
+
+  const disable = useCallback(async () => {
+    if (!subscription) return;
+    await unsubscribeFromPush(subscription);
+    setSubscription(null);
+  }, [subscription]);
+
+  const setEventEnabled = useCallback(async (eventType: PushEventType, enabled: boolean) => {
+    const next = enabled
+      ? [...new Set([...events, eventType])]
+      : events.filter((e) => e !== eventType);
+
+    if (subscription) {
+      await updatePushEvents(subscription, next);
+    }
+    setEvents(next);
+  }, [events, subscription]);
+
+  return {
+    supported,
+    permission,
+    subscribed: !!subscription,
+    events,
+    loading,
+    enable,
+    disable,
+    setEventEnabled,
+    sendTest: sendTestPush,
+  };
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState, useCallback, useId } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbRecorderNodeToRecorderNode } from '@/lib/supabaseHelpers';
+import { RecorderNode } from '@/types';
+
+export type RecorderNodeInput = Pick<RecorderNode, 'name' | 'baseUrl' | 'apiKeySecret' | 'enabled'>;
+
+// Recorders of the organisation; everyone can see them, admins manage them (RLS)
+export function useRecorderNodes() {
+  const [nodes, setNodes] = useState<RecorderNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The camera form and the node dialog can be mounted together; channels are keyed by name
+  const instanceId = useId();
+
+  const fetchNodes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recorder_nodes')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setNodes((data || []).map(dbRecorderNodeToRecorderNode));
+    } catch (error) {
+      console.error('Error fetching recorder nodes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNodes();
+
+    const channel = supabase
+      .channel(`realtime:recorder_nodes:${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'recorder_nodes' },
+        () => {
+          fetchNodes();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchNodes, instanceId]);
+
+  const saveNode = useCallback(async (id: string | null, input: RecorderNodeInput) => {
+    const row = {
+      name: input.name.trim(),
+      base_url: input.baseUrl.trim().replace(/\/+$/, ''),
+      api_key_secret: input.apiKeySecret.trim(),
+      enabled: input.enabled,
+    };
+    const { error } = id
+      ? await supabase.from('recorder_nodes').update(row).eq('id', id)
+      : await supabase.from('recorder_nodes').insert(row);
+    if (error) throw error;
+    await fetchNodes();
+  }, [fetchNodes]);
+
+  // Cameras on the node keep their remote id but lose the node (ON DELETE SET NULL)
+  const deleteNode = useCallback(async (id: string) => {
+    const { error } = await supabase.from('recorder_nodes').delete().eq('id', id);
+    if (error) throw error;
+    await fetchNodes();
+  }, [fetchNodes]);
+
+  return { nodes, loading, saveNode, deleteNode, refetch: fetchNodes };
+}
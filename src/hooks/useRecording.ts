@@ -1,8 +1,15 @@
 import { useMemo, useCallback } from 'react';
 import { useRecordingContext } from '@/contexts/RecordingContext';
+import { PrivacyMask } from '@/types';
 
 // Backwards-compatible hook: returns per-camera recording state + actions.
-export const useRecording = (cameraId: string, cameraStatus: string, cameraName?: string, fps?: number) => {
+export const useRecording = (
+  cameraId: string,
+  cameraStatus: string,
+  cameraName?: string,
+  fps?: number,
+  privacyMasks?: PrivacyMask[]
+) => {
   const { recordingState, startRecording, stopRecording, registerImgRef, registerVideoRef } = useRecordingContext();
 
   const state = recordingState[cameraId] ?? {
@@ -42,7 +49,7 @@ export const useRecording = (cameraId: string, cameraStatus: string, cameraName?
     setImgRef,
     setVideoRef,
     startRecording: (streamUrl: string) =>
-      startRecording({ cameraId, streamUrl, cameraStatus, cameraName, fps }),
+      startRecording({ cameraId, streamUrl, cameraStatus, cameraName, fps, privacyMasks }),
     stopRecording: () => stopRecording({ cameraId }),
   };
 };
@@ -0,0 +1,48 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dbScheduleToSchedule } from '@/lib/supabaseHelpers';
+import { RecordingSchedule } from '@/types';
+
+export function useRecordingSchedules() {
+  const [schedules, setSchedules] = useState<RecordingSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recording_schedules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setSchedules((data || []).map(dbScheduleToSchedule));
+    } catch (error) {
+      console.error('Error fetching recording schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+
+    // The scheduler updates active_since/last_error, so keep the list live
+    const channel = supabase
+      .channel('realtime:recording_schedules')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'recording_schedules' },
+        () => {
+          fetchSchedules();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchSchedules]);
+
+  return { schedules, loading, refetch: fetchSchedules };
+}
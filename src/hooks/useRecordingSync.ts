@@ -0,0 +1,106 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+interface ImportResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  path?: string;
+}
+
+interface ImportSummary {
+  total: number;
+  successful: number;
+  failed: number;
+}
+
+async function invokeRecordingSync(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('recording-sync', { body });
+  if (error) throw new Error(error.message);
+  if (data && !data.success) throw new Error(data.error || 'Unknown error');
+  return data;
+}
+
+// Recorder (Raspberry Pi) files in the recordings catalogue: refresh listings, import into Storage
+export const useRecordingSync = () => {
+  const [syncing, setSyncing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const sync = useCallback(async (cameraId?: string): Promise<boolean> => {
+    try {
+      setSyncing(true);
+      const { added, failed } = await invokeRecordingSync({ action: 'sync', camera_id: cameraId });
+
+      toast({
+        title: failed > 0 ? 'Sync partially complete' : 'Recorders synced',
+        description: `${added} new recording(s)${failed > 0 ? `, ${failed} camera(s) could not be reached` : ''}.`,
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Sync failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const importRecordings = useCallback(async (recordingIds: string[]): Promise<ImportSummary | null> => {
+    if (recordingIds.length === 0) return null;
+
+    try {
+      setImporting(true);
+      const summary: ImportSummary = { total: 0, successful: 0, failed: 0 };
+      const errors: string[] = [];
+
+      // recording-sync copies one file per request so a large file gets the whole time limit
+      for (const recordingId of recordingIds) {
+        summary.total++;
+        try {
+          const { result } = (await invokeRecordingSync({ action: 'import', recording_id: recordingId })) as {
+            result: ImportResult;
+          };
+          if (result.success) {
+            summary.successful++;
+            continue;
+          }
+          summary.failed++;
+          if (result.error) errors.push(result.error);
+        } catch (error) {
+          summary.failed++;
+          errors.push(error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+
+      if (summary.failed === 0) {
+        toast({
+          title: 'Import Complete',
+          description: `Imported ${summary.successful} recording(s) into storage.`,
+        });
+      } else {
+        toast({
+          title: summary.successful > 0 ? 'Import Partially Complete' : 'Import Failed',
+          description: `Imported ${summary.successful} of ${summary.total} recording(s). ${errors[0] ?? ''}`.trim(),
+          variant: 'destructive',
+        });
+      }
+      return summary;
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setImporting(false);
+    }
+  }, []);
+
+  return { sync, syncing, importRecordings, importing };
+};
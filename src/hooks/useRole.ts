@@ -0,0 +1,33 @@
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { OrgRole } from '@/types';
+
+// Same order as the org_role enum, which RLS compares with >=
+const ROLE_RANK: Record<OrgRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export function hasRole(role: OrgRole | null, required: OrgRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Current user's role in their organisation and what it allows.
+ * The UI only hides actions; RLS and the edge functions enforce them.
+ */
+export function useRole() {
+  const { organization, role, loading } = useOrganization();
+
+  return {
+    role,
+    organization,
+    loading,
+    // viewer: live view only
+    canView: hasRole(role, 'viewer'),
+    // operator: record, snapshot, review footage
+    canRecord: hasRole(role, 'operator'),
+    // admin: manage cameras, groups, schedules, users and delete footage
+    canManage: hasRole(role, 'admin'),
+  };
+}
@@ -14,87 +14,1080 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_deliveries: {
+        Row: {
+          camera_id: string | null
+          channel: string
+          created_at: string
+          error: string | null
+          event_type: string
+          id: string
+          organization_id: string
+          payload: Json | null
+          rule_id: string
+          status: string
+        }
+        Insert: {
+          camera_id?: string | null
+          channel: string
+          created_at?: string
+          error?: string | null
+          event_type: string
+          id?: string
+          organization_id: string
+          payload?: Json | null
+          rule_id: string
+          status: string
+        }
+        Update: {
+          camera_id?: string | null
+          channel?: string
+          created_at?: string
+          error?: string | null
+          event_type?: string
+          id?: string
+          organization_id?: string
+          payload?: Json | null
+          rule_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_deliveries_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_deliveries_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          camera_ids: string[]
+          channel: string
+          created_at: string
+          enabled: boolean
+          event_type: string
+          id: string
+          name: string
+          organization_id: string
+          quiet_end: string | null
+          quiet_start: string | null
+          target: string
+          throttle_minutes: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          camera_ids?: string[]
+          channel: string
+          created_at?: string
+          enabled?: boolean
+          event_type: string
+          id?: string
+          name: string
+          organization_id?: string
+          quiet_end?: string | null
+          quiet_start?: string | null
+          target: string
+          throttle_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          camera_ids?: string[]
+          channel?: string
+          created_at?: string
+          enabled?: boolean
+          event_type?: string
+          id?: string
+          name?: string
+          organization_id?: string
+          quiet_end?: string | null
+          quiet_start?: string | null
+          target?: string
+          throttle_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          camera_id: string | null
+          created_at: string
+          diff: Json | null
+          id: string
+          organization_id: string | null
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          camera_id?: string | null
+          created_at?: string
+          diff?: Json | null
+          id?: string
+          organization_id?: string | null
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          camera_id?: string | null
+          created_at?: string
+          diff?: Json | null
+          id?: string
+          organization_id?: string | null
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camera_groups: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_groups_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camera_metrics: {
+        Row: {
+          bitrate_kbps: number | null
+          camera_id: string
+          fps: number | null
+          height: number | null
+          id: string
+          latency_ms: number | null
+          recorded_at: string
+          reported_by: string | null
+          time_to_first_frame_ms: number | null
+          width: number | null
+        }
+        Insert: {
+          bitrate_kbps?: number | null
+          camera_id: string
+          fps?: number | null
+          height?: number | null
+          id?: string
+          latency_ms?: number | null
+          recorded_at?: string
+          reported_by?: string | null
+          time_to_first_frame_ms?: number | null
+          width?: number | null
+        }
+        Update: {
+          bitrate_kbps?: number | null
+          camera_id?: string
+          fps?: number | null
+          height?: number | null
+          id?: string
+          latency_ms?: number | null
+          recorded_at?: string
+          reported_by?: string | null
+          time_to_first_frame_ms?: number | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_metrics_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camera_status_history: {
+        Row: {
+          camera_id: string
+          changed_at: string
+          id: string
+          previous_status: string | null
+          status: string
+        }
+        Insert: {
+          camera_id: string
+          changed_at?: string
+          id?: string
+          previous_status?: string | null
+          status: string
+        }
+        Update: {
+          camera_id?: string
+          changed_at?: string
+          id?: string
+          previous_status?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_status_history_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camera_stream_credentials: {
+        Row: {
+          camera_id: string
+          created_at: string
+          password: string
+          updated_at: string
+          username: string
+        }
+        Insert: {
+          camera_id: string
+          created_at?: string
+          password?: string
+          updated_at?: string
+          username: string
+        }
+        Update: {
+          camera_id?: string
+          created_at?: string
+          password?: string
+          updated_at?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camera_stream_credentials_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: true
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cameras: {
         Row: {
           created_at: string
-          fps: number | null
+          fps: number | null
+          group_id: string | null
+          id: string
+          last_ping: string | null
+          last_probe_at: string | null
+          last_probe_error: string | null
+          last_seen: string | null
+          location: string
+          motion_detection: Json | null
+          name: string
+          organization_id: string | null
+          privacy_masks: Json
+          probe: Json | null
+          probe_failures: number
+          ptz: Json | null
+          recorder_camera_id: string | null
+          recorder_node_id: string | null
+          resolution: string | null
+          retention: Json | null
+          status: string
+          stream_type: string | null
+          stream_url: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          fps?: number | null
+          group_id?: string | null
+          id?: string
+          last_ping?: string | null
+          last_probe_at?: string | null
+          last_probe_error?: string | null
+          last_seen?: string | null
+          location: string
+          motion_detection?: Json | null
+          name: string
+          organization_id?: string | null
+          privacy_masks?: Json
+          probe?: Json | null
+          probe_failures?: number
+          ptz?: Json | null
+          recorder_camera_id?: string | null
+          recorder_node_id?: string | null
+          resolution?: string | null
+          retention?: Json | null
+          status?: string
+          stream_type?: string | null
+          stream_url: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          fps?: number | null
+          group_id?: string | null
+          id?: string
+          last_ping?: string | null
+          last_probe_at?: string | null
+          last_probe_error?: string | null
+          last_seen?: string | null
+          location?: string
+          motion_detection?: Json | null
+          name?: string
+          organization_id?: string | null
+          privacy_masks?: Json
+          probe?: Json | null
+          probe_failures?: number
+          ptz?: Json | null
+          recorder_camera_id?: string | null
+          recorder_node_id?: string | null
+          resolution?: string | null
+          retention?: Json | null
+          status?: string
+          stream_type?: string | null
+          stream_url?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cameras_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "camera_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cameras_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cameras_recorder_node_id_fkey"
+            columns: ["recorder_node_id"]
+            isOneToOne: false
+            referencedRelation: "recorder_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deployment_settings: {
+        Row: {
+          id: boolean
+          invite_only: boolean
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          invite_only?: boolean
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          invite_only?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      device_api_keys: {
+        Row: {
+          camera_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          organization_id: string
+          revoked_at: string | null
+          rotated_at: string | null
+        }
+        Insert: {
+          camera_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          organization_id: string
+          revoked_at?: string | null
+          rotated_at?: string | null
+        }
+        Update: {
+          camera_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          organization_id?: string
+          revoked_at?: string | null
+          rotated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_api_keys_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_api_keys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_status: {
+        Row: {
+          api_key_id: string
+          disk_free_bytes: number | null
+          disk_total_bytes: number | null
+          hostname: string | null
+          organization_id: string
+          reported_at: string
+          temperature_c: number | null
+          uptime_seconds: number | null
+        }
+        Insert: {
+          api_key_id: string
+          disk_free_bytes?: number | null
+          disk_total_bytes?: number | null
+          hostname?: string | null
+          organization_id: string
+          reported_at?: string
+          temperature_c?: number | null
+          uptime_seconds?: number | null
+        }
+        Update: {
+          api_key_id?: string
+          disk_free_bytes?: number | null
+          disk_total_bytes?: number | null
+          hostname?: string | null
+          organization_id?: string
+          reported_at?: string
+          temperature_c?: number | null
+          uptime_seconds?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_status_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: true
+            referencedRelation: "device_api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "device_status_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discovered_cameras: {
+        Row: {
+          address: string
+          agent: string | null
+          camera_id: string | null
+          dismissed_at: string | null
+          endpoint_reference: string
+          error: string | null
+          first_seen_at: string
+          fps: number | null
+          id: string
+          last_seen_at: string
+          location: string | null
+          manufacturer: string | null
+          model: string | null
+          name: string | null
+          organization_id: string
+          profiles: Json
+          resolution: string | null
+          stream_uri: string | null
+          xaddr: string | null
+        }
+        Insert: {
+          address: string
+          agent?: string | null
+          camera_id?: string | null
+          dismissed_at?: string | null
+          endpoint_reference: string
+          error?: string | null
+          first_seen_at?: string
+          fps?: number | null
+          id?: string
+          last_seen_at?: string
+          location?: string | null
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          organization_id: string
+          profiles?: Json
+          resolution?: string | null
+          stream_uri?: string | null
+          xaddr?: string | null
+        }
+        Update: {
+          address?: string
+          agent?: string | null
+          camera_id?: string | null
+          dismissed_at?: string | null
+          endpoint_reference?: string
+          error?: string | null
+          first_seen_at?: string
+          fps?: number | null
+          id?: string
+          last_seen_at?: string
+          location?: string | null
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          organization_id?: string
+          profiles?: Json
+          resolution?: string | null
+          stream_uri?: string | null
+          xaddr?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discovered_cameras_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discovered_cameras_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      google_drive_tokens: {
+        Row: {
+          access_token: string
+          created_at: string
+          folder_id: string | null
+          id: string
+          refresh_token: string
+          token_expiry: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          refresh_token: string
+          token_expiry: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          refresh_token?: string
+          token_expiry?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      motion_events: {
+        Row: {
+          bounding_box: Json | null
+          camera_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          peak_score: number | null
+          recording_id: string | null
+          snapshot_path: string | null
+          source: string
+          started_at: string
+        }
+        Insert: {
+          bounding_box?: Json | null
+          camera_id: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          peak_score?: number | null
+          recording_id?: string | null
+          snapshot_path?: string | null
+          source?: string
+          started_at: string
+        }
+        Update: {
+          bounding_box?: Json | null
+          camera_id?: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          peak_score?: number | null
+          recording_id?: string | null
+          snapshot_path?: string | null
+          source?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "motion_events_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "motion_events_recording_id_fkey"
+            columns: ["recording_id"]
+            isOneToOne: false
+            referencedRelation: "recordings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          ack_comment: string | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          acknowledged_by_email: string | null
+          body: string
+          camera_id: string | null
+          created_at: string
+          id: string
+          incident_id: string
+          organization_id: string
+          read_at: string | null
+          resolved_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          ack_comment?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_email?: string | null
+          body: string
+          camera_id?: string | null
+          created_at?: string
+          id?: string
+          incident_id: string
+          organization_id: string
+          read_at?: string | null
+          resolved_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          ack_comment?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_email?: string | null
+          body?: string
+          camera_id?: string | null
+          created_at?: string
+          id?: string
+          incident_id?: string
+          organization_id?: string
+          read_at?: string | null
+          resolved_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
           id: string
-          last_ping: string | null
-          last_seen: string | null
-          location: string
           name: string
-          resolution: string | null
-          status: string
-          stream_type: string | null
-          stream_url: string
           updated_at: string
-          user_id: string | null
         }
         Insert: {
           created_at?: string
-          fps?: number | null
           id?: string
-          last_ping?: string | null
-          last_seen?: string | null
-          location: string
           name: string
-          resolution?: string | null
-          status?: string
-          stream_type?: string | null
-          stream_url: string
           updated_at?: string
-          user_id?: string | null
         }
         Update: {
           created_at?: string
-          fps?: number | null
           id?: string
-          last_ping?: string | null
-          last_seen?: string | null
-          location?: string
           name?: string
-          resolution?: string | null
-          status?: string
-          stream_type?: string | null
-          stream_url?: string
           updated_at?: string
-          user_id?: string | null
         }
         Relationships: []
       }
-      google_drive_tokens: {
+      purge_log: {
         Row: {
-          access_token: string
+          camera_id: string
+          error: string | null
+          file_path: string | null
+          id: string
+          purged_at: string
+          reason: string
+          recorded_at: string | null
+          recording_id: string
+          size: number | null
+        }
+        Insert: {
+          camera_id: string
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          purged_at?: string
+          reason: string
+          recorded_at?: string | null
+          recording_id: string
+          size?: number | null
+        }
+        Update: {
+          camera_id?: string
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          purged_at?: string
+          reason?: string
+          recorded_at?: string | null
+          recording_id?: string
+          size?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purge_log_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
           created_at: string
-          folder_id: string | null
+          endpoint: string
+          events: string[]
           id: string
-          refresh_token: string
-          token_expiry: string
+          last_error: string | null
+          p256dh: string
           updated_at: string
+          user_agent: string | null
           user_id: string
         }
         Insert: {
-          access_token: string
+          auth: string
           created_at?: string
-          folder_id?: string | null
+          endpoint: string
+          events?: string[]
           id?: string
-          refresh_token: string
-          token_expiry: string
+          last_error?: string | null
+          p256dh: string
           updated_at?: string
-          user_id: string
+          user_agent?: string | null
+          user_id?: string
         }
         Update: {
-          access_token?: string
+          auth?: string
           created_at?: string
-          folder_id?: string | null
+          endpoint?: string
+          events?: string[]
           id?: string
-          refresh_token?: string
-          token_expiry?: string
+          last_error?: string | null
+          p256dh?: string
           updated_at?: string
+          user_agent?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      recorder_nodes: {
+        Row: {
+          api_key_secret: string
+          base_url: string
+          created_at: string
+          disk_free_bytes: number | null
+          disk_total_bytes: number | null
+          enabled: boolean
+          id: string
+          last_checked_at: string | null
+          last_error: string | null
+          last_online_at: string | null
+          last_status_code: number | null
+          name: string
+          organization_id: string
+          recording_cameras: string[]
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          api_key_secret?: string
+          base_url: string
+          created_at?: string
+          disk_free_bytes?: number | null
+          disk_total_bytes?: number | null
+          enabled?: boolean
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_online_at?: string | null
+          last_status_code?: number | null
+          name: string
+          organization_id?: string
+          recording_cameras?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          api_key_secret?: string
+          base_url?: string
+          created_at?: string
+          disk_free_bytes?: number | null
+          disk_total_bytes?: number | null
+          enabled?: boolean
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_online_at?: string | null
+          last_status_code?: number | null
+          name?: string
+          organization_id?: string
+          recording_cameras?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recorder_nodes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recording_schedules: {
+        Row: {
+          active_since: string | null
+          camera_id: string
+          created_at: string
+          enabled: boolean
+          end_time: string
+          id: string
+          last_error: string | null
+          mode: string
+          name: string
+          start_time: string
+          timezone: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          active_since?: string | null
+          camera_id: string
+          created_at?: string
+          enabled?: boolean
+          end_time: string
+          id?: string
+          last_error?: string | null
+          mode?: string
+          name: string
+          start_time: string
+          timezone?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Update: {
+          active_since?: string | null
+          camera_id?: string
+          created_at?: string
+          enabled?: boolean
+          end_time?: string
+          id?: string
+          last_error?: string | null
+          mode?: string
+          name?: string
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recording_schedules_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recordings: {
         Row: {
           backed_up_at: string | null
@@ -105,8 +1098,15 @@ export type Database = {
           duration: string | null
           file_url: string | null
           id: string
+          imported_at: string | null
+          is_protected: boolean
           recorded_at: string
+          recorder_node_id: string | null
+          remote_cam: string | null
+          remote_filename: string | null
+          remote_mtime: string | null
           size: number | null
+          source: string
           thumbnail_url: string | null
         }
         Insert: {
@@ -118,8 +1118,15 @@ export type Database = {
           duration?: string | null
           file_url?: string | null
           id?: string
+          imported_at?: string | null
+          is_protected?: boolean
           recorded_at: string
+          recorder_node_id?: string | null
+          remote_cam?: string | null
+          remote_filename?: string | null
+          remote_mtime?: string | null
           size?: number | null
+          source?: string
           thumbnail_url?: string | null
         }
         Update: {
@@ -131,8 +1138,15 @@ export type Database = {
           duration?: string | null
           file_url?: string | null
           id?: string
+          imported_at?: string | null
+          is_protected?: boolean
           recorded_at?: string
+          recorder_node_id?: string | null
+          remote_cam?: string | null
+          remote_filename?: string | null
+          remote_mtime?: string | null
           size?: number | null
+          source?: string
           thumbnail_url?: string | null
         }
         Relationships: [
@@ -143,6 +1157,36 @@ export type Database = {
             referencedRelation: "cameras"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recordings_recorder_node_id_fkey"
+            columns: ["recorder_node_id"]
+            isOneToOne: false
+            referencedRelation: "recorder_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_recordings: {
+        Row: {
+          camera_id: string
+          started_at: string
+        }
+        Insert: {
+          camera_id: string
+          started_at?: string
+        }
+        Update: {
+          camera_id?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_recordings_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: true
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -171,6 +1215,73 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acknowledge_notification: {
+        Args: {
+          _comment: string
+          _notification_id: string
+        }
+        Returns: undefined
+      }
+      audit_diff: {
+        Args: {
+          _new: Json
+          _old: Json
+        }
+        Returns: Json
+      }
+      camera_has_stream_credentials: {
+        Args: {
+          _camera_id: string
+        }
+        Returns: boolean
+      }
+      camera_role: {
+        Args: {
+          _camera_id: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["org_role"]
+      }
+      camera_status_at: {
+        Args: {
+          _at: string
+        }
+        Returns: {
+          camera_id: string
+          changed_at: string
+          status: string
+        }[]
+      }
+      create_device_api_key: {
+        Args: {
+          _camera_id: string | null
+          _name: string
+        }
+        Returns: {
+          api_key: string
+          id: string
+        }[]
+      }
+      generate_device_api_key: {
+        Args: never
+        Returns: string
+      }
+      has_camera_role: {
+        Args: {
+          _camera_id: string
+          _role: Database["public"]["Enums"]["org_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_org_role: {
+        Args: {
+          _organization_id: string
+          _role: Database["public"]["Enums"]["org_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -178,9 +1289,46 @@ export type Database = {
         }
         Returns: boolean
       }
+      mark_camera_offline: {
+        Args: {
+          _camera_id: string
+        }
+        Returns: undefined
+      }
+      revoke_device_api_key: {
+        Args: {
+          _key_id: string
+        }
+        Returns: undefined
+      }
+      rotate_device_api_key: {
+        Args: {
+          _key_id: string
+        }
+        Returns: string
+      }
+      set_camera_stream_credentials: {
+        Args: {
+          _camera_id: string
+          _password: string | null
+          _username: string | null
+        }
+        Returns: undefined
+      }
+      signup_allowed: {
+        Args: never
+        Returns: boolean
+      }
+      user_organization_id: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "user"
+      org_role: "viewer" | "operator" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -309,6 +1457,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      org_role: ["viewer", "operator", "admin"],
     },
   },
 } as const
@@ -0,0 +1,31 @@
+import { AlertChannel, AlertDelivery, AlertEventType } from '@/types';
+
+export const ALERT_EVENT_TYPES: AlertEventType[] = ['camera_offline', 'camera_online', 'recording_started', 'recording_stopped'];
+
+export const ALERT_EVENT_LABELS: Record<AlertEventType, string> = {
+  camera_offline: 'Camera offline',
+  camera_online: 'Camera back online',
+  recording_started: 'Recording started',
+  recording_stopped: 'Recording stopped',
+};
+
+export const ALERT_CHANNELS: AlertChannel[] = ['webhook', 'email', 'telegram'];
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  webhook: 'Webhook',
+  email: 'Email',
+  telegram: 'Telegram',
+};
+
+export const ALERT_TARGET_HINTS: Record<AlertChannel, { label: string; placeholder: string }> = {
+  webhook: { label: 'Webhook URL', placeholder: 'https://example.com/hooks/cctv' },
+  email: { label: 'Email address', placeholder: 'security@example.com' },
+  telegram: { label: 'Telegram chat ID', placeholder: 'e.g., -1001234567890' },
+};
+
+export const DELIVERY_STATUS_LABELS: Record<AlertDelivery['status'], string> = {
+  sent: 'Sent',
+  failed: 'Failed',
+  throttled: 'Throttled',
+  suppressed: 'Quiet hours',
+};
@@ -0,0 +1,74 @@
+import { AuditEntry } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'recording.start': 'Recording started',
+  'recording.stop': 'Recording stopped',
+  'recording.backup': 'Backed up to Google Drive',
+  'recording.download': 'Recording downloaded',
+  'recording.import': 'Imported from recorder',
+  'recording.update': 'Recording edited',
+  'recording.delete': 'Recording deleted',
+  'mjpeg.start': 'Server recording started',
+  'mjpeg.stop': 'Server recording stopped',
+  'camera.update': 'Camera edited',
+  'camera.delete': 'Camera deleted',
+  'ptz.preset_save': 'PTZ preset saved',
+  'ptz.preset_remove': 'PTZ preset removed',
+  'device_key.create': 'Device key created',
+  'device_key.rotate': 'Device key rotated',
+  'device_key.revoke': 'Device key revoked',
+};
+
+export const getAuditActionLabel = (action: string) => AUDIT_ACTION_LABELS[action] ?? action;
+
+export const getAuditActorLabel = (entry: AuditEntry) =>
+  entry.actorEmail ?? (entry.actorId ? 'Unknown user' : 'System');
+
+/**
+ * One-line summary of an entry's diff. Updates store { column: { old, new } };
+ * deletes store the removed row, other actions free-form details.
+ */
+export function summarizeAuditDiff(entry: AuditEntry): string {
+  if (!entry.diff) return '';
+
+  if (entry.action.endsWith('.update')) {
+    return Object.entries(entry.diff)
+      .map(([key, change]) => {
+        const { old: before, new: after } = (change ?? {}) as { old?: unknown; new?: unknown };
+        return `${key}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`;
+      })
+      .join('; ');
+  }
+
+  if (entry.action.endsWith('.delete')) {
+    const name = entry.diff.name ?? entry.diff.description ?? entry.diff.file_url;
+    return name ? `Removed ${JSON.stringify(name)}` : '';
+  }
+
+  return Object.entries(entry.diff)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join('; ');
+}
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function auditEntriesToCsv(entries: AuditEntry[], getCameraName: (cameraId: string | null) => string): string {
+  const headers = ['Time', 'User', 'Action', 'Camera', 'Target Type', 'Target ID', 'Details'];
+  return [
+    headers.join(','),
+    ...entries.map((entry) =>
+      [
+        entry.createdAt,
+        getAuditActorLabel(entry),
+        getAuditActionLabel(entry.action),
+        getCameraName(entry.cameraId),
+        entry.targetType,
+        entry.targetId ?? '',
+        // Full diff so the export keeps what the table truncates
+        entry.diff ? JSON.stringify(entry.diff) : '',
+      ]
+        .map(csvCell)
+        .join(',')
+    ),
+  ].join('\n');
+}
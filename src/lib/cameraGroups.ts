@@ -0,0 +1,40 @@
+import { Camera, CameraGroup, GroupStats } from '@/types';
+
+// Group filter values besides a group id
+export const ALL_GROUPS = 'all';
+export const UNGROUPED = 'ungrouped';
+
+export function matchesGroupFilter(groupId: string | null | undefined, filter: string): boolean {
+  if (filter === ALL_GROUPS) return true;
+  if (filter === UNGROUPED) return !groupId;
+  return groupId === filter;
+}
+
+/**
+ * Online/offline/recording counts per group, in group order, with ungrouped cameras last.
+ * Groups without cameras are omitted.
+ */
+export function getGroupStats(cameras: Camera[], groups: CameraGroup[]): GroupStats[] {
+  const buckets: { groupId: string | null; name: string }[] = [
+    ...groups.map((group) => ({ groupId: group.id, name: group.name })),
+    { groupId: null, name: 'Ungrouped' },
+  ];
+  const knownIds = new Set(groups.map((group) => group.id));
+
+  return buckets
+    .map(({ groupId, name }) => {
+      // Cameras pointing at a group we cannot see count as ungrouped
+      const members = cameras.filter((camera) =>
+        groupId ? camera.groupId === groupId : !camera.groupId || !knownIds.has(camera.groupId)
+      );
+      return {
+        groupId,
+        name,
+        totalCameras: members.length,
+        onlineCameras: members.filter((c) => c.status === 'online').length,
+        offlineCameras: members.filter((c) => c.status === 'offline').length,
+        recordingCameras: members.filter((c) => c.status === 'recording').length,
+      };
+    })
+    .filter((stats) => stats.totalCameras > 0);
+}
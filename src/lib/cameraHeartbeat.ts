@@ -1,14 +1,33 @@
 import { supabase } from '@/integrations/supabase/client';
+import { StreamMetrics } from '@/types';
+
+// Pings run every few seconds; stored metrics only need one sample a minute
+const METRICS_REPORT_INTERVAL_MS = 60000;
+
+function toMetricsPayload(metrics: StreamMetrics) {
+  return {
+    fps: metrics.fps,
+    width: metrics.width,
+    height: metrics.height,
+    bitrate_kbps: metrics.bitrateKbps,
+    latency_ms: metrics.latencyMs,
+    time_to_first_frame_ms: metrics.timeToFirstFrameMs,
+  };
+}
 
 /**
  * Send a heartbeat ping for a camera to mark it as online
  * @param cameraId - The UUID of the camera
+ * @param metrics - Optional player measurements to store with the ping
  * @returns Promise with success status and shouldStop flag if camera was deleted
  */
-export async function sendCameraHeartbeat(cameraId: string): Promise<{ success: boolean; error?: string; shouldStop?: boolean }> {
+export async function sendCameraHeartbeat(
+  cameraId: string,
+  metrics?: StreamMetrics | null
+): Promise<{ success: boolean; error?: string; shouldStop?: boolean }> {
   try {
     const { data, error } = await supabase.functions.invoke('camera-ping', {
-      body: { camera_id: cameraId }
+      body: { camera_id: cameraId, ...(metrics && { metrics: toMetricsPayload(metrics) }) }
     });
 
     if (error) {
@@ -57,16 +76,13 @@ export async function sendCameraHeartbeat(cameraId: string): Promise<{ success:
 }
 
 /**
- * Set camera status to offline directly
+ * Set camera status to offline (allowed for any organisation member)
  * @param cameraId - The UUID of the camera
  * @returns Promise with success status
  */
 export async function setCameraOffline(cameraId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    const { error } = await supabase
-      .from('cameras')
-      .update({ status: 'offline', last_seen: new Date().toISOString() })
-      .eq('id', cameraId);
+    const { error } = await supabase.rpc('mark_camera_offline', { _camera_id: cameraId });
 
     if (error) {
       console.error('Failed to set camera offline:', error);
@@ -112,13 +128,19 @@ export async function triggerHeartbeatCheck(): Promise<{ success: boolean; data?
  * Set up an interval to send heartbeat for a specific camera
  * @param cameraId - The UUID of the camera
  * @param intervalMs - Interval in milliseconds (default: 5000ms = 5 seconds)
+ * @param getMetrics - Latest player measurements, attached to a ping once a minute
  * @returns Function to stop the heartbeat interval
  */
-export function startCameraHeartbeat(cameraId: string, intervalMs: number = 5000): () => void {
+export function startCameraHeartbeat(
+  cameraId: string,
+  intervalMs: number = 5000,
+  getMetrics?: () => StreamMetrics | null
+): () => void {
   console.log(`Starting heartbeat for camera ${cameraId} every ${intervalMs}ms`);
   
   let intervalId: NodeJS.Timeout | null = null;
   let stopped = false;
+  let metricsReportedAt = 0;
   
   const cleanup = () => {
     if (intervalId) {
@@ -132,7 +154,12 @@ export function startCameraHeartbeat(cameraId: string, intervalMs: number = 5000
   // Function to send heartbeat and check if we should stop
   const doHeartbeat = async () => {
     if (stopped) return;
-    const result = await sendCameraHeartbeat(cameraId);
+    const metrics = getMetrics?.();
+    const reportMetrics = !!metrics && Date.now() - metricsReportedAt >= METRICS_REPORT_INTERVAL_MS;
+    const result = await sendCameraHeartbeat(cameraId, reportMetrics ? metrics : null);
+    if (reportMetrics && result.success) {
+      metricsReportedAt = Date.now();
+    }
     if (result.shouldStop) {
       cleanup();
     }
@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// hls-proxy tokens last 5 minutes; ask for a new one well before that
+export const STREAM_TOKEN_REFRESH_MS = 2 * 60 * 1000;
+
+export type StreamGrant = {
+  token: string;
+  expiresAt: string;
+  // Playlist URL with the token already in it
+  url: string;
+};
+
+/**
+ * Short-lived, camera-scoped token for playing an HLS or RTSP camera through hls-proxy
+ */
+export async function getStreamGrant(cameraId: string): Promise<StreamGrant> {
+  const { data, error } = await supabase.functions.invoke('hls-proxy', {
+    body: { camera_id: cameraId },
+  });
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Unknown error');
+  }
+  return { token: data.token, expiresAt: data.expires_at, url: data.url };
+}
+
+/**
+ * Swap the token in a playlist or segment URL the proxy handed out for a fresher one
+ */
+export function withStreamToken(url: string, token: string): string {
+  const parsed = new URL(url);
+  if (!parsed.searchParams.has('token')) return url;
+  parsed.searchParams.set('token', token);
+  return parsed.toString();
+}
@@ -1,4 +1,11 @@
 import { supabase } from "@/integrations/supabase/client";
+import { drawPrivacyMasks } from "@/lib/privacyMasks";
+import { PrivacyMask } from "@/types";
+
+export type FrameCaptureOptions = {
+  // Painted over every frame before it reaches MediaRecorder or motion detection
+  privacyMasks?: PrivacyMask[];
+};
 
 /**
  * Creates a MediaRecorder from a canvas element
@@ -73,6 +80,98 @@ export function createCanvasRecorder(
   return { recorder, chunks, waitForStart };
 }
 
+export type PreRollSegment = {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+};
+
+export type PreRollBuffer = {
+  // Stops rotating and hands over the segment covering the pre-roll; it keeps recording as the clip
+  takeClip: () => PreRollSegment | null;
+  // Starts rotating again after a clip was taken
+  resume: () => void;
+  setPrePadding: (seconds: number) => void;
+  stop: () => void;
+};
+
+/**
+ * Stop a pre-roll segment's recorder and release its capture stream
+ */
+export function releasePreRollSegment(segment: PreRollSegment): void {
+  if (segment.recorder.state !== 'inactive') {
+    segment.recorder.stop();
+  }
+  segment.recorder.stream.getTracks().forEach((track) => track.stop());
+}
+
+/**
+ * Keeps a rolling pre-roll for motion clips from a canvas.
+ * Only the start of a WebM recording carries the header and a keyframe, so the
+ * buffer rotates whole recorders instead of dropping chunks: a new segment is
+ * started every `prePaddingSeconds` and the two newest are kept, so one of them
+ * always started at least `prePaddingSeconds` ago.
+ */
+export function createPreRollBuffer(
+  canvas: HTMLCanvasElement,
+  fps: number,
+  prePaddingSeconds: number
+): PreRollBuffer {
+  let prePaddingMs = Math.max(0, prePaddingSeconds) * 1000;
+  let segments: PreRollSegment[] = [];
+  let rotateTimer: number | null = null;
+
+  const startSegment = () => {
+    const { recorder, chunks } = createCanvasRecorder(canvas, fps);
+    recorder.start(1000);
+    segments.push({ recorder, chunks, startedAt: Date.now() });
+    // Oldest first; two segments always cover the pre-roll window
+    while (segments.length > 2) {
+      releasePreRollSegment(segments.shift()!);
+    }
+  };
+
+  const clearRotateTimer = () => {
+    if (rotateTimer !== null) {
+      window.clearInterval(rotateTimer);
+      rotateTimer = null;
+    }
+  };
+
+  const resume = () => {
+    clearRotateTimer();
+    startSegment();
+    rotateTimer = window.setInterval(startSegment, Math.max(1000, prePaddingMs));
+  };
+
+  const takeClip = () => {
+    clearRotateTimer();
+    const now = Date.now();
+    // Youngest segment that still covers the pre-roll, else the oldest one
+    const clip = [...segments].reverse().find((segment) => now - segment.startedAt >= prePaddingMs) ?? segments[0] ?? null;
+    segments.filter((segment) => segment !== clip).forEach(releasePreRollSegment);
+    segments = [];
+    return clip;
+  };
+
+  const stop = () => {
+    clearRotateTimer();
+    segments.forEach(releasePreRollSegment);
+    segments = [];
+  };
+
+  const setPrePadding = (seconds: number) => {
+    const next = Math.max(0, seconds) * 1000;
+    if (next === prePaddingMs) return;
+    prePaddingMs = next;
+    if (rotateTimer !== null) resume();
+  };
+
+  resume();
+
+  return { takeClip, resume, setPrePadding, stop };
+}
+
 /**
  * Download a blob as a file
  */
@@ -123,6 +222,47 @@ export async function uploadToStorage(
   };
 }
 
+/**
+ * Upload a JPEG snapshot to Supabase Storage
+ * Folder structure: record/{camera_id}/snapshots/{filename}
+ */
+export async function uploadSnapshotToStorage(
+  blob: Blob,
+  cameraId: string,
+  filename: string
+): Promise<string> {
+  const filePath = `record/${cameraId}/snapshots/${filename}`;
+
+  const { data, error } = await supabase.storage
+    .from('recordings')
+    .upload(filePath, blob, {
+      contentType: 'image/jpeg',
+      upsert: true,
+    });
+
+  if (error) {
+    console.error('[storage:snapshot:error]', error);
+    throw new Error(`Failed to upload snapshot: ${error.message}`);
+  }
+
+  return data.path;
+}
+
+/**
+ * Capture the current canvas contents as a JPEG blob
+ */
+export function canvasToJpeg(canvas: HTMLCanvasElement, quality: number = 0.8): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    try {
+      canvas.toBlob((blob) => resolve(blob), 'image/jpeg', quality);
+    } catch (err) {
+      // Tainted canvas
+      console.error('[snapshot:error]', err);
+      resolve(null);
+    }
+  });
+}
+
 /**
  * Generate a filename based on camera name and timestamp
  */
@@ -146,7 +286,9 @@ export function startFrameCapture(
   callbacks?: {
     onFirstFrame?: (info: { width: number; height: number }) => void;
     onError?: (err: unknown) => void;
-  }
+    onFrame?: (canvas: HTMLCanvasElement) => void;
+  },
+  options?: FrameCaptureOptions
 ): () => void {
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -176,7 +318,9 @@ export function startFrameCapture(
       if (imgElement.complete && imgElement.naturalWidth > 0) {
         updateCanvasSize();
         ctx.drawImage(imgElement, 0, 0, canvas.width, canvas.height);
+        drawPrivacyMasks(ctx, options?.privacyMasks, canvas.width, canvas.height);
         frameCount++;
+        callbacks?.onFrame?.(canvas);
         if (frameCount === 1) {
           const info = { width: canvas.width, height: canvas.height };
           console.log('[frameCapture:firstFrame]', info);
@@ -220,7 +364,9 @@ export function startVideoFrameCapture(
   callbacks?: {
     onFirstFrame?: (info: { width: number; height: number }) => void;
     onError?: (err: unknown) => void;
-  }
+    onFrame?: (canvas: HTMLCanvasElement) => void;
+  },
+  options?: FrameCaptureOptions
 ): () => void {
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -251,7 +397,9 @@ export function startVideoFrameCapture(
       if (videoElement.readyState >= 2 && videoElement.videoWidth > 0) {
         updateCanvasSize();
         ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+        drawPrivacyMasks(ctx, options?.privacyMasks, canvas.width, canvas.height);
         frameCount++;
+        callbacks?.onFrame?.(canvas);
         if (frameCount === 1) {
           const info = { width: canvas.width, height: canvas.height };
           console.log('[videoFrameCapture:firstFrame]', info);
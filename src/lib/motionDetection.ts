@@ -0,0 +1,220 @@
+import { MotionBoundingBox, MotionDetectionSettings } from '@/types';
+
+export const DEFAULT_MOTION_SETTINGS: MotionDetectionSettings = {
+  enabled: false,
+  sensitivity: 50,
+  minAreaPercent: 1,
+  prePaddingSeconds: 5,
+  postPaddingSeconds: 10,
+};
+
+// Frames are downscaled to this width before diffing (height follows aspect ratio)
+const ANALYSIS_WIDTH = 64;
+// Analyse at most 5 frames per second regardless of capture fps
+const ANALYSIS_INTERVAL_MS = 200;
+// Consecutive motion frames required before emitting a start event
+const START_FRAMES = 2;
+// Quiet time required before emitting an end event
+const END_GRACE_MS = 2000;
+
+export type MotionEvent = {
+  cameraId: string;
+  type: 'start' | 'end';
+  at: number;
+  score: number; // % of frame changed (peak score for end events)
+  boundingBox: MotionBoundingBox | null;
+};
+
+export type MotionFrameResult = {
+  score: number;
+  hasMotion: boolean;
+  boundingBox: MotionBoundingBox | null;
+};
+
+export type MotionDetector = {
+  processFrame: (source: HTMLCanvasElement) => void;
+  updateSettings: (settings: MotionDetectionSettings) => void;
+  reset: () => void;
+};
+
+/**
+ * Merge stored (possibly partial) settings with defaults
+ */
+export function resolveMotionSettings(settings?: Partial<MotionDetectionSettings> | null): MotionDetectionSettings {
+  return { ...DEFAULT_MOTION_SETTINGS, ...(settings ?? {}) };
+}
+
+/**
+ * Map sensitivity (1-100) to the per-pixel luma delta that counts as changed
+ */
+function getPixelThreshold(sensitivity: number): number {
+  const clamped = Math.min(100, Math.max(1, sensitivity));
+  return Math.round(60 - (clamped / 100) * 55);
+}
+
+/**
+ * Compare two grayscale frames and return the changed area and its bounds
+ */
+export function diffFrames(
+  previous: Uint8ClampedArray,
+  current: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: MotionDetectionSettings
+): MotionFrameResult {
+  const threshold = getPixelThreshold(settings.sensitivity);
+  let changed = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (Math.abs(current[i] - previous[i]) > threshold) {
+        changed++;
+        if (x < minX) minX = x;
+        if (y < minY) minY = y;
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  const score = (changed / (width * height)) * 100;
+  const hasMotion = changed > 0 && score >= settings.minAreaPercent;
+  const boundingBox = maxX >= 0
+    ? {
+        x: minX / width,
+        y: minY / height,
+        width: (maxX - minX + 1) / width,
+        height: (maxY - minY + 1) / height,
+      }
+    : null;
+
+  return { score, hasMotion, boundingBox };
+}
+
+/**
+ * Create a motion detector for a single camera.
+ * Feed it the canvas drawn by startFrameCapture/startVideoFrameCapture via onFrame.
+ */
+export function createMotionDetector(
+  cameraId: string,
+  initialSettings: MotionDetectionSettings,
+  callbacks: {
+    onMotionStart?: (event: MotionEvent) => void;
+    onMotionEnd?: (event: MotionEvent) => void;
+    onScore?: (score: number) => void;
+    onError?: (err: unknown) => void;
+  }
+): MotionDetector {
+  const analysisCanvas = document.createElement('canvas');
+  const ctx = analysisCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  let settings = initialSettings;
+  let previous: Uint8ClampedArray | null = null;
+  let lastAnalysisAt = 0;
+  let motionFrames = 0;
+  let inMotion = false;
+  let lastMotionAt = 0;
+  let peakScore = 0;
+  let peakBox: MotionBoundingBox | null = null;
+  let failed = false;
+
+  const reset = () => {
+    previous = null;
+    motionFrames = 0;
+    inMotion = false;
+    peakScore = 0;
+    peakBox = null;
+  };
+
+  const processFrame = (source: HTMLCanvasElement) => {
+    if (failed || !source.width || !source.height) return;
+
+    const now = Date.now();
+    if (now - lastAnalysisAt < ANALYSIS_INTERVAL_MS) return;
+    lastAnalysisAt = now;
+
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round((source.height / source.width) * ANALYSIS_WIDTH));
+    if (analysisCanvas.width !== width || analysisCanvas.height !== height) {
+      analysisCanvas.width = width;
+      analysisCanvas.height = height;
+      previous = null;
+    }
+
+    let gray: Uint8ClampedArray;
+    try {
+      ctx.drawImage(source, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      gray = new Uint8ClampedArray(width * height);
+      for (let i = 0; i < gray.length; i++) {
+        const o = i * 4;
+        gray[i] = (data[o] * 77 + data[o + 1] * 150 + data[o + 2] * 29) >> 8;
+      }
+    } catch (err) {
+      // Tainted canvas (CORS) - pixels cannot be read, so detection is impossible
+      console.error('[motionDetection:error]', { cameraId, err });
+      failed = true;
+      callbacks.onError?.(err);
+      return;
+    }
+
+    if (!previous) {
+      previous = gray;
+      return;
+    }
+
+    const result = diffFrames(previous, gray, width, height, settings);
+    previous = gray;
+    callbacks.onScore?.(result.score);
+
+    if (result.hasMotion) {
+      motionFrames++;
+      lastMotionAt = now;
+      if (result.score > peakScore) {
+        peakScore = result.score;
+        peakBox = result.boundingBox;
+      }
+      if (!inMotion && motionFrames >= START_FRAMES) {
+        inMotion = true;
+        console.log('[motionDetection:start]', { cameraId, score: result.score });
+        callbacks.onMotionStart?.({
+          cameraId,
+          type: 'start',
+          at: now,
+          score: result.score,
+          boundingBox: result.boundingBox,
+        });
+      }
+      return;
+    }
+
+    motionFrames = 0;
+    if (inMotion && now - lastMotionAt >= END_GRACE_MS) {
+      console.log('[motionDetection:end]', { cameraId, peakScore });
+      callbacks.onMotionEnd?.({
+        cameraId,
+        type: 'end',
+        at: lastMotionAt,
+        score: peakScore,
+        boundingBox: peakBox,
+      });
+      inMotion = false;
+      peakScore = 0;
+      peakBox = null;
+    }
+  };
+
+  const updateSettings = (next: MotionDetectionSettings) => {
+    settings = next;
+  };
+
+  return { processFrame, updateSettings, reset };
+}
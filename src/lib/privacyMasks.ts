@@ -0,0 +1,50 @@
+import { PrivacyMask } from '@/types';
+
+/**
+ * Paint privacy masks as solid black polygons onto a canvas context.
+ * Mask points are normalized (0-1) to the frame size.
+ */
+export function drawPrivacyMasks(
+  ctx: CanvasRenderingContext2D,
+  masks: PrivacyMask[] | null | undefined,
+  width: number,
+  height: number
+): void {
+  if (!masks || masks.length === 0) return;
+
+  ctx.save();
+  ctx.fillStyle = '#000';
+  for (const mask of masks) {
+    if (mask.points.length < 3) continue;
+    ctx.beginPath();
+    ctx.moveTo(mask.points[0].x * width, mask.points[0].y * height);
+    for (let i = 1; i < mask.points.length; i++) {
+      ctx.lineTo(mask.points[i].x * width, mask.points[i].y * height);
+    }
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+/**
+ * Intrinsic frame size of a stream element, or null if not known yet
+ */
+export function getElementFrameSize(
+  el: HTMLImageElement | HTMLVideoElement | null
+): { width: number; height: number } | null {
+  if (el instanceof HTMLImageElement && el.naturalWidth > 0 && el.naturalHeight > 0) {
+    return { width: el.naturalWidth, height: el.naturalHeight };
+  }
+  if (el instanceof HTMLVideoElement && el.videoWidth > 0 && el.videoHeight > 0) {
+    return { width: el.videoWidth, height: el.videoHeight };
+  }
+  return null;
+}
+
+/**
+ * SVG polygon `points` attribute for a mask in frame pixel coordinates
+ */
+export function toSvgPoints(points: PrivacyMask['points'], width: number, height: number): string {
+  return points.map((p) => `${p.x * width},${p.y * height}`).join(' ');
+}
@@ -0,0 +1,22 @@
+import { Camera, ProbeConfig } from '@/types';
+
+// Same defaults as the camera-prober function
+export const DEFAULT_PROBE_CONFIG: ProbeConfig = {
+  enabled: false,
+  intervalSeconds: 60,
+  failureThreshold: 3,
+  timeoutSeconds: 10,
+};
+
+export function resolveProbeConfig(config: Partial<ProbeConfig> | null | undefined): ProbeConfig {
+  return { ...DEFAULT_PROBE_CONFIG, ...(config || {}) };
+}
+
+/**
+ * Whether camera-prober owns this camera's online/offline status.
+ * Probing is opt-in: until an admin turns it on, browser and device heartbeats set the status.
+ * YouTube streams cannot be probed and stay on browser heartbeats.
+ */
+export function isProbedServerSide(camera: Pick<Camera, 'probe' | 'streamType'>): boolean {
+  return camera.streamType !== 'youtube' && resolveProbeConfig(camera.probe).enabled;
+}
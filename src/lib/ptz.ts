@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PtzConfig, PtzPreset } from '@/types';
+
+export const DEFAULT_PTZ_CONFIG: PtzConfig = {
+  enabled: false,
+  protocol: 'onvif',
+  endpoint: '',
+  profileToken: '',
+  credentials: 'stream',
+};
+
+export function resolvePtzConfig(config: Partial<PtzConfig> | null | undefined): PtzConfig {
+  return { ...DEFAULT_PTZ_CONFIG, ...(config || {}) };
+}
+
+/** ptz-control only talks to http(s) endpoints on the same host as the camera's stream */
+export function isPtzEndpointOnStreamHost(endpoint: string, streamUrl: string): boolean {
+  try {
+    const target = new URL(endpoint);
+    return (target.protocol === 'http:' || target.protocol === 'https:') &&
+      target.hostname.toLowerCase() === new URL(streamUrl).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+export type PtzCommand =
+  | { action: 'move'; pan: number; tilt: number; zoom: number }
+  | { action: 'stop' }
+  | { action: 'presets' }
+  | { action: 'goto_preset'; preset_token: string }
+  | { action: 'save_preset'; name: string }
+  | { action: 'remove_preset'; preset_token: string };
+
+async function callPtzControl(cameraId: string, command: PtzCommand) {
+  const { data, error } = await supabase.functions.invoke('ptz-control', {
+    body: { camera_id: cameraId, ...command },
+  });
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (data && !data.success) {
+    throw new Error(data.error || 'Unknown error');
+  }
+  return data;
+}
+
+/** Velocities are -1..1; the camera keeps moving until stopPtz (or a 5 s safety timeout) */
+export const movePtz = (cameraId: string, pan: number, tilt: number, zoom: number) =>
+  callPtzControl(cameraId, { action: 'move', pan, tilt, zoom });
+
+export const stopPtz = (cameraId: string) => callPtzControl(cameraId, { action: 'stop' });
+
+export async function getPtzPresets(cameraId: string): Promise<PtzPreset[]> {
+  const data = await callPtzControl(cameraId, { action: 'presets' });
+  return data?.presets ?? [];
+}
+
+export const gotoPtzPreset = (cameraId: string, presetToken: string) =>
+  callPtzControl(cameraId, { action: 'goto_preset', preset_token: presetToken });
+
+export const savePtzPreset = (cameraId: string, name: string) =>
+  callPtzControl(cameraId, { action: 'save_preset', name });
+
+export const removePtzPreset = (cameraId: string, presetToken: string) =>
+  callPtzControl(cameraId, { action: 'remove_preset', preset_token: presetToken });
@@ -0,0 +1,99 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PushEventType } from '@/types';
+
+export const PUSH_EVENT_TYPES: PushEventType[] = ['camera_offline', 'motion_detected', 'recording_failed'];
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+export async function registerPushServiceWorker(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// VAPID public keys are base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64Url: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function fetchVapidPublicKey(): Promise<string> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/push-sender`, {
+    headers: { apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY },
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.publicKey) {
+    throw new Error(data?.error || 'Push notifications are not configured on the server');
+  }
+  return data.publicKey;
+}
+
+async function callPushSender(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('push-sender', { body });
+
+  if (error) {
+    // Non-2xx responses still carry the function's JSON error message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (data && !data.success) {
+    throw new Error(data.error || 'Unknown error');
+  }
+  return data;
+}
+
+/** Ask for permission, subscribe this browser and register it for the given events. */
+export async function subscribeToPush(events: PushEventType[]): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await registerPushServiceWorker();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await fetchVapidPublicKey()),
+    }));
+
+  await callPushSender({
+    action: 'subscribe',
+    subscription: subscription.toJSON(),
+    events,
+    user_agent: navigator.userAgent,
+  });
+
+  return subscription;
+}
+
+export async function unsubscribeFromPush(subscription: PushSubscription) {
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+  await subscription.unsubscribe();
+}
+
+export async function updatePushEvents(subscription: PushSubscription, events: PushEventType[]) {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .update({ events })
+    .eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+}
+
+export async function sendTestPush() {
+  return callPushSender({ action: 'test' });
+}
@@ -0,0 +1,66 @@
+import { Camera, MonitoringRecord, RetentionPolicy } from '@/types';
+
+export type PurgeReason = 'age' | 'quota';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  days: 30,
+  maxTotalGb: null,
+  keepIfBackedUp: false,
+};
+
+export function resolveRetentionPolicy(policy: Partial<RetentionPolicy> | null | undefined): RetentionPolicy {
+  return { ...DEFAULT_RETENTION_POLICY, ...(policy || {}) };
+}
+
+/**
+ * Recordings the retention-purge function will delete on its next run, keyed by id.
+ * Mirrors the selection in supabase/functions/retention-purge.
+ */
+export function getRecordingsDueForDeletion(
+  records: MonitoringRecord[],
+  cameras: Camera[],
+  now: Date = new Date()
+): Map<string, PurgeReason> {
+  const due = new Map<string, PurgeReason>();
+
+  for (const camera of cameras) {
+    const policy = resolveRetentionPolicy(camera.retention);
+    if (!policy.enabled) continue;
+
+    // Oldest first so the quota rule removes the oldest footage. Files still only on a
+    // recorder are skipped, as in retention-purge.
+    const cameraRecords = records
+      .filter((r) => r.cameraId === camera.id && r.recordedAt && (r.source !== 'rpi' || !!r.fileUrl))
+      .sort((a, b) => new Date(a.recordedAt!).getTime() - new Date(b.recordedAt!).getTime());
+
+    const isExempt = (r: MonitoringRecord) => r.isProtected || (policy.keepIfBackedUp && !!r.backedUpAt);
+
+    if (policy.days !== null) {
+      const cutoff = now.getTime() - policy.days * 24 * 60 * 60 * 1000;
+      for (const record of cameraRecords) {
+        if (!isExempt(record) && new Date(record.recordedAt!).getTime() < cutoff) {
+          due.set(record.id, 'age');
+        }
+      }
+    }
+
+    if (policy.maxTotalGb !== null) {
+      const maxBytes = policy.maxTotalGb * BYTES_PER_GB;
+      let total = cameraRecords
+        .filter((r) => !due.has(r.id))
+        .reduce((sum, r) => sum + (r.size || 0), 0);
+
+      for (const record of cameraRecords) {
+        if (total <= maxBytes) break;
+        if (due.has(record.id) || isExempt(record)) continue;
+        due.set(record.id, 'quota');
+        total -= record.size || 0;
+      }
+    }
+  }
+
+  return due;
+}
@@ -0,0 +1,15 @@
+import { OrgRole } from '@/types';
+
+export const ORG_ROLES: OrgRole[] = ['viewer', 'operator', 'admin'];
+
+export const ROLE_LABELS: Record<OrgRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  viewer: 'Live view only.',
+  operator: 'Live view, recording, snapshots and footage review.',
+  admin: 'Everything, including cameras, schedules and users.',
+};
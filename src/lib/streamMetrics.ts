@@ -0,0 +1,162 @@
+import { Camera, StreamMetrics } from '@/types';
+
+// How often the players publish a fresh measurement
+export const METRICS_INTERVAL_MS = 5000;
+// MJPEG frames are counted over this window on every tick
+const IMAGE_SAMPLE_MS = 2000;
+// Frames are downscaled to this size before comparing them
+const SAMPLE_WIDTH = 16;
+const SAMPLE_HEIGHT = 9;
+// Bitrate is averaged over the most recent HLS fragments
+const BITRATE_FRAGMENTS = 5;
+
+// Thresholds for calling a stream degraded
+const MIN_FPS_RATIO = 0.5;
+const MAX_TIME_TO_FIRST_FRAME_MS = 10000;
+const MAX_LATENCY_MS = 15000;
+
+export type StreamHealthStatus = 'healthy' | 'degraded' | 'unknown';
+
+export type StreamHealth = {
+  status: StreamHealthStatus;
+  issues: string[];
+};
+
+export type FragmentSample = {
+  bytes: number;
+  duration: number;
+};
+
+/**
+ * Presented frames per second of a <video> since the previous call (null on the first call)
+ */
+export function createVideoFrameRateMeter(video: HTMLVideoElement): () => number | null {
+  let lastFrames: number | null = null;
+  let lastTime = 0;
+
+  return () => {
+    if (typeof video.getVideoPlaybackQuality !== 'function') return null;
+    const quality = video.getVideoPlaybackQuality();
+    const frames = quality.totalVideoFrames - quality.droppedVideoFrames;
+    const now = performance.now();
+    const previous = lastFrames;
+    const elapsed = (now - lastTime) / 1000;
+    lastFrames = frames;
+    lastTime = now;
+    if (previous === null || elapsed <= 0) return null;
+    return roundFps(Math.max(0, frames - previous) / elapsed);
+  };
+}
+
+/**
+ * Approximate frame rate of an MJPEG <img> by counting how often its pixels change.
+ * Identical consecutive frames are not counted, and cross-origin streams cannot be read (null).
+ */
+export function sampleImageFrameRate(img: HTMLImageElement, durationMs = IMAGE_SAMPLE_MS): Promise<number | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const startedAt = performance.now();
+    let previous: number | null = null;
+    let changes = 0;
+
+    const sample = () => {
+      if (!img.isConnected) {
+        resolve(null);
+        return;
+      }
+
+      try {
+        ctx.drawImage(img, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+        const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+        let checksum = 0;
+        for (let i = 0; i < data.length; i++) {
+          checksum = (checksum * 31 + data[i]) | 0;
+        }
+        if (previous !== null && checksum !== previous) changes++;
+        previous = checksum;
+      } catch {
+        // Tainted canvas: the stream is served without CORS headers
+        resolve(null);
+        return;
+      }
+
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= durationMs) {
+        resolve(roundFps(changes / (elapsed / 1000)));
+      } else {
+        requestAnimationFrame(sample);
+      }
+    };
+
+    requestAnimationFrame(sample);
+  });
+}
+
+/**
+ * Keep only the fragments the bitrate is averaged over
+ */
+export function addFragmentSample(samples: FragmentSample[], sample: FragmentSample): FragmentSample[] {
+  return [...samples, sample].slice(-BITRATE_FRAGMENTS);
+}
+
+/**
+ * Media bitrate from recently loaded HLS fragments (bytes over playback duration)
+ */
+export function getBitrateKbps(samples: FragmentSample[]): number | null {
+  const duration = samples.reduce((sum, s) => sum + s.duration, 0);
+  if (duration <= 0) return null;
+  const bytes = samples.reduce((sum, s) => sum + s.bytes, 0);
+  return Math.round((bytes * 8) / duration / 1000);
+}
+
+function roundFps(fps: number): number {
+  return Math.round(fps * 10) / 10;
+}
+
+function parseResolution(resolution?: string | null): { width: number; height: number } | null {
+  const match = resolution?.match(/^(\d+)\s*x\s*(\d+)$/i);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null;
+}
+
+/**
+ * Compare measured metrics with the camera's configured fps and resolution
+ */
+export function assessStreamHealth(
+  camera: Pick<Camera, 'fps' | 'resolution'>,
+  metrics: StreamMetrics | null
+): StreamHealth {
+  if (!metrics) return { status: 'unknown', issues: [] };
+
+  const issues: string[] = [];
+
+  if (metrics.fps !== null && camera.fps > 0 && metrics.fps < camera.fps * MIN_FPS_RATIO) {
+    issues.push(`Frame rate ${metrics.fps} fps, configured ${camera.fps} fps`);
+  }
+
+  const configured = parseResolution(camera.resolution);
+  if (configured && metrics.width && metrics.height && metrics.width * metrics.height < configured.width * configured.height) {
+    issues.push(`Resolution ${metrics.width}x${metrics.height}, configured ${configured.width}x${configured.height}`);
+  }
+
+  if (metrics.timeToFirstFrameMs !== null && metrics.timeToFirstFrameMs > MAX_TIME_TO_FIRST_FRAME_MS) {
+    issues.push(`First frame took ${(metrics.timeToFirstFrameMs / 1000).toFixed(1)} s`);
+  }
+
+  if (metrics.latencyMs !== null && metrics.latencyMs > MAX_LATENCY_MS) {
+    issues.push(`Live latency ${(metrics.latencyMs / 1000).toFixed(1)} s`);
+  }
+
+  const measuredAnything = metrics.fps !== null || metrics.width !== null || metrics.timeToFirstFrameMs !== null;
+  if (issues.length > 0) return { status: 'degraded', issues };
+  return { status: measuredAnything ? 'healthy' : 'unknown', issues };
+}
+
+export function formatBitrate(kbps: number | null): string {
+  if (kbps === null) return '—';
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${kbps} kbps`;
+}
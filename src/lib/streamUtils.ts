@@ -1,6 +1,6 @@
 // Stream type detection and utilities
 
-export type StreamType = 'mjpeg' | 'hls' | 'youtube';
+export type StreamType = 'mjpeg' | 'hls' | 'youtube' | 'rtsp' | 'webrtc';
 
 /**
  * Detect stream type from URL
@@ -10,6 +10,16 @@ export function detectStreamType(url: string): StreamType {
   
   const lowerUrl = url.toLowerCase();
   
+  // RTSP detection (played through the RTSP gateway as HLS)
+  if (lowerUrl.startsWith('rtsp://') || lowerUrl.startsWith('rtsps://')) {
+    return 'rtsp';
+  }
+  
+  // WebRTC detection (WHEP endpoint, e.g. MediaMTX http://host:8889/cam/whep)
+  if (/\/whep(\/|\?|$)/.test(lowerUrl)) {
+    return 'webrtc';
+  }
+  
   // HLS detection (.m3u8)
   if (lowerUrl.includes('.m3u8')) {
     return 'hls';
@@ -38,6 +48,10 @@ export function getStreamTypeLabel(type: StreamType): string {
       return 'HLS Stream';
     case 'youtube':
       return 'YouTube Live';
+    case 'rtsp':
+      return 'RTSP Camera';
+    case 'webrtc':
+      return 'WebRTC (Low Latency)';
     case 'mjpeg':
     default:
       return 'MJPEG Stream';
@@ -61,8 +75,51 @@ export function getStreamTypeIcon(type: StreamType): string {
       return 'Film';
     case 'youtube':
       return 'Youtube';
+    case 'rtsp':
+      return 'Cctv';
+    case 'webrtc':
+      return 'Zap';
     case 'mjpeg':
     default:
       return 'Camera';
   }
 }
+
+const SUPPORTED_STREAM_PROTOCOLS = ['http:', 'https:', 'rtsp:', 'rtsps:'];
+
+/**
+ * Whether a camera stream URL uses a protocol we can play (directly or via the RTSP gateway)
+ */
+export function isSupportedStreamUrl(streamUrl: string): boolean {
+  try {
+    return SUPPORTED_STREAM_PROTOCOLS.includes(new URL(streamUrl).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export interface StreamUrlCredentials {
+  url: string; // The URL without user info, safe to store on the camera row
+  username: string | null;
+  password: string | null;
+}
+
+/**
+ * Split user:password@ out of a stream URL so credentials are never stored in stream_url
+ */
+export function splitStreamUrlCredentials(streamUrl: string): StreamUrlCredentials {
+  try {
+    const url = new URL(streamUrl);
+    if (!url.username && !url.password) {
+      return { url: streamUrl, username: null, password: null };
+    }
+
+    const username = decodeURIComponent(url.username);
+    const password = url.password ? decodeURIComponent(url.password) : null;
+    url.username = '';
+    url.password = '';
+    return { url: url.toString(), username, password };
+  } catch {
+    return { url: streamUrl, username: null, password: null };
+  }
+}
@@ -1,5 +1,6 @@
-import { Camera, MonitoringRecord } from '@/types';
+import { AlertChannel, AlertDelivery, AlertEventType, AlertRule, AppNotification, AuditEntry, Camera, CameraGroup, CameraMetricsSample, DeviceApiKey, DeviceStatus, DiscoveredCamera, DiscoveredCameraProfile, MonitoringRecord, MotionBoundingBox, MotionEventRecord, NotificationType, RecorderNode, RecordingSchedule, StreamCredentials } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
 
 // Helper to convert snake_case database fields to camelCase TypeScript types
 export const dbCameraToCamera = (dbCamera: any): Camera => ({
@@ -11,6 +12,18 @@ export const dbCameraToCamera = (dbCamera: any): Camera => ({
   status: dbCamera.status,
   lastSeen: dbCamera.last_seen,
   fps: dbCamera.fps,
+  resolution: dbCamera.resolution ?? null,
+  motionDetection: dbCamera.motion_detection ?? null,
+  privacyMasks: Array.isArray(dbCamera.privacy_masks) ? dbCamera.privacy_masks : [],
+  retention: dbCamera.retention ?? null,
+  groupId: dbCamera.group_id ?? null,
+  ptz: dbCamera.ptz ?? null,
+  probe: dbCamera.probe ?? null,
+  lastProbeAt: dbCamera.last_probe_at ?? null,
+  lastProbeError: dbCamera.last_probe_error ?? null,
+  probeFailures: dbCamera.probe_failures ?? 0,
+  recorderNodeId: dbCamera.recorder_node_id ?? null,
+  recorderCameraId: dbCamera.recorder_camera_id ?? null,
 });
 
 export const cameraToDbCamera = (camera: Omit<Camera, 'id' | 'lastSeen'>) => ({
@@ -20,6 +33,37 @@ export const cameraToDbCamera = (camera: Omit<Camera, 'id' | 'lastSeen'>) => ({
   stream_type: camera.streamType || 'mjpeg',
   status: camera.status,
   fps: camera.fps,
+  resolution: camera.resolution,
+  motion_detection: camera.motionDetection as unknown as Json | undefined,
+  privacy_masks: camera.privacyMasks as unknown as Json | undefined,
+  retention: camera.retention as unknown as Json | undefined,
+  group_id: camera.groupId,
+  ptz: camera.ptz as unknown as Json | undefined,
+  probe: camera.probe as unknown as Json | undefined,
+  recorder_node_id: camera.recorderNodeId,
+  recorder_camera_id: camera.recorderCameraId,
+});
+
+export const dbCameraGroupToCameraGroup = (dbGroup: Tables<'camera_groups'>): CameraGroup => ({
+  id: dbGroup.id,
+  name: dbGroup.name,
+  description: dbGroup.description,
+});
+
+export const dbRecorderNodeToRecorderNode = (dbNode: Tables<'recorder_nodes'>): RecorderNode => ({
+  id: dbNode.id,
+  name: dbNode.name,
+  baseUrl: dbNode.base_url,
+  apiKeySecret: dbNode.api_key_secret,
+  enabled: dbNode.enabled,
+  status: dbNode.status as RecorderNode['status'],
+  lastCheckedAt: dbNode.last_checked_at,
+  lastError: dbNode.last_error,
+  lastStatusCode: dbNode.last_status_code,
+  lastOnlineAt: dbNode.last_online_at,
+  recordingCameras: dbNode.recording_cameras ?? [],
+  diskFreeBytes: dbNode.disk_free_bytes,
+  diskTotalBytes: dbNode.disk_total_bytes,
 });
 
 export const dbRecordingToMonitoringRecord = (dbRecord: any, cameraName: string): MonitoringRecord => {
@@ -38,6 +82,10 @@ export const dbRecordingToMonitoringRecord = (dbRecord: any, cameraName: string)
     recordedAt: dbRecord.recorded_at,
     cloudBackupUrl: dbRecord.cloud_backup_url,
     backedUpAt: dbRecord.backed_up_at,
+    isProtected: dbRecord.is_protected ?? false,
+    source: dbRecord.source ?? 'browser',
+    remoteFilename: dbRecord.remote_filename ?? null,
+    importedAt: dbRecord.imported_at ?? null,
   };
 };
 
@@ -51,6 +99,199 @@ export const monitoringRecordToDbRecording = (record: Partial<MonitoringRecord>)
   size: record.size,
 });
 
+export const dbMotionEventToMotionEvent = (dbEvent: Tables<'motion_events'>, cameraName: string): MotionEventRecord => ({
+  id: dbEvent.id,
+  cameraId: dbEvent.camera_id,
+  cameraName,
+  recordingId: dbEvent.recording_id,
+  source: dbEvent.source === 'rpi' ? 'rpi' : 'browser',
+  startedAt: dbEvent.started_at,
+  endedAt: dbEvent.ended_at,
+  peakScore: dbEvent.peak_score,
+  boundingBox: dbEvent.bounding_box as unknown as MotionBoundingBox | null,
+  snapshotPath: dbEvent.snapshot_path,
+});
+
+export const dbScheduleToSchedule = (dbSchedule: Tables<'recording_schedules'>): RecordingSchedule => ({
+  id: dbSchedule.id,
+  cameraId: dbSchedule.camera_id,
+  name: dbSchedule.name,
+  weekdays: dbSchedule.weekdays,
+  // Postgres TIME columns come back as HH:MM:SS
+  startTime: dbSchedule.start_time.slice(0, 5),
+  endTime: dbSchedule.end_time.slice(0, 5),
+  timezone: dbSchedule.timezone,
+  mode: dbSchedule.mode === 'motion' ? 'motion' : 'continuous',
+  enabled: dbSchedule.enabled,
+  activeSince: dbSchedule.active_since,
+  lastError: dbSchedule.last_error,
+});
+
+export const scheduleToDbSchedule = (schedule: Omit<RecordingSchedule, 'id' | 'activeSince' | 'lastError'>) => ({
+  camera_id: schedule.cameraId,
+  name: schedule.name,
+  weekdays: schedule.weekdays,
+  start_time: schedule.startTime,
+  end_time: schedule.endTime,
+  timezone: schedule.timezone,
+  mode: schedule.mode,
+  enabled: schedule.enabled,
+});
+
+export const dbAuditLogToAuditEntry = (dbEntry: Tables<'audit_log'>): AuditEntry => ({
+  id: dbEntry.id,
+  actorId: dbEntry.actor_id,
+  actorEmail: dbEntry.actor_email,
+  action: dbEntry.action,
+  cameraId: dbEntry.camera_id,
+  targetType: dbEntry.target_type as AuditEntry['targetType'],
+  targetId: dbEntry.target_id,
+  diff: dbEntry.diff as Record<string, unknown> | null,
+  createdAt: dbEntry.created_at,
+});
+
+export const dbAlertRuleToAlertRule = (dbRule: Tables<'alert_rules'>): AlertRule => ({
+  id: dbRule.id,
+  name: dbRule.name,
+  eventType: dbRule.event_type as AlertEventType,
+  cameraIds: dbRule.camera_ids,
+  channel: dbRule.channel as AlertChannel,
+  target: dbRule.target,
+  // Postgres TIME columns come back as HH:MM:SS
+  quietStart: dbRule.quiet_start?.slice(0, 5) ?? null,
+  quietEnd: dbRule.quiet_end?.slice(0, 5) ?? null,
+  timezone: dbRule.timezone,
+  throttleMinutes: dbRule.throttle_minutes,
+  enabled: dbRule.enabled,
+});
+
+export const alertRuleToDbAlertRule = (rule: Omit<AlertRule, 'id'>) => ({
+  name: rule.name,
+  event_type: rule.eventType,
+  camera_ids: rule.cameraIds,
+  channel: rule.channel,
+  target: rule.target,
+  quiet_start: rule.quietStart,
+  quiet_end: rule.quietEnd,
+  timezone: rule.timezone,
+  throttle_minutes: rule.throttleMinutes,
+  enabled: rule.enabled,
+});
+
+export const dbAlertDeliveryToAlertDelivery = (dbDelivery: Tables<'alert_deliveries'>): AlertDelivery => ({
+  id: dbDelivery.id,
+  ruleId: dbDelivery.rule_id,
+  cameraId: dbDelivery.camera_id,
+  eventType: dbDelivery.event_type as AlertEventType,
+  channel: dbDelivery.channel as AlertChannel,
+  status: dbDelivery.status as AlertDelivery['status'],
+  error: dbDelivery.error,
+  test: (dbDelivery.payload as { test?: boolean } | null)?.test === true,
+  createdAt: dbDelivery.created_at,
+});
+
+export const dbNotificationToAppNotification = (dbNotification: Tables<'notifications'>): AppNotification => ({
+  id: dbNotification.id,
+  type: dbNotification.type as NotificationType,
+  title: dbNotification.title,
+  description: dbNotification.body,
+  cameraId: dbNotification.camera_id,
+  createdAt: dbNotification.created_at,
+  readAt: dbNotification.read_at,
+  resolvedAt: dbNotification.resolved_at,
+  acknowledgedAt: dbNotification.acknowledged_at,
+  acknowledgedByEmail: dbNotification.acknowledged_by_email,
+  ackComment: dbNotification.ack_comment,
+});
+
+interface DbDiscoveredCameraProfile {
+  token: string;
+  name?: string | null;
+  encoding?: string | null;
+  stream_uri?: string | null;
+  width?: number | null;
+  height?: number | null;
+  fps?: number | null;
+}
+
+export const dbDiscoveredCameraToDiscoveredCamera = (dbCamera: Tables<'discovered_cameras'>): DiscoveredCamera => ({
+  id: dbCamera.id,
+  address: dbCamera.address,
+  manufacturer: dbCamera.manufacturer,
+  model: dbCamera.model,
+  name: dbCamera.name,
+  location: dbCamera.location,
+  streamUri: dbCamera.stream_uri,
+  resolution: dbCamera.resolution,
+  fps: dbCamera.fps,
+  profiles: (Array.isArray(dbCamera.profiles) ? (dbCamera.profiles as unknown as DbDiscoveredCameraProfile[]) : []).map(
+    (profile): DiscoveredCameraProfile => ({
+      token: profile.token,
+      name: profile.name ?? null,
+      encoding: profile.encoding ?? null,
+      streamUri: profile.stream_uri ?? null,
+      width: profile.width ?? null,
+      height: profile.height ?? null,
+      fps: profile.fps ?? null,
+    })
+  ),
+  error: dbCamera.error,
+  agent: dbCamera.agent,
+  lastSeenAt: dbCamera.last_seen_at,
+});
+
+export const dbCameraMetricsToSample = (row: Tables<'camera_metrics'>): CameraMetricsSample => ({
+  id: row.id,
+  cameraId: row.camera_id,
+  fps: row.fps,
+  width: row.width,
+  height: row.height,
+  bitrateKbps: row.bitrate_kbps,
+  latencyMs: row.latency_ms,
+  timeToFirstFrameMs: row.time_to_first_frame_ms,
+  recordedAt: row.recorded_at,
+});
+
+export const dbDeviceStatusToDeviceStatus = (row: Tables<'device_status'>): DeviceStatus => ({
+  hostname: row.hostname,
+  diskTotalBytes: row.disk_total_bytes,
+  diskFreeBytes: row.disk_free_bytes,
+  temperatureC: row.temperature_c,
+  uptimeSeconds: row.uptime_seconds,
+  reportedAt: row.reported_at,
+});
+
+export const dbDeviceApiKeyToDeviceApiKey = (
+  row: Tables<'device_api_keys'> & { device_status: Tables<'device_status'> | null }
+): DeviceApiKey => ({
+  id: row.id,
+  name: row.name,
+  cameraId: row.camera_id,
+  keyPrefix: row.key_prefix,
+  createdAt: row.created_at,
+  rotatedAt: row.rotated_at,
+  lastUsedAt: row.last_used_at,
+  revokedAt: row.revoked_at,
+  status: row.device_status ? dbDeviceStatusToDeviceStatus(row.device_status) : null,
+});
+
+// Credentials go to camera_stream_credentials via RPC; null clears them
+export const saveStreamCredentials = async (cameraId: string, credentials: StreamCredentials | null) => {
+  const { error } = await supabase.rpc('set_camera_stream_credentials', {
+    _camera_id: cameraId,
+    _username: credentials?.username ?? null,
+    _password: credentials?.password ?? null,
+  });
+  if (error) throw error;
+};
+
+// Only reports whether a login is stored; the credentials themselves are never readable
+export const hasStreamCredentials = async (cameraId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('camera_has_stream_credentials', { _camera_id: cameraId });
+  if (error) throw error;
+  return !!data;
+};
+
 // Generate a signed URL for accessing recordings (1 hour expiry)
 export const getSignedRecordingUrl = async (storagePath: string): Promise<string | null> => {
   if (!storagePath) return null;
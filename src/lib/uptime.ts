@@ -0,0 +1,133 @@
+import { Camera, CameraStatusChange } from '@/types';
+
+export interface StatusSegment {
+  status: Camera['status'] | null; // null before the first known status
+  start: number;
+  end: number;
+}
+
+export interface Outage {
+  start: number;
+  end: number;
+  durationMs: number;
+  ongoing: boolean;
+}
+
+export interface UptimeSummary {
+  uptimePercent: number | null; // null when the status was never known in the range
+  upMs: number;
+  downMs: number;
+  outages: Outage[];
+}
+
+export interface UptimeBucket {
+  start: number;
+  uptimePercent: number | null;
+}
+
+// Recording cameras are streaming, so they count as up
+const isUp = (status: StatusSegment['status']) => status === 'online' || status === 'recording';
+
+/**
+ * Splits [from, to] into status segments for one camera.
+ * `initial` is the last change at or before `from`; `changes` are the changes inside the range.
+ */
+export function getStatusSegments(
+  initial: CameraStatusChange | undefined,
+  changes: CameraStatusChange[],
+  from: number,
+  to: number
+): StatusSegment[] {
+  const segments: StatusSegment[] = [];
+  let status: StatusSegment['status'] = initial?.status ?? null;
+  let cursor = from;
+
+  const sorted = [...changes].sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+  for (const change of sorted) {
+    const at = Math.min(Math.max(new Date(change.changedAt).getTime(), from), to);
+    if (at > cursor) {
+      segments.push({ status, start: cursor, end: at });
+      cursor = at;
+    }
+    status = change.status;
+  }
+
+  if (to > cursor) {
+    segments.push({ status, start: cursor, end: to });
+  }
+
+  return segments;
+}
+
+export function summarizeUptime(segments: StatusSegment[], now: number = Date.now()): UptimeSummary {
+  let upMs = 0;
+  let downMs = 0;
+  const outages: Outage[] = [];
+
+  for (const segment of segments) {
+    if (segment.status === null) continue;
+    const duration = segment.end - segment.start;
+
+    if (isUp(segment.status)) {
+      upMs += duration;
+      continue;
+    }
+
+    downMs += duration;
+    const previous = outages[outages.length - 1];
+    if (previous && previous.end === segment.start) {
+      previous.end = segment.end;
+      previous.durationMs += duration;
+    } else {
+      outages.push({ start: segment.start, end: segment.end, durationMs: duration, ongoing: false });
+    }
+  }
+
+  const last = outages[outages.length - 1];
+  const lastSegment = segments[segments.length - 1];
+  if (last && lastSegment && last.end === lastSegment.end && lastSegment.end >= now) {
+    last.ongoing = true;
+  }
+
+  const knownMs = upMs + downMs;
+  return {
+    uptimePercent: knownMs > 0 ? (upMs / knownMs) * 100 : null,
+    upMs,
+    downMs,
+    outages,
+  };
+}
+
+/** Uptime per fixed-size bucket, for the timeline chart */
+export function getUptimeBuckets(segments: StatusSegment[], from: number, to: number, bucketMs: number): UptimeBucket[] {
+  const buckets: UptimeBucket[] = [];
+
+  for (let start = from; start < to; start += bucketMs) {
+    const end = Math.min(start + bucketMs, to);
+    let upMs = 0;
+    let knownMs = 0;
+
+    for (const segment of segments) {
+      if (segment.status === null) continue;
+      const overlap = Math.min(segment.end, end) - Math.max(segment.start, start);
+      if (overlap <= 0) continue;
+      knownMs += overlap;
+      if (isUp(segment.status)) upMs += overlap;
+    }
+
+    buckets.push({ start, uptimePercent: knownMs > 0 ? (upMs / knownMs) * 100 : null });
+  }
+
+  return buckets;
+}
+
+export function formatDurationMs(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  return [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`].filter(Boolean).join(' ');
+}
@@ -0,0 +1,82 @@
+// WHEP (WebRTC-HTTP Egress Protocol) client for low-latency live view.
+// Works with WHEP servers such as MediaMTX (http://host:8889/<path>/whep).
+
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+
+export interface WhepSession {
+  peerConnection: RTCPeerConnection;
+  stream: MediaStream;
+  /** Closes the peer connection and releases the session on the server */
+  close: () => Promise<void>;
+}
+
+// WHEP sends a single offer, so wait for candidates to be gathered (or give up after a moment)
+function waitForIceGathering(peerConnection: RTCPeerConnection): Promise<void> {
+  if (peerConnection.iceGatheringState === 'complete') return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    function done() {
+      clearTimeout(timeout);
+      peerConnection.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    }
+    function onChange() {
+      if (peerConnection.iceGatheringState === 'complete') done();
+    }
+    peerConnection.addEventListener('icegatheringstatechange', onChange);
+  });
+}
+
+/**
+ * Start a receive-only WHEP session. The returned stream gets its tracks once media arrives.
+ */
+export async function startWhepSession(endpoint: string, signal?: AbortSignal): Promise<WhepSession> {
+  const peerConnection = new RTCPeerConnection({
+    iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+  });
+  const stream = new MediaStream();
+  let resourceUrl: string | null = null;
+
+  peerConnection.addTransceiver('video', { direction: 'recvonly' });
+  peerConnection.addTransceiver('audio', { direction: 'recvonly' });
+  peerConnection.addEventListener('track', (event) => {
+    stream.addTrack(event.track);
+  });
+
+  const close = async () => {
+    peerConnection.close();
+    stream.getTracks().forEach((track) => track.stop());
+    if (resourceUrl) {
+      // Best effort: servers also expire sessions on their own
+      await fetch(resourceUrl, { method: 'DELETE' }).catch(() => undefined);
+      resourceUrl = null;
+    }
+  };
+
+  try {
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+    await waitForIceGathering(peerConnection);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sdp' },
+      body: peerConnection.localDescription?.sdp,
+      signal,
+    });
+
+    if (response.status !== 201 && response.status !== 200) {
+      throw new Error(`WHEP server answered ${response.status}`);
+    }
+
+    const location = response.headers.get('Location');
+    if (location) resourceUrl = new URL(location, endpoint).toString();
+
+    await peerConnection.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+    return { peerConnection, stream, close };
+  } catch (error) {
+    await close();
+    throw error;
+  }
+}
@@ -3,17 +3,20 @@ import App from "./App.tsx";
 import "./index.css";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { AuthProvider } from "./contexts/AuthContext";
+import { OrganizationProvider } from "./contexts/OrganizationContext";
 import { RecordingProvider } from "./contexts/RecordingContext";
 import { AppSettingsProvider } from "./contexts/AppSettingsContext";
 
 createRoot(document.getElementById("root")!).render(
   <ThemeProvider>
     <AuthProvider>
-      <AppSettingsProvider>
-        <RecordingProvider>
-          <App />
-        </RecordingProvider>
-      </AppSettingsProvider>
+      <OrganizationProvider>
+        <AppSettingsProvider>
+          <RecordingProvider>
+            <App />
+          </RecordingProvider>
+        </AppSettingsProvider>
+      </OrganizationProvider>
     </AuthProvider>
   </ThemeProvider>
 );
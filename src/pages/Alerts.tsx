@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Plus, Trash2, Settings, Send, BellRing } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertRuleForm } from '@/components/forms/AlertRuleForm';
+import { AlertDelivery, AlertRule } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { alertRuleToDbAlertRule } from '@/lib/supabaseHelpers';
+import { ALERT_CHANNEL_LABELS, ALERT_EVENT_LABELS, DELIVERY_STATUS_LABELS } from '@/lib/alerts';
+import { toast } from '@/hooks/use-toast';
+import { useCameraRealtime } from '@/hooks/useCameraRealtime';
+import { useAlertRules } from '@/hooks/useAlertRules';
+import { useAlertDeliveries } from '@/hooks/useAlertDeliveries';
+import { useRole } from '@/hooks/useRole';
+
+const DELIVERY_STATUS_VARIANTS: Record<AlertDelivery['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'default',
+  failed: 'destructive',
+  throttled: 'secondary',
+  suppressed: 'outline',
+};
+
+export const Alerts = () => {
+  const { cameras } = useCameraRealtime();
+  const { rules, loading } = useAlertRules();
+  const { deliveries, loading: deliveriesLoading } = useAlertDeliveries();
+  const { canManage, loading: roleLoading } = useRole();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<AlertRule | null>(null);
+  const [testingRuleId, setTestingRuleId] = useState<string | null>(null);
+
+  if (!roleLoading && !canManage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const getCameraName = (cameraId: string | null) =>
+    cameras.find((camera) => camera.id === cameraId)?.name || 'Unknown Camera';
+  const getRuleName = (ruleId: string | null) =>
+    rules.find((rule) => rule.id === ruleId)?.name || 'Deleted rule';
+
+  const describeCameras = (rule: AlertRule) => {
+    if (rule.cameraIds.length === 0) return 'All cameras';
+    if (rule.cameraIds.length === 1) return getCameraName(rule.cameraIds[0]);
+    return `${rule.cameraIds.length} cameras`;
+  };
+
+  const handleError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const openAddModal = () => {
+    setSelectedRule(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditModal = (rule: AlertRule) => {
+    setSelectedRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const handleSaveRule = async (data: Omit<AlertRule, 'id'>) => {
+    try {
+      const dbRule = alertRuleToDbAlertRule(data);
+      const { error } = selectedRule
+        ? await supabase.from('alert_rules').update(dbRule).eq('id', selectedRule.id)
+        : await supabase.from('alert_rules').insert([dbRule]);
+
+      if (error) throw error;
+
+      toast({ title: selectedRule ? 'Alert rule updated' : 'Alert rule added' });
+    } catch (error) {
+      handleError('Error saving alert rule', error);
+      throw error;
+    }
+  };
+
+  const handleToggleEnabled = async (rule: AlertRule, enabled: boolean) => {
+    const { error } = await supabase.from('alert_rules').update({ enabled }).eq('id', rule.id);
+    if (error) handleError('Error updating alert rule', error);
+  };
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete alert rule "${rule.name}"?`)) return;
+
+    const { error } = await supabase.from('alert_rules').delete().eq('id', rule.id);
+    if (error) {
+      handleError('Error deleting alert rule', error);
+      return;
+    }
+    toast({ title: 'Alert rule deleted' });
+  };
+
+  const handleSendTest = async (rule: AlertRule) => {
+    setTestingRuleId(rule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('alert-dispatcher', {
+        body: { action: 'test', rule_id: rule.id },
+      });
+
+      if (error) {
+        // Non-2xx responses still carry the function's JSON error message
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || 'Unknown error');
+      }
+
+      toast({ title: 'Test alert sent', description: `Delivered via ${ALERT_CHANNEL_LABELS[rule.channel]}.` });
+    } catch (error) {
+      handleError('Test alert failed', error);
+    } finally {
+      setTestingRuleId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Alerts</h1>
+          <p className="text-muted-foreground">Notify people outside the dashboard when cameras go offline or start recording</p>
+        </div>
+        <Button className="bg-primary hover:bg-primary-dark text-primary-foreground" onClick={openAddModal}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules ({rules.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading alert rules...</p>
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="py-12 text-center">
+              <BellRing className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No alert rules yet. Click "Add Rule" to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Cameras</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Quiet hours</TableHead>
+                  <TableHead>Throttle</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{ALERT_EVENT_LABELS[rule.eventType]}</TableCell>
+                    <TableCell className="text-sm">{describeCameras(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{ALERT_CHANNEL_LABELS[rule.channel]}</Badge>
+                      <div className="text-xs text-muted-foreground truncate max-w-[200px]">{rule.target}</div>
+                    </TableCell>
+                    <TableCell>
+                      {rule.quietStart && rule.quietEnd ? (
+                        <>
+                          <div className="text-sm">
+                            {rule.quietStart} – {rule.quietEnd}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{rule.timezone}</div>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.throttleMinutes > 0 ? `${rule.throttleMinutes} min` : 'Off'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(checked) => handleToggleEnabled(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSendTest(rule)}
+                          disabled={testingRuleId === rule.id}
+                          title="Send test alert"
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openEditModal(rule)}>
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleDeleteRule(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>The last 100 alerts, including throttled and quiet-hours skips</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {deliveriesLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading deliveries...</p>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <div className="py-12 text-center">
+              <p className="text-muted-foreground">No alerts have been dispatched yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Camera</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {getRuleName(delivery.ruleId)}
+                      {delivery.test && <Badge variant="secondary" className="ml-2">Test</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">{ALERT_EVENT_LABELS[delivery.eventType]}</TableCell>
+                    <TableCell className="text-sm">{delivery.cameraId ? getCameraName(delivery.cameraId) : '—'}</TableCell>
+                    <TableCell className="text-sm">{ALERT_CHANNEL_LABELS[delivery.channel]}</TableCell>
+                    <TableCell>
+                      <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]}>
+                        {DELIVERY_STATUS_LABELS[delivery.status]}
+                      </Badge>
+                      {delivery.error && (
+                        <div className="text-xs text-destructive truncate max-w-[240px]" title={delivery.error}>
+                          {delivery.error}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertRuleForm
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        cameras={cameras}
+        rule={selectedRule}
+        onSubmit={handleSaveRule}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Download, ScrollText } from 'lucide-react';
+import { endOfDay, format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DateRangeFilter, DateRangeValue } from '@/components/DateRangeFilter';
+import { toast } from '@/hooks/use-toast';
+import { useRole } from '@/hooks/useRole';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useCameraRealtime } from '@/hooks/useCameraRealtime';
+import { useOrganizationUsers } from '@/hooks/useOrganizationUsers';
+import {
+  AUDIT_ACTION_LABELS,
+  auditEntriesToCsv,
+  getAuditActionLabel,
+  getAuditActorLabel,
+  summarizeAuditDiff,
+} from '@/lib/audit';
+
+const ALL = 'all';
+
+export const Audit = () => {
+  const { canManage, loading: roleLoading } = useRole();
+  const { cameras } = useCameraRealtime();
+  const { users } = useOrganizationUsers(canManage);
+  const [actorFilter, setActorFilter] = useState<string>(ALL);
+  const [cameraFilter, setCameraFilter] = useState<string>(ALL);
+  const [actionFilter, setActionFilter] = useState<string>(ALL);
+  const [dateRange, setDateRange] = useState<DateRangeValue>({ from: undefined, to: undefined });
+
+  const { entries, loading, limit } = useAuditLog({
+    actorId: actorFilter === ALL ? undefined : actorFilter,
+    cameraId: cameraFilter === ALL ? undefined : cameraFilter,
+    action: actionFilter === ALL ? undefined : actionFilter,
+    from: dateRange.from,
+    // The picker returns midnight; include the whole last day
+    to: dateRange.to ? endOfDay(dateRange.to) : undefined,
+  });
+
+  if (!roleLoading && !canManage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const getCameraName = (cameraId: string | null) => {
+    if (!cameraId) return '';
+    return cameras.find((camera) => camera.id === cameraId)?.name ?? 'Deleted camera';
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([auditEntriesToCsv(entries, getCameraName)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Audit Log Exported',
+      description: `${entries.length} entries downloaded as CSV.`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground">Who started recordings, deleted footage or changed cameras</p>
+        </div>
+        <Button variant="outline" onClick={handleExportCsv} disabled={entries.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row flex-wrap gap-4">
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger className="w-full sm:w-[220px]">
+                <SelectValue placeholder="User" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {users.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={cameraFilter} onValueChange={setCameraFilter}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Camera" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All cameras</SelectItem>
+                {cameras.map((camera) => (
+                  <SelectItem key={camera.id} value={camera.id}>
+                    {camera.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-full sm:w-[220px]">
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DateRangeFilter value={dateRange} onChange={setDateRange} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Entries ({entries.length}
+            {entries.length === limit ? '+' : ''})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading audit log...</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="py-12 text-center">
+              <ScrollText className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">No audit entries match these filters.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Camera</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const details = summarizeAuditDiff(entry);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.createdAt), 'yyyy-MM-dd HH:mm:ss')}
+                      </TableCell>
+                      <TableCell className="text-sm">{getAuditActorLabel(entry)}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action.endsWith('.delete') ? 'destructive' : 'outline'}>
+                          {getAuditActionLabel(entry.action)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{getCameraName(entry.cameraId)}</TableCell>
+                      <TableCell className="max-w-[400px] truncate text-xs text-muted-foreground" title={details}>
+                        {details}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,32 +1,65 @@
-import { useState } from 'react';
-import { Plus, Trash2, Settings } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Plus, Trash2, Settings, FolderTree, HardDrive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { AddCameraForm } from '@/components/forms/AddCameraForm';
+import { AddCameraForm, CameraPrefill } from '@/components/forms/AddCameraForm';
 import { EditCameraForm } from '@/components/forms/EditCameraForm';
-import { Camera } from '@/types';
+import { Camera, DiscoveredCamera, StreamCredentials } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
-import { cameraToDbCamera } from '@/lib/supabaseHelpers';
+import { cameraToDbCamera, saveStreamCredentials } from '@/lib/supabaseHelpers';
 import { toast } from '@/hooks/use-toast';
 import { useCameraRealtime } from '@/hooks/useCameraRealtime';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCameraGroups } from '@/hooks/useCameraGroups';
+import { useRole } from '@/hooks/useRole';
+import { GroupFilterSelect } from '@/components/GroupFilterSelect';
+import { ManageGroupsDialog } from '@/components/modals/ManageGroupsDialog';
+import { ManageRecorderNodesDialog } from '@/components/modals/ManageRecorderNodesDialog';
+import { DiscoveredCamerasPanel } from '@/components/DiscoveredCamerasPanel';
+import { useDiscoveredCameras } from '@/hooks/useDiscoveredCameras';
+import { DeviceApiKeysPanel } from '@/components/DeviceApiKeysPanel';
+import { ALL_GROUPS, matchesGroupFilter } from '@/lib/cameraGroups';
 
 export const CameraManagement = () => {
   const { cameras, loading } = useCameraRealtime();
   const { user } = useAuth();
+  const { groups } = useCameraGroups();
+  const { canManage } = useRole();
   const [searchTerm, setSearchTerm] = useState('');
+  const [groupFilter, setGroupFilter] = useState<string>(ALL_GROUPS);
+  const [isManageGroupsOpen, setIsManageGroupsOpen] = useState(false);
+  const [isRecorderNodesOpen, setIsRecorderNodesOpen] = useState(false);
   const [isAddCameraOpen, setIsAddCameraOpen] = useState(false);
   const [isEditCameraOpen, setIsEditCameraOpen] = useState(false);
   const [selectedCamera, setSelectedCamera] = useState<Camera | null>(null);
+  const { discovered, dismiss, markAdded } = useDiscoveredCameras();
+  // Discovered camera the add form was opened for, if any
+  const [provisioning, setProvisioning] = useState<DiscoveredCamera | null>(null);
+
+  const prefill = useMemo<CameraPrefill | null>(
+    () =>
+      provisioning && {
+        name: provisioning.name || [provisioning.manufacturer, provisioning.model].filter(Boolean).join(' ') || provisioning.address,
+        location: provisioning.location || '',
+        streamUrl: provisioning.streamUri || '',
+        fps: provisioning.fps,
+        resolution: provisioning.resolution,
+      },
+    [provisioning]
+  );
 
   const filteredCameras = cameras.filter(camera =>
-    camera.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    camera.location.toLowerCase().includes(searchTerm.toLowerCase())
+    (camera.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      camera.location.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    matchesGroupFilter(camera.groupId, groupFilter)
   );
 
+  const getGroupName = (groupId: string | null | undefined) =>
+    groups.find(group => group.id === groupId)?.name;
+
   const getStatusBadge = (status: string) => {
     const variants = {
       online: 'bg-status-online text-white',
@@ -36,7 +69,10 @@ export const CameraManagement = () => {
     return variants[status as keyof typeof variants] || 'bg-muted';
   };
 
-  const handleAddCamera = async (newCameraData: Omit<Camera, "id" | "lastSeen">) => {
+  const handleAddCamera = async (
+    newCameraData: Omit<Camera, "id" | "lastSeen">,
+    credentials?: StreamCredentials
+  ) => {
     try {
       if (!user) throw new Error('You must be logged in to add a camera');
       
@@ -44,12 +80,22 @@ export const CameraManagement = () => {
         ...cameraToDbCamera(newCameraData),
         user_id: user.id,
       };
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('cameras')
-        .insert([dbCamera]);
+        .insert([dbCamera])
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      if (credentials) {
+        await saveStreamCredentials(data.id, credentials);
+      }
+
+      if (provisioning) {
+        await markAdded(provisioning.id, data.id);
+      }
+
       toast({
         title: 'Camera added',
         description: 'Camera will appear automatically via real-time updates.',
@@ -64,7 +110,11 @@ export const CameraManagement = () => {
     }
   };
 
-  const handleEditCamera = async (cameraId: string, updatedData: Omit<Camera, "id" | "lastSeen">) => {
+  const handleEditCamera = async (
+    cameraId: string,
+    updatedData: Omit<Camera, "id" | "lastSeen">,
+    credentials?: StreamCredentials | null
+  ) => {
     try {
       const dbCamera = cameraToDbCamera(updatedData);
       const { error } = await supabase
@@ -74,6 +124,10 @@ export const CameraManagement = () => {
 
       if (error) throw error;
 
+      if (credentials !== undefined) {
+        await saveStreamCredentials(cameraId, credentials);
+      }
+
       toast({
         title: 'Camera updated',
         description: 'Changes will reflect automatically via real-time updates.',
@@ -110,6 +164,23 @@ export const CameraManagement = () => {
     }
   };
 
+  const openAddModal = (discoveredCamera: DiscoveredCamera | null) => {
+    setProvisioning(discoveredCamera);
+    setIsAddCameraOpen(true);
+  };
+
+  const handleDismissDiscovered = async (discoveredCamera: DiscoveredCamera) => {
+    try {
+      await dismiss(discoveredCamera.id);
+    } catch (error) {
+      toast({
+        title: 'Error dismissing camera',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const openEditModal = (camera: Camera) => {
     setSelectedCamera(camera);
     setIsEditCameraOpen(true);
@@ -123,27 +194,50 @@ export const CameraManagement = () => {
           <h1 className="text-3xl font-bold text-foreground">Camera Management</h1>
           <p className="text-muted-foreground">Manage CCTV cameras, configurations, and monitoring settings</p>
         </div>
-        <Button 
-          className="bg-primary hover:bg-primary-dark text-primary-foreground"
-          onClick={() => setIsAddCameraOpen(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add New Camera
-        </Button>
+        {canManage && (
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsManageGroupsOpen(true)}>
+            <FolderTree className="h-4 w-4 mr-2" />
+            Manage Groups
+          </Button>
+          <Button variant="outline" onClick={() => setIsRecorderNodesOpen(true)}>
+            <HardDrive className="h-4 w-4 mr-2" />
+            Recorder Nodes
+          </Button>
+          <Button 
+            className="bg-primary hover:bg-primary-dark text-primary-foreground"
+            onClick={() => openAddModal(null)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add New Camera
+          </Button>
+        </div>
+        )}
       </div>
 
+      {canManage && discovered.length > 0 && (
+        <DiscoveredCamerasPanel
+          discovered={discovered}
+          onAdd={openAddModal}
+          onDismiss={handleDismissDiscovered}
+        />
+      )}
+
       {/* Search and Filters */}
       <Card>
         <CardHeader>
           <CardTitle>Search & Filter</CardTitle>
         </CardHeader>
         <CardContent>
-          <Input
-            placeholder="Search by camera name or location..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="max-w-md"
-          />
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Input
+              placeholder="Search by camera name or location..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="max-w-md"
+            />
+            <GroupFilterSelect groups={groups} value={groupFilter} onChange={setGroupFilter} />
+          </div>
         </CardContent>
       </Card>
 
@@ -163,8 +257,9 @@ export const CameraManagement = () => {
               <TableRow>
                 <TableHead>Name</TableHead>
                 <TableHead>Location</TableHead>
+                <TableHead>Group</TableHead>
                 <TableHead>Status</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -172,11 +267,19 @@ export const CameraManagement = () => {
                 <TableRow key={camera.id}>
                   <TableCell className="font-medium">{camera.name}</TableCell>
                   <TableCell>{camera.location}</TableCell>
+                  <TableCell>
+                    {getGroupName(camera.groupId) ? (
+                      <Badge variant="outline">{getGroupName(camera.groupId)}</Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <Badge className={getStatusBadge(camera.status)}>
                       {camera.status}
                     </Badge>
                   </TableCell>
+                  {canManage && (
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
                       <Button 
@@ -196,6 +299,7 @@ export const CameraManagement = () => {
                       </Button>
                     </div>
                   </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
@@ -208,20 +312,41 @@ export const CameraManagement = () => {
         <div className="text-center py-12">
           <p className="text-muted-foreground">
             {cameras.length === 0 
-              ? 'No cameras yet. Click "Add New Camera" to get started.' 
+              ? canManage ? 'No cameras yet. Click "Add New Camera" to get started.' : 'No cameras have been added to your organisation yet.'
               : 'No cameras found matching your search criteria.'}
           </p>
         </div>
       )}
 
+      {canManage && <DeviceApiKeysPanel cameras={cameras} />}
+
       {/* Add Camera Modal */}
       <AddCameraForm
         open={isAddCameraOpen}
-        onOpenChange={setIsAddCameraOpen}
+        onOpenChange={(open) => {
+          setIsAddCameraOpen(open);
+          if (!open) setProvisioning(null);
+        }}
         mode="full"
+        prefill={prefill}
         onSubmit={handleAddCamera}
       />
 
+      {/* Manage Groups Modal */}
+      <ManageGroupsDialog
+        open={isManageGroupsOpen}
+        onOpenChange={setIsManageGroupsOpen}
+        groups={groups}
+        cameras={cameras}
+      />
+
+      {/* Recorder Nodes Modal */}
+      <ManageRecorderNodesDialog
+        open={isRecorderNodesOpen}
+        onOpenChange={setIsRecorderNodesOpen}
+        cameras={cameras}
+      />
+
       {/* Edit Camera Modal */}
       <EditCameraForm
         open={isEditCameraOpen}
@@ -1,4 +1,5 @@
 import { useState, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Plus, Grid, LayoutGrid, Radio } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,11 +8,15 @@ import { DashboardStats } from "@/components/DashboardStats";
 import { AddCameraForm } from "@/components/forms/AddCameraForm";
 import { ViewStreamModal } from "@/components/modals/ViewStreamModal";
 import { MultiViewGridModal } from "@/components/modals/MultiViewGridModal";
-import { Camera, DashboardStats as DashboardStatsType } from "@/types";
+import { Camera, DashboardStats as DashboardStatsType, StreamCredentials } from "@/types";
 import { supabase } from "@/integrations/supabase/client";
-import { cameraToDbCamera } from "@/lib/supabaseHelpers";
+import { cameraToDbCamera, saveStreamCredentials } from "@/lib/supabaseHelpers";
 import { toast } from "@/hooks/use-toast";
 import { useCameraRealtime } from "@/hooks/useCameraRealtime";
+import { useCameraGroups } from "@/hooks/useCameraGroups";
+import { useRole } from "@/hooks/useRole";
+import { GroupFilterSelect } from "@/components/GroupFilterSelect";
+import { ALL_GROUPS, getGroupStats, matchesGroupFilter } from "@/lib/cameraGroups";
 import CameraCard from "@/components/CameraCard";
 import HeartbeatTestPanel from "@/components/HeartbeatTestPanel";
 import { useAuth } from "@/contexts/AuthContext";
@@ -22,20 +27,31 @@ export const Dashboard = () => {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { groups } = useCameraGroups();
+  const { canManage } = useRole();
+  // Group filter lives in the URL so sidebar group links can target it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const groupFilter = searchParams.get("group") || ALL_GROUPS;
+  const setGroupFilter = (value: string) => {
+    setSearchParams(value === ALL_GROUPS ? {} : { group: value });
+  };
   const [isAddCameraOpen, setIsAddCameraOpen] = useState(false);
   const [selectedCamera, setSelectedCamera] = useState<Camera | null>(null);
   const [isViewStreamOpen, setIsViewStreamOpen] = useState(false);
   const [isMultiViewOpen, setIsMultiViewOpen] = useState(false);
 
-  // Calculate stats from real-time cameras
+  const groupCameras = cameras.filter((camera) => matchesGroupFilter(camera.groupId, groupFilter));
+
+  // Calculate stats from real-time cameras in the selected group
   const stats: DashboardStatsType = {
-    totalCameras: cameras.length,
-    onlineCameras: cameras.filter((c) => c.status === "online").length,
-    offlineCameras: cameras.filter((c) => c.status === "offline").length,
-    recordingCameras: cameras.filter((c) => c.status === "recording").length,
+    totalCameras: groupCameras.length,
+    onlineCameras: groupCameras.filter((c) => c.status === "online").length,
+    offlineCameras: groupCameras.filter((c) => c.status === "offline").length,
+    recordingCameras: groupCameras.filter((c) => c.status === "recording").length,
   };
+  const groupStats = getGroupStats(cameras, groups);
 
-  const filteredCameras = cameras.filter((camera) => {
+  const filteredCameras = groupCameras.filter((camera) => {
     const matchesSearch =
       camera.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       camera.location.toLowerCase().includes(searchTerm.toLowerCase());
@@ -48,7 +64,10 @@ export const Dashboard = () => {
     setIsViewStreamOpen(true);
   };
 
-  const handleAddCamera = async (newCameraData: Omit<Camera, "id" | "lastSeen">) => {
+  const handleAddCamera = async (
+    newCameraData: Omit<Camera, "id" | "lastSeen">,
+    credentials?: StreamCredentials
+  ) => {
     try {
       if (!user) throw new Error("You must be logged in to add a camera");
 
@@ -56,10 +75,14 @@ export const Dashboard = () => {
         ...cameraToDbCamera(newCameraData),
         user_id: user.id,
       };
-      const { error } = await supabase.from("cameras").insert([dbCamera]);
+      const { data, error } = await supabase.from("cameras").insert([dbCamera]).select("id").single();
 
       if (error) throw error;
 
+      if (credentials) {
+        await saveStreamCredentials(data.id, credentials);
+      }
+
       toast({
         title: "Camera added",
         description: "Camera will appear automatically via real-time updates.",
@@ -82,17 +105,24 @@ export const Dashboard = () => {
           <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
           <p className="text-muted-foreground">Monitor all CCTV cameras across CoE Greentech facilities</p>
         </div>
-        <Button
-          className="bg-primary hover:bg-primary-dark text-primary-foreground"
-          onClick={() => setIsAddCameraOpen(true)}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Camera
-        </Button>
+        {canManage && (
+          <Button
+            className="bg-primary hover:bg-primary-dark text-primary-foreground"
+            onClick={() => setIsAddCameraOpen(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Camera
+          </Button>
+        )}
       </div>
 
       {/* Stats Cards */}
-      <DashboardStats stats={stats} />
+      <DashboardStats
+        stats={stats}
+        groupStats={groupStats}
+        selectedGroup={groupFilter}
+        onSelectGroup={setGroupFilter}
+      />
 
       {/* Heartbeat Testing Panel */}
       <HeartbeatTestPanel onRefresh={refetch} />
@@ -117,6 +147,9 @@ export const Dashboard = () => {
               <SelectItem value="recording">Recording</SelectItem>
             </SelectContent>
           </Select>
+          {groups.length > 0 && (
+            <GroupFilterSelect groups={groups} value={groupFilter} onChange={setGroupFilter} className="w-full sm:w-48" />
+          )}
         </div>
 
         <div className="flex gap-2">
@@ -152,7 +185,9 @@ export const Dashboard = () => {
             <div className="text-center py-12">
               <p className="text-muted-foreground">
                 {cameras.length === 0
-                  ? 'No cameras yet. Click "Add Camera" to get started.'
+                  ? canManage
+                    ? 'No cameras yet. Click "Add Camera" to get started.'
+                    : "No cameras have been added to your organisation yet."
                   : "No cameras found matching your criteria."}
               </p>
             </div>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -34,6 +35,8 @@ export const Login = () => {
   const { signIn, signUp, user, loading } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Hidden until we know sign-up is open (the deployment may be invite-only)
+  const [signupAllowed, setSignupAllowed] = useState(false);
 
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -58,6 +61,16 @@ export const Login = () => {
     }
   }, [user, loading, navigate]);
 
+  useEffect(() => {
+    supabase.rpc('signup_allowed').then(({ data, error }) => {
+      if (error) {
+        console.error('Error checking sign-up setting:', error);
+        return;
+      }
+      setSignupAllowed(!!data);
+    });
+  }, []);
+
   const handleLogin = async (values: LoginFormValues) => {
     setIsSubmitting(true);
     const { error } = await signIn(values.email, values.password);
@@ -98,10 +111,12 @@ export const Login = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+            {signupAllowed && (
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
+            )}
             
             <TabsContent value="login">
               <Form {...loginForm}>
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { FileDown, Calendar, X, Play, MoreVertical, Download, Trash2, Eye, Cloud, CloudOff, Check, Video } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { FileDown, Play, MoreVertical, Download, Trash2, Eye, Cloud, CloudOff, Check, Video, Activity, Lock, LockOpen, Clock, HardDrive, HardDriveDownload, RefreshCw } from 'lucide-react';
 
 const formatFileSize = (bytes: number | null | undefined): string => {
   if (bytes === null || bytes === undefined || bytes === 0) return 'N/A';
@@ -23,21 +23,26 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MonitoringRecord, Camera } from '@/types';
 import { format } from 'date-fns';
-import { cn } from '@/lib/utils';
 import { ViewFootageModal } from '@/components/modals/ViewFootageModal';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { dbRecordingToMonitoringRecord, dbCameraToCamera, getSignedRecordingUrl } from '@/lib/supabaseHelpers';
 import { useGoogleDriveAuth } from '@/hooks/useGoogleDriveAuth';
 import { useGoogleDriveBackup } from '@/hooks/useGoogleDriveBackup';
+import { useRecordingSync } from '@/hooks/useRecordingSync';
 import { MjpegRecordingsList } from '@/components/recordings/MjpegRecordingsList';
+import { MotionEventsList } from '@/components/recordings/MotionEventsList';
+import { DateRangeFilter, DateRangeValue } from '@/components/DateRangeFilter';
+import { getRecordingsDueForDeletion } from '@/lib/retention';
+import { useCameraGroups } from '@/hooks/useCameraGroups';
+import { useRole } from '@/hooks/useRole';
+import { GroupFilterSelect } from '@/components/GroupFilterSelect';
+import { ALL_GROUPS, matchesGroupFilter } from '@/lib/cameraGroups';
 
 // Extended type to include backup info
 interface RecordWithBackup extends MonitoringRecord {
@@ -53,11 +58,15 @@ export const MonitoringRecords = () => {
   const [activeTab, setActiveTab] = useState('cloud');
   const [searchTerm, setSearchTerm] = useState('');
   const [cameraFilter, setCameraFilter] = useState<string>('all');
+  const [groupFilter, setGroupFilter] = useState<string>(ALL_GROUPS);
+  const { groups } = useCameraGroups();
+  const { canManage } = useRole();
   const [selectedFootage, setSelectedFootage] = useState<MonitoringRecord | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
+  const [footageOffset, setFootageOffset] = useState<number | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [selectedRecordings, setSelectedRecordings] = useState<Set<string>>(new Set());
-  const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>(() => {
+  const [dateRange, setDateRange] = useState<DateRangeValue>(() => {
     const saved = localStorage.getItem('monitoringRecordsDateRange');
     if (saved) {
       const parsed = JSON.parse(saved);
@@ -68,12 +77,11 @@ export const MonitoringRecords = () => {
     }
     return { from: undefined, to: undefined };
   });
-  const [tempDateRange, setTempDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>(dateRange);
-  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
   // Google Drive hooks
   const { connected: driveConnected, loading: driveLoading, connecting, connect, disconnect, refresh: refreshDriveStatus } = useGoogleDriveAuth();
   const { backup, backing } = useGoogleDriveBackup();
+  const { sync, syncing, importRecordings, importing } = useRecordingSync();
   
   useEffect(() => {
     fetchCameras();
@@ -168,10 +176,19 @@ export const MonitoringRecords = () => {
     }
   }, [dateRange]);
 
+  const groupCameras = cameras.filter(camera => matchesGroupFilter(camera.groupId, groupFilter));
+  const groupCameraIds = new Set(groupCameras.map(camera => camera.id));
+
+  const handleGroupFilterChange = (value: string) => {
+    setGroupFilter(value);
+    setCameraFilter('all');
+  };
+
   const filteredRecords = records.filter(record => {
     const matchesSearch = record.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          record.cameraName.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCamera = cameraFilter === 'all' || record.cameraId === cameraFilter;
+    const matchesGroup = groupFilter === ALL_GROUPS || groupCameraIds.has(record.cameraId);
     
     let matchesDate = true;
     if (dateRange.from || dateRange.to) {
@@ -185,33 +202,22 @@ export const MonitoringRecords = () => {
       }
     }
     
-    return matchesSearch && matchesDate && matchesCamera;
+    return matchesSearch && matchesDate && matchesCamera && matchesGroup;
   });
 
-  const handleApplyDateRange = () => {
-    setDateRange(tempDateRange);
-    setIsDatePickerOpen(false);
-  };
-
-  const handleClearDateRange = () => {
-    setDateRange({ from: undefined, to: undefined });
-    setTempDateRange({ from: undefined, to: undefined });
-    setIsDatePickerOpen(false);
-  };
+  // Recordings the next retention purge will remove
+  const dueForDeletion = useMemo(() => getRecordingsDueForDeletion(records, cameras), [records, cameras]);
 
-  const getDateRangeLabel = () => {
-    if (dateRange.from && dateRange.to) {
-      return `${format(dateRange.from, 'MMM d')} – ${format(dateRange.to, 'MMM d, yyyy')}`;
-    } else if (dateRange.from) {
-      return `From ${format(dateRange.from, 'MMM d, yyyy')}`;
-    } else if (dateRange.to) {
-      return `Until ${format(dateRange.to, 'MMM d, yyyy')}`;
-    }
-    return 'Date Range';
+  const handleViewFootage = (record: MonitoringRecord) => {
+    setSelectedFootage(record);
+    setFootageOffset(undefined);
+    setIsViewModalOpen(true);
   };
 
-  const handleViewFootage = (record: MonitoringRecord) => {
+  // Open the recording that covers a motion event, positioned at the event
+  const handleOpenEventRecording = (record: MonitoringRecord, offsetSeconds: number) => {
     setSelectedFootage(record);
+    setFootageOffset(offsetSeconds);
     setIsViewModalOpen(true);
   };
 
@@ -264,11 +270,39 @@ export const MonitoringRecords = () => {
     }
   };
 
+  const handleToggleProtected = async (record: RecordWithBackup) => {
+    const isProtected = !record.isProtected;
+    try {
+      const { error } = await supabase
+        .from('recordings')
+        .update({ is_protected: isProtected })
+        .eq('id', record.id);
+
+      if (error) throw error;
+
+      setRecords(prev => prev.map(r => (r.id === record.id ? { ...r, isProtected } : r)));
+      toast({
+        title: isProtected ? 'Recording protected' : 'Protection removed',
+        description: isProtected
+          ? 'This recording is exempt from automatic purge.'
+          : 'This recording follows the camera retention policy again.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error updating recording',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDownloadFootage = async (record: MonitoringRecord) => {
     if (!record.fileUrl) {
       toast({
         title: 'Download Failed',
-        description: 'No file URL available for this recording.',
+        description: isOnRecorder(record)
+          ? 'This recording is still on the recorder. Import it into storage first.'
+          : 'No file URL available for this recording.',
         variant: 'destructive',
       });
       return;
@@ -324,7 +358,7 @@ export const MonitoringRecords = () => {
   };
 
   const handleExportMetadata = () => {
-    const headers = ['ID', 'Camera', 'Date', 'Time', 'Duration', 'Size (MB)', 'Description', 'Backed Up'];
+    const headers = ['ID', 'Camera', 'Date', 'Time', 'Duration', 'Size (MB)', 'Description', 'Source', 'In Storage', 'Backed Up'];
     const csvData = [
       headers.join(','),
       ...filteredRecords.map(r => [
@@ -335,6 +369,8 @@ export const MonitoringRecords = () => {
         r.duration || 'N/A',
         r.size || 'N/A',
         `"${r.description}"`,
+        r.source === 'rpi' ? 'Recorder' : 'Browser',
+        r.fileUrl ? 'Yes' : 'No',
         r.backedUpAt ? 'Yes' : 'No'
       ].join(','))
     ].join('\n');
@@ -377,6 +413,18 @@ export const MonitoringRecords = () => {
   const isAllSelected = filteredRecords.length > 0 && filteredRecords.every(r => selectedRecordings.has(r.id));
   const isSomeSelected = filteredRecords.some(r => selectedRecordings.has(r.id));
 
+  // Listed by recording-sync but not yet copied into Storage
+  const isOnRecorder = (record: MonitoringRecord) => record.source === 'rpi' && !record.fileUrl;
+  const selectedOnRecorder = records.filter(r => selectedRecordings.has(r.id) && isOnRecorder(r));
+
+  // The realtime subscription picks up rows added or imported by recording-sync
+  const handleImportSelected = async () => {
+    const result = await importRecordings(selectedOnRecorder.map(r => r.id));
+    if (result && result.failed === 0) {
+      setSelectedRecordings(new Set());
+    }
+  };
+
   // Backup handler
   const handleBackupSelected = async () => {
     const ids = Array.from(selectedRecordings);
@@ -413,6 +461,11 @@ export const MonitoringRecords = () => {
             </Badge>
           ) : null}
 
+          <Button variant="outline" onClick={() => sync()} disabled={syncing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Syncing...' : 'Sync Recorders'}
+          </Button>
+
           <Button variant="outline" onClick={handleExportMetadata}>
             <FileDown className="h-4 w-4 mr-2" />
             Export Metadata
@@ -452,18 +505,22 @@ export const MonitoringRecords = () => {
         <TabsList>
           <TabsTrigger value="cloud" className="gap-2">
             <Cloud className="h-4 w-4" />
-            Cloud Recordings (HLS)
+            Recordings
           </TabsTrigger>
           <TabsTrigger value="mjpeg" className="gap-2">
             <Video className="h-4 w-4" />
             Server Recordings (MJPEG)
           </TabsTrigger>
+          <TabsTrigger value="events" className="gap-2">
+            <Activity className="h-4 w-4" />
+            Events
+          </TabsTrigger>
         </TabsList>
 
         {/* Cloud/HLS Recordings Tab */}
         <TabsContent value="cloud" className="space-y-6">
           {/* Selection Actions Bar */}
-          {selectedRecordings.size > 0 && driveConnected && (
+          {selectedRecordings.size > 0 && (driveConnected || selectedOnRecorder.length > 0) && (
             <Card className="bg-primary/5 border-primary/20">
               <CardContent className="py-3 flex items-center justify-between">
                 <span className="text-sm font-medium">
@@ -477,15 +534,29 @@ export const MonitoringRecords = () => {
                   >
                     Clear Selection
                   </Button>
-                  <Button 
-                    size="sm"
-                    onClick={handleBackupSelected}
-                    disabled={backing}
-                    className="gap-2"
-                  >
-                    <Cloud className="h-4 w-4" />
-                    {backing ? 'Backing up...' : 'Backup to Google Drive'}
-                  </Button>
+                  {selectedOnRecorder.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleImportSelected}
+                      disabled={importing}
+                      className="gap-2"
+                    >
+                      <HardDriveDownload className="h-4 w-4" />
+                      {importing ? 'Importing...' : `Import ${selectedOnRecorder.length} to Storage`}
+                    </Button>
+                  )}
+                  {driveConnected && (
+                    <Button 
+                      size="sm"
+                      onClick={handleBackupSelected}
+                      disabled={backing}
+                      className="gap-2"
+                    >
+                      <Cloud className="h-4 w-4" />
+                      {backing ? 'Backing up...' : 'Backup to Google Drive'}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -504,73 +575,23 @@ export const MonitoringRecords = () => {
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="flex-1"
                 />
+                {groups.length > 0 && (
+                  <GroupFilterSelect groups={groups} value={groupFilter} onChange={handleGroupFilterChange} />
+                )}
                 <Select value={cameraFilter} onValueChange={setCameraFilter}>
                   <SelectTrigger className="w-48">
                     <SelectValue placeholder="All Cameras" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Cameras</SelectItem>
-                    {cameras.map((camera) => (
+                    {groupCameras.map((camera) => (
                       <SelectItem key={camera.id} value={camera.id}>
                         {camera.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
-                  <PopoverTrigger asChild>
-                    <Button 
-                      variant="outline" 
-                      className={cn(
-                        "justify-start text-left font-normal",
-                        (dateRange.from || dateRange.to) && "border-primary"
-                      )}
-                    >
-                      <Calendar className="h-4 w-4 mr-2" />
-                      {getDateRangeLabel()}
-                      {(dateRange.from || dateRange.to) && (
-                        <X 
-                          className="h-4 w-4 ml-2 hover:text-destructive" 
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleClearDateRange();
-                          }}
-                        />
-                      )}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <div className="p-3 space-y-3">
-                      <div className="space-y-2">
-                        <div className="text-sm font-medium">Select Date Range</div>
-                        <CalendarComponent
-                          mode="range"
-                          selected={{ from: tempDateRange.from, to: tempDateRange.to }}
-                          onSelect={(range) => setTempDateRange({ from: range?.from, to: range?.to })}
-                          numberOfMonths={2}
-                          className="pointer-events-auto"
-                        />
-                      </div>
-                      <div className="flex gap-2 pt-2 border-t">
-                        <Button 
-                          size="sm" 
-                          variant="outline" 
-                          onClick={handleClearDateRange}
-                          className="flex-1"
-                        >
-                          Clear
-                        </Button>
-                        <Button 
-                          size="sm" 
-                          onClick={handleApplyDateRange}
-                          className="flex-1"
-                        >
-                          Apply
-                        </Button>
-                      </div>
-                    </div>
-                  </PopoverContent>
-                </Popover>
+                <DateRangeFilter value={dateRange} onChange={setDateRange} />
               </div>
             </CardContent>
           </Card>
@@ -578,7 +599,7 @@ export const MonitoringRecords = () => {
           {/* Footage Table */}
           <Card>
             <CardHeader>
-              <CardTitle>Cloud Footage ({filteredRecords.length})</CardTitle>
+              <CardTitle>Footage ({filteredRecords.length})</CardTitle>
             </CardHeader>
             <CardContent className="p-0">
               {loading ? (
@@ -634,6 +655,31 @@ export const MonitoringRecords = () => {
                         <div>
                           <div className="font-medium">{record.date}</div>
                           <div className="text-sm text-muted-foreground">{record.time}</div>
+                          {isOnRecorder(record) && (
+                            <Badge
+                              variant="outline"
+                              className="gap-1 mt-1 text-[10px]"
+                              title={record.remoteFilename ?? undefined}
+                            >
+                              <HardDrive className="h-3 w-3" />
+                              On recorder
+                            </Badge>
+                          )}
+                          {record.isProtected ? (
+                            <Badge variant="outline" className="gap-1 mt-1 text-[10px]">
+                              <Lock className="h-3 w-3" />
+                              Protected
+                            </Badge>
+                          ) : dueForDeletion.has(record.id) && (
+                            <Badge
+                              variant="outline"
+                              className="gap-1 mt-1 text-[10px] text-destructive border-destructive"
+                              title={dueForDeletion.get(record.id) === 'quota' ? 'Camera storage limit exceeded' : 'Older than the retention period'}
+                            >
+                              <Clock className="h-3 w-3" />
+                              Due for deletion
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="font-medium">{record.cameraName}</TableCell>
@@ -673,31 +719,55 @@ export const MonitoringRecords = () => {
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleDownloadFootage(record)}>
-                                <Download className="h-4 w-4 mr-2" />
-                                Download
-                              </DropdownMenuItem>
+                              {isOnRecorder(record) ? (
+                                <DropdownMenuItem onClick={() => importRecordings([record.id])} disabled={importing}>
+                                  <HardDriveDownload className="h-4 w-4 mr-2" />
+                                  Import to Storage
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => handleDownloadFootage(record)}>
+                                  <Download className="h-4 w-4 mr-2" />
+                                  Download
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem onClick={() => handleViewFootage(record)}>
                                 <Eye className="h-4 w-4 mr-2" />
                                 View Details
                               </DropdownMenuItem>
+                              {canManage && (
+                                <DropdownMenuItem onClick={() => handleToggleProtected(record)}>
+                                  {record.isProtected ? (
+                                    <>
+                                      <LockOpen className="h-4 w-4 mr-2" />
+                                      Remove Protection
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Lock className="h-4 w-4 mr-2" />
+                                      Protect from Purge
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                              )}
                               {record.cloudBackupUrl && (
                                 <DropdownMenuItem onClick={() => window.open(record.cloudBackupUrl!, '_blank')}>
                                   <Cloud className="h-4 w-4 mr-2" />
                                   View in Google Drive
                                 </DropdownMenuItem>
                               )}
-                               <DropdownMenuItem 
-                                onClick={() => {
-                                  if (confirm('Are you sure you want to delete this footage? This action cannot be undone.')) {
-                                    handleDeleteFootage(record.id);
-                                  }
-                                }}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </DropdownMenuItem>
+                              {canManage && (
+                                <DropdownMenuItem 
+                                  onClick={() => {
+                                    if (confirm('Are you sure you want to delete this footage? This action cannot be undone.')) {
+                                      handleDeleteFootage(record.id);
+                                    }
+                                  }}
+                                  className="text-destructive focus:text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -761,19 +831,60 @@ export const MonitoringRecords = () => {
                 <MjpegRecordingsList 
                   cameraId={selectedMjpegCameraInfo.id} 
                   cameraName={selectedMjpegCameraInfo.name}
-                  streamUrl={selectedMjpegCameraInfo.streamUrl}
+                  recorderNodeId={selectedMjpegCameraInfo.recorderNodeId}
+                  recorderCameraId={selectedMjpegCameraInfo.recorderCameraId}
                 />
               )}
             </>
           )}
         </TabsContent>
+
+        {/* Motion Events Tab */}
+        <TabsContent value="events" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Filter Events</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row gap-4">
+                {groups.length > 0 && (
+                  <GroupFilterSelect groups={groups} value={groupFilter} onChange={handleGroupFilterChange} />
+                )}
+                <Select value={cameraFilter} onValueChange={setCameraFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="All Cameras" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Cameras</SelectItem>
+                    {groupCameras.map((camera) => (
+                      <SelectItem key={camera.id} value={camera.id}>
+                        {camera.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <DateRangeFilter value={dateRange} onChange={setDateRange} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {activeTab === 'events' && (
+            <MotionEventsList
+              cameraFilter={cameraFilter}
+              cameraIds={groupFilter === ALL_GROUPS ? undefined : groupCameras.map(camera => camera.id)}
+              dateRange={dateRange}
+              onOpenRecording={handleOpenEventRecording}
+            />
+          )}
+        </TabsContent>
       </Tabs>
 
       <ViewFootageModal
         open={isViewModalOpen}
         onOpenChange={setIsViewModalOpen}
         footage={selectedFootage}
-        onDelete={handleDeleteFootage}
+        onDelete={canManage ? handleDeleteFootage : undefined}
+        initialOffsetSeconds={footageOffset}
       />
     </div>
   );
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Bell, CheckCheck, CheckCircle2, MessageSquare } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { NotificationIcon } from '@/components/NotificationIcon';
+import { AcknowledgeIncidentDialog } from '@/components/modals/AcknowledgeIncidentDialog';
+import { AppNotification } from '@/types';
+import { toast } from '@/hooks/use-toast';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useRole } from '@/hooks/useRole';
+import { formatDurationMs } from '@/lib/uptime';
+
+const INBOX_SIZE = 200;
+
+type InboxFilter = 'all' | 'unread' | 'open';
+
+const isOpenIncident = (n: AppNotification) => n.type === 'camera_offline' && !n.acknowledgedAt;
+
+export const Notifications = () => {
+  const { notifications, unreadCount, loading, markRead, markAllRead, acknowledge } = useNotifications(INBOX_SIZE);
+  const { canRecord } = useRole();
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const [acknowledging, setAcknowledging] = useState<AppNotification | null>(null);
+
+  const openIncidentCount = notifications.filter(isOpenIncident).length;
+  const visible = notifications.filter((n) => {
+    if (filter === 'unread') return !n.readAt;
+    if (filter === 'open') return isOpenIncident(n);
+    return true;
+  });
+
+  const handleError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const handleMarkRead = async (notification: AppNotification) => {
+    if (notification.readAt) return;
+    try {
+      await markRead(notification.id);
+    } catch (error) {
+      handleError('Error updating notification', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (error) {
+      handleError('Error updating notifications', error);
+    }
+  };
+
+  const handleAcknowledge = async (notification: AppNotification, comment: string) => {
+    try {
+      await acknowledge(notification.id, comment);
+      toast({ title: 'Incident acknowledged' });
+    } catch (error) {
+      handleError('Error acknowledging incident', error);
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Notifications</h1>
+          <p className="text-muted-foreground">Camera outages and recording activity in your organisation</p>
+        </div>
+        <Button variant="outline" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Mark all as read
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Inbox</CardTitle>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as InboxFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              <TabsTrigger value="unread">Unread ({unreadCount})</TabsTrigger>
+              <TabsTrigger value="open">Open incidents ({openIncidentCount})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading notifications...</p>
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="py-12 text-center">
+              <Bell className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">
+                {filter === 'open' ? 'No unacknowledged incidents.' : 'No notifications.'}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {visible.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start gap-3 py-3 ${notification.readAt ? '' : 'cursor-pointer'}`}
+                  onClick={() => handleMarkRead(notification)}
+                >
+                  <NotificationIcon type={notification.type} className="mt-1" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className={`text-sm ${notification.readAt ? '' : 'font-semibold'}`}>{notification.title}</p>
+                      {!notification.readAt && <span className="h-2 w-2 rounded-full bg-primary" />}
+                      {notification.type === 'camera_offline' && (
+                        notification.resolvedAt ? (
+                          <Badge variant="secondary">
+                            Resolved after{' '}
+                            {formatDurationMs(
+                              new Date(notification.resolvedAt).getTime() - new Date(notification.createdAt).getTime()
+                            )}
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">Ongoing</Badge>
+                        )
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{notification.description}</p>
+                    <p className="text-xs text-muted-foreground/70" title={format(new Date(notification.createdAt), 'PPpp')}>
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                    {notification.acknowledgedAt && (
+                      <div className="flex items-start gap-2 rounded-md bg-muted px-3 py-2 text-xs">
+                        <CheckCircle2 className="h-3.5 w-3.5 text-success mt-0.5 shrink-0" />
+                        <div>
+                          <p>
+                            Acknowledged by {notification.acknowledgedByEmail ?? 'a former member'}{' '}
+                            {formatDistanceToNow(new Date(notification.acknowledgedAt), { addSuffix: true })}
+                          </p>
+                          {notification.ackComment && (
+                            <p className="text-muted-foreground mt-0.5">{notification.ackComment}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  {canRecord && isOpenIncident(notification) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setAcknowledging(notification);
+                      }}
+                    >
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      Acknowledge
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AcknowledgeIncidentDialog
+        notification={acknowledging}
+        onOpenChange={(open) => !open && setAcknowledging(null)}
+        onConfirm={handleAcknowledge}
+      />
+    </div>
+  );
+};
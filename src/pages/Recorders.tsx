@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { CloudOff, HardDrive, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ManageRecorderNodesDialog } from '@/components/modals/ManageRecorderNodesDialog';
+import { useRecorderNodes } from '@/hooks/useRecorderNodes';
+import { useCameraRealtime } from '@/hooks/useCameraRealtime';
+import { useRole } from '@/hooks/useRole';
+import { RecorderNode } from '@/types';
+
+// Same threshold as the device status in DeviceApiKeysPanel
+const LOW_DISK_RATIO = 0.1;
+// Cloudflare's answer when the tunnel to the recorder is down
+const TUNNEL_DOWN_STATUS = 530;
+
+function formatBytes(bytes: number) {
+  const gb = bytes / 1024 ** 3;
+  return gb >= 1 ? `${gb.toFixed(1)} GB` : `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+function NodeStatusBadge({ node }: { node: RecorderNode }) {
+  if (!node.enabled) return <Badge variant="outline">Disabled</Badge>;
+  if (node.status === 'offline' && node.lastStatusCode === TUNNEL_DOWN_STATUS) {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <CloudOff className="h-3 w-3" />
+        Tunnel down
+      </Badge>
+    );
+  }
+  if (node.status === 'online') return <Badge className="bg-status-online text-white">Online</Badge>;
+  if (node.status === 'offline') return <Badge className="bg-status-offline text-white">Offline</Badge>;
+  return <Badge variant="secondary">Not checked</Badge>;
+}
+
+export const Recorders = () => {
+  const { nodes, loading } = useRecorderNodes();
+  const { cameras } = useCameraRealtime();
+  const { canManage, canRecord, loading: roleLoading } = useRole();
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  if (!roleLoading && !canRecord) {
+    return <Navigate to="/" replace />;
+  }
+
+  // recording_cameras holds recorder camera ids; show the camera names where known
+  const getRecordingNames = (node: RecorderNode) =>
+    node.recordingCameras.map(
+      (cam) => cameras.find((camera) => camera.recorderNodeId === node.id && camera.recorderCameraId === cam)?.name ?? cam
+    );
+
+  const getCameraCount = (nodeId: string) => cameras.filter((camera) => camera.recorderNodeId === nodeId).length;
+
+  const enabledNodes = nodes.filter((node) => node.enabled);
+  const onlineCount = enabledNodes.filter((node) => node.status === 'online').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recorders</h1>
+          <p className="text-muted-foreground">Health of the Raspberry Pi recorders behind server-side recording</p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => setIsManageOpen(true)}>
+            <Settings className="h-4 w-4 mr-2" />
+            Manage Recorders
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HardDrive className="h-5 w-5" />
+            Recorder Nodes ({onlineCount}/{enabledNodes.length} online)
+          </CardTitle>
+          <CardDescription>Checked every minute by recorder-monitor.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <p className="text-muted-foreground">Loading recorders...</p>
+            </div>
+          ) : nodes.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <p className="text-muted-foreground">No recorder nodes yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recorder</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Recording</TableHead>
+                  <TableHead>Free Disk</TableHead>
+                  <TableHead>Last Checked</TableHead>
+                  <TableHead>Last Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {nodes.map((node) => {
+                  const recording = getRecordingNames(node);
+                  const lowDisk =
+                    node.diskFreeBytes !== null && node.diskTotalBytes
+                      ? node.diskFreeBytes / node.diskTotalBytes < LOW_DISK_RATIO
+                      : false;
+
+                  return (
+                    <TableRow key={node.id} className={node.enabled ? undefined : 'opacity-60'}>
+                      <TableCell>
+                        <div className="font-medium">{node.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {node.baseUrl} · {getCameraCount(node.id)} cameras
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <NodeStatusBadge node={node} />
+                        {node.status === 'offline' && node.lastOnlineAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Up {formatDistanceToNow(new Date(node.lastOnlineAt), { addSuffix: true })}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {recording.length === 0 ? (
+                          <span className="text-muted-foreground">None</span>
+                        ) : (
+                          <>
+                            <div className="font-medium">{recording.length} active</div>
+                            <div className="text-xs text-muted-foreground">{recording.join(', ')}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {node.diskFreeBytes === null ? (
+                          <span className="text-muted-foreground">Not reported</span>
+                        ) : (
+                          <span className={lowDisk ? 'text-warning font-medium' : undefined}>
+                            {formatBytes(node.diskFreeBytes)}
+                            {node.diskTotalBytes ? ` of ${formatBytes(node.diskTotalBytes)}` : ''}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {node.lastCheckedAt
+                          ? formatDistanceToNow(new Date(node.lastCheckedAt), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[16rem]">
+                        {node.lastError ? (
+                          <span className="text-destructive break-words">{node.lastError}</span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ManageRecorderNodesDialog open={isManageOpen} onOpenChange={setIsManageOpen} cameras={cameras} />
+    </div>
+  );
+};
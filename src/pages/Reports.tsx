@@ -0,0 +1,249 @@
+import { useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useCameraRealtime } from '@/hooks/useCameraRealtime';
+import { useCameraStatusHistory } from '@/hooks/useCameraStatusHistory';
+import { formatDurationMs, getStatusSegments, getUptimeBuckets, summarizeUptime, UptimeBucket } from '@/lib/uptime';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RANGES = {
+  '24h': { label: 'Last 24 hours', durationMs: DAY_MS, bucketMs: HOUR_MS, tickFormat: 'HH:mm' },
+  '7d': { label: 'Last 7 days', durationMs: 7 * DAY_MS, bucketMs: 6 * HOUR_MS, tickFormat: 'MMM d HH:mm' },
+  '30d': { label: 'Last 30 days', durationMs: 30 * DAY_MS, bucketMs: DAY_MS, tickFormat: 'MMM d' },
+} as const;
+
+type RangeKey = keyof typeof RANGES;
+
+const ALL_CAMERAS = 'all';
+
+const chartConfig = {
+  uptime: { label: 'Uptime %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(value === 100 ? 0 : 2)}%`);
+
+export const Reports = () => {
+  const { cameras } = useCameraRealtime();
+  const [range, setRange] = useState<RangeKey>('7d');
+  const [timelineCamera, setTimelineCamera] = useState<string>(ALL_CAMERAS);
+  // Fixed when the range is picked so the query doesn't refire on every render
+  const [rangeEnd, setRangeEnd] = useState(() => Date.now());
+
+  const { durationMs, bucketMs, tickFormat } = RANGES[range];
+  const from = useMemo(() => new Date(rangeEnd - durationMs), [rangeEnd, durationMs]);
+  const to = useMemo(() => new Date(rangeEnd), [rangeEnd]);
+  const { initial, changes, loading } = useCameraStatusHistory(from, to);
+
+  const reports = useMemo(
+    () =>
+      cameras.map((camera) => {
+        const segments = getStatusSegments(
+          initial[camera.id],
+          changes.filter((change) => change.cameraId === camera.id),
+          from.getTime(),
+          to.getTime()
+        );
+        return { camera, segments, summary: summarizeUptime(segments, to.getTime()) };
+      }),
+    [cameras, initial, changes, from, to]
+  );
+
+  const outages = useMemo(
+    () =>
+      reports
+        .flatMap(({ camera, summary }) => summary.outages.map((outage) => ({ ...outage, camera })))
+        .sort((a, b) => b.start - a.start),
+    [reports]
+  );
+
+  const timeline = useMemo(() => {
+    const selected = reports.filter((r) => timelineCamera === ALL_CAMERAS || r.camera.id === timelineCamera);
+    const perCamera = selected.map((r) => getUptimeBuckets(r.segments, from.getTime(), to.getTime(), bucketMs));
+    if (perCamera.length === 0) return [];
+
+    // Average across cameras with a known status in each bucket
+    return perCamera[0].map((bucket: UptimeBucket, i) => {
+      const known = perCamera.map((buckets) => buckets[i].uptimePercent).filter((v): v is number => v !== null);
+      return {
+        start: bucket.start,
+        uptime: known.length > 0 ? Number((known.reduce((sum, v) => sum + v, 0) / known.length).toFixed(2)) : null,
+      };
+    });
+  }, [reports, timelineCamera, from, to, bucketMs]);
+
+  const handleRangeChange = (value: string) => {
+    setRange(value as RangeKey);
+    setRangeEnd(Date.now());
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Availability Reports</h1>
+          <p className="text-muted-foreground">Camera uptime and outages based on status history</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={range} onValueChange={handleRangeChange}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGES).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setRangeEnd(Date.now())} disabled={loading} title="Refresh">
+            <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Uptime Timeline</CardTitle>
+            <CardDescription>
+              {format(from, 'MMM d, HH:mm')} – {format(to, 'MMM d, HH:mm')}
+            </CardDescription>
+          </div>
+          <Select value={timelineCamera} onValueChange={setTimelineCamera}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CAMERAS}>All cameras (average)</SelectItem>
+              {cameras.map((camera) => (
+                <SelectItem key={camera.id} value={camera.id}>
+                  {camera.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-[260px] w-full">
+            <AreaChart data={timeline} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="start"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(value: number) => format(new Date(value), tickFormat)}
+              />
+              <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} unit="%" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0] ? format(new Date(payload[0].payload.start), 'MMM d, HH:mm') : ''
+                    }
+                  />
+                }
+              />
+              <Area
+                dataKey="uptime"
+                type="stepAfter"
+                stroke="var(--color-uptime)"
+                fill="var(--color-uptime)"
+                fillOpacity={0.2}
+                connectNulls={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Per-camera uptime */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Uptime by Camera</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading status history...</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Camera</TableHead>
+                  <TableHead>Uptime</TableHead>
+                  <TableHead>Downtime</TableHead>
+                  <TableHead>Outages</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(({ camera, summary }) => (
+                  <TableRow key={camera.id}>
+                    <TableCell className="font-medium">{camera.name}</TableCell>
+                    <TableCell>{formatPercent(summary.uptimePercent)}</TableCell>
+                    <TableCell>{summary.downMs > 0 ? formatDurationMs(summary.downMs) : '—'}</TableCell>
+                    <TableCell>{summary.outages.length}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Outages */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Outages ({outages.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {outages.length === 0 ? (
+            <p className="text-muted-foreground text-center py-12">
+              {loading ? 'Loading outages...' : 'No outages in this range.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Camera</TableHead>
+                  <TableHead>Went Offline</TableHead>
+                  <TableHead>Back Online</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outages.map((outage) => (
+                  <TableRow key={`${outage.camera.id}-${outage.start}`}>
+                    <TableCell className="font-medium">{outage.camera.name}</TableCell>
+                    <TableCell className="text-sm">{format(new Date(outage.start), 'yyyy-MM-dd HH:mm')}</TableCell>
+                    <TableCell className="text-sm">
+                      {outage.ongoing ? (
+                        <Badge className="bg-status-offline text-white">Still offline</Badge>
+                      ) : (
+                        format(new Date(outage.end), 'yyyy-MM-dd HH:mm')
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDurationMs(outage.durationMs)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
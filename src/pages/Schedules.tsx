@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Plus, Trash2, Settings, CalendarClock, AlertTriangle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ScheduleForm } from '@/components/forms/ScheduleForm';
+import { RecordingSchedule } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { scheduleToDbSchedule } from '@/lib/supabaseHelpers';
+import { toast } from '@/hooks/use-toast';
+import { useCameraRealtime } from '@/hooks/useCameraRealtime';
+import { useRecordingSchedules } from '@/hooks/useRecordingSchedules';
+import { useRole } from '@/hooks/useRole';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatWeekdays = (weekdays: number[]) => {
+  if (weekdays.length === 7) return 'Every day';
+  if (weekdays.length === 5 && [1, 2, 3, 4, 5].every((d) => weekdays.includes(d))) return 'Weekdays';
+  if (weekdays.length === 2 && weekdays.includes(0) && weekdays.includes(6)) return 'Weekends';
+  return weekdays.map((d) => WEEKDAY_LABELS[d]).join(', ');
+};
+
+export const Schedules = () => {
+  const { cameras } = useCameraRealtime();
+  const { schedules, loading } = useRecordingSchedules();
+  const { canManage } = useRole();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<RecordingSchedule | null>(null);
+
+  // The scheduler drives the Raspberry Pi recorder, so only MJPEG cameras qualify
+  const schedulableCameras = cameras.filter((camera) => camera.streamType === 'mjpeg');
+  const getCameraName = (cameraId: string) =>
+    cameras.find((camera) => camera.id === cameraId)?.name || 'Unknown Camera';
+
+  const openAddModal = () => {
+    setSelectedSchedule(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditModal = (schedule: RecordingSchedule) => {
+    setSelectedSchedule(schedule);
+    setIsFormOpen(true);
+  };
+
+  const handleSaveSchedule = async (data: Omit<RecordingSchedule, 'id' | 'activeSince' | 'lastError'>) => {
+    try {
+      const dbSchedule = scheduleToDbSchedule(data);
+      const { error } = selectedSchedule
+        ? await supabase.from('recording_schedules').update(dbSchedule).eq('id', selectedSchedule.id)
+        : await supabase.from('recording_schedules').insert([dbSchedule]);
+
+      if (error) throw error;
+
+      toast({
+        title: selectedSchedule ? 'Schedule updated' : 'Schedule added',
+        description: 'The scheduler applies changes within a minute.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error saving schedule',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  const handleToggleEnabled = async (schedule: RecordingSchedule, enabled: boolean) => {
+    const { error } = await supabase
+      .from('recording_schedules')
+      .update({ enabled })
+      .eq('id', schedule.id);
+
+    if (error) {
+      toast({
+        title: 'Error updating schedule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: RecordingSchedule) => {
+    // The scheduler only stops recordings it can trace back to a schedule row
+    if (schedule.activeSince) {
+      await supabase.functions.invoke('mjpeg-recording', {
+        body: { action: 'stop', cameraId: schedule.cameraId },
+      });
+    }
+
+    const { error } = await supabase
+      .from('recording_schedules')
+      .delete()
+      .eq('id', schedule.id);
+
+    if (error) {
+      toast({
+        title: 'Error deleting schedule',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Schedule deleted',
+      description: schedule.activeSince ? 'The scheduled recording has been stopped.' : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recording Schedules</h1>
+          <p className="text-muted-foreground">Record Raspberry Pi cameras automatically on a weekly timetable</p>
+        </div>
+        {canManage && (
+          <Button
+            className="bg-primary hover:bg-primary-dark text-primary-foreground"
+            onClick={openAddModal}
+            disabled={schedulableCameras.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Schedule
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedules ({schedules.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading schedules...</p>
+            </div>
+          ) : schedules.length === 0 ? (
+            <div className="py-12 text-center">
+              <CalendarClock className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <p className="text-muted-foreground">
+                {schedulableCameras.length === 0
+                  ? 'Add an MJPEG (Raspberry Pi) camera to create recording schedules.'
+                  : canManage
+                    ? 'No schedules yet. Click "Add Schedule" to get started.'
+                    : 'No schedules yet.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Camera</TableHead>
+                  <TableHead>Days</TableHead>
+                  <TableHead>Window</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell className="font-medium">{schedule.name}</TableCell>
+                    <TableCell>{getCameraName(schedule.cameraId)}</TableCell>
+                    <TableCell className="text-sm">{formatWeekdays(schedule.weekdays)}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {schedule.startTime} – {schedule.endTime}
+                        {schedule.endTime < schedule.startTime && (
+                          <span className="text-muted-foreground"> (+1d)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{schedule.timezone}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {schedule.mode === 'motion' ? 'Motion only' : 'Continuous'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {schedule.activeSince ? (
+                          <Badge className="bg-destructive text-white">
+                            Recording {formatDistanceToNow(new Date(schedule.activeSince))}
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">Idle</Badge>
+                        )}
+                        {schedule.lastError && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <AlertTriangle className="h-4 w-4 text-destructive" />
+                            </TooltipTrigger>
+                            <TooltipContent>{schedule.lastError}</TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={schedule.enabled}
+                        onCheckedChange={(checked) => handleToggleEnabled(schedule, checked)}
+                        disabled={!canManage}
+                      />
+                    </TableCell>
+                    {canManage && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditModal(schedule)}
+                        >
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleDeleteSchedule(schedule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScheduleForm
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        cameras={schedulableCameras}
+        schedule={selectedSchedule}
+        onSubmit={handleSaveSchedule}
+      />
+    </div>
+  );
+};
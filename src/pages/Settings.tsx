@@ -8,9 +8,11 @@ import { toast } from 'sonner';
 import { 
   Settings as SettingsIcon, 
   User, 
+  Bell,
   Save,
   LogOut
 } from 'lucide-react';
+import { PushNotificationSettings } from '@/components/PushNotificationSettings';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAppSettings } from '@/contexts/AppSettingsContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -124,7 +126,7 @@ export default function Settings() {
       </div>
 
       <Tabs defaultValue="app" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2 lg:w-auto lg:inline-grid">
+        <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-grid">
           <TabsTrigger value="app" className="gap-2">
             <SettingsIcon className="h-4 w-4" />
             Aplikasi
@@ -133,6 +135,10 @@ export default function Settings() {
             <User className="h-4 w-4" />
             Akun Admin
           </TabsTrigger>
+          <TabsTrigger value="notifications" className="gap-2">
+            <Bell className="h-4 w-4" />
+            Notifikasi
+          </TabsTrigger>
         </TabsList>
 
         {/* Tab Aplikasi */}
@@ -287,6 +293,11 @@ export default function Settings() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Tab Notifikasi */}
+        <TabsContent value="notifications" className="space-y-4">
+          <PushNotificationSettings />
+        </TabsContent>
       </Tabs>
     </div>
   );
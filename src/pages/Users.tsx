@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { UserPlus, UserX, UserCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { InviteUserForm } from '@/components/forms/InviteUserForm';
+import { OrganizationUser, OrgRole } from '@/types';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRole } from '@/hooks/useRole';
+import { useOrganizationUsers } from '@/hooks/useOrganizationUsers';
+import { ORG_ROLES, ROLE_LABELS } from '@/lib/roles';
+
+export const Users = () => {
+  const { user } = useAuth();
+  const { organization, canManage, loading: roleLoading } = useRole();
+  const { users, loading, inviteUser, setUserRole, setUserActive } = useOrganizationUsers(canManage);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  if (!roleLoading && !canManage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const handleInvite = async (email: string, role: OrgRole) => {
+    try {
+      await inviteUser(email, role);
+      toast({ title: 'Invite sent', description: `${email} will join as ${ROLE_LABELS[role]}.` });
+    } catch (error) {
+      handleError('Error inviting user', error);
+      throw error;
+    }
+  };
+
+  const handleRoleChange = async (target: OrganizationUser, role: OrgRole) => {
+    try {
+      await setUserRole(target.id, role);
+      toast({ title: 'Role updated', description: `${target.email} is now ${ROLE_LABELS[role]}.` });
+    } catch (error) {
+      handleError('Error updating role', error);
+    }
+  };
+
+  const handleToggleActive = async (target: OrganizationUser) => {
+    const activate = target.deactivated;
+    if (!activate && !confirm(`Deactivate ${target.email}? They will be signed out and unable to log in.`)) {
+      return;
+    }
+
+    try {
+      await setUserActive(target.id, activate);
+      toast({ title: activate ? 'User reactivated' : 'User deactivated', description: target.email ?? undefined });
+    } catch (error) {
+      handleError(activate ? 'Error reactivating user' : 'Error deactivating user', error);
+    }
+  };
+
+  const getStatusBadge = (target: OrganizationUser) => {
+    if (target.deactivated) return <Badge variant="destructive">Deactivated</Badge>;
+    if (!target.lastSignInAt) return <Badge variant="secondary">Invited</Badge>;
+    return <Badge className="bg-status-online text-white">Active</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Users</h1>
+          <p className="text-muted-foreground">
+            Manage who can access {organization?.name ?? 'your organisation'} and what they can do
+          </p>
+        </div>
+        <Button
+          className="bg-primary hover:bg-primary-dark text-primary-foreground"
+          onClick={() => setIsInviteOpen(true)}
+        >
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      {/* Users Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Members ({users.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading users...</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Sign-in</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((member) => {
+                  const isSelf = member.id === user?.id;
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">
+                        {member.email}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => handleRoleChange(member, value as OrgRole)}
+                          disabled={isSelf}
+                        >
+                          <SelectTrigger className="w-[130px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ORG_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>{getStatusBadge(member)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {member.lastSignInAt
+                          ? formatDistanceToNow(new Date(member.lastSignInAt), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={member.deactivated ? undefined : 'text-destructive hover:text-destructive'}
+                            onClick={() => handleToggleActive(member)}
+                          >
+                            {member.deactivated ? (
+                              <>
+                                <UserCheck className="h-4 w-4 mr-1" />
+                                Reactivate
+                              </>
+                            ) : (
+                              <>
+                                <UserX className="h-4 w-4 mr-1" />
+                                Deactivate
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <InviteUserForm open={isInviteOpen} onOpenChange={setIsInviteOpen} onSubmit={handleInvite} />
+    </div>
+  );
+};
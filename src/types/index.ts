@@ -1,4 +1,4 @@
-export type StreamType = 'mjpeg' | 'hls' | 'youtube';
+export type StreamType = 'mjpeg' | 'hls' | 'youtube' | 'rtsp' | 'webrtc';
 
 export interface Camera {
   id: string;
@@ -9,6 +9,98 @@ export interface Camera {
   status: 'online' | 'offline' | 'recording';
   lastSeen: string;
   fps: number;
+  resolution?: string | null; // e.g. 1920x1080, filled in from ONVIF discovery
+  motionDetection?: MotionDetectionSettings | null;
+  privacyMasks?: PrivacyMask[];
+  retention?: RetentionPolicy | null;
+  groupId?: string | null;
+  ptz?: PtzConfig | null;
+  probe?: ProbeConfig | null;
+  lastProbeAt?: string | null;
+  lastProbeError?: string | null;
+  probeFailures?: number;
+  recorderNodeId?: string | null; // Recorder that records this camera server-side (MJPEG)
+  recorderCameraId?: string | null; // The camera's id on that recorder, e.g. cam1
+}
+
+// Login for RTSP cameras; stored server-side and never read back by the browser
+export interface StreamCredentials {
+  username: string;
+  password: string | null; // null keeps the stored password
+}
+
+// ONVIF pan/tilt/zoom, relayed by the ptz-control function
+export interface PtzConfig {
+  enabled: boolean;
+  protocol: 'onvif';
+  endpoint: string; // ONVIF PTZ service URL, e.g. http://192.168.1.64/onvif/ptz_service
+  profileToken: string; // Media profile the PTZ node is attached to
+  credentials: 'stream' | 'none'; // 'stream' uses the camera's stored RTSP login
+}
+
+// Server-side reachability checks by the camera-prober function
+export interface ProbeConfig {
+  enabled: boolean;
+  intervalSeconds: number;
+  failureThreshold: number; // consecutive failed probes before the camera goes offline
+  timeoutSeconds: number;
+}
+
+// A Raspberry Pi (or other) recorder exposing the /recording/* and /recordings/* API
+export interface RecorderNode {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKeySecret: string; // Edge function secret with the node's API key (RPI_API_KEY*)
+  enabled: boolean;
+  status: 'unknown' | 'online' | 'offline';
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  lastStatusCode: number | null; // HTTP status of the last failed check (530: tunnel down)
+  lastOnlineAt: string | null;
+  recordingCameras: string[]; // Recorder camera ids currently recording
+  diskFreeBytes: number | null;
+  diskTotalBytes: number | null;
+}
+
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+export interface CameraGroup {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  days: number | null; // Delete recordings older than this; null = no age limit
+  maxTotalGb: number | null; // Delete oldest recordings above this total; null = no size limit
+  keepIfBackedUp: boolean; // Never purge recordings backed up to Google Drive
+}
+
+export interface PrivacyMask {
+  id: string;
+  // Polygon vertices normalized to 0-1 relative to the frame
+  points: { x: number; y: number }[];
+}
+
+export interface MotionDetectionSettings {
+  enabled: boolean;
+  sensitivity: number; // 1-100, higher reacts to smaller pixel changes
+  minAreaPercent: number; // % of the frame that must change to count as motion
+  prePaddingSeconds: number;
+  postPaddingSeconds: number;
+}
+
+export interface MotionBoundingBox {
+  // Normalized to 0-1 relative to the frame
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface MonitoringRecord {
@@ -25,6 +117,190 @@ export interface MonitoringRecord {
   recordedAt?: string; // ISO date string
   cloudBackupUrl?: string | null;
   backedUpAt?: string | null;
+  isProtected?: boolean; // Exempt from retention purge
+  source?: 'browser' | 'rpi'; // rpi: listed on a recorder node by recording-sync
+  remoteFilename?: string | null;
+  importedAt?: string | null; // When an rpi file was copied into Storage
+}
+
+export interface MotionEventRecord {
+  id: string;
+  cameraId: string;
+  cameraName: string;
+  recordingId: string | null;
+  source: 'browser' | 'rpi';
+  startedAt: string; // ISO date string
+  endedAt: string | null;
+  peakScore: number | null; // % of frame changed
+  boundingBox: MotionBoundingBox | null;
+  snapshotPath: string | null;
+}
+
+export type ScheduleMode = 'continuous' | 'motion';
+
+export interface RecordingSchedule {
+  id: string;
+  cameraId: string;
+  name: string;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:MM in the schedule timezone
+  endTime: string; // HH:MM, earlier than startTime for overnight windows
+  timezone: string; // IANA timezone, e.g. "Asia/Jakarta"
+  mode: ScheduleMode;
+  enabled: boolean;
+  activeSince: string | null; // Set while the scheduler keeps a recording running
+  lastError: string | null;
+}
+
+export type OrgRole = 'viewer' | 'operator' | 'admin';
+
+export interface Organization {
+  id: string;
+  name: string;
+}
+
+export interface OrganizationUser {
+  id: string;
+  email: string | null;
+  role: OrgRole;
+  joinedAt: string;
+  invitedAt: string | null;
+  lastSignInAt: string | null; // null until an invited user accepts
+  deactivated: boolean;
+}
+
+export interface AuditEntry {
+  id: string;
+  actorId: string | null; // null for system jobs (scheduler, purge)
+  actorEmail: string | null;
+  action: string; // e.g. recording.start, camera.update
+  cameraId: string | null;
+  targetType: 'camera' | 'recording' | 'device_key';
+  targetId: string | null;
+  diff: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+// What a stream player actually measured; null where the player cannot tell
+export interface StreamMetrics {
+  fps: number | null;
+  width: number | null;
+  height: number | null;
+  bitrateKbps: number | null;
+  latencyMs: number | null;
+  timeToFirstFrameMs: number | null;
+}
+
+export interface CameraMetricsSample extends StreamMetrics {
+  id: string;
+  cameraId: string;
+  recordedAt: string;
+}
+
+export interface CameraStatusChange {
+  cameraId: string;
+  status: Camera['status'];
+  changedAt: string;
+}
+
+export type AlertEventType = 'camera_offline' | 'camera_online' | 'recording_started' | 'recording_stopped';
+
+export type AlertChannel = 'webhook' | 'email' | 'telegram';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  eventType: AlertEventType;
+  cameraIds: string[]; // Empty applies the rule to every camera in the organisation
+  channel: AlertChannel;
+  target: string; // Webhook URL, email address or Telegram chat id
+  quietStart: string | null; // HH:MM; no alerts are sent between quietStart and quietEnd
+  quietEnd: string | null;
+  timezone: string;
+  throttleMinutes: number; // Minimum gap between alerts for the same rule and camera
+  enabled: boolean;
+}
+
+export interface AlertDelivery {
+  id: string;
+  ruleId: string | null;
+  cameraId: string | null;
+  eventType: AlertEventType;
+  channel: AlertChannel;
+  status: 'sent' | 'failed' | 'throttled' | 'suppressed';
+  error: string | null;
+  test: boolean;
+  createdAt: string;
+}
+
+export type NotificationType = 'camera_offline' | 'camera_online' | 'recording_started' | 'recording_stopped';
+
+// Events operators can receive as OS-level push notifications
+export type PushEventType = 'camera_offline' | 'motion_detected' | 'recording_failed';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  description: string;
+  cameraId: string | null;
+  createdAt: string;
+  readAt: string | null; // Per user
+  resolvedAt: string | null; // Offline incidents: when the camera came back
+  // Shared by everyone who received the incident
+  acknowledgedAt: string | null;
+  acknowledgedByEmail: string | null;
+  ackComment: string | null;
+}
+
+export interface DiscoveredCameraProfile {
+  token: string;
+  name: string | null;
+  encoding: string | null;
+  streamUri: string | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+}
+
+// A camera reported by the ONVIF discovery agent that has not been added yet
+export interface DiscoveredCamera {
+  id: string;
+  address: string;
+  manufacturer: string | null;
+  model: string | null;
+  name: string | null;
+  location: string | null;
+  streamUri: string | null;
+  resolution: string | null;
+  fps: number | null;
+  profiles: DiscoveredCameraProfile[];
+  error: string | null;
+  agent: string | null;
+  lastSeenAt: string;
+}
+
+// Latest self-report from a device using a key (device-status function)
+export interface DeviceStatus {
+  hostname: string | null;
+  diskTotalBytes: number | null;
+  diskFreeBytes: number | null;
+  temperatureC: number | null;
+  uptimeSeconds: number | null;
+  reportedAt: string;
+}
+
+// Lets a camera or Raspberry Pi call camera-ping / device-status without a user session
+export interface DeviceApiKey {
+  id: string;
+  name: string;
+  cameraId: string | null; // null: any camera in the organisation
+  keyPrefix: string; // The key itself is only shown when created or rotated
+  createdAt: string;
+  rotatedAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  status: DeviceStatus | null;
 }
 
 export interface User {
@@ -40,4 +316,13 @@ export interface DashboardStats {
   onlineCameras: number;
   offlineCameras: number;
   recordingCameras: number;
+}
+
+export interface GroupStats {
+  groupId: string | null; // null for ungrouped cameras
+  name: string;
+  totalCameras: number;
+  onlineCameras: number;
+  offlineCameras: number;
+  recordingCameras: number;
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+export type AlertEvent = {
+  camera_id: string
+  event_type: string
+  occurred_at?: string
+  details?: Record<string, unknown>
+}
+
+// Hand events to alert-dispatcher; alerting problems must never fail the caller
+export async function dispatchAlerts(supabaseUrl: string, serviceKey: string, events: AlertEvent[]) {
+  if (events.length === 0) return
+  try {
+    await fetch(`${supabaseUrl}/functions/v1/alert-dispatcher`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+    })
+  } catch (error) {
+    console.error('Failed to dispatch alerts:', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
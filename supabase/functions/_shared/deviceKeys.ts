@@ -0,0 +1,6 @@
+// Device keys are stored as SHA-256 hex (see create_device_api_key); lookups go by hash,
+// so the presented key is never compared as a string
+export async function hashDeviceKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,8 @@
+// JSON response helper bound to a function's own CORS headers
+export function createJsonResponse(corsHeaders: Record<string, string>) {
+  return (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+}
@@ -0,0 +1,6 @@
+// Same rule as isProbedServerSide in src/lib/probe.ts: camera-prober owns these cameras' status,
+// browser and device heartbeats only carry their metrics. Probing is opt-in, so NULL means heartbeats
+export function isProbedServerSide(camera: { stream_type: string | null; probe: unknown }) {
+  const probe = (camera.probe || {}) as { enabled?: boolean }
+  return camera.stream_type !== 'youtube' && probe.enabled === true
+}
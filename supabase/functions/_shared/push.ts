@@ -0,0 +1,15 @@
+export type PushEvent = { camera_id: string; event_type: string; title: string; body: string }
+
+// Hand events to push-sender for operators' browsers; failures must never fail the caller
+export async function sendPush(supabaseUrl: string, serviceKey: string, events: PushEvent[]) {
+  if (events.length === 0) return
+  try {
+    await fetch(`${supabaseUrl}/functions/v1/push-sender`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+    })
+  } catch (error) {
+    console.error('Failed to send push notifications:', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
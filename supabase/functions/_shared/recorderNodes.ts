@@ -0,0 +1,59 @@
+// Same rule as the api_key_secret check on recorder_nodes: nodes may only name recorder keys
+const RECORDER_SECRET_PATTERN = /^RPI_API_KEY(_[A-Z0-9_]+)?$/
+
+export interface RecorderNodeKeyFields {
+  organization_id: string
+  base_url: string
+  api_key_secret: string
+}
+
+interface KeyBinding {
+  origin: string
+  organization_id: string
+}
+
+// recorder_nodes is edited by organisation admins, so a node's row alone can't be trusted with a key:
+// RECORDER_KEY_BINDINGS (set by the deployment owner) names the one origin and organisation each
+// key secret may be used for, e.g. {"RPI_API_KEY": {"origin": "https://api.cctvgreen.site", "organization_id": "..."}}
+function keyBindings(): Record<string, KeyBinding> {
+  try {
+    return JSON.parse(Deno.env.get('RECORDER_KEY_BINDINGS') || '{}')
+  } catch {
+    console.error('RECORDER_KEY_BINDINGS is not valid JSON')
+    return {}
+  }
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin
+  } catch {
+    return null
+  }
+}
+
+export function isKeyBoundToNode(node: RecorderNodeKeyFields): boolean {
+  if (!RECORDER_SECRET_PATTERN.test(node.api_key_secret)) return false
+  const binding = keyBindings()[node.api_key_secret]
+  const origin = binding ? originOf(binding.origin) : null
+  return !!origin && origin === originOf(node.base_url) && binding.organization_id === node.organization_id
+}
+
+// Base URL and API key to call a node with for a camera of organizationId; checked before anything
+// is sent to the node. The key binding is checked against the node, so the camera must share its org
+export function resolveRecorderAccess(
+  node: RecorderNodeKeyFields,
+  organizationId: string | null
+): { baseUrl: string; apiKey: string; error?: undefined } | { error: string } {
+  if (node.organization_id !== organizationId) {
+    return { error: 'Recorder node belongs to another organisation' }
+  }
+  if (!isKeyBoundToNode(node)) {
+    return { error: `${node.api_key_secret} is not bound to ${node.base_url} in RECORDER_KEY_BINDINGS` }
+  }
+  const apiKey = Deno.env.get(node.api_key_secret)
+  if (!apiKey) {
+    return { error: `${node.api_key_secret} not configured` }
+  }
+  return { baseUrl: node.base_url.replace(/\/+$/, ''), apiKey }
+}
@@ -0,0 +1,371 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+const eventTypeSchema = z.enum(['camera_offline', 'camera_online', 'recording_started', 'recording_stopped'])
+
+const requestSchema = z.union([
+  // Producers (heartbeat checker, camera-ping, recording functions) call in with the service role key
+  z.object({
+    events: z.array(z.object({
+      camera_id: z.string().uuid(),
+      event_type: eventTypeSchema,
+      occurred_at: z.string().datetime({ offset: true }).optional(),
+      details: z.record(z.unknown()).optional(),
+    })).min(1).max(100),
+  }),
+  // Admins send a test alert from the Alerts page
+  z.object({ action: z.literal('test'), rule_id: z.string().uuid() }),
+])
+
+type EventType = z.infer<typeof eventTypeSchema>
+
+interface AlertRule {
+  id: string
+  organization_id: string
+  name: string
+  event_type: EventType
+  camera_ids: string[]
+  channel: 'webhook' | 'email' | 'telegram'
+  target: string
+  quiet_start: string | null
+  quiet_end: string | null
+  timezone: string
+  throttle_minutes: number
+}
+
+interface CameraRow {
+  id: string
+  name: string
+  location: string
+  organization_id: string | null
+}
+
+interface AlertPayload {
+  event_type: EventType
+  occurred_at: string
+  camera: { id: string; name: string; location: string }
+  rule: { id: string; name: string }
+  details?: Record<string, unknown>
+  test?: boolean
+}
+
+const EVENT_TEXT: Record<EventType, string> = {
+  camera_offline: 'went offline',
+  camera_online: 'is back online',
+  recording_started: 'started recording',
+  recording_stopped: 'stopped recording',
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+// Minutes since midnight of `now` in the rule's timezone
+function getLocalMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0)
+  return get('hour') * 60 + get('minute')
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+// Quiet hours may cross midnight (e.g. 22:00–06:00)
+function isQuietTime(rule: AlertRule, now: Date): boolean {
+  if (!rule.quiet_start || !rule.quiet_end) return false
+
+  let minutes: number
+  try {
+    minutes = getLocalMinutes(now, rule.timezone)
+  } catch {
+    console.error(`[alert-dispatcher] Invalid timezone for rule ${rule.id}: ${rule.timezone}`)
+    return false
+  }
+
+  const start = toMinutes(rule.quiet_start)
+  const end = toMinutes(rule.quiet_end)
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+function formatMessage(payload: AlertPayload): string {
+  const prefix = payload.test ? '[TEST] ' : ''
+  const when = new Date(payload.occurred_at).toISOString().replace('T', ' ').slice(0, 19)
+  return `${prefix}Camera "${payload.camera.name}" (${payload.camera.location}) ${EVENT_TEXT[payload.event_type]} at ${when} UTC.`
+}
+
+async function sendWebhook(url: string, payload: AlertPayload) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'cctv-alert-dispatcher' },
+    body: JSON.stringify({ ...payload, message: formatMessage(payload) }),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status}`)
+  }
+}
+
+async function sendEmail(to: string, payload: AlertPayload) {
+  const hostname = Deno.env.get('SMTP_HOST')
+  const from = Deno.env.get('SMTP_FROM')
+  if (!hostname || !from) {
+    throw new Error('SMTP_HOST / SMTP_FROM not configured')
+  }
+
+  const username = Deno.env.get('SMTP_USERNAME')
+  const password = Deno.env.get('SMTP_PASSWORD')
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') || 587),
+      tls: Deno.env.get('SMTP_TLS') !== 'false',
+      ...(username && password ? { auth: { username, password } } : {}),
+    },
+  })
+
+  try {
+    await client.send({
+      from,
+      to,
+      subject: `${payload.test ? '[TEST] ' : ''}CCTV alert: ${payload.camera.name} ${EVENT_TEXT[payload.event_type]}`,
+      content: formatMessage(payload),
+    })
+  } finally {
+    await client.close()
+  }
+}
+
+async function sendTelegram(chatId: string, payload: AlertPayload) {
+  const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN')
+  if (!botToken) {
+    throw new Error('TELEGRAM_BOT_TOKEN not configured')
+  }
+
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text: formatMessage(payload) }),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(`Telegram responded ${response.status}${body?.description ? `: ${body.description}` : ''}`)
+  }
+}
+
+async function deliver(rule: AlertRule, payload: AlertPayload) {
+  switch (rule.channel) {
+    case 'webhook':
+      return sendWebhook(rule.target, payload)
+    case 'email':
+      return sendEmail(rule.target, payload)
+    case 'telegram':
+      return sendTelegram(rule.target, payload)
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+    const token = authHeader.replace('Bearer ', '')
+    const isService = token === supabaseServiceKey
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const validationResult = requestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return jsonResponse({
+        success: false,
+        error: 'Invalid input',
+        details: validationResult.error.issues.map(i => i.message),
+      }, 400)
+    }
+
+    const request = validationResult.data
+    const now = new Date()
+
+    const logDelivery = async (
+      rule: AlertRule,
+      cameraId: string | null,
+      status: 'sent' | 'failed' | 'throttled' | 'suppressed',
+      payload: AlertPayload,
+      error: string | null = null
+    ) => {
+      await supabase.from('alert_deliveries').insert({
+        organization_id: rule.organization_id,
+        rule_id: rule.id,
+        camera_id: cameraId,
+        event_type: payload.event_type,
+        channel: rule.channel,
+        status,
+        error,
+        payload,
+      })
+    }
+
+    const sendAndLog = async (rule: AlertRule, cameraId: string | null, payload: AlertPayload) => {
+      try {
+        await deliver(rule, payload)
+        await logDelivery(rule, cameraId, 'sent', payload)
+        return true
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`[alert-dispatcher] ${rule.channel} delivery failed for rule ${rule.id}: ${message}`)
+        await logDelivery(rule, cameraId, 'failed', payload, message)
+        return false
+      }
+    }
+
+    if ('action' in request) {
+      // Test alerts come from the UI: admins only, and quiet hours / throttling don't apply
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Invalid token' }, 401)
+      }
+
+      const { data: rule } = await supabase.from('alert_rules').select('*').eq('id', request.rule_id).maybeSingle()
+      const { data: isAdmin } = rule
+        ? await supabase.rpc('has_org_role', { _user_id: user.id, _organization_id: rule.organization_id, _role: 'admin' })
+        : { data: false }
+
+      if (!rule || !isAdmin) {
+        return jsonResponse({ success: false, error: 'Alert rule not found' }, 404)
+      }
+
+      const { data: camera } = await supabase
+        .from('cameras')
+        .select('id, name, location')
+        .eq('organization_id', rule.organization_id)
+        .limit(1)
+        .maybeSingle()
+
+      const payload: AlertPayload = {
+        event_type: rule.event_type,
+        occurred_at: now.toISOString(),
+        camera: camera ?? { id: '00000000-0000-0000-0000-000000000000', name: 'Test camera', location: 'Test location' },
+        rule: { id: rule.id, name: rule.name },
+        test: true,
+      }
+
+      const sent = await sendAndLog(rule as AlertRule, camera?.id ?? null, payload)
+      return jsonResponse(sent ? { success: true } : { success: false, error: 'Delivery failed, see the delivery log' })
+    }
+
+    if (!isService) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    let sent = 0
+    let skipped = 0
+    let failed = 0
+
+    for (const event of request.events) {
+      const { data: camera } = await supabase
+        .from('cameras')
+        .select('id, name, location, organization_id')
+        .eq('id', event.camera_id)
+        .maybeSingle<CameraRow>()
+
+      if (!camera?.organization_id) continue
+
+      const { data: rules, error: rulesError } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('organization_id', camera.organization_id)
+        .eq('event_type', event.event_type)
+        .eq('enabled', true)
+
+      if (rulesError) {
+        console.error('[alert-dispatcher] Error fetching rules:', rulesError)
+        continue
+      }
+
+      for (const rule of (rules || []) as AlertRule[]) {
+        if (rule.camera_ids.length > 0 && !rule.camera_ids.includes(camera.id)) continue
+
+        const payload: AlertPayload = {
+          event_type: event.event_type,
+          occurred_at: event.occurred_at ?? now.toISOString(),
+          camera: { id: camera.id, name: camera.name, location: camera.location },
+          rule: { id: rule.id, name: rule.name },
+          ...(event.details ? { details: event.details } : {}),
+        }
+
+        if (isQuietTime(rule, now)) {
+          await logDelivery(rule, camera.id, 'suppressed', payload)
+          skipped++
+          continue
+        }
+
+        // Throttle per rule and camera so a flapping camera doesn't flood the channel
+        if (rule.throttle_minutes > 0) {
+          const since = new Date(now.getTime() - rule.throttle_minutes * 60 * 1000).toISOString()
+          const { count } = await supabase
+            .from('alert_deliveries')
+            .select('id', { count: 'exact', head: true })
+            .eq('rule_id', rule.id)
+            .eq('camera_id', camera.id)
+            .eq('status', 'sent')
+            .gte('created_at', since)
+
+          if ((count ?? 0) > 0) {
+            await logDelivery(rule, camera.id, 'throttled', payload)
+            skipped++
+            continue
+          }
+        }
+
+        if (await sendAndLog(rule, camera.id, payload)) {
+          sent++
+        } else {
+          failed++
+        }
+      }
+    }
+
+    console.log(`[alert-dispatcher] ${request.events.length} event(s): ${sent} sent, ${skipped} skipped, ${failed} failed`)
+    return jsonResponse({ success: true, sent, skipped, failed })
+  } catch (error) {
+    console.error('[alert-dispatcher] Error:', error)
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
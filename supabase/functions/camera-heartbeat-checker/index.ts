@@ -1,4 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { dispatchAlerts } from '../_shared/alerts.ts';
+import { sendPush } from '../_shared/push.ts';
+import { isProbedServerSide } from '../_shared/probe.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -51,11 +54,13 @@ Deno.serve(async (req) => {
 
     console.log('Starting heartbeat check...');
 
-    // Fetch only cameras belonging to the authenticated user
+    // Fetch only cameras belonging to the authenticated user's organisation
+    const { data: organizationId } = await supabase.rpc('user_organization_id', { _user_id: user.id });
+
     const { data: cameras, error: fetchError } = await supabase
       .from('cameras')
       .select('*')
-      .eq('user_id', user.id);
+      .eq('organization_id', organizationId);
 
     if (fetchError) {
       console.error('Error fetching cameras:', fetchError);
@@ -71,9 +76,12 @@ Deno.serve(async (req) => {
     }
 
     let offlineCount = 0;
+    const offlineEvents: { camera_id: string; event_type: string; occurred_at: string }[] = [];
 
     // Check each camera's last_ping
     for (const camera of cameras) {
+      if (isProbedServerSide(camera)) continue;
+
       const lastPingTime = camera.last_ping ? new Date(camera.last_ping).getTime() : 0;
       const timeDifference = now - lastPingTime;
 
@@ -83,20 +91,33 @@ Deno.serve(async (req) => {
       if (timeDifference > threshold && camera.status !== 'offline') {
         console.log(`Marking camera ${camera.name} as offline (no heartbeat for ${Math.round(timeDifference / 1000)}s)`);
         
+        // The transition is recorded in camera_status_history by trigger
         const { error: updateError } = await supabase
           .from('cameras')
           .update({ status: 'offline' })
           .eq('id', camera.id)
-          .eq('user_id', user.id); // Extra safety check
+          .eq('organization_id', organizationId); // Extra safety check
 
         if (updateError) {
           console.error(`Error updating camera ${camera.id}:`, updateError);
         } else {
           offlineCount++;
+          offlineEvents.push({ camera_id: camera.id, event_type: 'camera_offline', occurred_at: new Date().toISOString() });
         }
       }
     }
 
+    await dispatchAlerts(supabaseUrl, supabaseServiceKey, offlineEvents);
+    await sendPush(supabaseUrl, supabaseServiceKey, offlineEvents.map((event) => {
+      const camera = cameras.find((c) => c.id === event.camera_id);
+      return {
+        camera_id: event.camera_id,
+        event_type: 'camera_offline',
+        title: 'Camera Offline',
+        body: `${camera?.name} at ${camera?.location} is disconnected`,
+      };
+    }));
+
     console.log(`Heartbeat check complete. Marked ${offlineCount} cameras as offline.`);
 
     return new Response(
@@ -1,14 +1,28 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { dispatchAlerts } from '../_shared/alerts.ts';
+import { isProbedServerSide } from '../_shared/probe.ts';
+import { hashDeviceKey } from '../_shared/deviceKeys.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-key',
 };
 
 // Input validation schema
+// Player measurements, sent with some pings (see reportMetrics in cameraHeartbeat.ts)
+const metricsSchema = z.object({
+  fps: z.number().min(0).max(240).nullable(),
+  width: z.number().int().positive().max(16384).nullable(),
+  height: z.number().int().positive().max(16384).nullable(),
+  bitrate_kbps: z.number().int().min(0).max(1000000).nullable(),
+  latency_ms: z.number().int().min(0).max(600000).nullable(),
+  time_to_first_frame_ms: z.number().int().min(0).max(600000).nullable(),
+});
+
 const cameraPingSchema = z.object({
-  camera_id: z.string().uuid('Invalid camera ID format')
+  camera_id: z.string().uuid('Invalid camera ID format'),
+  metrics: metricsSchema.optional(),
 });
 
 // Retry helper for transient network errors
@@ -49,37 +63,66 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Authentication check
+    // Authentication: a device API key (cameras, Raspberry Pi) or a user session
+    const deviceKey = req.headers.get('X-Device-Key');
     const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      console.log('Missing authorization header');
-      return new Response(
-        JSON.stringify({ 
-          success: false,
-          error: 'Missing authorization header' 
-        }),
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
+    let user: { id: string } | null = null;
+    let device: { id: string; organization_id: string; camera_id: string | null } | null = null;
 
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
-    
-    if (authError || !user) {
-      console.log('Unauthorized user:', authError?.message);
-      return new Response(
-        JSON.stringify({ 
-          success: false,
-          error: 'Unauthorized' 
-        }),
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    if (deviceKey) {
+      const { data: keyRow } = await supabase
+        .from('device_api_keys')
+        .select('id, organization_id, camera_id')
+        .eq('key_hash', await hashDeviceKey(deviceKey))
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (!keyRow) {
+        console.log('Unknown or revoked device key');
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: 'Invalid device key' 
+          }),
+          { 
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      device = keyRow;
+    } else {
+      if (!authHeader) {
+        console.log('Missing authorization header');
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: 'Missing authorization header' 
+          }),
+          { 
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user: sessionUser }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !sessionUser) {
+        console.log('Unauthorized user:', authError?.message);
+        return new Response(
+          JSON.stringify({ 
+            success: false,
+            error: 'Unauthorized' 
+          }),
+          { 
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      user = sessionUser;
     }
 
     // Parse and validate request body
@@ -114,14 +157,14 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { camera_id } = validationResult.data;
+    const { camera_id, metrics } = validationResult.data;
 
-    console.log(`Received ping from user: ${user.id} for camera: ${camera_id}`);
+    console.log(`Received ping from ${device ? `device key ${device.id}` : `user ${user?.id}`} for camera: ${camera_id}`);
 
-    // Verify camera exists and check ownership
+    // Verify camera exists and check membership
     const { data: camera, error: cameraError } = await supabase
       .from('cameras')
-      .select('id, user_id')
+      .select('id, status, stream_type, probe, organization_id')
       .eq('id', camera_id)
       .single();
 
@@ -139,9 +182,24 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Verify ownership
-    if (camera.user_id !== user.id) {
-      console.log(`Unauthorized: user ${user.id} trying to ping camera owned by ${camera.user_id}`);
+    // A device key pings its own camera, or any camera of its organisation when not bound to one;
+    // a user must be a member of the camera's organisation
+    let allowed = false;
+    if (device) {
+      allowed = device.camera_id
+        ? device.camera_id === camera_id
+        : device.organization_id === camera.organization_id;
+    } else if (user) {
+      const { data: isMember } = await supabase.rpc('has_camera_role', {
+        _user_id: user.id,
+        _camera_id: camera_id,
+        _role: 'viewer',
+      });
+      allowed = !!isMember;
+    }
+
+    if (!allowed) {
+      console.log(`Unauthorized: ${device ? `device key ${device.id}` : `user ${user?.id}`} may not ping camera ${camera_id}`);
       return new Response(
         JSON.stringify({ 
           success: false,
@@ -154,8 +212,17 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (device) {
+      await supabase
+        .from('device_api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', device.id);
+    }
+
+    const serverProbed = isProbedServerSide(camera);
+
     // Update camera's last_ping and set status to online with retry logic
-    const { error: updateError } = await retryWithBackoff(async () => {
+    const { error: updateError } = serverProbed ? { error: null } : await retryWithBackoff(async () => {
       return await supabase
         .from('cameras')
         .update({
@@ -179,12 +246,30 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`Successfully updated ping for camera: ${camera_id}`);
+    console.log(serverProbed
+      ? `Ping for server-probed camera ${camera_id}: status left to camera-prober`
+      : `Successfully updated ping for camera: ${camera_id}`);
+
+    // Metrics are best effort; a failed insert must not turn a good ping into an error
+    if (metrics) {
+      const { error: metricsError } = await supabase
+        .from('camera_metrics')
+        .insert({ camera_id, reported_by: user?.id ?? null, ...metrics });
+
+      if (metricsError) {
+        console.error('Error storing camera metrics:', metricsError);
+      }
+    }
+
+    if (!serverProbed && camera.status === 'offline') {
+      await dispatchAlerts(supabaseUrl, supabaseServiceKey, [{ camera_id, event_type: 'camera_online' }]);
+    }
 
     return new Response(
       JSON.stringify({ 
         success: true,
-        message: 'Ping received',
+        message: serverProbed ? 'Ping received; status is set by server-side probing' : 'Ping received',
+        server_probed: serverProbed,
         timestamp: new Date().toISOString()
       }),
       { 
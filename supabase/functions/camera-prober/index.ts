@@ -0,0 +1,366 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchAlerts } from '../_shared/alerts.ts'
+import { sendPush } from '../_shared/push.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Same defaults as DEFAULT_PROBE_CONFIG in src/lib/probe.ts
+const DEFAULT_PROBE: ProbeConfig = {
+  enabled: false,
+  intervalSeconds: 60,
+  failureThreshold: 3,
+  timeoutSeconds: 10,
+}
+
+// Cameras probed in parallel
+const CONCURRENCY = 10
+// cron fires slightly early or late; don't skip a camera for a few seconds
+const SCHEDULE_SLACK_MS = 5000
+// Give up on an MJPEG response that sends this much without a frame
+const MJPEG_MAX_BYTES = 512 * 1024
+// Stream URLs are admin input; the prober only speaks these protocols
+const PROBE_PROTOCOLS = ['http:', 'https:', 'rtsp:', 'rtsps:']
+
+interface ProbeConfig {
+  enabled: boolean
+  intervalSeconds: number
+  failureThreshold: number
+  timeoutSeconds: number
+}
+
+interface CameraRow {
+  id: string
+  name: string
+  location: string
+  stream_url: string
+  stream_type: string | null
+  status: string
+  probe: Partial<ProbeConfig> | null
+  last_probe_at: string | null
+  probe_failures: number
+}
+
+type AlertEvent = { camera_id: string; event_type: string; occurred_at: string }
+
+// A failure the prober describes itself; anything else is stored as a generic class so
+// last_probe_error never echoes network error text from the edge back to the admin
+class ProbeFailure extends Error {}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null
+  return parts.map(Number)
+}
+
+function isPublicIPv4([a, b]: number[]) {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  )
+}
+
+function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address)
+  if (ipv4) return isPublicIPv4(ipv4)
+
+  const ipv6 = address.toLowerCase().replace(/^\[|\]$/g, '')
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1]
+  if (mapped) return isPublicIPv4(parseIPv4(mapped) ?? [0])
+  return !(
+    ipv6 === '::' ||
+    ipv6 === '::1' ||
+    ipv6.startsWith('::ffff:') ||
+    /^f[cd]/.test(ipv6) ||
+    /^fe[89ab]/.test(ipv6) ||
+    ipv6.startsWith('ff')
+  )
+}
+
+// Only public http(s)/rtsp(s) hosts; returns an address the URL's host resolves to
+async function resolveProbeTarget(url: string): Promise<{ target: URL; address: string }> {
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    throw new ProbeFailure('Invalid stream URL')
+  }
+  if (!PROBE_PROTOCOLS.includes(target.protocol)) throw new ProbeFailure('Unsupported stream protocol')
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  if (parseIPv4(hostname) || hostname.includes(':')) {
+    addresses = [hostname]
+  } else {
+    const lookups = await Promise.all([
+      Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+    ])
+    addresses = lookups.flat()
+  }
+
+  if (addresses.length === 0) throw new ProbeFailure('Host not found')
+  if (!addresses.every(isPublicAddress)) throw new ProbeFailure('Private or local address not allowed')
+  return { target, address: addresses[0] }
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+const JPEG_START = new Uint8Array([0xff, 0xd8, 0xff])
+
+// Read until the first multipart boundary followed by a JPEG frame
+async function probeMjpeg(url: string, signal: AbortSignal) {
+  const response = await fetch(url, { signal, redirect: 'manual' })
+  if (!response.ok || !response.body) {
+    await response.body?.cancel()
+    throw new ProbeFailure(`HTTP ${response.status}`)
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  const boundaryParam = contentType.match(/boundary="?([^";]+)"?/i)?.[1]
+  const boundary = boundaryParam ? new TextEncoder().encode(boundaryParam.replace(/^--/, '')) : null
+
+  const reader = response.body.getReader()
+  let buffer = new Uint8Array(0)
+  try {
+    while (buffer.length < MJPEG_MAX_BYTES) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const next = new Uint8Array(buffer.length + value.length)
+      next.set(buffer)
+      next.set(value, buffer.length)
+      buffer = next
+
+      const frameFrom = boundary ? indexOf(buffer, boundary) : 0
+      if (frameFrom >= 0 && indexOf(buffer, JPEG_START, frameFrom) >= 0) return
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined)
+  }
+
+  throw new ProbeFailure(boundary ? 'No frame received' : 'Not an MJPEG stream')
+}
+
+async function probeHls(url: string, signal: AbortSignal) {
+  const response = await fetch(url, { signal, redirect: 'manual' })
+  const text = await response.text()
+  if (!response.ok) throw new ProbeFailure(`HTTP ${response.status}`)
+  if (!text.trimStart().startsWith('#EXTM3U')) throw new ProbeFailure('Not an HLS playlist')
+}
+
+// WHEP sessions need an SDP offer; an OPTIONS answer shows the endpoint is served
+async function probeWhep(url: string, signal: AbortSignal) {
+  const response = await fetch(url, { method: 'OPTIONS', signal, redirect: 'manual' })
+  await response.body?.cancel()
+  if (response.status === 404 || response.status >= 500) throw new ProbeFailure(`HTTP ${response.status}`)
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string, onLate?: (value: T) => void): Promise<T> {
+  let timer: number | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      promise.then((value) => onLate?.(value)).catch(() => undefined)
+      reject(new ProbeFailure(message))
+    }, ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// RTSP OPTIONS over TCP; any RTSP answer below 500 (401 included) means the camera is up
+async function probeRtsp(target: URL, address: string, timeoutMs: number) {
+  const secure = target.protocol === 'rtsps:'
+  const port = Number(target.port) || (secure ? 322 : 554)
+  // Plain TCP connects to the checked address; TLS needs the hostname for the certificate
+  const connecting = secure
+    ? Deno.connectTls({ hostname: target.hostname, port })
+    : Deno.connect({ hostname: address, port })
+  const conn = await withTimeout<Deno.Conn>(connecting, timeoutMs, 'Connection timed out', (late) => late.close())
+
+  try {
+    target.username = ''
+    target.password = ''
+    const request = `OPTIONS ${target.toString()} RTSP/1.0\r\nCSeq: 1\r\nUser-Agent: camera-prober\r\n\r\n`
+    await conn.write(new TextEncoder().encode(request))
+
+    const buffer = new Uint8Array(1024)
+    const read = await withTimeout(conn.read(buffer), timeoutMs, 'No RTSP response')
+    const statusLine = new TextDecoder().decode(buffer.subarray(0, read ?? 0)).split('\r\n')[0]
+    const status = Number(statusLine.match(/^RTSP\/1\.\d (\d{3})/)?.[1])
+    if (!status) throw new ProbeFailure('Not an RTSP server')
+    if (status >= 500) throw new ProbeFailure(`RTSP ${status}`)
+  } finally {
+    conn.close()
+  }
+}
+
+async function probeCamera(camera: CameraRow, timeoutMs: number) {
+  const streamType = camera.stream_type || 'mjpeg'
+  const { target, address } = await withTimeout(resolveProbeTarget(camera.stream_url), timeoutMs, 'Timed out')
+  const isRtsp = target.protocol === 'rtsp:' || target.protocol === 'rtsps:'
+  if ((streamType === 'rtsp') !== isRtsp) throw new ProbeFailure('Unsupported stream protocol')
+  if (isRtsp) return probeRtsp(target, address, timeoutMs)
+
+  const signal = AbortSignal.timeout(timeoutMs)
+  switch (streamType) {
+    case 'hls':
+      return probeHls(camera.stream_url, signal)
+    case 'webrtc':
+      return probeWhep(camera.stream_url, signal)
+    default:
+      return probeMjpeg(camera.stream_url, signal)
+  }
+}
+
+function describeError(error: unknown) {
+  if (error instanceof ProbeFailure) return error.message
+  if (error instanceof DOMException && error.name === 'TimeoutError') return 'Timed out'
+  return 'Connection failed'
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const cronSecret = Deno.env.get('CRON_SECRET')
+
+    // Only pg_cron (shared secret) may trigger a run
+    if (!cronSecret || req.headers.get('X-Cron-Secret') !== cronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = Date.now()
+
+    const { data: cameras, error: camerasError } = await supabase
+      .from('cameras')
+      .select('id, name, location, stream_url, stream_type, status, probe, last_probe_at, probe_failures')
+
+    if (camerasError) throw camerasError
+
+    // YouTube streams have nothing to probe and keep browser heartbeats
+    const due = ((cameras || []) as CameraRow[])
+      .filter((camera) => camera.stream_type !== 'youtube')
+      .map((camera) => ({ camera, config: { ...DEFAULT_PROBE, ...(camera.probe || {}) } }))
+      .filter(({ camera, config }) => {
+        if (!config.enabled) return false
+        if (!camera.last_probe_at) return true
+        return now - new Date(camera.last_probe_at).getTime() >= config.intervalSeconds * 1000 - SCHEDULE_SLACK_MS
+      })
+
+    const onlineEvents: AlertEvent[] = []
+    const offlineEvents: AlertEvent[] = []
+    let failed = 0
+
+    for (let i = 0; i < due.length; i += CONCURRENCY) {
+      await Promise.all(due.slice(i, i + CONCURRENCY).map(async ({ camera, config }) => {
+        const probedAt = new Date().toISOString()
+
+        try {
+          await probeCamera(camera, config.timeoutSeconds * 1000)
+
+          // A recording camera stays 'recording'; only offline cameras come back online
+          const { error } = await supabase
+            .from('cameras')
+            .update({
+              last_probe_at: probedAt,
+              last_probe_error: null,
+              probe_failures: 0,
+              last_ping: probedAt,
+              ...(camera.status === 'offline' && { status: 'online' }),
+            })
+            .eq('id', camera.id)
+
+          if (error) throw error
+          if (camera.status === 'offline') {
+            onlineEvents.push({ camera_id: camera.id, event_type: 'camera_online', occurred_at: probedAt })
+          }
+        } catch (error) {
+          failed++
+          const message = describeError(error)
+          const failures = (camera.probe_failures || 0) + 1
+          const goesOffline = failures >= config.failureThreshold && camera.status !== 'offline'
+
+          console.log(
+            `[camera-prober] ${camera.name} (${camera.id}) failed ${failures}/${config.failureThreshold}: ${message}`,
+            error instanceof ProbeFailure ? '' : error
+          )
+
+          const { error: updateError } = await supabase
+            .from('cameras')
+            .update({
+              last_probe_at: probedAt,
+              last_probe_error: message,
+              probe_failures: failures,
+              ...(goesOffline && { status: 'offline' }),
+            })
+            .eq('id', camera.id)
+
+          if (updateError) {
+            console.error(`[camera-prober] Error updating camera ${camera.id}:`, updateError)
+          } else if (goesOffline) {
+            offlineEvents.push({ camera_id: camera.id, event_type: 'camera_offline', occurred_at: probedAt })
+          }
+        }
+      }))
+    }
+
+    await dispatchAlerts(supabaseUrl, supabaseServiceKey, [...offlineEvents, ...onlineEvents])
+    await sendPush(supabaseUrl, supabaseServiceKey, offlineEvents.map((event) => {
+      const camera = due.find(({ camera }) => camera.id === event.camera_id)?.camera
+      return {
+        camera_id: event.camera_id,
+        event_type: 'camera_offline',
+        title: 'Camera Offline',
+        body: `${camera?.name} at ${camera?.location} is disconnected`,
+      }
+    }))
+
+    console.log(`[camera-prober] Probed ${due.length} camera(s): ${failed} failed, ${offlineEvents.length} offline, ${onlineEvents.length} back online`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        probed: due.length,
+        failed,
+        markedOffline: offlineEvents.length,
+        markedOnline: onlineEvents.length,
+        timestamp: new Date(now).toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[camera-prober] Error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
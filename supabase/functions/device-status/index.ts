@@ -0,0 +1,147 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { dispatchAlerts } from '../_shared/alerts.ts'
+import { isProbedServerSide } from '../_shared/probe.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+import { hashDeviceKey } from '../_shared/deviceKeys.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-key',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const requestSchema = z.object({
+  hostname: z.string().trim().max(255).nullable().optional(),
+  disk_total_bytes: z.number().int().min(0).nullable().optional(),
+  disk_free_bytes: z.number().int().min(0).nullable().optional(),
+  temperature_c: z.number().min(-100).max(200).nullable().optional(),
+  uptime_seconds: z.number().int().min(0).nullable().optional(),
+  // Cameras this device vouches for; ignored for keys bound to a single camera
+  camera_ids: z.array(z.string().uuid()).max(50).default([]),
+})
+
+interface DeviceKeyRow {
+  id: string
+  organization_id: string
+  camera_id: string | null
+}
+
+interface CameraRow {
+  id: string
+  status: string
+  stream_type: string | null
+  probe: unknown
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const deviceKey = req.headers.get('X-Device-Key')
+    if (!deviceKey) {
+      return jsonResponse({ success: false, error: 'Missing device key' }, 401)
+    }
+
+    const { data: device } = await supabase
+      .from('device_api_keys')
+      .select('id, organization_id, camera_id')
+      .eq('key_hash', await hashDeviceKey(deviceKey))
+      .is('revoked_at', null)
+      .maybeSingle<DeviceKeyRow>()
+
+    if (!device) {
+      return jsonResponse({ success: false, error: 'Invalid device key' }, 401)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const parsed = requestSchema.safeParse(body)
+    if (!parsed.success) {
+      return jsonResponse({ success: false, error: 'Invalid input', details: parsed.error.issues.map((i) => i.message) }, 400)
+    }
+    const report = parsed.data
+    const reportedAt = new Date().toISOString()
+
+    const { error: statusError } = await supabase
+      .from('device_status')
+      .upsert({
+        api_key_id: device.id,
+        organization_id: device.organization_id,
+        hostname: report.hostname ?? null,
+        disk_total_bytes: report.disk_total_bytes ?? null,
+        disk_free_bytes: report.disk_free_bytes ?? null,
+        temperature_c: report.temperature_c ?? null,
+        uptime_seconds: report.uptime_seconds ?? null,
+        reported_at: reportedAt,
+      }, { onConflict: 'api_key_id' })
+
+    if (statusError) throw statusError
+
+    await supabase
+      .from('device_api_keys')
+      .update({ last_used_at: reportedAt })
+      .eq('id', device.id)
+
+    // A report doubles as a heartbeat for the cameras the device serves
+    const cameraIds = device.camera_id ? [device.camera_id] : [...new Set(report.camera_ids)]
+    let pinged = 0
+    let probed: string[] = []
+
+    if (cameraIds.length > 0) {
+      const { data: cameras, error: camerasError } = await supabase
+        .from('cameras')
+        .select('id, status, stream_type, probe')
+        .eq('organization_id', device.organization_id)
+        .in('id', cameraIds)
+
+      if (camerasError) throw camerasError
+
+      // Cameras an admin put on server-side probing keep the prober's status; report them back to the device
+      const heartbeatCameras = ((cameras || []) as CameraRow[]).filter((camera) => !isProbedServerSide(camera))
+      probed = ((cameras || []) as CameraRow[]).filter(isProbedServerSide).map((camera) => camera.id)
+
+      for (const camera of heartbeatCameras) {
+        const { error } = await supabase
+          .from('cameras')
+          .update({ last_ping: reportedAt, ...(camera.status === 'offline' && { status: 'online' }) })
+          .eq('id', camera.id)
+
+        if (error) {
+          console.error(`[device-status] Error updating camera ${camera.id}:`, error)
+        } else {
+          pinged++
+        }
+      }
+
+      await dispatchAlerts(
+        supabaseUrl,
+        supabaseServiceKey,
+        heartbeatCameras
+          .filter((camera) => camera.status === 'offline')
+          .map((camera) => ({ camera_id: camera.id, event_type: 'camera_online', occurred_at: reportedAt }))
+      )
+    }
+
+    console.log(`[device-status] Report from key ${device.id} (${report.hostname || 'unknown host'}), ${pinged} camera(s) pinged, ${probed.length} left to camera-prober`)
+
+    return jsonResponse({ success: true, pinged, probed, timestamp: reportedAt })
+  } catch (error) {
+    console.error('[device-status] Error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -185,10 +185,10 @@ serve(async (req) => {
       });
     }
 
-    // Get recordings - only those the user owns through camera relationship
+    // Get recordings - access is checked per camera below
     const { data: recordings, error: recordingsError } = await supabaseAdmin
       .from('recordings')
-      .select('*, cameras(name, user_id)')
+      .select('*, cameras(name, organization_id)')
       .in('id', recordingIds);
 
     if (recordingsError || !recordings) {
@@ -204,16 +204,22 @@ serve(async (req) => {
     // Process each recording
     for (const recording of recordings) {
       try {
-        // Verify ownership
-        const cameraUserId = (recording.cameras as any)?.user_id;
-        if (cameraUserId !== user.id) {
-          console.log(`Skipping recording ${recording.id}: user ${user.id} doesn't own camera (owner: ${cameraUserId})`);
+        // Backups require at least the operator role in the camera's organisation
+        const { data: canBackup } = await supabaseAdmin.rpc('has_camera_role', {
+          _user_id: user.id,
+          _camera_id: recording.camera_id,
+          _role: 'operator',
+        });
+        if (!canBackup) {
+          console.log(`Skipping recording ${recording.id}: user ${user.id} is not an operator for camera ${recording.camera_id}`);
           results.push({ id: recording.id, success: false, error: 'Not authorized to backup this recording' });
           continue;
         }
 
         if (!recording.file_url) {
-          results.push({ id: recording.id, success: false, error: 'No file URL' });
+          // Recorder files are backed up once imported into storage (recording-sync)
+          const error = recording.source === 'rpi' ? 'Import the recording into storage first' : 'No file URL';
+          results.push({ id: recording.id, success: false, error });
           continue;
         }
 
@@ -277,6 +283,17 @@ serve(async (req) => {
           continue;
         }
 
+        await supabaseAdmin.from('audit_log').insert({
+          organization_id: recording.cameras?.organization_id ?? null,
+          actor_id: user.id,
+          actor_email: user.email,
+          action: 'recording.backup',
+          camera_id: recording.camera_id,
+          target_type: 'recording',
+          target_id: recording.id,
+          diff: { cloud_backup_url: uploadResult.webViewLink },
+        });
+
         console.log('Successfully backed up recording:', recording.id);
         results.push({ id: recording.id, success: true, backupUrl: uploadResult.webViewLink });
 
@@ -1,160 +1,318 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
 };
 
-serve(async (req) => {
+// Stream tokens are short-lived; the player asks for a new one well before expiry
+const TOKEN_TTL_SECONDS = 300;
+
+// Files the gateway writes for a stream: playlists and segments, no paths
+const GATEWAY_FILE_PATTERN = /^[\w.-]+\.(ts|m4s|mp4|m3u8)$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const tokenRequestSchema = z.object({
+  camera_id: z.string().uuid('Invalid camera ID format'),
+});
+
+interface CameraRow {
+  id: string;
+  stream_type: string | null;
+  stream_url: string;
+}
+
+function jsonError(error: string, status: number) {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(secret: string, message: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))));
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Token: "<expiry unix seconds>.<HMAC-SHA256(camera_id.expiry)>", valid for one camera only
+async function createStreamToken(secret: string, cameraId: string) {
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  return { token: `${expiresAt}.${await sign(secret, `${cameraId}.${expiresAt}`)}`, expiresAt };
+}
+
+async function verifyStreamToken(secret: string, cameraId: string, token: string) {
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+  return timingSafeEqual(signature, await sign(secret, `${cameraId}.${expiresAt}`));
+}
+
+function proxyUrl(supabaseUrl: string, cameraId: string, token: string, params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ camera_id: cameraId, token, ...params });
+  return `${supabaseUrl}/functions/v1/hls-proxy?${query}`;
+}
+
+Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const url = new URL(req.url);
-    const targetUrl = url.searchParams.get('url');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const tokenSecret = Deno.env.get('STREAM_TOKEN_SECRET');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    if (!targetUrl) {
-      console.error('[HLS Proxy] Missing url parameter');
-      return new Response(JSON.stringify({ error: 'Missing url parameter' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    if (!tokenSecret) {
+      console.error('[HLS Proxy] STREAM_TOKEN_SECRET not configured');
+      return jsonError('Stream proxy not configured', 503);
     }
 
-    // Build the correct proxy base URL using SUPABASE_URL (not host header which can be edge-runtime.supabase.com)
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://xgxdeudzzbowimdufwjx.supabase.co';
-    const proxyBaseUrl = `${supabaseUrl}/functions/v1/hls-proxy?url=`;
-    
-    console.log(`[HLS Proxy] Using proxyBaseUrl: ${proxyBaseUrl}`);
+    // POST: a signed-in viewer asks for a token for one camera
+    if (req.method === 'POST') {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return jsonError('Missing authorization header', 401);
+      }
 
-    const isManifest = targetUrl.endsWith('.m3u8') || targetUrl.includes('.m3u8');
-    console.log(`[HLS Proxy] ${isManifest ? 'Manifest' : 'Segment'}: ${targetUrl}`);
+      const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+      if (authError || !user) {
+        return jsonError('Unauthorized', 401);
+      }
 
-    // Fetch the HLS content from the original server
-    const response = await fetch(targetUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': '*/*',
-      },
-    });
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return jsonError('Invalid JSON', 400);
+      }
+
+      const parsed = tokenRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return jsonError('Invalid input: camera_id must be a valid UUID', 400);
+      }
+      const { camera_id } = parsed.data;
 
-    if (!response.ok) {
-      console.error(`[HLS Proxy] Upstream error: ${response.status} ${response.statusText}`);
-      return new Response(JSON.stringify({ 
-        error: 'Upstream server error', 
-        status: response.status 
-      }), {
-        status: response.status,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      const { data: canView } = await supabase.rpc('has_camera_role', {
+        _user_id: user.id,
+        _camera_id: camera_id,
+        _role: 'viewer',
       });
+      if (!canView) {
+        return jsonError('Unauthorized to view this camera', 403);
+      }
+
+      const { data: camera } = await supabase
+        .from('cameras')
+        .select('id, stream_type')
+        .eq('id', camera_id)
+        .maybeSingle();
+
+      if (!camera || (camera.stream_type !== 'hls' && camera.stream_type !== 'rtsp')) {
+        return jsonError('Camera not found', 404);
+      }
+
+      const { token, expiresAt } = await createStreamToken(tokenSecret, camera_id);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          token,
+          expires_at: new Date(expiresAt * 1000).toISOString(),
+          url: proxyUrl(supabaseUrl, camera_id, token),
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
-    
-    // Check if this is a manifest file (.m3u8)
-    if (isManifest || contentType.includes('mpegurl') || contentType.includes('m3u8')) {
-      const manifestText = await response.text();
-      
-      // Get the base URL for relative path resolution
-      const baseUrl = targetUrl.substring(0, targetUrl.lastIndexOf('/') + 1);
-      
-      // Rewrite URLs in the manifest to go through the proxy
-      const rewrittenManifest = rewriteManifestUrls(manifestText, baseUrl, proxyBaseUrl);
-      
-      console.log(`[HLS Proxy] Manifest rewritten successfully`);
-      
-      return new Response(rewrittenManifest, {
-        status: 200,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/vnd.apple.mpegurl',
-          'Cache-Control': 'no-cache',
-        },
-      });
+    if (req.method !== 'GET') {
+      return jsonError('Method not allowed', 405);
+    }
+
+    // GET: playlists and segments, authorised by the token alone (hls.js and native players
+    // cannot be relied on to send a session header)
+    const url = new URL(req.url);
+    const cameraId = url.searchParams.get('camera_id') || '';
+    const token = url.searchParams.get('token') || '';
+
+    if (!UUID_PATTERN.test(cameraId)) {
+      return jsonError('Invalid camera', 400);
+    }
+    if (!(await verifyStreamToken(tokenSecret, cameraId, token))) {
+      return jsonError('Invalid or expired stream token', 403);
+    }
+
+    const { data: camera } = await supabase
+      .from('cameras')
+      .select('id, stream_type, stream_url')
+      .eq('id', cameraId)
+      .maybeSingle<CameraRow>();
+
+    if (camera?.stream_type === 'rtsp') {
+      return await proxyGatewayStream(supabaseUrl, camera.id, token, url.searchParams.get('file') || 'index.m3u8');
+    }
+    if (camera?.stream_type === 'hls') {
+      return await proxyCameraStream(supabaseUrl, camera, token, url.searchParams.get('url'));
     }
+    return jsonError('Camera not found', 404);
+  } catch (error) {
+    console.error('[HLS Proxy] Error:', error instanceof Error ? error.message : 'Unknown error');
+    return jsonError('Proxy error', 500);
+  }
+});
+
+// HLS cameras: only the host of the camera's own stream URL is ever fetched
+async function proxyCameraStream(supabaseUrl: string, camera: CameraRow, token: string, requested: string | null): Promise<Response> {
+  let streamOrigin: string;
+  let target: URL;
+  try {
+    streamOrigin = new URL(camera.stream_url).origin;
+    target = new URL(requested || camera.stream_url);
+  } catch {
+    return jsonError('Invalid stream URL', 400);
+  }
+
+  if ((target.protocol !== 'http:' && target.protocol !== 'https:') || target.origin !== streamOrigin) {
+    console.warn(`[HLS Proxy] Rejected upstream ${target.origin} for camera ${camera.id}`);
+    return jsonError('Upstream host not allowed for this camera', 403);
+  }
+
+  // Redirects could lead to another host, so they are not followed
+  const response = await fetch(target, {
+    redirect: 'manual',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept': '*/*',
+    },
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    console.error(`[HLS Proxy] Upstream error for ${camera.id}: ${response.status} ${response.statusText}`);
+    return jsonError('Upstream server error', response.status >= 300 && response.status < 400 ? 502 : response.status);
+  }
 
-    // For segment files (.ts, .aac, etc.), stream the binary content
-    const body = await response.arrayBuffer();
-    
-    console.log(`[HLS Proxy] Segment proxied: ${body.byteLength} bytes`);
-    
-    return new Response(body, {
+  const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
+
+  if (target.pathname.endsWith('.m3u8') || contentType.includes('mpegurl') || contentType.includes('m3u8')) {
+    const manifest = rewriteManifestUrls(await response.text(), target, (absoluteUrl) =>
+      proxyUrl(supabaseUrl, camera.id, token, { url: absoluteUrl })
+    );
+
+    return new Response(manifest, {
       status: 200,
       headers: {
         ...corsHeaders,
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=3600',
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Cache-Control': 'no-cache',
       },
     });
+  }
 
-  } catch (error) {
-    console.error('[HLS Proxy] Error:', error.message);
-    return new Response(JSON.stringify({ 
-      error: 'Proxy error', 
-      message: error.message 
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  // Segments are passed through as a stream rather than buffered
+  return new Response(response.body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': contentType,
+      'Cache-Control': 'private, max-age=60',
+    },
+  });
+}
+
+// RTSP cameras: the gateway address, secret and camera login never reach the browser
+async function proxyGatewayStream(supabaseUrl: string, cameraId: string, token: string, file: string): Promise<Response> {
+  const gatewayUrl = Deno.env.get('RTSP_GATEWAY_URL');
+  const gatewaySecret = Deno.env.get('RTSP_GATEWAY_SECRET');
+
+  if (!gatewayUrl || !gatewaySecret) {
+    console.error('[HLS Proxy] RTSP gateway not configured');
+    return jsonError('RTSP gateway not configured', 503);
+  }
+
+  if (!GATEWAY_FILE_PATTERN.test(file)) {
+    return jsonError('Invalid camera or file', 400);
+  }
+
+  const response = await fetch(`${gatewayUrl.replace(/\/$/, '')}/streams/${cameraId}/${file}`, {
+    headers: { 'X-Gateway-Secret': gatewaySecret },
+  });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    console.error(`[HLS Proxy] Gateway error for ${cameraId}/${file}: ${response.status}`);
+    return jsonError('RTSP gateway error', response.status === 404 ? 404 : 502);
+  }
+
+  if (file.endsWith('.m3u8')) {
+    const manifest = (await response.text())
+      .split('\n')
+      .map((line) => {
+        const trimmedLine = line.trim();
+        if (!trimmedLine || trimmedLine.startsWith('#')) return line;
+        // Anything that is not a plain file name would point outside this camera's folder
+        return GATEWAY_FILE_PATTERN.test(trimmedLine) ? proxyUrl(supabaseUrl, cameraId, token, { file: trimmedLine }) : '';
+      })
+      .join('\n');
+
+    return new Response(manifest, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Cache-Control': 'no-cache',
+      },
     });
   }
-});
 
-function rewriteManifestUrls(manifest: string, baseUrl: string, proxyBaseUrl: string): string {
-  const lines = manifest.split('\n');
-  const rewrittenLines = lines.map(line => {
-    const trimmedLine = line.trim();
-    
-    // Skip empty lines and comments/tags (lines starting with #)
-    if (!trimmedLine || trimmedLine.startsWith('#')) {
-      // But check for URI in EXT-X-KEY or EXT-X-MAP tags
-      if (trimmedLine.includes('URI="')) {
-        return rewriteUriInTag(trimmedLine, baseUrl, proxyBaseUrl);
-      }
-      return line;
-    }
-    
-    // This is a URL line (segment or playlist reference)
-    let absoluteUrl: string;
-    
-    if (trimmedLine.startsWith('http://') || trimmedLine.startsWith('https://')) {
-      // Already absolute URL
-      absoluteUrl = trimmedLine;
-    } else if (trimmedLine.startsWith('/')) {
-      // Absolute path - need to get the origin from baseUrl
-      const urlObj = new URL(baseUrl);
-      absoluteUrl = `${urlObj.origin}${trimmedLine}`;
-    } else {
-      // Relative path
-      absoluteUrl = baseUrl + trimmedLine;
-    }
-    
-    // Encode and proxy the URL
-    return proxyBaseUrl + encodeURIComponent(absoluteUrl);
+  // Segments are passed through as a stream rather than buffered
+  return new Response(response.body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': response.headers.get('Content-Type') || 'video/mp2t',
+      'Cache-Control': 'private, max-age=60',
+    },
   });
-  
-  return rewrittenLines.join('\n');
 }
 
-function rewriteUriInTag(line: string, baseUrl: string, proxyBaseUrl: string): string {
-  // Match URI="..." pattern
-  const uriMatch = line.match(/URI="([^"]+)"/);
-  if (!uriMatch) return line;
-  
-  const originalUri = uriMatch[1];
-  let absoluteUrl: string;
-  
-  if (originalUri.startsWith('http://') || originalUri.startsWith('https://')) {
-    absoluteUrl = originalUri;
-  } else if (originalUri.startsWith('/')) {
-    const urlObj = new URL(baseUrl);
-    absoluteUrl = `${urlObj.origin}${originalUri}`;
-  } else {
-    absoluteUrl = baseUrl + originalUri;
-  }
-  
-  const proxiedUri = proxyBaseUrl + encodeURIComponent(absoluteUrl);
-  return line.replace(/URI="[^"]+"/, `URI="${proxiedUri}"`);
+// Point playlist entries and URI="..." attributes (keys, init segments) back at the proxy.
+// Entries on other hosts are rewritten too and then refused when requested.
+function rewriteManifestUrls(manifest: string, manifestUrl: URL, toProxyUrl: (absoluteUrl: string) => string): string {
+  const resolve = (reference: string) => toProxyUrl(new URL(reference, manifestUrl).toString());
+
+  return manifest
+    .split('\n')
+    .map((line) => {
+      const trimmedLine = line.trim();
+      if (!trimmedLine) return line;
+
+      // Tags: only URI attributes (EXT-X-KEY, EXT-X-MAP, EXT-X-MEDIA) reference files
+      if (trimmedLine.startsWith('#')) {
+        return trimmedLine.replace(/URI="([^"]+)"/g, (_match, uri: string) => `URI="${resolve(uri)}"`);
+      }
+
+      // Segment or variant playlist
+      return resolve(trimmedLine);
+    })
+    .join('\n');
 }
@@ -0,0 +1,198 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Effectively permanent; Supabase has no separate "disabled" flag
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+const roleSchema = z.enum(['viewer', 'operator', 'admin'])
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('list') }),
+  z.object({
+    action: z.literal('invite'),
+    email: z.string().trim().toLowerCase().email('Invalid email address').max(255),
+    role: roleSchema,
+    redirect_to: z.string().url().optional(),
+  }),
+  z.object({ action: z.literal('set_role'), user_id: z.string().uuid(), role: roleSchema }),
+  z.object({ action: z.literal('deactivate'), user_id: z.string().uuid() }),
+  z.object({ action: z.literal('reactivate'), user_id: z.string().uuid() }),
+])
+
+type OrgRole = z.infer<typeof roleSchema>
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+// Keep the global app_role in step with the organisation role (has_role is still used by older policies)
+async function syncAppRole(supabase: ReturnType<typeof createClient>, userId: string, role: OrgRole) {
+  await supabase.from('user_roles').delete().eq('user_id', userId)
+  await supabase.from('user_roles').insert({ user_id: userId, role: role === 'admin' ? 'admin' : 'user' })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid token' }, 401)
+    }
+
+    // Only organisation admins may manage users, and only within their organisation
+    const { data: organizationId } = await supabase.rpc('user_organization_id', { _user_id: user.id })
+    const { data: isAdmin } = organizationId
+      ? await supabase.rpc('has_org_role', { _user_id: user.id, _organization_id: organizationId, _role: 'admin' })
+      : { data: false }
+
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: 'Only organisation admins can manage users' }, 403)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const validationResult = requestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return jsonResponse({
+        success: false,
+        error: 'Invalid input',
+        details: validationResult.error.issues.map(i => i.message),
+      }, 400)
+    }
+
+    const request = validationResult.data
+    console.log(`[manage-users] Action: ${request.action}, Org: ${organizationId}, User: ${user.id}`)
+
+    if (request.action === 'list') {
+      const { data: members, error: membersError } = await supabase
+        .from('organization_members')
+        .select('user_id, role, created_at')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true })
+
+      if (membersError) throw membersError
+
+      const users = []
+      for (const member of members || []) {
+        const { data: { user: account } } = await supabase.auth.admin.getUserById(member.user_id)
+        if (!account) continue
+
+        const bannedUntil = (account as { banned_until?: string | null }).banned_until ?? null
+        users.push({
+          id: account.id,
+          email: account.email ?? null,
+          role: member.role,
+          joined_at: member.created_at,
+          invited_at: account.invited_at ?? null,
+          last_sign_in_at: account.last_sign_in_at ?? null,
+          deactivated: !!bannedUntil && new Date(bannedUntil).getTime() > Date.now(),
+        })
+      }
+
+      return jsonResponse({ success: true, users })
+    }
+
+    if (request.action === 'invite') {
+      // The sign-up trigger consumes this row and adds the new account to the organisation
+      const { error: inviteRowError } = await supabase.from('organization_invites').upsert({
+        organization_id: organizationId,
+        email: request.email,
+        role: request.role,
+        invited_by: user.id,
+      }, { onConflict: 'email' })
+
+      if (inviteRowError) throw inviteRowError
+
+      const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(request.email, {
+        redirectTo: request.redirect_to,
+      })
+
+      if (inviteError || !invited.user) {
+        await supabase.from('organization_invites').delete().eq('email', request.email)
+        const alreadyExists = inviteError?.message?.toLowerCase().includes('already')
+        console.error(`[manage-users] Invite failed for ${request.email}:`, inviteError)
+        return jsonResponse({
+          success: false,
+          error: alreadyExists ? 'This email already has an account' : inviteError?.message || 'Invite failed',
+        }, alreadyExists ? 409 : 500)
+      }
+
+      await syncAppRole(supabase, invited.user.id, request.role)
+
+      console.log(`[manage-users] Invited ${request.email} as ${request.role}`)
+      return jsonResponse({ success: true, user_id: invited.user.id })
+    }
+
+    // Remaining actions target an existing member; admins can't lock themselves out
+    if (request.user_id === user.id) {
+      return jsonResponse({ success: false, error: 'You cannot change your own account' }, 400)
+    }
+
+    const { data: member } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', organizationId)
+      .eq('user_id', request.user_id)
+      .maybeSingle()
+
+    if (!member) {
+      return jsonResponse({ success: false, error: 'User not found in your organisation' }, 404)
+    }
+
+    if (request.action === 'set_role') {
+      const { error: roleError } = await supabase
+        .from('organization_members')
+        .update({ role: request.role })
+        .eq('organization_id', organizationId)
+        .eq('user_id', request.user_id)
+
+      if (roleError) throw roleError
+
+      await syncAppRole(supabase, request.user_id, request.role)
+      console.log(`[manage-users] Set role of ${request.user_id} to ${request.role}`)
+      return jsonResponse({ success: true })
+    }
+
+    const { error: banError } = await supabase.auth.admin.updateUserById(request.user_id, {
+      ban_duration: request.action === 'deactivate' ? DEACTIVATED_BAN_DURATION : 'none',
+    })
+
+    if (banError) throw banError
+
+    console.log(`[manage-users] ${request.action === 'deactivate' ? 'Deactivated' : 'Reactivated'} ${request.user_id}`)
+    return jsonResponse({ success: true })
+  } catch (error) {
+    console.error('[manage-users] Error:', error)
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
@@ -1,27 +1,38 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendPush } from '../_shared/push.ts'
+import { resolveRecorderAccess } from '../_shared/recorderNodes.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-const RPI_API_BASE = 'https://api.cctvgreen.site'
+// Links to recorded files handed to the browser; rpi-file-proxy refuses them afterwards
+const FILE_LINK_TTL_SECONDS = 3600
 
-// Extract cam identifier from stream URL (e.g., "cam1.cctvgreen.site" -> "cam1")
-function extractCamId(streamUrl: string): string | null {
-  try {
-    const url = new URL(streamUrl)
-    const hostname = url.hostname
-    // Pattern: cam1.cctvgreen.site, cam2.cctvgreen.site, etc.
-    const match = hostname.match(/^(cam\d+)\.cctvgreen\.site$/)
-    if (match) {
-      return match[1]
-    }
-    // Fallback: try to extract from path or other patterns
-    return null
-  } catch {
-    return null
-  }
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Same signature as verified by rpi-file-proxy: HMAC-SHA256 over every parameter of the link
+async function signFileLink(
+  secret: string,
+  supabaseUrl: string,
+  link: { cameraId: string; cam: string; file: string; userId: string; disposition: 'inline' | 'attachment'; expiresAt: number }
+) {
+  const message = [link.cameraId, link.cam, link.file, link.userId, link.disposition, link.expiresAt].join('|')
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const sig = toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))))
+  const query = new URLSearchParams({
+    camera_id: link.cameraId,
+    cam: link.cam,
+    file: link.file,
+    user: link.userId,
+    disposition: link.disposition,
+    exp: String(link.expiresAt),
+    sig,
+  })
+  return `${supabaseUrl}/functions/v1/rpi-file-proxy?${query}`
 }
 
 Deno.serve(async (req) => {
@@ -31,15 +42,6 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const RPI_API_KEY = Deno.env.get('RPI_API_KEY')
-    if (!RPI_API_KEY) {
-      console.error('[mjpeg-recording] RPI_API_KEY not configured')
-      return new Response(
-        JSON.stringify({ success: false, error: 'RPI_API_KEY not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
@@ -53,21 +55,29 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Verify the user token
+    // Verify the user token; the recording-scheduler function calls in with the service role key
     const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Invalid token' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    const isScheduler = token === supabaseServiceKey
+    let userId = 'recording-scheduler'
+    let userEmail: string | null = null
+
+    if (!isScheduler) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid token' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      userId = user.id
+      userEmail = user.email ?? null
     }
 
     const body = await req.json()
     const { action, cameraId } = body
     
-    console.log(`[mjpeg-recording] Action: ${action}, CameraId: ${cameraId}, User: ${user.id}`)
+    console.log(`[mjpeg-recording] Action: ${action}, CameraId: ${cameraId}, User: ${userId}`)
 
     if (!action || !cameraId) {
       return new Response(
@@ -76,10 +86,10 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Get camera info to extract cam identifier
+    // Get camera info with the recorder node it is mapped to
     const { data: camera, error: cameraError } = await supabase
       .from('cameras')
-      .select('id, name, stream_url, stream_type, user_id')
+      .select('id, name, location, stream_type, organization_id, recorder_camera_id, recorder_nodes(name, organization_id, base_url, api_key_secret, enabled)')
       .eq('id', cameraId)
       .single()
 
@@ -91,12 +101,20 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Verify user owns this camera
-    if (camera.user_id !== user.id) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Unauthorized' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    // Viewers may only query recording status; everything else needs an operator
+    if (!isScheduler) {
+      const { data: allowed } = await supabase.rpc('has_camera_role', {
+        _user_id: userId,
+        _camera_id: cameraId,
+        _role: action === 'status' ? 'viewer' : 'operator',
+      })
+
+      if (!allowed) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
     }
 
     // Verify camera is MJPEG type
@@ -107,83 +125,56 @@ Deno.serve(async (req) => {
       )
     }
 
-    const cam = extractCamId(camera.stream_url)
-    if (!cam) {
-      console.error(`[mjpeg-recording] Could not extract cam identifier from: ${camera.stream_url}`)
+    const node = camera.recorder_nodes
+    const cam = camera.recorder_camera_id
+    if (!node || !cam) {
       return new Response(
-        JSON.stringify({ success: false, error: 'Could not extract cam identifier from stream URL' }),
+        JSON.stringify({ success: false, error: 'Camera is not assigned to a recorder node' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
+    if (!node.enabled) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Recorder node "${node.name}" is disabled` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const access = resolveRecorderAccess(node, camera.organization_id)
+    if (access.error !== undefined) {
+      console.error(`[mjpeg-recording] ${access.error} (node ${node.name})`)
+      return new Response(
+        JSON.stringify({ success: false, error: access.error }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+    const { apiKey, baseUrl: apiBase } = access
 
-    console.log(`[mjpeg-recording] Camera: ${camera.name}, Cam ID: ${cam}`)
+    console.log(`[mjpeg-recording] Camera: ${camera.name}, Node: ${node.name}, Cam ID: ${cam}`)
 
     const rpiHeaders = {
-      'X-API-Key': RPI_API_KEY,
+      'X-API-Key': apiKey,
       'Content-Type': 'application/json',
     }
 
     let rpiUrl: string
     let rpiMethod: string = 'GET'
 
-    // Handle stream action separately (returns binary file)
-    if (action === 'stream') {
-      const { filename } = body
-      if (!filename) {
-        return new Response(
-          JSON.stringify({ success: false, error: 'filename is required for stream action' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      const fileUrl = `${RPI_API_BASE}/recordings/file/${cam}/${filename}`
-      console.log(`[mjpeg-recording] Streaming file: ${fileUrl}`)
-
-      const fileResponse = await fetch(fileUrl, {
-        method: 'GET',
-        headers: { 'X-API-Key': RPI_API_KEY },
-      })
-
-      if (!fileResponse.ok) {
-        console.error(`[mjpeg-recording] File fetch failed: ${fileResponse.status}`)
-        return new Response(
-          JSON.stringify({ success: false, error: 'File not found or server error', status: fileResponse.status }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
-
-      // Get content type from response or default to video/mp4
-      const contentType = fileResponse.headers.get('Content-Type') || 'video/mp4'
-      const contentLength = fileResponse.headers.get('Content-Length')
-
-      console.log(`[mjpeg-recording] Streaming ${filename}, type: ${contentType}, size: ${contentLength}`)
-
-      // Return the file as binary stream
-      return new Response(fileResponse.body, {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': contentType,
-          'Content-Disposition': `inline; filename="${filename}"`,
-          ...(contentLength && { 'Content-Length': contentLength }),
-        }
-      })
-    }
-
     switch (action) {
       case 'start':
-        rpiUrl = `${RPI_API_BASE}/recording/start/${cam}`
+        rpiUrl = `${apiBase}/recording/start/${cam}`
         rpiMethod = 'POST'
         break
       case 'stop':
-        rpiUrl = `${RPI_API_BASE}/recording/stop/${cam}`
+        rpiUrl = `${apiBase}/recording/stop/${cam}`
         rpiMethod = 'POST'
         break
       case 'status':
-        rpiUrl = `${RPI_API_BASE}/recording/status/${cam}`
+        rpiUrl = `${apiBase}/recording/status/${cam}`
         rpiMethod = 'GET'
         break
       case 'list':
-        rpiUrl = `${RPI_API_BASE}/recordings/list/${cam}`
+        rpiUrl = `${apiBase}/recordings/list/${cam}`
         rpiMethod = 'GET'
         break
       default:
@@ -214,6 +205,16 @@ Deno.serve(async (req) => {
     // If we return 5xx here, supabase-js surfaces it as an invocation error and Lovable may show a runtime overlay.
     // Instead return 200 with a structured payload so the UI can handle it gracefully.
     if (!rpiResponse.ok) {
+      // Scheduled starts fail with nobody watching, so tell operators
+      if (action === 'start') {
+        await sendPush(supabaseUrl, supabaseServiceKey, [{
+          camera_id: camera.id,
+          event_type: 'recording_failed',
+          title: 'Recording Failed',
+          body: `${camera.name} at ${camera.location} could not start recording: ${responseData.error || responseData.message || `RPI API error ${rpiResponse.status}`}`.slice(0, 500),
+        }])
+      }
+
       return new Response(
         JSON.stringify({
           success: false,
@@ -225,18 +226,47 @@ Deno.serve(async (req) => {
       )
     }
 
+    // Server-side recordings have no recordings row until they are synced, so the camera is the target
+    if (action === 'start' || action === 'stop') {
+      await supabase.from('audit_log').insert({
+        organization_id: camera.organization_id,
+        actor_id: isScheduler ? null : userId,
+        actor_email: userEmail,
+        action: `mjpeg.${action}`,
+        camera_id: camera.id,
+        target_type: 'camera',
+        target_id: camera.id,
+        diff: { cam, source: isScheduler ? 'schedule' : 'manual' },
+      })
+    }
+
     // For list action, transform file data with proper field mapping
     if (action === 'list' && responseData.files) {
-      responseData.files = responseData.files.map((file: any) => ({
+      const linkSecret = Deno.env.get('RECORDING_LINK_SECRET')
+      if (!linkSecret) {
+        console.error('[mjpeg-recording] RECORDING_LINK_SECRET not configured')
+        return new Response(
+          JSON.stringify({ success: false, error: 'RECORDING_LINK_SECRET not configured' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Links are signed for this user and camera and expire; the list is refetched well within that
+      const expiresAt = Math.floor(Date.now() / 1000) + FILE_LINK_TTL_SECONDS
+      const link = (file: string, disposition: 'inline' | 'attachment') =>
+        signFileLink(linkSecret, supabaseUrl, { cameraId: camera.id, cam, file, userId, disposition, expiresAt })
+
+      responseData.files = await Promise.all(responseData.files.map(async (file: any) => ({
         filename: file.filename,
         // Convert unix timestamp (seconds) to ISO string
         date: new Date(file.mtime * 1000).toISOString(),
         // Keep size in bytes for formatting in UI
         size: file.size_bytes,
         // Use proxy endpoint for streaming with Range support
-        playUrl: `${supabaseUrl}/functions/v1/rpi-file-proxy?cam=${cam}&file=${encodeURIComponent(file.filename)}`,
-        downloadUrl: `${supabaseUrl}/functions/v1/rpi-file-proxy?cam=${cam}&file=${encodeURIComponent(file.filename)}`,
-      }))
+        playUrl: await link(file.filename, 'inline'),
+        downloadUrl: await link(file.filename, 'attachment'),
+        linkExpiresAt: new Date(expiresAt * 1000).toISOString(),
+      })))
     }
 
     return new Response(
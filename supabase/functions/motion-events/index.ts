@@ -0,0 +1,253 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { sendPush } from '../_shared/push.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+import { isKeyBoundToNode, RecorderNodeKeyFields } from '../_shared/recorderNodes.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+}
+
+// Timestamps may be sent as epoch milliseconds (browser) or ISO strings (Raspberry Pi)
+const timestampSchema = z.union([
+  z.number().int().positive(),
+  z.string().datetime({ offset: true }),
+])
+
+const boundingBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+})
+
+const eventSchema = z.object({
+  // Browser clients send camera_id; a recorder node sends its own camera id (e.g. "cam1")
+  camera_id: z.string().uuid('Invalid camera ID format').optional(),
+  cam: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Invalid cam id').optional(),
+  recording_id: z.string().uuid('Invalid recording ID format').nullable().optional(),
+  started_at: timestampSchema,
+  ended_at: timestampSchema.nullable().optional(),
+  peak_score: z.number().min(0).max(100).nullable().optional(),
+  bounding_box: boundingBoxSchema.nullable().optional(),
+  snapshot_path: z.string().max(500).nullable().optional(),
+}).refine((e) => e.camera_id || e.cam, { message: 'camera_id or cam is required' })
+
+const ingestSchema = z.object({
+  events: z.array(eventSchema).min(1).max(100),
+})
+
+type MotionEventInput = z.infer<typeof eventSchema>
+
+interface RecorderNodeRef {
+  id: string
+  organization_id: string
+}
+
+function toIso(value: number | string): string {
+  return new Date(value).toISOString()
+}
+
+// Recorder nodes whose API key secret holds the presented key; several nodes may share one key.
+// Only nodes the key is bound to count, so an admin can't claim the key for nodes of their own
+async function findRecorderNodes(supabase: ReturnType<typeof createClient>, apiKey: string | null): Promise<RecorderNodeRef[]> {
+  if (!apiKey) return []
+
+  const { data: nodes } = await supabase
+    .from('recorder_nodes')
+    .select('id, organization_id, base_url, api_key_secret')
+    .eq('enabled', true)
+
+  return (nodes ?? [])
+    .filter((node: RecorderNodeKeyFields) => isKeyBoundToNode(node) && Deno.env.get(node.api_key_secret) === apiKey)
+    .map((node: RecorderNodeRef) => ({ id: node.id, organization_id: node.organization_id }))
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Recorder nodes authenticate with their API key secret, browsers with a user JWT
+    const recorderNodes = await findRecorderNodes(supabase, req.headers.get('x-api-key'))
+    const isDevice = recorderNodes.length > 0
+
+    let userId: string | null = null
+    if (!isDevice) {
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader) {
+        return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+      }
+
+      const token = authHeader.replace('Bearer ', '')
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+      if (authError || !user) {
+        console.error('[motion-events] Auth error:', authError)
+        return jsonResponse({ success: false, error: 'Invalid token' }, 401)
+      }
+      userId = user.id
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const validationResult = ingestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return jsonResponse({
+        success: false,
+        error: 'Invalid input',
+        details: validationResult.error.issues.map(i => i.message),
+      }, 400)
+    }
+
+    const { events } = validationResult.data
+    const rows: Record<string, unknown>[] = []
+
+    for (const event of events) {
+      let cameraIds = await resolveCameraIds(supabase, event, userId, recorderNodes)
+      if (cameraIds === null) {
+        return jsonResponse({ success: false, error: 'Unauthorized to report events for this camera' }, 403)
+      }
+      if (cameraIds.length === 0) {
+        console.log('[motion-events] No camera matched', { camera_id: event.camera_id, cam: event.cam })
+        continue
+      }
+
+      // Browser snapshots must live under the camera's own storage folder
+      if (!isDevice && event.snapshot_path && !event.snapshot_path.startsWith(`record/${cameraIds[0]}/`)) {
+        return jsonResponse({ success: false, error: 'Invalid snapshot path' }, 400)
+      }
+
+      // A recording may only be linked to events of its own camera
+      if (event.recording_id) {
+        const { data: recording } = await supabase
+          .from('recordings')
+          .select('camera_id')
+          .eq('id', event.recording_id)
+          .maybeSingle()
+
+        if (!recording || !cameraIds.includes(recording.camera_id)) {
+          return jsonResponse({ success: false, error: 'Recording does not belong to this camera' }, 400)
+        }
+        cameraIds = [recording.camera_id]
+      }
+
+      for (const cameraId of cameraIds) {
+        rows.push({
+          camera_id: cameraId,
+          recording_id: event.recording_id ?? null,
+          source: isDevice ? 'rpi' : 'browser',
+          started_at: toIso(event.started_at),
+          ended_at: event.ended_at ? toIso(event.ended_at) : null,
+          peak_score: event.peak_score ?? null,
+          bounding_box: event.bounding_box ?? null,
+          snapshot_path: event.snapshot_path ?? null,
+        })
+      }
+    }
+
+    if (rows.length === 0) {
+      return jsonResponse({ success: true, inserted: 0 })
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('motion_events')
+      .insert(rows)
+      .select('id')
+
+    if (insertError) {
+      console.error('[motion-events] Insert error:', insertError)
+      return jsonResponse({ success: false, error: 'Failed to store motion events' }, 500)
+    }
+
+    console.log(`[motion-events] Stored ${inserted?.length ?? 0} event(s)`, { source: isDevice ? 'rpi' : 'browser' })
+
+    // One push per camera per batch; the device collapses repeats by tag
+    const motionCameraIds = [...new Set(rows.map((row) => row.camera_id as string))]
+    const { data: motionCameras } = await supabase
+      .from('cameras')
+      .select('id, name, location')
+      .in('id', motionCameraIds)
+
+    await sendPush(supabaseUrl, supabaseServiceKey, (motionCameras ?? []).map((camera: { id: string; name: string; location: string }) => ({
+      camera_id: camera.id,
+      event_type: 'motion_detected',
+      title: 'Motion Detected',
+      body: `Motion on ${camera.name} at ${camera.location}`,
+    })))
+
+    return jsonResponse({
+      success: true,
+      inserted: inserted?.length ?? 0,
+      ids: (inserted ?? []).map((row: { id: string }) => row.id),
+    })
+  } catch (error) {
+    console.error('[motion-events] Error:', error)
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
+
+// Returns matching camera ids, or null when a caller reports for a camera it can't operate
+async function resolveCameraIds(
+  supabase: ReturnType<typeof createClient>,
+  event: MotionEventInput,
+  userId: string | null,
+  recorderNodes: RecorderNodeRef[]
+): Promise<string[] | null> {
+  // A recorder only reports for the cameras mapped to it within its own organisation
+  const isOwnCamera = (camera: { organization_id: string; recorder_node_id: string | null }) =>
+    recorderNodes.some((node) => node.id === camera.recorder_node_id && node.organization_id === camera.organization_id)
+
+  if (event.camera_id) {
+    const { data: camera } = await supabase
+      .from('cameras')
+      .select('id, organization_id, recorder_node_id')
+      .eq('id', event.camera_id)
+      .maybeSingle()
+
+    if (!camera) return []
+    if (!userId && !isOwnCamera(camera)) return null
+    if (userId) {
+      const { data: allowed } = await supabase.rpc('has_camera_role', {
+        _user_id: userId,
+        _camera_id: camera.id,
+        _role: 'operator',
+      })
+      if (!allowed) return null
+    }
+    return [camera.id]
+  }
+
+  // Only a recorder may address cameras by its own cam id (recorder_camera_id)
+  if (!userId && event.cam) {
+    const { data: cameras } = await supabase
+      .from('cameras')
+      .select('id, organization_id, recorder_node_id')
+      .in('recorder_node_id', recorderNodes.map((node) => node.id))
+      .eq('recorder_camera_id', event.cam)
+
+    return (cameras ?? []).filter(isOwnCamera).map((c: { id: string }) => c.id)
+  }
+
+  return null
+}
@@ -0,0 +1,155 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+import { hashDeviceKey } from '../_shared/deviceKeys.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-key',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const profileSchema = z.object({
+  token: z.string().max(200),
+  name: z.string().max(200).nullable().optional(),
+  encoding: z.string().max(50).nullable().optional(),
+  stream_uri: z.string().max(1000).nullable().optional(),
+  width: z.number().int().positive().nullable().optional(),
+  height: z.number().int().positive().nullable().optional(),
+  fps: z.number().positive().nullable().optional(),
+})
+
+const requestSchema = z.object({
+  agent: z.string().max(200).optional(),
+  cameras: z.array(z.object({
+    endpoint_reference: z.string().min(1).max(500),
+    address: z.string().min(1).max(255),
+    xaddr: z.string().max(1000).nullable().optional(),
+    manufacturer: z.string().max(200).nullable().optional(),
+    model: z.string().max(200).nullable().optional(),
+    name: z.string().max(200).nullable().optional(),
+    location: z.string().max(200).nullable().optional(),
+    profiles: z.array(profileSchema).max(20).default([]),
+    error: z.string().max(1000).nullable().optional(),
+  })).max(500),
+})
+
+type Profile = z.infer<typeof profileSchema>
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+// Offer the highest resolution H.264/H.265 stream; sub-streams stay available in profiles
+function pickProfile(profiles: Profile[]): Profile | null {
+  const playable = profiles.filter((p) => p.stream_uri)
+  if (playable.length === 0) return null
+  return playable.reduce((best, p) =>
+    (p.width || 0) * (p.height || 0) > (best.width || 0) * (best.height || 0) ? p : best
+  )
+}
+
+// Never keep a login the camera put in its stream URI
+function stripUserInfo(uri: string): string {
+  try {
+    const url = new URL(uri)
+    url.username = ''
+    url.password = ''
+    return url.toString()
+  } catch {
+    return uri
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The agent authenticates with an organisation-wide device key; its organisation is the only one it reports for
+    const deviceKey = req.headers.get('X-Device-Key')
+    if (!deviceKey) {
+      return jsonResponse({ success: false, error: 'Missing device key' }, 401)
+    }
+
+    const { data: device } = await supabase
+      .from('device_api_keys')
+      .select('id, organization_id, camera_id')
+      .eq('key_hash', await hashDeviceKey(deviceKey))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (!device) {
+      return jsonResponse({ success: false, error: 'Invalid device key' }, 401)
+    }
+    if (device.camera_id) {
+      return jsonResponse({ success: false, error: 'Device key is bound to a camera; use a key open to the organisation' }, 403)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const parsed = requestSchema.safeParse(body)
+    if (!parsed.success) {
+      return jsonResponse({ success: false, error: 'Invalid input', details: parsed.error.issues.map((i) => i.message) }, 400)
+    }
+
+    const { agent, cameras } = parsed.data
+    const organization_id = device.organization_id as string
+
+    const now = new Date().toISOString()
+    const rows = cameras.map((camera) => {
+      const profiles = camera.profiles.map((p) => ({
+        ...p,
+        stream_uri: p.stream_uri ? stripUserInfo(p.stream_uri) : null,
+      }))
+      const preferred = pickProfile(profiles)
+      return {
+        organization_id,
+        endpoint_reference: camera.endpoint_reference,
+        address: camera.address,
+        xaddr: camera.xaddr ?? null,
+        manufacturer: camera.manufacturer ?? null,
+        model: camera.model ?? null,
+        name: camera.name ?? null,
+        location: camera.location ?? null,
+        stream_uri: preferred?.stream_uri ?? null,
+        resolution: preferred?.width && preferred?.height ? `${preferred.width}x${preferred.height}` : null,
+        fps: preferred?.fps ? Math.round(preferred.fps) : null,
+        profiles,
+        error: camera.error ?? null,
+        agent: agent ?? null,
+        last_seen_at: now,
+      }
+    })
+
+    // camera_id, dismissed_at and first_seen_at are left as they are on re-discovery
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('discovered_cameras')
+        .upsert(rows, { onConflict: 'organization_id,endpoint_reference' })
+
+      if (upsertError) throw upsertError
+    }
+
+    await supabase
+      .from('device_api_keys')
+      .update({ last_used_at: now })
+      .eq('id', device.id)
+
+    console.log(`[onvif-discovery] ${agent || 'agent'} reported ${rows.length} camera(s) for ${organization_id}`)
+
+    return jsonResponse({ success: true, reported: rows.length })
+  } catch (error) {
+    console.error('[onvif-discovery] Error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,252 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const SOAP_TIMEOUT_MS = 5000
+// Cameras stop by themselves if a Stop is lost; the browser repeats moves while the joystick is held
+const MOVE_TIMEOUT = 'PT5S'
+
+const velocity = z.number().min(-1).max(1)
+const presetToken = z.string().min(1).max(64)
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({ camera_id: z.string().uuid(), action: z.literal('move'), pan: velocity, tilt: velocity, zoom: velocity }),
+  z.object({ camera_id: z.string().uuid(), action: z.literal('stop') }),
+  z.object({ camera_id: z.string().uuid(), action: z.literal('presets') }),
+  z.object({ camera_id: z.string().uuid(), action: z.literal('goto_preset'), preset_token: presetToken }),
+  z.object({ camera_id: z.string().uuid(), action: z.literal('save_preset'), name: z.string().trim().min(1).max(64) }),
+  z.object({ camera_id: z.string().uuid(), action: z.literal('remove_preset'), preset_token: presetToken }),
+])
+
+interface PtzConfig {
+  enabled?: boolean
+  protocol?: 'onvif'
+  endpoint?: string
+  profileToken?: string
+  credentials?: 'stream' | 'none'
+}
+
+interface Login {
+  username: string
+  password: string
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+// WS-Security UsernameToken with password digest: Base64(SHA1(nonce + created + password))
+async function securityHeader(login: Login | null) {
+  if (!login) return ''
+  const nonce = crypto.getRandomValues(new Uint8Array(16))
+  const created = new Date().toISOString()
+  const encoder = new TextEncoder()
+  const material = new Uint8Array([...nonce, ...encoder.encode(created), ...encoder.encode(login.password)])
+  const digest = toBase64(new Uint8Array(await crypto.subtle.digest('SHA-1', material)))
+
+  return `<s:Header><Security s:mustUnderstand="1" xmlns="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd"><UsernameToken><Username>${escapeXml(login.username)}</Username><Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">${digest}</Password><Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">${toBase64(nonce)}</Nonce><Created xmlns="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">${created}</Created></UsernameToken></Security></s:Header>`
+}
+
+// Same rule as isPtzEndpointOnStreamHost in src/lib/ptz.ts: the PTZ service must live on the
+// camera's own stream host, so the function can't be pointed at arbitrary servers
+function isEndpointOnStreamHost(endpoint: string, streamUrl: string) {
+  try {
+    const target = new URL(endpoint)
+    return (target.protocol === 'http:' || target.protocol === 'https:') &&
+      target.hostname.toLowerCase() === new URL(streamUrl).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+}
+
+async function soap(endpoint: string, login: Login | null, body: string) {
+  const envelope = `<?xml version="1.0" encoding="UTF-8"?><s:Envelope xmlns:s="http://www.w3.org/2003/05/soap-envelope">${await securityHeader(login)}<s:Body>${body}</s:Body></s:Envelope>`
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+    body: envelope,
+    // A redirect could lead the signed request away from the camera
+    redirect: 'manual',
+    signal: AbortSignal.timeout(SOAP_TIMEOUT_MS),
+  })
+  const xml = await response.text()
+  if (!response.ok) {
+    const reason = xml.match(/<(?:\w+:)?Text\b[^>]*>([^<]*)</)?.[1]
+    throw new Error(`Camera answered ${response.status}${reason ? `: ${decodeXml(reason)}` : ''}`)
+  }
+  return xml
+}
+
+const PTZ_NS = 'http://www.onvif.org/ver20/ptz/wsdl'
+const SCHEMA_NS = 'http://www.onvif.org/ver10/schema'
+
+function parsePresets(xml: string) {
+  const presets: { token: string; name: string }[] = []
+  for (const match of xml.matchAll(/<(?:\w+:)?Preset\b[^>]*\btoken="([^"]*)"[^>]*>([\s\S]*?)<\/(?:\w+:)?Preset>/g)) {
+    const name = match[2].match(/<(?:\w+:)?Name>([^<]*)</)?.[1]
+    presets.push({ token: decodeXml(match[1]), name: name ? decodeXml(name) : decodeXml(match[1]) })
+  }
+  return presets
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401)
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const parsed = requestSchema.safeParse(body)
+    if (!parsed.success) {
+      return jsonResponse({ success: false, error: 'Invalid input', details: parsed.error.issues.map((i) => i.message) }, 400)
+    }
+    const command = parsed.data
+
+    // Moving a camera changes what everyone else sees, so it needs the operator role
+    const { data: canControl } = await supabase.rpc('has_camera_role', {
+      _user_id: user.id,
+      _camera_id: command.camera_id,
+      _role: 'operator',
+    })
+    if (!canControl) {
+      return jsonResponse({ success: false, error: 'Unauthorized to control this camera' }, 403)
+    }
+
+    const { data: camera, error: cameraError } = await supabase
+      .from('cameras')
+      .select('id, name, organization_id, stream_url, ptz')
+      .eq('id', command.camera_id)
+      .single()
+
+    if (cameraError || !camera) {
+      return jsonResponse({ success: false, error: 'Camera not found' }, 404)
+    }
+
+    const ptz = (camera.ptz || {}) as PtzConfig
+    if (!ptz.enabled || ptz.protocol !== 'onvif' || !ptz.endpoint || !ptz.profileToken) {
+      return jsonResponse({ success: false, error: 'PTZ is not configured for this camera' }, 400)
+    }
+    if (!isEndpointOnStreamHost(ptz.endpoint, camera.stream_url)) {
+      console.warn(`[ptz-control] Rejected PTZ endpoint for camera ${camera.id}`)
+      return jsonResponse({ success: false, error: "PTZ service URL must be http(s) on the camera's stream host" }, 400)
+    }
+
+    let login: Login | null = null
+    if (ptz.credentials === 'stream') {
+      const { data: credentials } = await supabase
+        .from('camera_stream_credentials')
+        .select('username, password')
+        .eq('camera_id', camera.id)
+        .maybeSingle()
+      login = credentials
+    }
+
+    const profile = `<ProfileToken>${escapeXml(ptz.profileToken)}</ProfileToken>`
+
+    switch (command.action) {
+      case 'move':
+        await soap(ptz.endpoint, login, `<ContinuousMove xmlns="${PTZ_NS}">${profile}<Velocity><PanTilt xmlns="${SCHEMA_NS}" x="${command.pan}" y="${command.tilt}"/><Zoom xmlns="${SCHEMA_NS}" x="${command.zoom}"/></Velocity><Timeout>${MOVE_TIMEOUT}</Timeout></ContinuousMove>`)
+        return jsonResponse({ success: true })
+
+      case 'stop':
+        await soap(ptz.endpoint, login, `<Stop xmlns="${PTZ_NS}">${profile}<PanTilt>true</PanTilt><Zoom>true</Zoom></Stop>`)
+        return jsonResponse({ success: true })
+
+      case 'presets': {
+        const xml = await soap(ptz.endpoint, login, `<GetPresets xmlns="${PTZ_NS}">${profile}</GetPresets>`)
+        return jsonResponse({ success: true, presets: parsePresets(xml) })
+      }
+
+      case 'goto_preset':
+        await soap(ptz.endpoint, login, `<GotoPreset xmlns="${PTZ_NS}">${profile}<PresetToken>${escapeXml(command.preset_token)}</PresetToken></GotoPreset>`)
+        return jsonResponse({ success: true })
+
+      case 'save_preset': {
+        const xml = await soap(ptz.endpoint, login, `<SetPreset xmlns="${PTZ_NS}">${profile}<PresetName>${escapeXml(command.name)}</PresetName></SetPreset>`)
+        const presetTokenMatch = xml.match(/<(?:\w+:)?PresetToken>([^<]*)</)
+        const savedToken = presetTokenMatch ? decodeXml(presetTokenMatch[1]) : null
+
+        await supabase.from('audit_log').insert({
+          organization_id: camera.organization_id,
+          actor_id: user.id,
+          actor_email: user.email,
+          action: 'ptz.preset_save',
+          camera_id: camera.id,
+          target_type: 'ptz_preset',
+          target_id: savedToken,
+          diff: { name: command.name },
+        })
+
+        return jsonResponse({ success: true, preset: { token: savedToken, name: command.name } })
+      }
+
+      case 'remove_preset':
+        await soap(ptz.endpoint, login, `<RemovePreset xmlns="${PTZ_NS}">${profile}<PresetToken>${escapeXml(command.preset_token)}</PresetToken></RemovePreset>`)
+
+        await supabase.from('audit_log').insert({
+          organization_id: camera.organization_id,
+          actor_id: user.id,
+          actor_email: user.email,
+          action: 'ptz.preset_remove',
+          camera_id: camera.id,
+          target_type: 'ptz_preset',
+          target_id: command.preset_token,
+          diff: null,
+        })
+
+        return jsonResponse({ success: true })
+    }
+  } catch (error) {
+    console.error('[ptz-control] Error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 502)
+  }
+})
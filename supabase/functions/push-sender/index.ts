@@ -0,0 +1,242 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import webpush from 'npm:web-push@3.6.7'
+import { createJsonResponse } from '../_shared/http.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+const PUSH_TTL_SECONDS = 60 * 60
+
+const pushEventTypeSchema = z.enum(['camera_offline', 'motion_detected', 'recording_failed'])
+
+const requestSchema = z.union([
+  // Producers (heartbeat checker, motion-events, mjpeg-recording) call in with the service role key
+  z.object({
+    events: z.array(z.object({
+      camera_id: z.string().uuid(),
+      event_type: pushEventTypeSchema,
+      title: z.string().max(200),
+      body: z.string().max(500),
+    })).min(1).max(100),
+  }),
+  // Browsers register through here so an endpoint moves to whoever signed in last
+  z.object({
+    action: z.literal('subscribe'),
+    subscription: z.object({
+      endpoint: z.string().url().max(1000),
+      keys: z.object({ p256dh: z.string().max(200), auth: z.string().max(200) }),
+    }),
+    events: z.array(pushEventTypeSchema),
+    user_agent: z.string().max(500).optional(),
+  }),
+  z.object({ action: z.literal('test') }),
+])
+
+type PushEventType = z.infer<typeof pushEventTypeSchema>
+
+interface SubscriptionRow {
+  id: string
+  user_id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+interface PushPayload {
+  title: string
+  body: string
+  url: string
+  tag: string
+  event_type: PushEventType | 'test'
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY')
+    const vapidPrivateKey = Deno.env.get('VAPID_PRIVATE_KEY')
+    const vapidSubject = Deno.env.get('VAPID_SUBJECT') || 'mailto:admin@cctvgreen.site'
+
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      console.error('[push-sender] VAPID keys not configured')
+      return jsonResponse({ success: false, error: 'Push notifications are not configured' }, 503)
+    }
+
+    // The public key is needed by the browser before it can subscribe
+    if (req.method === 'GET') {
+      return jsonResponse({ success: true, publicKey: vapidPublicKey })
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+    }
+
+    webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+    const token = authHeader.replace('Bearer ', '')
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const validationResult = requestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return jsonResponse({
+        success: false,
+        error: 'Invalid input',
+        details: validationResult.error.issues.map(i => i.message),
+      }, 400)
+    }
+
+    const request = validationResult.data
+
+    // Expired subscriptions (404/410) are removed; other failures are kept for the next event
+    const sendToSubscriptions = async (subscriptions: SubscriptionRow[], payload: PushPayload) => {
+      let sent = 0
+      let removed = 0
+
+      for (const subscription of subscriptions) {
+        try {
+          await webpush.sendNotification(
+            { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+            JSON.stringify(payload),
+            { TTL: PUSH_TTL_SECONDS }
+          )
+          sent++
+        } catch (error) {
+          const statusCode = (error as { statusCode?: number }).statusCode
+          if (statusCode === 404 || statusCode === 410) {
+            await supabase.from('push_subscriptions').delete().eq('id', subscription.id)
+            removed++
+          } else {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            console.error(`[push-sender] Push to ${subscription.id} failed: ${message}`)
+            await supabase.from('push_subscriptions').update({ last_error: message }).eq('id', subscription.id)
+          }
+        }
+      }
+
+      return { sent, removed }
+    }
+
+    if ('action' in request) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Invalid token' }, 401)
+      }
+
+      if (request.action === 'subscribe') {
+        const { error: upsertError } = await supabase
+          .from('push_subscriptions')
+          .upsert({
+            user_id: user.id,
+            endpoint: request.subscription.endpoint,
+            p256dh: request.subscription.keys.p256dh,
+            auth: request.subscription.keys.auth,
+            user_agent: request.user_agent ?? null,
+            events: request.events,
+            last_error: null,
+          }, { onConflict: 'endpoint' })
+
+        if (upsertError) throw upsertError
+        return jsonResponse({ success: true })
+      }
+
+      const { data: subscriptions } = await supabase
+        .from('push_subscriptions')
+        .select('id, user_id, endpoint, p256dh, auth')
+        .eq('user_id', user.id)
+
+      if (!subscriptions || subscriptions.length === 0) {
+        return jsonResponse({ success: false, error: 'No push subscription for this account' }, 404)
+      }
+
+      const result = await sendToSubscriptions(subscriptions as SubscriptionRow[], {
+        title: 'Test notification',
+        body: 'Push notifications are working on this device.',
+        url: '/notifications',
+        tag: 'push-test',
+        event_type: 'test',
+      })
+      return jsonResponse({ success: true, ...result })
+    }
+
+    if (token !== supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    let sent = 0
+    let removed = 0
+
+    for (const event of request.events) {
+      const { data: camera } = await supabase
+        .from('cameras')
+        .select('id, organization_id')
+        .eq('id', event.camera_id)
+        .maybeSingle()
+
+      if (!camera?.organization_id) continue
+
+      // Pushes go to operators and admins; viewers only watch live streams
+      const { data: members } = await supabase
+        .from('organization_members')
+        .select('user_id')
+        .eq('organization_id', camera.organization_id)
+        .in('role', ['operator', 'admin'])
+
+      const userIds = (members || []).map((m: { user_id: string }) => m.user_id)
+      if (userIds.length === 0) continue
+
+      const { data: subscriptions, error: subscriptionsError } = await supabase
+        .from('push_subscriptions')
+        .select('id, user_id, endpoint, p256dh, auth')
+        .in('user_id', userIds)
+        .contains('events', [event.event_type])
+
+      if (subscriptionsError) {
+        console.error('[push-sender] Error fetching subscriptions:', subscriptionsError)
+        continue
+      }
+
+      const result = await sendToSubscriptions((subscriptions || []) as SubscriptionRow[], {
+        title: event.title,
+        body: event.body,
+        url: event.event_type === 'motion_detected' ? '/records' : '/notifications',
+        // Collapses repeated pushes for the same camera and event on the device
+        tag: `${event.event_type}:${camera.id}`,
+        event_type: event.event_type,
+      })
+      sent += result.sent
+      removed += result.removed
+    }
+
+    console.log(`[push-sender] ${request.events.length} event(s): ${sent} push(es) sent, ${removed} expired subscription(s) removed`)
+    return jsonResponse({ success: true, sent, removed })
+  } catch (error) {
+    console.error('[push-sender] Error:', error)
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
@@ -0,0 +1,209 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveRecorderAccess } from '../_shared/recorderNodes.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Nodes checked in parallel; each node's cameras are checked together
+const CONCURRENCY = 5
+const CHECK_TIMEOUT_MS = 10000
+
+interface NodeRow {
+  id: string
+  name: string
+  organization_id: string
+  base_url: string
+  api_key_secret: string
+  status: string
+}
+
+interface CameraRow {
+  organization_id: string
+  recorder_node_id: string
+  recorder_camera_id: string
+}
+
+interface CheckResult {
+  cam: string | null
+  ok: boolean
+  statusCode: number | null
+  error: string | null
+  running: boolean
+  diskFreeBytes: number | null
+  diskTotalBytes: number | null
+}
+
+function describeError(error: unknown) {
+  if (error instanceof DOMException && error.name === 'TimeoutError') return 'Timed out'
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+function describeStatus(status: number) {
+  // Cloudflare answers 530 itself when the tunnel to the recorder is down
+  return status === 530 ? 'Cloudflare tunnel down (HTTP 530)' : `HTTP ${status}`
+}
+
+function toBytes(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : null
+}
+
+// /recording/status/{cam} answers { running, ... }; disk_free_bytes / disk_total_bytes are optional
+async function checkCamera(baseUrl: string, apiKey: string, cam: string): Promise<CheckResult> {
+  const result: CheckResult = { cam, ok: false, statusCode: null, error: null, running: false, diskFreeBytes: null, diskTotalBytes: null }
+  try {
+    const response = await fetch(`${baseUrl}/recording/status/${encodeURIComponent(cam)}`, {
+      headers: { 'X-API-Key': apiKey },
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    })
+    const text = await response.text()
+    if (!response.ok) {
+      return { ...result, statusCode: response.status, error: describeStatus(response.status) }
+    }
+
+    let data: Record<string, unknown>
+    try {
+      data = JSON.parse(text)
+    } catch {
+      return { ...result, statusCode: response.status, error: 'Invalid status response' }
+    }
+
+    return {
+      ...result,
+      ok: true,
+      running: data.running === true,
+      diskFreeBytes: toBytes(data.disk_free_bytes),
+      diskTotalBytes: toBytes(data.disk_total_bytes),
+    }
+  } catch (error) {
+    return { ...result, error: describeError(error) }
+  }
+}
+
+// Nodes without cameras have no status endpoint to call; any answer below 500 means the API is up
+async function checkBaseUrl(baseUrl: string, apiKey: string): Promise<CheckResult> {
+  const result: CheckResult = { cam: null, ok: false, statusCode: null, error: null, running: false, diskFreeBytes: null, diskTotalBytes: null }
+  try {
+    const response = await fetch(baseUrl, {
+      headers: { 'X-API-Key': apiKey },
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    })
+    await response.body?.cancel()
+    if (response.status >= 500) {
+      return { ...result, statusCode: response.status, error: describeStatus(response.status) }
+    }
+    return { ...result, ok: true }
+  } catch (error) {
+    return { ...result, error: describeError(error) }
+  }
+}
+
+async function checkNode(node: NodeRow, cams: string[]) {
+  const access = resolveRecorderAccess(node, node.organization_id)
+  if (access.error !== undefined) {
+    return [{ cam: null, ok: false, statusCode: null, error: access.error, running: false, diskFreeBytes: null, diskTotalBytes: null }]
+  }
+
+  const { baseUrl, apiKey } = access
+  if (cams.length === 0) return [await checkBaseUrl(baseUrl, apiKey)]
+  return Promise.all(cams.map((cam) => checkCamera(baseUrl, apiKey, cam)))
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const cronSecret = Deno.env.get('CRON_SECRET')
+
+    // Only pg_cron (shared secret) may trigger a run
+    if (!cronSecret || req.headers.get('X-Cron-Secret') !== cronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const [{ data: nodes, error: nodesError }, { data: cameras, error: camerasError }] = await Promise.all([
+      supabase.from('recorder_nodes').select('id, name, organization_id, base_url, api_key_secret, status').eq('enabled', true),
+      supabase.from('cameras').select('organization_id, recorder_node_id, recorder_camera_id').not('recorder_node_id', 'is', null),
+    ])
+
+    if (nodesError) throw nodesError
+    if (camerasError) throw camerasError
+
+    const allNodes = (nodes || []) as NodeRow[]
+    const nodeOrganizations = new Map(allNodes.map((node) => [node.id, node.organization_id]))
+
+    // Only a node's own organisation's cameras are checked on it
+    const camsByNode = new Map<string, string[]>()
+    for (const camera of (cameras || []) as CameraRow[]) {
+      if (!camera.recorder_camera_id) continue
+      if (nodeOrganizations.get(camera.recorder_node_id) !== camera.organization_id) continue
+      const cams = camsByNode.get(camera.recorder_node_id) ?? []
+      if (!cams.includes(camera.recorder_camera_id)) cams.push(camera.recorder_camera_id)
+      camsByNode.set(camera.recorder_node_id, cams)
+    }
+
+    let online = 0
+
+    for (let i = 0; i < allNodes.length; i += CONCURRENCY) {
+      await Promise.all(allNodes.slice(i, i + CONCURRENCY).map(async (node) => {
+        const results = await checkNode(node, camsByNode.get(node.id) ?? [])
+        const checkedAt = new Date().toISOString()
+        const isOnline = results.some((result) => result.ok)
+        // A node stays online when only some cameras fail, but the failure is still shown
+        const failure = results.find((result) => !result.ok)
+        const disk = results.find((result) => result.diskFreeBytes !== null)
+
+        if (isOnline) online++
+        if (node.status !== (isOnline ? 'online' : 'offline')) {
+          console.log(`[recorder-monitor] ${node.name} (${node.id}) is now ${isOnline ? 'online' : 'offline'}${failure ? `: ${failure.error}` : ''}`)
+        }
+
+        const { error } = await supabase
+          .from('recorder_nodes')
+          .update({
+            status: isOnline ? 'online' : 'offline',
+            last_checked_at: checkedAt,
+            last_error: failure ? (failure.cam ? `${failure.cam}: ${failure.error}` : failure.error) : null,
+            last_status_code: failure?.statusCode ?? null,
+            recording_cameras: results.filter((result) => result.running && result.cam).map((result) => result.cam),
+            ...(disk && { disk_free_bytes: disk.diskFreeBytes, disk_total_bytes: disk.diskTotalBytes }),
+            ...(isOnline && { last_online_at: checkedAt }),
+          })
+          .eq('id', node.id)
+
+        if (error) {
+          console.error(`[recorder-monitor] Error updating node ${node.id}:`, error)
+        }
+      }))
+    }
+
+    console.log(`[recorder-monitor] Checked ${allNodes.length} node(s): ${online} online, ${allNodes.length - online} offline`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked: allNodes.length,
+        online,
+        offline: allNodes.length - online,
+        timestamp: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[recorder-monitor] Error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,237 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Motion-only schedules keep recording this long after the last motion event ended
+const MOTION_HOLD_MS = 60 * 1000
+
+interface ScheduleRow {
+  id: string
+  camera_id: string
+  weekdays: number[]
+  start_time: string
+  end_time: string
+  timezone: string
+  mode: string
+  enabled: boolean
+  active_since: string | null
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+// Weekday (0 = Sunday) and minutes since midnight of `now` in the given timezone
+function getLocalTime(now: Date, timezone: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+  return {
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+// Weekdays refer to the day the window starts, so overnight windows spill into the next day
+function isWithinWindow(schedule: ScheduleRow, now: Date): boolean {
+  let local: { weekday: number; minutes: number }
+  try {
+    local = getLocalTime(now, schedule.timezone)
+  } catch {
+    console.error(`[recording-scheduler] Invalid timezone for schedule ${schedule.id}: ${schedule.timezone}`)
+    return false
+  }
+
+  const start = toMinutes(schedule.start_time)
+  const end = toMinutes(schedule.end_time)
+
+  if (start < end) {
+    return schedule.weekdays.includes(local.weekday) && local.minutes >= start && local.minutes < end
+  }
+
+  const previousDay = (local.weekday + 6) % 7
+  return (
+    (schedule.weekdays.includes(local.weekday) && local.minutes >= start) ||
+    (schedule.weekdays.includes(previousDay) && local.minutes < end)
+  )
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const cronSecret = Deno.env.get('CRON_SECRET')
+
+    // Only pg_cron (shared secret) may trigger a run
+    if (!cronSecret || req.headers.get('X-Cron-Secret') !== cronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = new Date()
+
+    const { data: schedules, error: schedulesError } = await supabase
+      .from('recording_schedules')
+      .select('id, camera_id, weekdays, start_time, end_time, timezone, mode, enabled, active_since')
+
+    if (schedulesError) throw schedulesError
+
+    // Cameras the scheduler is keeping recording, even if their schedules were deleted since
+    const { data: running, error: runningError } = await supabase
+      .from('scheduled_recordings')
+      .select('camera_id, started_at')
+
+    if (runningError) throw runningError
+
+    const rows = (schedules || []) as ScheduleRow[]
+    const runningSince = new Map<string, string>(
+      (running || []).map((r: { camera_id: string; started_at: string }) => [r.camera_id, r.started_at])
+    )
+    if (rows.length === 0 && runningSince.size === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No schedules' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Cameras with an open or recently ended motion event (for motion-only schedules)
+    const motionCameraIds = new Set<string>()
+    if (rows.some((s) => s.enabled && s.mode === 'motion')) {
+      const { data: events, error: eventsError } = await supabase
+        .from('motion_events')
+        .select('camera_id, ended_at')
+        .in('camera_id', [...new Set(rows.map((s) => s.camera_id))])
+        .or(`ended_at.is.null,ended_at.gte.${new Date(now.getTime() - MOTION_HOLD_MS).toISOString()}`)
+        .gte('started_at', new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString())
+
+      if (eventsError) {
+        console.error('[recording-scheduler] Error fetching motion events:', eventsError)
+      }
+      for (const event of events || []) {
+        motionCameraIds.add(event.camera_id)
+      }
+    }
+
+    // Group by camera: a camera records while any of its schedules wants it to
+    const byCamera = new Map<string, ScheduleRow[]>([...runningSince.keys()].map((id) => [id, []]))
+    for (const schedule of rows) {
+      byCamera.set(schedule.camera_id, [...(byCamera.get(schedule.camera_id) || []), schedule])
+    }
+
+    const callRecorder = async (action: 'start' | 'stop', cameraId: string): Promise<string | null> => {
+      const response = await fetch(`${supabaseUrl}/functions/v1/mjpeg-recording`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, cameraId }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok || !result.success) {
+        return result.error || `mjpeg-recording ${action} failed (${response.status})`
+      }
+      return null
+    }
+
+    let started = 0
+    let stopped = 0
+
+    for (const [cameraId, cameraSchedules] of byCamera) {
+      const wanting = cameraSchedules.filter((s) =>
+        s.enabled &&
+        isWithinWindow(s, now) &&
+        (s.mode === 'continuous' || motionCameraIds.has(cameraId))
+      )
+      const isRunning = runningSince.has(cameraId)
+
+      if (wanting.length > 0 && !isRunning) {
+        console.log(`[recording-scheduler] Starting camera ${cameraId} for ${wanting.length} schedule(s)`)
+        const error = await callRecorder('start', cameraId)
+        if (!error) {
+          await supabase
+            .from('scheduled_recordings')
+            .upsert({ camera_id: cameraId, started_at: now.toISOString() })
+        }
+        await supabase
+          .from('recording_schedules')
+          .update(error ? { last_error: error } : { active_since: now.toISOString(), last_error: null })
+          .in('id', wanting.map((s) => s.id))
+        if (error) {
+          console.error(`[recording-scheduler] Start failed for camera ${cameraId}: ${error}`)
+        } else {
+          started++
+        }
+      } else if (wanting.length === 0 && isRunning) {
+        console.log(`[recording-scheduler] Stopping camera ${cameraId}`)
+        const error = await callRecorder('stop', cameraId)
+        if (error) {
+          console.error(`[recording-scheduler] Stop failed for camera ${cameraId}: ${error}`)
+        }
+        // Clear state even on failure so a manual stop is not fought by the scheduler
+        await supabase
+          .from('scheduled_recordings')
+          .delete()
+          .eq('camera_id', cameraId)
+        await supabase
+          .from('recording_schedules')
+          .update({ active_since: null, last_error: error })
+          .eq('camera_id', cameraId)
+          .not('active_since', 'is', null)
+        if (!error) stopped++
+      } else if (wanting.length > 0 && isRunning) {
+        // Hand the running recording over to whichever schedules currently want it
+        const activeSince = runningSince.get(cameraId)!
+        const wantingIds = new Set(wanting.map((s) => s.id))
+        for (const schedule of cameraSchedules) {
+          const shouldBeActive = wantingIds.has(schedule.id)
+          if (shouldBeActive !== !!schedule.active_since) {
+            await supabase
+              .from('recording_schedules')
+              .update({ active_since: shouldBeActive ? activeSince : null })
+              .eq('id', schedule.id)
+          }
+        }
+      }
+    }
+
+    console.log(`[recording-scheduler] Run complete: ${started} started, ${stopped} stopped`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        schedulesChecked: rows.length,
+        started,
+        stopped,
+        timestamp: now.toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[recording-scheduler] Error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
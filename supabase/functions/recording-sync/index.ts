@@ -0,0 +1,332 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { createJsonResponse } from '../_shared/http.ts'
+import { resolveRecorderAccess } from '../_shared/recorderNodes.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+const requestSchema = z.discriminatedUnion('action', [
+  // Without camera_id: every camera of the caller's organisation
+  z.object({ action: z.literal('sync'), camera_id: z.string().uuid().optional() }),
+  // Imports stream a whole file through the function, so each request copies only one
+  z.object({ action: z.literal('import'), recording_id: z.string().uuid() }),
+])
+
+interface RecorderNode {
+  id: string
+  name: string
+  organization_id: string
+  base_url: string
+  api_key_secret: string
+  enabled: boolean
+}
+
+interface CameraRow {
+  id: string
+  name: string
+  organization_id: string
+  recorder_camera_id: string | null
+  recorder_nodes: RecorderNode | null
+}
+
+interface RemoteFile {
+  filename: string
+  mtime: number
+  size_bytes: number
+}
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+const NODE_COLUMNS = 'id, name, organization_id, base_url, api_key_secret, enabled'
+const CAMERA_COLUMNS = `id, name, organization_id, recorder_camera_id, recorder_nodes(${NODE_COLUMNS})`
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+// Same checks as rpi-file-proxy: plain file names only
+function isSafeFilename(filename: unknown): filename is string {
+  return typeof filename === 'string' && filename.length > 0 && filename.length <= 255 &&
+    !filename.includes('..') && !filename.includes('/') && !filename.includes('\\')
+}
+
+function recorderAccess(node: RecorderNode, organizationId: string | null) {
+  const access = resolveRecorderAccess(node, organizationId)
+  if (access.error !== undefined) throw new Error(access.error)
+  return access
+}
+
+// Mirror the recorder's file list into recordings: new files are added, sizes of growing files
+// updated, and rows of files the recorder has deleted removed unless they were imported or protected
+async function syncCamera(supabase: SupabaseClient, camera: CameraRow) {
+  const node = camera.recorder_nodes
+  const cam = camera.recorder_camera_id
+  if (!node || !node.enabled || !cam) return { added: 0, removed: 0 }
+
+  const { baseUrl, apiKey } = recorderAccess(node, camera.organization_id)
+  const response = await fetch(`${baseUrl}/recordings/list/${encodeURIComponent(cam)}`, {
+    headers: { 'X-API-Key': apiKey },
+    signal: AbortSignal.timeout(15000),
+  })
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(response.status === 530 ? 'Cloudflare tunnel down (HTTP 530)' : `HTTP ${response.status}`)
+  }
+
+  const listing = await response.json()
+  const files = ((listing.files || []) as RemoteFile[]).filter(
+    (file) => isSafeFilename(file.filename) && Number.isFinite(file.mtime)
+  )
+
+  const { data: existing, error: existingError } = await supabase
+    .from('recordings')
+    .select('id, remote_filename, size, file_url, is_protected')
+    .eq('camera_id', camera.id)
+    .eq('source', 'rpi')
+    // Rows of files listed on a node the camera used before are left alone
+    .eq('recorder_node_id', node.id)
+    .eq('remote_cam', cam)
+  if (existingError) throw existingError
+
+  const known = new Map((existing || []).map((row) => [row.remote_filename as string, row]))
+  const listed = new Set(files.map((file) => file.filename))
+
+  const newRows = files
+    .filter((file) => !known.has(file.filename))
+    .map((file) => ({
+      camera_id: camera.id,
+      source: 'rpi',
+      recorder_node_id: node.id,
+      remote_cam: cam,
+      remote_filename: file.filename,
+      remote_mtime: new Date(file.mtime * 1000).toISOString(),
+      recorded_at: new Date(file.mtime * 1000).toISOString(),
+      size: file.size_bytes ?? null,
+      description: file.filename,
+    }))
+
+  if (newRows.length > 0) {
+    // A concurrent sync may have added some already; the unique key makes this a no-op for those
+    const { error } = await supabase
+      .from('recordings')
+      .upsert(newRows, { onConflict: 'camera_id,remote_filename', ignoreDuplicates: true })
+    if (error) throw error
+  }
+
+  // Files still being written keep growing between syncs
+  for (const file of files) {
+    const row = known.get(file.filename)
+    if (!row || row.file_url || row.size === file.size_bytes) continue
+    await supabase
+      .from('recordings')
+      .update({ size: file.size_bytes, remote_mtime: new Date(file.mtime * 1000).toISOString() })
+      .eq('id', row.id)
+  }
+
+  const goneIds = (existing || [])
+    .filter((row) => !listed.has(row.remote_filename as string) && !row.file_url && !row.is_protected)
+    .map((row) => row.id)
+  if (goneIds.length > 0) {
+    const { error } = await supabase.from('recordings').delete().in('id', goneIds)
+    if (error) throw error
+  }
+
+  return { added: newRows.length, removed: goneIds.length }
+}
+
+async function syncCameras(supabase: SupabaseClient, cameras: CameraRow[]) {
+  const results: { camera_id: string; success: boolean; added?: number; removed?: number; error?: string }[] = []
+
+  for (const camera of cameras) {
+    try {
+      results.push({ camera_id: camera.id, success: true, ...(await syncCamera(supabase, camera)) })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[recording-sync] Sync failed for ${camera.name} (${camera.id}): ${message}`)
+      results.push({ camera_id: camera.id, success: false, error: message })
+    }
+  }
+
+  return results
+}
+
+// Copy a recorder file into the recordings bucket next to browser uploads
+async function importRecording(supabase: SupabaseClient, recordingId: string, userId: string, userEmail: string | null) {
+  const { data: recording } = await supabase
+    .from('recordings')
+    .select(`id, camera_id, source, file_url, remote_cam, remote_filename, cameras(organization_id), recorder_nodes(${NODE_COLUMNS})`)
+    .eq('id', recordingId)
+    .maybeSingle()
+
+  if (!recording || recording.source !== 'rpi' || !isSafeFilename(recording.remote_filename) || !recording.remote_cam) {
+    return { id: recordingId, success: false, error: 'Not a recorder recording' }
+  }
+  if (recording.file_url) {
+    return { id: recordingId, success: true, path: recording.file_url }
+  }
+
+  const { data: allowed } = await supabase.rpc('has_camera_role', {
+    _user_id: userId,
+    _camera_id: recording.camera_id,
+    _role: 'operator',
+  })
+  if (!allowed) {
+    return { id: recordingId, success: false, error: 'Not authorized to import this recording' }
+  }
+
+  // The node the file was listed on, even if the camera has been moved to another one since
+  const node = recording.recorder_nodes as RecorderNode | null
+  const organizationId = (recording.cameras as { organization_id: string } | null)?.organization_id ?? null
+  if (!node || !node.enabled) {
+    return { id: recordingId, success: false, error: 'Recorder node is no longer available' }
+  }
+
+  const { baseUrl, apiKey } = recorderAccess(node, organizationId)
+  const response = await fetch(
+    `${baseUrl}/recordings/file/${encodeURIComponent(recording.remote_cam)}/${encodeURIComponent(recording.remote_filename)}`,
+    { headers: { 'X-API-Key': apiKey } }
+  )
+  if (!response.ok || !response.body) {
+    await response.body?.cancel()
+    return { id: recordingId, success: false, error: `Recorder returned HTTP ${response.status}` }
+  }
+
+  const storagePath = `record/${recording.camera_id}/${recording.remote_filename}`
+  const { error: uploadError } = await supabase.storage
+    .from('recordings')
+    .upload(storagePath, response.body, {
+      contentType: response.headers.get('Content-Type') || 'video/mp4',
+      upsert: true,
+      duplex: 'half',
+    })
+  if (uploadError) {
+    console.error(`[recording-sync] Upload failed for ${recordingId}:`, uploadError)
+    return { id: recordingId, success: false, error: 'Failed to upload to storage' }
+  }
+
+  const importedAt = new Date().toISOString()
+  const { error: updateError } = await supabase
+    .from('recordings')
+    .update({ file_url: storagePath, imported_at: importedAt })
+    .eq('id', recordingId)
+  if (updateError) {
+    return { id: recordingId, success: false, error: 'Failed to update record' }
+  }
+
+  await supabase.from('audit_log').insert({
+    organization_id: organizationId,
+    actor_id: userId,
+    actor_email: userEmail,
+    action: 'recording.import',
+    camera_id: recording.camera_id,
+    target_type: 'recording',
+    target_id: recordingId,
+    diff: { cam: recording.remote_cam, file: recording.remote_filename, node: node.name },
+  })
+
+  return { id: recordingId, success: true, path: storagePath }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // pg_cron syncs every mapped camera
+    if (cronSecret && req.headers.get('X-Cron-Secret') === cronSecret) {
+      const { data: cameras, error } = await supabase
+        .from('cameras')
+        .select(CAMERA_COLUMNS)
+        .not('recorder_node_id', 'is', null)
+      if (error) throw error
+
+      const results = await syncCameras(supabase, (cameras || []) as CameraRow[])
+      const added = results.reduce((sum, result) => sum + (result.added ?? 0), 0)
+      console.log(`[recording-sync] Synced ${results.length} camera(s), ${added} new recording(s)`)
+      return jsonResponse({ success: true, results, added, timestamp: new Date().toISOString() })
+    }
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid token' }, 401)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ success: false, error: 'Invalid JSON' }, 400)
+    }
+
+    const parsed = requestSchema.safeParse(body)
+    if (!parsed.success) {
+      return jsonResponse({ success: false, error: 'Invalid input', details: parsed.error.issues.map((i) => i.message) }, 400)
+    }
+    const request = parsed.data
+
+    if (request.action === 'import') {
+      let result
+      try {
+        result = await importRecording(supabase, request.recording_id, user.id, user.email ?? null)
+      } catch (error) {
+        result = { id: request.recording_id, success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+      console.log(`[recording-sync] ${user.id} import of ${request.recording_id}: ${result.success ? 'imported' : 'failed'}`)
+      return jsonResponse({ success: true, result })
+    }
+
+    // Users sync the cameras they may operate
+    let query = supabase.from('cameras').select(CAMERA_COLUMNS).not('recorder_node_id', 'is', null)
+    if (request.camera_id) {
+      const { data: allowed } = await supabase.rpc('has_camera_role', {
+        _user_id: user.id,
+        _camera_id: request.camera_id,
+        _role: 'operator',
+      })
+      if (!allowed) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 403)
+      }
+      query = query.eq('id', request.camera_id)
+    } else {
+      const { data: organizationId } = await supabase.rpc('user_organization_id', { _user_id: user.id })
+      const { data: allowed } = organizationId
+        ? await supabase.rpc('has_org_role', { _user_id: user.id, _organization_id: organizationId, _role: 'operator' })
+        : { data: false }
+      if (!allowed) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 403)
+      }
+      query = query.eq('organization_id', organizationId)
+    }
+
+    const { data: cameras, error: camerasError } = await query
+    if (camerasError) throw camerasError
+
+    const results = await syncCameras(supabase, (cameras || []) as CameraRow[])
+    return jsonResponse({
+      success: true,
+      results,
+      added: results.reduce((sum, result) => sum + (result.added ?? 0), 0),
+      failed: results.filter((result) => !result.success).length,
+    })
+  } catch (error) {
+    console.error('[recording-sync] Error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,172 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+const BYTES_PER_GB = 1024 * 1024 * 1024
+
+interface RetentionPolicy {
+  enabled?: boolean
+  days?: number | null
+  maxTotalGb?: number | null
+  keepIfBackedUp?: boolean
+}
+
+interface RecordingRow {
+  id: string
+  file_url: string | null
+  recorded_at: string
+  size: number | null
+  backed_up_at: string | null
+  is_protected: boolean
+}
+
+// Storage path of a recording; legacy rows store the full public URL
+function toStoragePath(fileUrl: string | null): string | null {
+  if (!fileUrl) return null
+  if (fileUrl.startsWith('http')) {
+    const parts = fileUrl.split('/recordings/')
+    return parts.length > 1 ? parts[1] : null
+  }
+  return fileUrl
+}
+
+// Same selection as getRecordingsDueForDeletion in src/lib/retention.ts
+function selectExpired(records: RecordingRow[], policy: RetentionPolicy, now: number): Map<string, 'age' | 'quota'> {
+  const due = new Map<string, 'age' | 'quota'>()
+  const isExempt = (r: RecordingRow) => r.is_protected || (!!policy.keepIfBackedUp && !!r.backed_up_at)
+
+  if (policy.days !== null && policy.days !== undefined) {
+    const cutoff = now - policy.days * 24 * 60 * 60 * 1000
+    for (const record of records) {
+      if (!isExempt(record) && new Date(record.recorded_at).getTime() < cutoff) {
+        due.set(record.id, 'age')
+      }
+    }
+  }
+
+  if (policy.maxTotalGb !== null && policy.maxTotalGb !== undefined) {
+    const maxBytes = policy.maxTotalGb * BYTES_PER_GB
+    let total = records.filter((r) => !due.has(r.id)).reduce((sum, r) => sum + (r.size || 0), 0)
+    for (const record of records) {
+      if (total <= maxBytes) break
+      if (due.has(record.id) || isExempt(record)) continue
+      due.set(record.id, 'quota')
+      total -= record.size || 0
+    }
+  }
+
+  return due
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const cronSecret = Deno.env.get('CRON_SECRET')
+
+    // Only pg_cron (shared secret) may trigger a run
+    if (!cronSecret || req.headers.get('X-Cron-Secret') !== cronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = Date.now()
+
+    const { data: cameras, error: camerasError } = await supabase
+      .from('cameras')
+      .select('id, name, retention')
+      .not('retention', 'is', null)
+
+    if (camerasError) throw camerasError
+
+    let purged = 0
+    let failed = 0
+
+    for (const camera of cameras || []) {
+      const policy = (camera.retention || {}) as RetentionPolicy
+      if (!policy.enabled) continue
+
+      const { data: recordings, error: recordingsError } = await supabase
+        .from('recordings')
+        .select('id, file_url, recorded_at, size, backed_up_at, is_protected')
+        .eq('camera_id', camera.id)
+        // Files still only on a recorder are managed by the recorder, not by this policy
+        .or('source.eq.browser,file_url.not.is.null')
+        .order('recorded_at', { ascending: true })
+
+      if (recordingsError) {
+        console.error(`[retention-purge] Error fetching recordings for ${camera.id}:`, recordingsError)
+        continue
+      }
+
+      const due = selectExpired((recordings || []) as RecordingRow[], policy, now)
+      if (due.size === 0) continue
+
+      console.log(`[retention-purge] Camera ${camera.name}: ${due.size} recording(s) due`)
+
+      for (const record of recordings || []) {
+        const reason = due.get(record.id)
+        if (!reason) continue
+
+        const storagePath = toStoragePath(record.file_url)
+        let error: string | null = null
+
+        // Only touch objects inside this camera's folder
+        if (storagePath && storagePath.startsWith(`record/${camera.id}/`)) {
+          const { error: storageError } = await supabase.storage.from('recordings').remove([storagePath])
+          if (storageError) error = storageError.message
+        }
+
+        if (!error) {
+          const { error: deleteError } = await supabase
+            .from('recordings')
+            .delete()
+            .eq('id', record.id)
+            .eq('is_protected', false)
+          if (deleteError) error = deleteError.message
+        }
+
+        await supabase.from('purge_log').insert({
+          camera_id: camera.id,
+          recording_id: record.id,
+          file_path: storagePath,
+          recorded_at: record.recorded_at,
+          size: record.size,
+          reason,
+          error,
+        })
+
+        if (error) {
+          console.error(`[retention-purge] Failed to purge ${record.id}: ${error}`)
+          failed++
+        } else {
+          purged++
+        }
+      }
+    }
+
+    console.log(`[retention-purge] Run complete: ${purged} purged, ${failed} failed`)
+
+    return new Response(
+      JSON.stringify({ success: true, purged, failed, timestamp: new Date(now).toISOString() }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[retention-purge] Error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -1,10 +1,38 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveRecorderAccess } from '../_shared/recorderNodes.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, range',
   'Access-Control-Expose-Headers': 'Content-Range, Accept-Ranges, Content-Length, Content-Type',
 }
 
-const RPI_API_BASE = 'https://api.cctvgreen.site'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// Same rule as the recorder_camera_id check in the database
+const RECORDER_CAMERA_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+// Links are minted by mjpeg-recording (signFileLink) for one user, camera, file and disposition
+async function verifyFileLink(secret: string, params: string[], sig: string) {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const expected = toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(params.join('|')))))
+  return timingSafeEqual(sig, expected)
+}
+
+// A download is one request from the start of the file; resumed ranges are not logged again
+function isDownloadStart(rangeHeader: string | null) {
+  return !rangeHeader || /^bytes=0-/.test(rangeHeader.trim())
+}
 
 Deno.serve(async (req) => {
   // Handle CORS preflight
@@ -13,40 +41,91 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const RPI_API_KEY = Deno.env.get('RPI_API_KEY')
-    if (!RPI_API_KEY) {
-      console.error('[rpi-file-proxy] RPI_API_KEY not configured')
+    const linkSecret = Deno.env.get('RECORDING_LINK_SECRET')
+    if (!linkSecret) {
+      console.error('[rpi-file-proxy] RECORDING_LINK_SECRET not configured')
       return new Response('Server configuration error', { status: 500, headers: corsHeaders })
     }
 
     const url = new URL(req.url)
+    const cameraId = url.searchParams.get('camera_id')
     const cam = url.searchParams.get('cam')
     const file = url.searchParams.get('file')
+    const userId = url.searchParams.get('user')
+    const disposition = url.searchParams.get('disposition')
+    const exp = url.searchParams.get('exp')
+    const sig = url.searchParams.get('sig')
+
+    if (!cameraId || !cam || !file || !userId || !disposition || !exp || !sig) {
+      console.error('[rpi-file-proxy] Missing link parameter')
+      return new Response('Missing link parameter', { status: 400, headers: corsHeaders })
+    }
+
+    if (!UUID_PATTERN.test(cameraId) || !UUID_PATTERN.test(userId) || (disposition !== 'inline' && disposition !== 'attachment')) {
+      return new Response('Invalid link', { status: 400, headers: corsHeaders })
+    }
 
-    if (!cam || !file) {
-      console.error('[rpi-file-proxy] Missing cam or file parameter')
-      return new Response('Missing cam or file parameter', { status: 400, headers: corsHeaders })
+    if (!(await verifyFileLink(linkSecret, [cameraId, cam, file, userId, disposition, exp], sig))) {
+      console.error(`[rpi-file-proxy] Bad signature for ${cam}/${file}`)
+      return new Response('Invalid link', { status: 403, headers: corsHeaders })
     }
 
-    // Validate cam format (cam1, cam2, etc.)
-    if (!/^cam\d+$/.test(cam)) {
+    if (Number(exp) < Date.now() / 1000) {
+      return new Response('Link expired', { status: 403, headers: corsHeaders })
+    }
+
+    // Checked on every request so a user removed or demoted to viewer loses access before the link expires.
+    // Links are only minted for operators (mjpeg-recording list), so the same role is required here
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+    const { data: canOperate } = await supabase.rpc('has_camera_role', {
+      _user_id: userId,
+      _camera_id: cameraId,
+      _role: 'operator',
+    })
+    if (!canOperate) {
+      console.error(`[rpi-file-proxy] User ${userId} may no longer operate camera ${cameraId}`)
+      return new Response('Unauthorized', { status: 403, headers: corsHeaders })
+    }
+
+    // Validate cam format (remote camera id on the recorder)
+    if (!RECORDER_CAMERA_PATTERN.test(cam)) {
       console.error(`[rpi-file-proxy] Invalid cam format: ${cam}`)
       return new Response('Invalid cam parameter', { status: 400, headers: corsHeaders })
     }
 
+    // The recorder is looked up now, so links die when the camera is moved to another node
+    const { data: camera } = await supabase
+      .from('cameras')
+      .select('organization_id, recorder_camera_id, recorder_nodes(name, organization_id, base_url, api_key_secret, enabled)')
+      .eq('id', cameraId)
+      .maybeSingle()
+
+    const node = camera?.recorder_nodes
+    if (!node || !node.enabled || camera.recorder_camera_id !== cam) {
+      console.error(`[rpi-file-proxy] Camera ${cameraId} is no longer recorded as ${cam}`)
+      return new Response('Recording no longer available', { status: 404, headers: corsHeaders })
+    }
+
+    const access = resolveRecorderAccess(node, camera.organization_id)
+    if (access.error !== undefined) {
+      console.error(`[rpi-file-proxy] ${access.error} (node ${node.name})`)
+      return new Response('Server configuration error', { status: 500, headers: corsHeaders })
+    }
+    const { apiKey, baseUrl } = access
+
     // Validate filename (basic security check)
     if (file.includes('..') || file.includes('/') || file.includes('\\')) {
       console.error(`[rpi-file-proxy] Invalid filename: ${file}`)
       return new Response('Invalid file parameter', { status: 400, headers: corsHeaders })
     }
 
-    const fileUrl = `${RPI_API_BASE}/recordings/file/${cam}/${encodeURIComponent(file)}`
+    const fileUrl = `${baseUrl}/recordings/file/${cam}/${encodeURIComponent(file)}`
     console.log(`[rpi-file-proxy] Proxying: ${fileUrl}`)
 
     // Forward Range header if present (for video seeking)
     const rangeHeader = req.headers.get('Range')
     const rpiHeaders: Record<string, string> = {
-      'X-API-Key': RPI_API_KEY,
+      'X-API-Key': apiKey,
     }
     if (rangeHeader) {
       rpiHeaders['Range'] = rangeHeader
@@ -90,8 +169,27 @@ Deno.serve(async (req) => {
       responseHeaders['Content-Range'] = contentRange
     }
 
-    // Set content disposition for download
-    responseHeaders['Content-Disposition'] = `inline; filename="${file}"`
+    // Play links open in the player, download links save the file
+    responseHeaders['Content-Disposition'] = `${disposition}; filename="${file.replace(/"/g, '')}"`
+
+    if (disposition === 'attachment' && isDownloadStart(rangeHeader)) {
+      const { data: { user } } = await supabase.auth.admin.getUserById(userId)
+
+      // Server-side recordings have no recordings row, so the camera is the target
+      const { error: auditError } = await supabase.from('audit_log').insert({
+        organization_id: camera.organization_id,
+        actor_id: userId,
+        actor_email: user?.email ?? null,
+        action: 'recording.download',
+        camera_id: cameraId,
+        target_type: 'camera',
+        target_id: cameraId,
+        diff: { cam, file },
+      })
+      if (auditError) {
+        console.error('[rpi-file-proxy] Failed to write audit entry:', auditError)
+      }
+    }
 
     console.log(`[rpi-file-proxy] Streaming ${file}, status: ${rpiResponse.status}, size: ${contentLength || 'unknown'}`)
 
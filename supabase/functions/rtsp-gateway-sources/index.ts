@@ -0,0 +1,82 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createJsonResponse } from '../_shared/http.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gateway-secret',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+interface CredentialRow {
+  camera_id: string
+  username: string
+  password: string
+}
+
+const jsonResponse = createJsonResponse(corsHeaders)
+
+// stream_url never contains a login; add the stored one back for ffmpeg
+function withCredentials(streamUrl: string, credentials: CredentialRow | undefined): string {
+  if (!credentials) return streamUrl
+  try {
+    const url = new URL(streamUrl)
+    url.username = encodeURIComponent(credentials.username)
+    url.password = encodeURIComponent(credentials.password)
+    return url.toString()
+  } catch {
+    return streamUrl
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const gatewaySecret = Deno.env.get('RTSP_GATEWAY_SECRET')
+
+    // Only the RTSP gateway (shared secret) may read camera logins
+    if (!gatewaySecret || req.headers.get('X-Gateway-Secret') !== gatewaySecret) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: cameras, error: camerasError } = await supabase
+      .from('cameras')
+      .select('id, stream_url')
+      .eq('stream_type', 'rtsp')
+
+    if (camerasError) throw camerasError
+
+    const cameraIds = (cameras || []).map((camera) => camera.id)
+    const { data: credentials, error: credentialsError } = cameraIds.length
+      ? await supabase
+          .from('camera_stream_credentials')
+          .select('camera_id, username, password')
+          .in('camera_id', cameraIds)
+      : { data: [], error: null }
+
+    if (credentialsError) throw credentialsError
+
+    const credentialsByCamera = new Map(
+      ((credentials || []) as CredentialRow[]).map((row) => [row.camera_id, row])
+    )
+
+    const sources = (cameras || []).map((camera) => ({
+      camera_id: camera.id,
+      url: withCredentials(camera.stream_url, credentialsByCamera.get(camera.id)),
+    }))
+
+    console.log(`[rtsp-gateway-sources] Returning ${sources.length} source(s)`)
+
+    return jsonResponse({ success: true, sources })
+  } catch (error) {
+    console.error('[rtsp-gateway-sources] Error:', error)
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -2,6 +2,7 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { dispatchAlerts } from '../_shared/alerts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,7 +15,8 @@ const startRecordingSchema = z.object({
   stream_url: z.string()
     .url('Invalid stream URL')
     .max(500, 'Stream URL too long'),
-  started_at: z.number().int().positive().optional()
+  started_at: z.number().int().positive().optional(),
+  trigger: z.enum(['manual', 'motion']).optional()
 });
 
 serve(async (req) => {
@@ -69,12 +71,12 @@ serve(async (req) => {
       );
     }
 
-    const { camera_id, stream_url, started_at } = validationResult.data;
+    const { camera_id, stream_url, started_at, trigger } = validationResult.data;
 
-    // Verify camera exists, is online, and user owns it
+    // Verify camera exists and is online
     const { data: camera, error: cameraError } = await supabase
       .from('cameras')
-      .select('id, status, name, user_id')
+      .select('id, status, name, organization_id')
       .eq('id', camera_id)
       .maybeSingle();
 
@@ -86,9 +88,15 @@ serve(async (req) => {
       );
     }
 
-    // Verify ownership
-    if (camera.user_id !== user.id) {
-      console.log(`Unauthorized: user ${user.id} trying to record camera owned by ${camera.user_id}`);
+    // Recording requires at least the operator role in the camera's organisation
+    const { data: canRecord } = await supabase.rpc('has_camera_role', {
+      _user_id: user.id,
+      _camera_id: camera_id,
+      _role: 'operator',
+    });
+
+    if (!canRecord) {
+      console.log(`Unauthorized: user ${user.id} is not an operator for camera ${camera_id}`);
       return new Response(
         JSON.stringify({ error: 'Unauthorized to record this camera' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -112,7 +120,9 @@ serve(async (req) => {
       .insert({
         camera_id,
         recorded_at: recordedAtIso,
-        description: `Recording started for camera ${camera.name}`,
+        description: trigger === 'motion'
+          ? `Motion-triggered recording for camera ${camera.name}`
+          : `Recording started for camera ${camera.name}`,
       })
       .select()
       .single();
@@ -131,6 +141,21 @@ serve(async (req) => {
       .update({ status: 'recording' })
       .eq('id', camera_id);
 
+    await supabase.from('audit_log').insert({
+      organization_id: camera.organization_id,
+      actor_id: user.id,
+      actor_email: user.email,
+      action: 'recording.start',
+      camera_id,
+      target_type: 'recording',
+      target_id: recording.id,
+      diff: { trigger: trigger ?? 'manual', recorded_at: recording.recorded_at },
+    });
+
+    await dispatchAlerts(supabaseUrl, supabaseKey, [
+      { camera_id, event_type: 'recording_started', details: { recording_id: recording.id, trigger: trigger ?? 'manual' } },
+    ]);
+
     console.log(`Recording started: ${recording.id} for camera ${camera.name} by user ${user.id}`);
 
     return new Response(
@@ -2,6 +2,7 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { dispatchAlerts } from '../_shared/alerts.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -77,7 +78,7 @@ serve(async (req) => {
     // Get recording details with camera info
     const { data: recording, error: fetchError } = await supabase
       .from("recordings")
-      .select("*, cameras(name, status, user_id)")
+      .select("*, cameras(name, status, organization_id)")
       .eq("id", recording_id)
       .maybeSingle();
 
@@ -89,10 +90,15 @@ serve(async (req) => {
       });
     }
 
-    // Verify ownership through camera
-    const cameraUserId = (recording.cameras as any)?.user_id;
-    if (cameraUserId !== user.id) {
-      console.log(`Unauthorized: user ${user.id} trying to stop recording for camera owned by ${cameraUserId}`);
+    // Stopping requires at least the operator role in the camera's organisation
+    const { data: canRecord } = await supabase.rpc("has_camera_role", {
+      _user_id: user.id,
+      _camera_id: recording.camera_id,
+      _role: "operator",
+    });
+
+    if (!canRecord) {
+      console.log(`Unauthorized: user ${user.id} is not an operator for camera ${recording.camera_id}`);
       return new Response(JSON.stringify({ error: "Unauthorized to stop this recording" }), {
         status: 403,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -147,6 +153,21 @@ serve(async (req) => {
     // Update camera status back to online
     await supabase.from("cameras").update({ status: "online" }).eq("id", recording.camera_id);
 
+    await supabase.from("audit_log").insert({
+      organization_id: recording.cameras?.organization_id ?? null,
+      actor_id: user.id,
+      actor_email: user.email,
+      action: "recording.stop",
+      camera_id: recording.camera_id,
+      target_type: "recording",
+      target_id: recording_id,
+      diff: updateData,
+    });
+
+    await dispatchAlerts(supabaseUrl, supabaseKey, [
+      { camera_id: recording.camera_id, event_type: "recording_stopped", details: { recording_id, duration: durationFormatted } },
+    ]);
+
     console.log(`Recording stopped: ${recording_id}, duration: ${durationFormatted}, file: ${fileUrl || "none"}, user: ${user.id}`);
 
     return new Response(
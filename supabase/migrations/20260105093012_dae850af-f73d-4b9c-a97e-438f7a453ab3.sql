@@ -0,0 +1,6 @@
+-- Per-camera motion detection settings used by the browser-side auto recorder
+-- Shape: { enabled, sensitivity, minAreaPercent, prePaddingSeconds, postPaddingSeconds }
+ALTER TABLE public.cameras
+ADD COLUMN IF NOT EXISTS motion_detection JSONB;
+
+COMMENT ON COLUMN public.cameras.motion_detection IS 'Client-side motion detection settings (sensitivity, minimum area, pre/post padding)';
@@ -0,0 +1,36 @@
+-- Create motion_events table for motion detected by the browser or the Raspberry Pi recorder
+CREATE TABLE public.motion_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE NOT NULL,
+    recording_id UUID REFERENCES public.recordings(id) ON DELETE SET NULL,
+    source TEXT NOT NULL DEFAULT 'browser' CHECK (source IN ('browser', 'rpi')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    peak_score NUMERIC,
+    bounding_box JSONB,
+    snapshot_path TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_motion_events_camera_started ON public.motion_events (camera_id, started_at DESC);
+
+-- Enable RLS on motion_events
+ALTER TABLE public.motion_events ENABLE ROW LEVEL SECURITY;
+
+-- Owner-based RLS policies (via camera ownership); inserts go through the motion-events edge function
+CREATE POLICY "Users can view own motion events"
+ON public.motion_events FOR SELECT
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete own motion events"
+ON public.motion_events FOR DELETE
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+-- Enable realtime for the Events tab
+ALTER PUBLICATION supabase_realtime ADD TABLE public.motion_events;
@@ -0,0 +1,6 @@
+-- Per-camera privacy masks painted over live view, snapshots and recordings
+-- Shape: [{ id, points: [{ x, y }] }] with coordinates normalized to 0-1
+ALTER TABLE public.cameras
+ADD COLUMN IF NOT EXISTS privacy_masks JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.cameras.privacy_masks IS 'Polygon privacy masks (normalized coordinates) blacked out in live view, snapshots and recordings';
@@ -0,0 +1,66 @@
+-- Create recording_schedules table for time-based recording of Raspberry Pi (MJPEG) cameras
+CREATE TABLE public.recording_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    weekdays SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    mode TEXT NOT NULL DEFAULT 'continuous' CHECK (mode IN ('continuous', 'motion')),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Set by the recording-scheduler function while it keeps a recording running for this schedule
+    active_since TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (weekdays <@ '{0,1,2,3,4,5,6}'::SMALLINT[]),
+    CHECK (start_time <> end_time)
+);
+
+CREATE INDEX idx_recording_schedules_camera ON public.recording_schedules (camera_id);
+
+-- Enable RLS on recording_schedules
+ALTER TABLE public.recording_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Owner-based RLS policies (via camera ownership)
+CREATE POLICY "Users can view own recording schedules"
+ON public.recording_schedules FOR SELECT
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can insert own recording schedules"
+ON public.recording_schedules FOR INSERT
+TO authenticated
+WITH CHECK (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update own recording schedules"
+ON public.recording_schedules FOR UPDATE
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete own recording schedules"
+ON public.recording_schedules FOR DELETE
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
+
+-- Create trigger for updated_at on recording_schedules
+CREATE TRIGGER update_recording_schedules_updated_at
+BEFORE UPDATE ON public.recording_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so the Schedules page reflects scheduler state
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recording_schedules;
+
+-- Extensions used to run the recording-scheduler function every minute (see RECORDING_SETUP.md)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
@@ -0,0 +1,33 @@
+-- Per-camera retention policy: { enabled, days, maxTotalGb, keepIfBackedUp }
+ALTER TABLE public.cameras
+ADD COLUMN IF NOT EXISTS retention JSONB;
+
+-- Protected (evidence) recordings are never purged
+ALTER TABLE public.recordings
+ADD COLUMN IF NOT EXISTS is_protected BOOLEAN NOT NULL DEFAULT false;
+
+-- Create purge_log table written by the retention-purge edge function
+CREATE TABLE public.purge_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE NOT NULL,
+    recording_id UUID NOT NULL,
+    file_path TEXT,
+    recorded_at TIMESTAMP WITH TIME ZONE,
+    size BIGINT,
+    reason TEXT NOT NULL CHECK (reason IN ('age', 'quota')),
+    error TEXT,
+    purged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purge_log_camera_purged ON public.purge_log (camera_id, purged_at DESC);
+
+-- Enable RLS on purge_log
+ALTER TABLE public.purge_log ENABLE ROW LEVEL SECURITY;
+
+-- Owner-based RLS policy (via camera ownership); rows are only written by the service role
+CREATE POLICY "Users can view own purge log"
+ON public.purge_log FOR SELECT
+TO authenticated
+USING (
+  camera_id IN (SELECT id FROM public.cameras WHERE user_id = auth.uid())
+);
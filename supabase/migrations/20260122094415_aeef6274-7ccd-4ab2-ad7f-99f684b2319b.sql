@@ -0,0 +1,49 @@
+-- Create camera_groups table for sites such as "Greenhouse A" or "Rooftop"
+CREATE TABLE public.camera_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+-- Enable RLS on camera_groups
+ALTER TABLE public.camera_groups ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for camera_groups (only owner can access)
+CREATE POLICY "Users can view own camera groups"
+ON public.camera_groups FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own camera groups"
+ON public.camera_groups FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own camera groups"
+ON public.camera_groups FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own camera groups"
+ON public.camera_groups FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at on camera_groups
+CREATE TRIGGER update_camera_groups_updated_at
+BEFORE UPDATE ON public.camera_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Assign cameras to a group; deleting a group leaves its cameras ungrouped
+ALTER TABLE public.cameras
+ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.camera_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_cameras_group ON public.cameras (group_id);
+
+-- Enable realtime for sidebar and filter updates
+ALTER PUBLICATION supabase_realtime ADD TABLE public.camera_groups;
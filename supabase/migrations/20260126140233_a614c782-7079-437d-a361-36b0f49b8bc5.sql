@@ -0,0 +1,360 @@
+-- Organisations: several users share cameras with viewer < operator < admin roles
+-- (enum order matters: role comparisons use it)
+CREATE TYPE public.org_role AS ENUM ('viewer', 'operator', 'admin');
+
+CREATE TABLE public.organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One organisation per user
+CREATE TABLE public.organization_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    role org_role NOT NULL DEFAULT 'viewer',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_members_org ON public.organization_members (organization_id);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Security definer helpers (prevent RLS recursion), also used by edge functions via RPC
+CREATE OR REPLACE FUNCTION public.user_organization_id(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id
+  FROM public.organization_members
+  WHERE user_id = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_org_role(_user_id UUID, _organization_id UUID, _role org_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members
+    WHERE user_id = _user_id
+      AND organization_id = _organization_id
+      AND role >= _role
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.camera_role(_user_id UUID, _camera_id UUID)
+RETURNS org_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role
+  FROM public.cameras c
+  JOIN public.organization_members m
+    ON m.organization_id = c.organization_id
+   AND m.user_id = _user_id
+  WHERE c.id = _camera_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_camera_role(_user_id UUID, _camera_id UUID, _role org_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.camera_role(_user_id, _camera_id) >= _role, false)
+$$;
+
+-- Give every existing user a personal organisation they administer
+INSERT INTO public.organizations (id, name)
+SELECT u.id, COALESCE(split_part(u.email, '@', 1), 'My') || '''s organisation'
+FROM auth.users u;
+
+INSERT INTO public.organization_members (organization_id, user_id, role)
+SELECT u.id, u.id, 'admin'
+FROM auth.users u;
+
+-- New sign-ups get a personal organisation as well
+CREATE OR REPLACE FUNCTION public.handle_new_user_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name)
+  VALUES (COALESCE(split_part(NEW.email, '@', 1), 'My') || '''s organisation')
+  RETURNING id INTO _org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_org_id, NEW.id, 'admin');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_organization
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user_organization();
+
+-- Cameras and groups belong to an organisation (defaults to the creator's)
+ALTER TABLE public.cameras
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE
+DEFAULT public.user_organization_id(auth.uid());
+
+UPDATE public.cameras
+SET organization_id = public.user_organization_id(user_id)
+WHERE user_id IS NOT NULL;
+
+CREATE INDEX idx_cameras_organization ON public.cameras (organization_id);
+
+ALTER TABLE public.camera_groups
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE
+DEFAULT public.user_organization_id(auth.uid());
+
+UPDATE public.camera_groups
+SET organization_id = public.user_organization_id(user_id);
+
+ALTER TABLE public.camera_groups ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.camera_groups DROP CONSTRAINT camera_groups_user_id_name_key;
+ALTER TABLE public.camera_groups ADD CONSTRAINT camera_groups_organization_id_name_key UNIQUE (organization_id, name);
+
+-- Enable RLS on organisation tables
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+ON public.organizations FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), id, 'viewer'));
+
+CREATE POLICY "Admins can update their organization"
+ON public.organizations FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), id, 'admin'));
+
+CREATE POLICY "Members can view organization members"
+ON public.organization_members FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'viewer'));
+
+CREATE POLICY "Admins can manage organization members"
+ON public.organization_members FOR ALL
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'))
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- cameras: everyone sees live cameras, admins manage them
+DROP POLICY IF EXISTS "Users can view own cameras" ON public.cameras;
+DROP POLICY IF EXISTS "Users can insert own cameras" ON public.cameras;
+DROP POLICY IF EXISTS "Users can update own cameras" ON public.cameras;
+DROP POLICY IF EXISTS "Users can delete own cameras" ON public.cameras;
+
+CREATE POLICY "Members can view organization cameras"
+ON public.cameras FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'viewer'));
+
+CREATE POLICY "Admins can insert organization cameras"
+ON public.cameras FOR INSERT
+TO authenticated
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can update organization cameras"
+ON public.cameras FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can delete organization cameras"
+ON public.cameras FOR DELETE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- Viewers may still flag a camera offline when its stream drops
+CREATE OR REPLACE FUNCTION public.mark_camera_offline(_camera_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_camera_role(auth.uid(), _camera_id, 'viewer') THEN
+    RAISE EXCEPTION 'Not allowed to update camera %', _camera_id;
+  END IF;
+
+  UPDATE public.cameras
+  SET status = 'offline', last_seen = now()
+  WHERE id = _camera_id;
+END;
+$$;
+
+-- camera_groups: everyone sees groups, admins manage them
+DROP POLICY IF EXISTS "Users can view own camera groups" ON public.camera_groups;
+DROP POLICY IF EXISTS "Users can insert own camera groups" ON public.camera_groups;
+DROP POLICY IF EXISTS "Users can update own camera groups" ON public.camera_groups;
+DROP POLICY IF EXISTS "Users can delete own camera groups" ON public.camera_groups;
+
+CREATE POLICY "Members can view organization camera groups"
+ON public.camera_groups FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'viewer'));
+
+CREATE POLICY "Admins can insert organization camera groups"
+ON public.camera_groups FOR INSERT
+TO authenticated
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can update organization camera groups"
+ON public.camera_groups FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can delete organization camera groups"
+ON public.camera_groups FOR DELETE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- recordings: operators record and review footage, admins delete it
+DROP POLICY IF EXISTS "Users can view own recordings" ON public.recordings;
+DROP POLICY IF EXISTS "Users can insert own recordings" ON public.recordings;
+DROP POLICY IF EXISTS "Users can update own recordings" ON public.recordings;
+DROP POLICY IF EXISTS "Users can delete own recordings" ON public.recordings;
+
+CREATE POLICY "Operators can view organization recordings"
+ON public.recordings FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+CREATE POLICY "Operators can insert organization recordings"
+ON public.recordings FOR INSERT
+TO authenticated
+WITH CHECK (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+CREATE POLICY "Operators can update organization recordings"
+ON public.recordings FOR UPDATE
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+CREATE POLICY "Admins can delete organization recordings"
+ON public.recordings FOR DELETE
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+-- motion_events: operators review events, admins delete them
+DROP POLICY IF EXISTS "Users can view own motion events" ON public.motion_events;
+DROP POLICY IF EXISTS "Users can delete own motion events" ON public.motion_events;
+
+CREATE POLICY "Operators can view organization motion events"
+ON public.motion_events FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+CREATE POLICY "Admins can delete organization motion events"
+ON public.motion_events FOR DELETE
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+-- recording_schedules: operators view, admins manage
+DROP POLICY IF EXISTS "Users can view own recording schedules" ON public.recording_schedules;
+DROP POLICY IF EXISTS "Users can insert own recording schedules" ON public.recording_schedules;
+DROP POLICY IF EXISTS "Users can update own recording schedules" ON public.recording_schedules;
+DROP POLICY IF EXISTS "Users can delete own recording schedules" ON public.recording_schedules;
+
+CREATE POLICY "Operators can view organization recording schedules"
+ON public.recording_schedules FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+CREATE POLICY "Admins can insert organization recording schedules"
+ON public.recording_schedules FOR INSERT
+TO authenticated
+WITH CHECK (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+CREATE POLICY "Admins can update organization recording schedules"
+ON public.recording_schedules FOR UPDATE
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+CREATE POLICY "Admins can delete organization recording schedules"
+ON public.recording_schedules FOR DELETE
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+-- purge_log: admins only
+DROP POLICY IF EXISTS "Users can view own purge log" ON public.purge_log;
+
+CREATE POLICY "Admins can view organization purge log"
+ON public.purge_log FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'admin'));
+
+-- Storage (record/{camera_id}/...): operators read and upload, admins delete
+DROP POLICY IF EXISTS "Users can view recordings of their cameras" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload recordings to their cameras" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update recordings of their cameras" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete recordings of their cameras" ON storage.objects;
+
+CREATE POLICY "Operators can view organization recording files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.cameras cam
+    WHERE cam.id::text = (string_to_array(storage.objects.name, '/'))[2]
+      AND public.has_org_role(auth.uid(), cam.organization_id, 'operator')
+  )
+);
+
+CREATE POLICY "Operators can upload organization recording files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.cameras cam
+    WHERE cam.id::text = (string_to_array(storage.objects.name, '/'))[2]
+      AND public.has_org_role(auth.uid(), cam.organization_id, 'operator')
+  )
+);
+
+CREATE POLICY "Operators can update organization recording files"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.cameras cam
+    WHERE cam.id::text = (string_to_array(storage.objects.name, '/'))[2]
+      AND public.has_org_role(auth.uid(), cam.organization_id, 'operator')
+  )
+);
+
+CREATE POLICY "Admins can delete organization recording files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.cameras cam
+    WHERE cam.id::text = (string_to_array(storage.objects.name, '/'))[2]
+      AND public.has_org_role(auth.uid(), cam.organization_id, 'admin')
+  )
+);
@@ -0,0 +1,72 @@
+-- Invite-only sign-up: when any organisation enables it, public sign-up is rejected
+ALTER TABLE public.organizations
+ADD COLUMN invite_only BOOLEAN NOT NULL DEFAULT false;
+
+-- Pending invites, consumed by the sign-up trigger when the invited account is created
+CREATE TABLE public.organization_invites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    role org_role NOT NULL DEFAULT 'viewer',
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+
+-- Invites are created by the manage-users function (service role); admins may list them
+CREATE POLICY "Admins can view organization invites"
+ON public.organization_invites FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- Login page decides whether to show the Sign Up tab
+CREATE OR REPLACE FUNCTION public.signup_allowed()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM public.organizations WHERE invite_only)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.signup_allowed() TO anon, authenticated;
+
+-- Invited users join the inviting organisation instead of getting a personal one
+CREATE OR REPLACE FUNCTION public.handle_new_user_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.organization_invites%ROWTYPE;
+  _org_id UUID;
+BEGIN
+  SELECT * INTO _invite
+  FROM public.organization_invites
+  WHERE lower(email) = lower(NEW.email);
+
+  IF FOUND THEN
+    INSERT INTO public.organization_members (organization_id, user_id, role)
+    VALUES (_invite.organization_id, NEW.id, _invite.role);
+
+    DELETE FROM public.organization_invites WHERE id = _invite.id;
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.signup_allowed() THEN
+    RAISE EXCEPTION 'Sign-up is by invitation only';
+  END IF;
+
+  INSERT INTO public.organizations (name)
+  VALUES (COALESCE(split_part(NEW.email, '@', 1), 'My') || '''s organisation')
+  RETURNING id INTO _org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (_org_id, NEW.id, 'admin');
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Audit trail of who did what to cameras and recordings
+CREATE TABLE public.audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for system jobs
+    actor_email TEXT, -- Kept so entries stay readable after the account is removed
+    action TEXT NOT NULL, -- e.g. recording.start, camera.update
+    camera_id UUID, -- No FK: entries outlive deleted cameras
+    target_type TEXT NOT NULL, -- camera | recording
+    target_id TEXT,
+    diff JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_org_created ON public.audit_log (organization_id, created_at DESC);
+CREATE INDEX idx_audit_log_camera ON public.audit_log (camera_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and service-role edge functions only; admins read their organisation's log
+CREATE POLICY "Admins can view organization audit log"
+ON public.audit_log FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- Columns that change on every heartbeat or are bookkeeping only
+CREATE OR REPLACE FUNCTION public.audit_diff(_old JSONB, _new JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(o.key, jsonb_build_object('old', o.value, 'new', n.value)),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(_old) o
+  JOIN jsonb_each(_new) n ON n.key = o.key
+  WHERE o.value IS DISTINCT FROM n.value
+    AND o.key NOT IN ('updated_at', 'last_ping', 'last_seen', 'status')
+$$;
+
+-- Logs changes made directly by signed-in users; service-role writes are logged by the edge functions
+CREATE OR REPLACE FUNCTION public.log_audit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+  _row JSONB := to_jsonb(COALESCE(NEW, OLD));
+  _camera_id UUID;
+  _org_id UUID;
+  _diff JSONB;
+  _target_type TEXT := CASE TG_TABLE_NAME WHEN 'cameras' THEN 'camera' ELSE 'recording' END;
+BEGIN
+  IF _actor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'cameras' THEN
+    _camera_id := (_row->>'id')::uuid;
+    _org_id := (_row->>'organization_id')::uuid;
+  ELSE
+    _camera_id := (_row->>'camera_id')::uuid;
+    SELECT organization_id INTO _org_id FROM public.cameras WHERE id = _camera_id;
+  END IF;
+
+  -- Recordings removed by a camera delete cascade are covered by the camera.delete entry
+  IF _org_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    _diff := public.audit_diff(to_jsonb(OLD), to_jsonb(NEW));
+    IF _diff = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    _diff := to_jsonb(OLD);
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, actor_email, action, camera_id, target_type, target_id, diff)
+  SELECT _org_id, _actor, u.email, _target_type || '.' || lower(TG_OP), _camera_id, _target_type, _row->>'id', _diff
+  FROM (SELECT 1) AS one
+  LEFT JOIN auth.users u ON u.id = _actor;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_cameras_changes
+AFTER UPDATE OR DELETE ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.log_audit_change();
+
+CREATE TRIGGER audit_recordings_changes
+AFTER UPDATE OR DELETE ON public.recordings
+FOR EACH ROW
+EXECUTE FUNCTION public.log_audit_change();
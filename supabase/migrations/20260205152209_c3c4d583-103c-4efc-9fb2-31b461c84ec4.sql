@@ -0,0 +1,59 @@
+-- Every camera status transition, so uptime and outages can be reported after the fact
+CREATE TABLE public.camera_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE NOT NULL,
+    status TEXT NOT NULL,
+    previous_status TEXT,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_camera_status_history_camera_changed ON public.camera_status_history (camera_id, changed_at DESC);
+
+ALTER TABLE public.camera_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization camera status history"
+ON public.camera_status_history FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'viewer'));
+
+-- Written by trigger so heartbeat-checker, camera-ping, recording functions and
+-- mark_camera_offline are all captured
+CREATE OR REPLACE FUNCTION public.record_camera_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.camera_status_history (camera_id, status, previous_status)
+    VALUES (NEW.id, NEW.status, CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_camera_status_change
+AFTER INSERT OR UPDATE OF status ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.record_camera_status_change();
+
+-- Seed current state so reports have a starting point
+INSERT INTO public.camera_status_history (camera_id, status, changed_at)
+SELECT id, status, now()
+FROM public.cameras;
+
+-- Status of each visible camera at a point in time (start of a report range)
+CREATE OR REPLACE FUNCTION public.camera_status_at(_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (camera_id UUID, status TEXT, changed_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (h.camera_id) h.camera_id, h.status, h.changed_at
+  FROM public.camera_status_history h
+  WHERE h.changed_at <= _at
+  ORDER BY h.camera_id, h.changed_at DESC
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.camera_status_history;
@@ -0,0 +1,74 @@
+-- Outbound alert rules: which events on which cameras go to which channel
+CREATE TABLE public.alert_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL
+        DEFAULT public.user_organization_id(auth.uid()),
+    name TEXT NOT NULL,
+    event_type TEXT NOT NULL CHECK (event_type IN ('camera_offline', 'camera_online', 'recording_started', 'recording_stopped')),
+    camera_ids UUID[] NOT NULL DEFAULT '{}', -- Empty = all cameras
+    channel TEXT NOT NULL CHECK (channel IN ('webhook', 'email', 'telegram')),
+    target TEXT NOT NULL, -- Webhook URL, email address or Telegram chat id
+    quiet_start TIME, -- No deliveries between quiet_start and quiet_end (rule timezone)
+    quiet_end TIME,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    throttle_minutes INTEGER NOT NULL DEFAULT 15 CHECK (throttle_minutes >= 0),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_alert_rules_org_event ON public.alert_rules (organization_id, event_type) WHERE enabled;
+
+CREATE TRIGGER update_alert_rules_updated_at
+BEFORE UPDATE ON public.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per delivery attempt, including throttled and quiet-hours skips
+CREATE TABLE public.alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    rule_id UUID REFERENCES public.alert_rules(id) ON DELETE CASCADE NOT NULL,
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL,
+    event_type TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'throttled', 'suppressed')),
+    error TEXT,
+    payload JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_alert_deliveries_rule_camera ON public.alert_deliveries (rule_id, camera_id, created_at DESC);
+CREATE INDEX idx_alert_deliveries_org_created ON public.alert_deliveries (organization_id, created_at DESC);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view organization alert rules"
+ON public.alert_rules FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can insert organization alert rules"
+ON public.alert_rules FOR INSERT
+TO authenticated
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can update organization alert rules"
+ON public.alert_rules FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can delete organization alert rules"
+ON public.alert_rules FOR DELETE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- Deliveries are written by the alert-dispatcher function (service role)
+CREATE POLICY "Admins can view organization alert deliveries"
+ON public.alert_deliveries FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alert_rules;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alert_deliveries;
@@ -0,0 +1,137 @@
+-- Persistent notification inbox: one row per organisation member, so read state is per user.
+-- Rows created for the same event share an incident_id; acknowledging covers the whole team.
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    incident_id UUID NOT NULL,
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('camera_offline', 'camera_online', 'recording_started', 'recording_stopped')),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    read_at TIMESTAMP WITH TIME ZONE,
+    -- Offline incidents only: when the camera came back
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    acknowledged_by_email TEXT,
+    ack_comment TEXT
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
+CREATE INDEX idx_notifications_user_unread ON public.notifications (user_id) WHERE read_at IS NULL;
+CREATE INDEX idx_notifications_incident ON public.notifications (incident_id);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Fan a camera status transition out to every member of the camera's organisation
+CREATE OR REPLACE FUNCTION public.notify_camera_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _type TEXT;
+  _title TEXT;
+  _body TEXT;
+BEGIN
+  IF NEW.organization_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'offline' THEN
+    _type := 'camera_offline';
+    _title := 'Camera Offline';
+    _body := NEW.name || ' at ' || NEW.location || ' is disconnected';
+  ELSIF OLD.status = 'offline' THEN
+    _type := 'camera_online';
+    _title := 'Camera Online';
+    _body := NEW.name || ' at ' || NEW.location || ' is back online';
+
+    UPDATE public.notifications
+    SET resolved_at = now()
+    WHERE camera_id = NEW.id
+      AND type = 'camera_offline'
+      AND resolved_at IS NULL;
+  ELSIF NEW.status = 'recording' THEN
+    _type := 'recording_started';
+    _title := 'Recording Started';
+    _body := NEW.name || ' started recording';
+  ELSIF OLD.status = 'recording' THEN
+    _type := 'recording_stopped';
+    _title := 'Recording Stopped';
+    _body := NEW.name || ' stopped recording';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, organization_id, incident_id, camera_id, type, title, body)
+  SELECT m.user_id, NEW.organization_id, incident.id, NEW.id, _type, _title, _body
+  FROM public.organization_members m
+  CROSS JOIN (SELECT gen_random_uuid() AS id) incident
+  WHERE m.organization_id = NEW.organization_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_camera_status_change
+AFTER UPDATE OF status ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_camera_status_change();
+
+-- Acknowledge an offline incident for everyone who received it
+CREATE OR REPLACE FUNCTION public.acknowledge_notification(_notification_id UUID, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident_id UUID;
+  _organization_id UUID;
+BEGIN
+  SELECT incident_id, organization_id INTO _incident_id, _organization_id
+  FROM public.notifications
+  WHERE id = _notification_id
+    AND user_id = auth.uid()
+    AND type = 'camera_offline';
+
+  IF _incident_id IS NULL THEN
+    RAISE EXCEPTION 'Offline incident % not found', _notification_id;
+  END IF;
+
+  IF NOT public.has_org_role(auth.uid(), _organization_id, 'operator') THEN
+    RAISE EXCEPTION 'Only operators can acknowledge incidents';
+  END IF;
+
+  UPDATE public.notifications
+  SET acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      acknowledged_by_email = (SELECT email FROM auth.users WHERE id = auth.uid()),
+      ack_comment = NULLIF(btrim(left(_comment, 1000)), ''),
+      -- The acknowledging user has obviously seen it
+      read_at = CASE WHEN user_id = auth.uid() THEN COALESCE(read_at, now()) ELSE read_at END
+  WHERE incident_id = _incident_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
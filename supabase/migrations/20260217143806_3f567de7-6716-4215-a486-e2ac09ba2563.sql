@@ -0,0 +1,46 @@
+-- Web Push subscriptions, one row per browser the user opted in from
+CREATE TABLE public.push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    -- Event types this browser wants pushed
+    events TEXT[] NOT NULL DEFAULT ARRAY['camera_offline', 'motion_detected', 'recording_failed'],
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_error TEXT,
+    CONSTRAINT push_subscriptions_events_check
+      CHECK (events <@ ARRAY['camera_offline', 'motion_detected', 'recording_failed'])
+);
+
+CREATE INDEX idx_push_subscriptions_user ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
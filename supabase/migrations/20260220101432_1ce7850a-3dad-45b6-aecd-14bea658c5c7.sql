@@ -0,0 +1,56 @@
+COMMENT ON COLUMN public.cameras.stream_type IS 'Type of stream: mjpeg, hls, youtube or rtsp';
+
+-- RTSP login for a camera. RLS is enabled without policies, so only the service role
+-- (rtsp-gateway-sources) can read it; the browser writes it through the functions below.
+CREATE TABLE public.camera_stream_credentials (
+    camera_id UUID PRIMARY KEY REFERENCES public.cameras(id) ON DELETE CASCADE,
+    username TEXT NOT NULL,
+    password TEXT NOT NULL DEFAULT '',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.camera_stream_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_camera_stream_credentials_updated_at
+BEFORE UPDATE ON public.camera_stream_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Save or clear a camera's stream login. A NULL password keeps the stored one,
+-- a NULL username removes the credentials.
+CREATE OR REPLACE FUNCTION public.set_camera_stream_credentials(_camera_id UUID, _username TEXT, _password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_camera_role(auth.uid(), _camera_id, 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to update camera %', _camera_id;
+  END IF;
+
+  IF _username IS NULL THEN
+    DELETE FROM public.camera_stream_credentials WHERE camera_id = _camera_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.camera_stream_credentials (camera_id, username, password)
+  VALUES (_camera_id, _username, COALESCE(_password, ''))
+  ON CONFLICT (camera_id) DO UPDATE
+  SET username = EXCLUDED.username,
+      password = COALESCE(_password, public.camera_stream_credentials.password);
+END;
+$$;
+
+-- Lets the edit form say whether credentials are stored without returning them
+CREATE OR REPLACE FUNCTION public.camera_has_stream_credentials(_camera_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_camera_role(auth.uid(), _camera_id, 'admin')
+    AND EXISTS (SELECT 1 FROM public.camera_stream_credentials WHERE camera_id = _camera_id)
+$$;
@@ -0,0 +1 @@
+COMMENT ON COLUMN public.cameras.stream_type IS 'Type of stream: mjpeg, hls, youtube, rtsp or webrtc (WHEP endpoint URL)';
@@ -0,0 +1,43 @@
+-- Cameras found on the LAN by the ONVIF discovery agent, waiting to be added by an admin
+CREATE TABLE public.discovered_cameras (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    endpoint_reference TEXT NOT NULL, -- WS-Discovery endpoint address (urn:uuid:...), stable per device
+    address TEXT NOT NULL, -- IP or host the device answered from
+    xaddr TEXT, -- ONVIF device service URL
+    manufacturer TEXT,
+    model TEXT,
+    name TEXT, -- From the onvif://www.onvif.org/name/ scope
+    location TEXT, -- From the onvif://www.onvif.org/location/ scope
+    stream_uri TEXT, -- RTSP URI of the preferred (highest resolution) profile
+    resolution TEXT, -- e.g. 1920x1080
+    fps INTEGER,
+    profiles JSONB NOT NULL DEFAULT '[]', -- [{ token, name, encoding, stream_uri, width, height, fps }]
+    error TEXT, -- Set when the device was found but its profiles could not be read (e.g. needs a login)
+    agent TEXT, -- Host name of the agent that reported it
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL, -- Set once added
+    dismissed_at TIMESTAMP WITH TIME ZONE,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (organization_id, endpoint_reference)
+);
+
+ALTER TABLE public.discovered_cameras ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the onvif-discovery function (service role)
+CREATE POLICY "Admins can view discovered cameras"
+ON public.discovered_cameras FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can update discovered cameras"
+ON public.discovered_cameras FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can delete discovered cameras"
+ON public.discovered_cameras FOR DELETE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.discovered_cameras;
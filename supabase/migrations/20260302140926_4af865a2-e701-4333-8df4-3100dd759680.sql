@@ -0,0 +1,7 @@
+-- Pan/tilt/zoom control, relayed by the ptz-control function
+-- Shape: { enabled, protocol: 'onvif', endpoint, profileToken, credentials: 'stream' | 'none' }
+-- credentials = 'stream' logs in with the camera's row in camera_stream_credentials
+ALTER TABLE public.cameras
+ADD COLUMN IF NOT EXISTS ptz JSONB;
+
+COMMENT ON COLUMN public.cameras.ptz IS 'PTZ settings: protocol, ONVIF PTZ service endpoint, media profile token and which stored login to use';
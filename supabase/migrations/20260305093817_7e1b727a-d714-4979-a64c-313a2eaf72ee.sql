@@ -0,0 +1,26 @@
+-- Stream quality as measured by the browser players (reported with camera-ping),
+-- so configured fps/resolution can be compared with what viewers actually get
+CREATE TABLE public.camera_metrics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE NOT NULL,
+    reported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    fps NUMERIC(5, 2),
+    width INTEGER,
+    height INTEGER,
+    bitrate_kbps INTEGER,
+    latency_ms INTEGER,
+    time_to_first_frame_ms INTEGER,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_camera_metrics_camera_recorded ON public.camera_metrics (camera_id, recorded_at DESC);
+
+ALTER TABLE public.camera_metrics ENABLE ROW LEVEL SECURITY;
+
+-- Inserted by camera-ping with the service role only
+CREATE POLICY "Members can view organization camera metrics"
+ON public.camera_metrics FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'viewer'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.camera_metrics;
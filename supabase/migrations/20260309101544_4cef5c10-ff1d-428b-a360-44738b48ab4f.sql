@@ -0,0 +1,10 @@
+-- Server-side stream probing (camera-prober, run by pg_cron). Config shape:
+-- { "enabled": true, "intervalSeconds": 60, "failureThreshold": 3, "timeoutSeconds": 10 }
+-- NULL means the defaults; YouTube cameras are never probed
+ALTER TABLE public.cameras ADD COLUMN IF NOT EXISTS probe JSONB;
+ALTER TABLE public.cameras ADD COLUMN IF NOT EXISTS last_probe_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.cameras ADD COLUMN IF NOT EXISTS last_probe_error TEXT;
+ALTER TABLE public.cameras ADD COLUMN IF NOT EXISTS probe_failures INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.cameras.probe IS 'Server-side probe settings: enabled, intervalSeconds, failureThreshold, timeoutSeconds';
+COMMENT ON COLUMN public.cameras.probe_failures IS 'Consecutive failed probes; the camera goes offline when this reaches failureThreshold';
@@ -0,0 +1,163 @@
+-- API keys that let cameras and Raspberry Pi agents call camera-ping / device-status
+-- without a user session. Only a SHA-256 hash is stored; the key is shown once when
+-- created or rotated.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.device_api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    -- NULL: the key may ping any camera of the organisation (e.g. a Raspberry Pi recorder)
+    camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_device_api_keys_organization ON public.device_api_keys (organization_id);
+
+ALTER TABLE public.device_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created, rotated and revoked through the functions below
+CREATE POLICY "Admins can view organization device keys"
+ON public.device_api_keys FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+-- Latest report from each device (device-status function)
+CREATE TABLE public.device_status (
+    api_key_id UUID PRIMARY KEY REFERENCES public.device_api_keys(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+    hostname TEXT,
+    disk_total_bytes BIGINT,
+    disk_free_bytes BIGINT,
+    temperature_c NUMERIC(5, 1),
+    uptime_seconds BIGINT,
+    reported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.device_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view organization device status"
+ON public.device_status FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE OR REPLACE FUNCTION public.generate_device_api_key()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT 'cctv_' || encode(extensions.gen_random_bytes(32), 'hex')
+$$;
+
+-- Create a key for the caller's organisation, optionally bound to one camera.
+-- Returns the plain key; it cannot be read again.
+CREATE OR REPLACE FUNCTION public.create_device_api_key(_name TEXT, _camera_id UUID)
+RETURNS TABLE (id UUID, api_key TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id UUID := public.user_organization_id(auth.uid());
+  _key TEXT := public.generate_device_api_key();
+  _id UUID;
+BEGIN
+  IF _org_id IS NULL OR NOT public.has_org_role(auth.uid(), _org_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create device keys';
+  END IF;
+
+  IF _camera_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.cameras c WHERE c.id = _camera_id AND c.organization_id = _org_id
+  ) THEN
+    RAISE EXCEPTION 'Camera % not found', _camera_id;
+  END IF;
+
+  INSERT INTO public.device_api_keys (organization_id, camera_id, name, key_prefix, key_hash, created_by)
+  VALUES (_org_id, _camera_id, trim(_name), left(_key, 13), encode(sha256(convert_to(_key, 'UTF8')), 'hex'), auth.uid())
+  RETURNING device_api_keys.id INTO _id;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, actor_email, action, camera_id, target_type, target_id, diff)
+  SELECT _org_id, auth.uid(), u.email, 'device_key.create', _camera_id, 'device_key', _id::text,
+         jsonb_build_object('name', trim(_name), 'key_prefix', left(_key, 13))
+  FROM (SELECT 1) AS one
+  LEFT JOIN auth.users u ON u.id = auth.uid();
+
+  RETURN QUERY SELECT _id, _key;
+END;
+$$;
+
+-- Replace a key's secret; the old one stops working immediately
+CREATE OR REPLACE FUNCTION public.rotate_device_api_key(_key_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.device_api_keys%ROWTYPE;
+  _key TEXT := public.generate_device_api_key();
+BEGIN
+  SELECT * INTO _row FROM public.device_api_keys WHERE id = _key_id;
+
+  IF _row.id IS NULL OR NOT public.has_org_role(auth.uid(), _row.organization_id, 'admin') THEN
+    RAISE EXCEPTION 'Device key % not found', _key_id;
+  END IF;
+
+  IF _row.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Device key % is revoked', _key_id;
+  END IF;
+
+  UPDATE public.device_api_keys
+  SET key_prefix = left(_key, 13),
+      key_hash = encode(sha256(convert_to(_key, 'UTF8')), 'hex'),
+      rotated_at = now()
+  WHERE id = _key_id;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, actor_email, action, camera_id, target_type, target_id, diff)
+  SELECT _row.organization_id, auth.uid(), u.email, 'device_key.rotate', _row.camera_id, 'device_key', _key_id::text,
+         jsonb_build_object('name', _row.name, 'key_prefix', left(_key, 13))
+  FROM (SELECT 1) AS one
+  LEFT JOIN auth.users u ON u.id = auth.uid();
+
+  RETURN _key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_device_api_key(_key_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.device_api_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO _row FROM public.device_api_keys WHERE id = _key_id;
+
+  IF _row.id IS NULL OR NOT public.has_org_role(auth.uid(), _row.organization_id, 'admin') THEN
+    RAISE EXCEPTION 'Device key % not found', _key_id;
+  END IF;
+
+  IF _row.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.device_api_keys SET revoked_at = now() WHERE id = _key_id;
+
+  INSERT INTO public.audit_log (organization_id, actor_id, actor_email, action, camera_id, target_type, target_id, diff)
+  SELECT _row.organization_id, auth.uid(), u.email, 'device_key.revoke', _row.camera_id, 'device_key', _key_id::text,
+         jsonb_build_object('name', _row.name, 'key_prefix', _row.key_prefix)
+  FROM (SELECT 1) AS one
+  LEFT JOIN auth.users u ON u.id = auth.uid();
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.device_api_keys;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.device_status;
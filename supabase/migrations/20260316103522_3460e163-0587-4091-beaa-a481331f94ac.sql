@@ -0,0 +1,75 @@
+-- Raspberry Pi (or other) recorders that record MJPEG cameras server-side. Replaces the
+-- hardcoded api.cctvgreen.site base URL and the camN.cctvgreen.site host convention.
+CREATE TABLE public.recorder_nodes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL
+      DEFAULT public.user_organization_id(auth.uid()),
+    name TEXT NOT NULL,
+    base_url TEXT NOT NULL CHECK (base_url ~ '^https?://'),
+    -- Name of the edge function secret holding the node's API key. Restricted to RPI_API_KEY*
+    -- so a node can never be pointed at another function secret.
+    api_key_secret TEXT NOT NULL DEFAULT 'RPI_API_KEY' CHECK (api_key_secret ~ '^RPI_API_KEY(_[A-Z0-9_]+)?$'),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Health, kept up to date by the recorder node checker
+    status TEXT NOT NULL DEFAULT 'unknown' CHECK (status IN ('unknown', 'online', 'offline')),
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (organization_id, name)
+);
+
+CREATE INDEX idx_recorder_nodes_organization ON public.recorder_nodes (organization_id);
+
+ALTER TABLE public.recorder_nodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization recorder nodes"
+ON public.recorder_nodes FOR SELECT
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'viewer'));
+
+CREATE POLICY "Admins can insert organization recorder nodes"
+ON public.recorder_nodes FOR INSERT
+TO authenticated
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can update organization recorder nodes"
+ON public.recorder_nodes FOR UPDATE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE POLICY "Admins can delete organization recorder nodes"
+ON public.recorder_nodes FOR DELETE
+TO authenticated
+USING (public.has_org_role(auth.uid(), organization_id, 'admin'));
+
+CREATE TRIGGER update_recorder_nodes_updated_at
+BEFORE UPDATE ON public.recorder_nodes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which node records a camera, and the camera's id on that node (e.g. cam1)
+ALTER TABLE public.cameras
+ADD COLUMN recorder_node_id UUID REFERENCES public.recorder_nodes(id) ON DELETE SET NULL,
+ADD COLUMN recorder_camera_id TEXT CHECK (recorder_camera_id ~ '^[A-Za-z0-9_-]{1,64}$');
+
+CREATE INDEX idx_cameras_recorder_node ON public.cameras (recorder_node_id);
+
+COMMENT ON COLUMN public.cameras.recorder_camera_id IS 'Camera id on the recorder node, used in its /recording/* and /recordings/* paths';
+
+-- Existing setup: one Raspberry Pi at api.cctvgreen.site serving camN.cctvgreen.site streams
+INSERT INTO public.recorder_nodes (organization_id, name, base_url, api_key_secret)
+SELECT DISTINCT c.organization_id, 'Raspberry Pi (cctvgreen.site)', 'https://api.cctvgreen.site', 'RPI_API_KEY'
+FROM public.cameras c
+WHERE c.organization_id IS NOT NULL
+  AND c.stream_url ~ '^https?://cam[0-9]+\.cctvgreen\.site';
+
+UPDATE public.cameras c
+SET recorder_node_id = n.id,
+    recorder_camera_id = substring(c.stream_url from '^https?://(cam[0-9]+)\.cctvgreen\.site')
+FROM public.recorder_nodes n
+WHERE n.organization_id = c.organization_id
+  AND n.base_url = 'https://api.cctvgreen.site'
+  AND c.stream_url ~ '^https?://cam[0-9]+\.cctvgreen\.site';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.recorder_nodes;
@@ -0,0 +1,10 @@
+-- Recorder node health reported by recorder-monitor (run by pg_cron)
+ALTER TABLE public.recorder_nodes
+  -- Recorder camera ids (cameras.recorder_camera_id) currently recording on the node
+  ADD COLUMN recording_cameras TEXT[] NOT NULL DEFAULT '{}',
+  -- Only filled when the recorder reports them in its status response
+  ADD COLUMN disk_free_bytes BIGINT,
+  ADD COLUMN disk_total_bytes BIGINT,
+  -- HTTP status of the last failed check; 530 means the Cloudflare tunnel is down
+  ADD COLUMN last_status_code INTEGER,
+  ADD COLUMN last_online_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,14 @@
+-- Recordings made on recorder nodes are catalogued by recording-sync. 'browser' rows are
+-- uploaded by the app; 'rpi' rows point at a file on a recorder until it is imported into
+-- Storage (file_url and imported_at are set then).
+ALTER TABLE public.recordings
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'browser' CHECK (source IN ('browser', 'rpi')),
+  ADD COLUMN recorder_node_id UUID REFERENCES public.recorder_nodes(id) ON DELETE SET NULL,
+  ADD COLUMN remote_cam TEXT,
+  ADD COLUMN remote_filename TEXT,
+  ADD COLUMN remote_mtime TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN imported_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per recorder file, so repeated syncs never duplicate (NULLs never conflict)
+ALTER TABLE public.recordings
+  ADD CONSTRAINT recordings_camera_remote_filename_key UNIQUE (camera_id, remote_filename);
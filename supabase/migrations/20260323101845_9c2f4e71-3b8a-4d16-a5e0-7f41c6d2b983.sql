@@ -0,0 +1,29 @@
+-- Per-camera state of the recording-scheduler: a row exists while the scheduler keeps a
+-- camera recording, independent of the schedules that started it, so deleting or editing
+-- the responsible schedule still lets the scheduler stop the recording
+CREATE TABLE public.scheduled_recordings (
+    camera_id UUID PRIMARY KEY REFERENCES public.cameras(id) ON DELETE CASCADE,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; only the scheduler (service role) writes
+ALTER TABLE public.scheduled_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can view organization scheduled recordings"
+ON public.scheduled_recordings FOR SELECT
+TO authenticated
+USING (public.has_camera_role(auth.uid(), camera_id, 'operator'));
+
+-- Carry over recordings the scheduler is keeping running right now
+INSERT INTO public.scheduled_recordings (camera_id, started_at)
+SELECT camera_id, MIN(active_since)
+FROM public.recording_schedules
+WHERE active_since IS NOT NULL
+GROUP BY camera_id;
+
+-- active_since and last_error are scheduler state; clients may only write the schedule itself
+REVOKE INSERT, UPDATE ON public.recording_schedules FROM anon, authenticated;
+GRANT INSERT (camera_id, name, weekdays, start_time, end_time, timezone, mode, enabled)
+ON public.recording_schedules TO authenticated;
+GRANT UPDATE (camera_id, name, weekdays, start_time, end_time, timezone, mode, enabled)
+ON public.recording_schedules TO authenticated;
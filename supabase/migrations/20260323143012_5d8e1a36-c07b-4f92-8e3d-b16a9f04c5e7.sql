@@ -0,0 +1,31 @@
+-- Invite-only sign-up is a deployment setting, not something any organisation admin can
+-- switch: every self-registered user administers a personal organisation
+CREATE TABLE public.deployment_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    invite_only BOOLEAN NOT NULL DEFAULT false,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- RLS without policies: only the service role (or SQL) changes it
+ALTER TABLE public.deployment_settings ENABLE ROW LEVEL SECURITY;
+
+-- Keep the deployment closed if it was closed before
+INSERT INTO public.deployment_settings (invite_only)
+SELECT EXISTS (SELECT 1 FROM public.organizations WHERE invite_only);
+
+CREATE TRIGGER update_deployment_settings_updated_at
+BEFORE UPDATE ON public.deployment_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.signup_allowed()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT COALESCE((SELECT invite_only FROM public.deployment_settings), false)
+$$;
+
+ALTER TABLE public.organizations DROP COLUMN invite_only;
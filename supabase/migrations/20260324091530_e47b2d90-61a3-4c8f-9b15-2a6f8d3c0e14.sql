@@ -0,0 +1,4 @@
+-- Members may only mark their notifications read; acknowledgement fields, resolution and
+-- content are written by acknowledge_notification and the notification triggers
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
@@ -0,0 +1,27 @@
+-- camera_metrics gets a row per viewer, camera and minute; the app only charts the last day,
+-- so keep a week and drop the rest nightly
+CREATE INDEX idx_camera_metrics_recorded ON public.camera_metrics (recorded_at);
+
+CREATE OR REPLACE FUNCTION public.purge_camera_metrics(_keep INTERVAL DEFAULT INTERVAL '7 days')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.camera_metrics WHERE recorded_at < now() - _keep;
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_camera_metrics(INTERVAL) FROM public, anon, authenticated;
+
+-- pg_cron is enabled by the recording schedules migration
+SELECT cron.schedule(
+  'camera-metrics-purge',
+  '40 3 * * *',
+  $$SELECT public.purge_camera_metrics()$$
+);
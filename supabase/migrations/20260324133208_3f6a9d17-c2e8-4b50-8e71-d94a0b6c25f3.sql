@@ -0,0 +1,32 @@
+-- recorder_nodes RLS only covers the node row, so a camera could name another organisation's node
+-- and have its recorder driven through mjpeg-recording, rpi-file-proxy and recording-sync
+CREATE OR REPLACE FUNCTION public.check_camera_recorder_node()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.recorder_node_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.recorder_nodes n
+    WHERE n.id = NEW.recorder_node_id
+      AND n.organization_id IS NOT DISTINCT FROM NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Recorder node belongs to another organisation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Unlink any mapping made before the check existed
+UPDATE public.cameras c
+SET recorder_node_id = NULL
+FROM public.recorder_nodes n
+WHERE n.id = c.recorder_node_id
+  AND n.organization_id IS DISTINCT FROM c.organization_id;
+
+CREATE TRIGGER check_camera_recorder_node
+BEFORE INSERT OR UPDATE OF recorder_node_id, organization_id ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.check_camera_recorder_node();
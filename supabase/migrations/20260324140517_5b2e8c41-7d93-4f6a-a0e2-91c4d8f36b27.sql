@@ -0,0 +1,2 @@
+-- Recorder files and long browser recordings can exceed 2 GiB
+ALTER TABLE public.recordings ALTER COLUMN size TYPE BIGINT;